@@ -0,0 +1,13 @@
+-- CreateEnum
+CREATE TYPE "RefundStatus" AS ENUM ('pending', 'requires_action', 'succeeded', 'failed', 'canceled');
+
+-- AlterTable
+ALTER TABLE "Refund" ADD COLUMN     "applicationFeeRefundId" VARCHAR(255),
+ADD COLUMN     "status" "RefundStatus" NOT NULL DEFAULT 'pending',
+ADD COLUMN     "transferReversalId" VARCHAR(255);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Refund_transferReversalId_key" ON "Refund"("transferReversalId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Refund_applicationFeeRefundId_key" ON "Refund"("applicationFeeRefundId");
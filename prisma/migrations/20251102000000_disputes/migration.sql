@@ -0,0 +1,37 @@
+-- CreateEnum
+CREATE TYPE "DisputeStatus" AS ENUM ('warning_needs_response', 'warning_under_review', 'warning_closed', 'needs_response', 'under_review', 'won', 'lost', 'prevented');
+
+-- CreateTable
+CREATE TABLE "Dispute" (
+    "id" TEXT NOT NULL,
+    "orderId" TEXT NOT NULL,
+    "stripeDisputeId" VARCHAR(255) NOT NULL,
+    "chargeId" VARCHAR(255) NOT NULL,
+    "amount" INTEGER NOT NULL,
+    "currency" VARCHAR(3) NOT NULL,
+    "status" "DisputeStatus" NOT NULL,
+    "reason" VARCHAR(64) NOT NULL,
+    "evidenceDueBy" TIMESTAMPTZ(6),
+    "evidenceSubmittedAt" TIMESTAMPTZ(6),
+    "fundsWithdrawnAt" TIMESTAMPTZ(6),
+    "fundsReinstatedAt" TIMESTAMPTZ(6),
+    "outcome" VARCHAR(32),
+    "closedAt" TIMESTAMPTZ(6),
+    "metadata" JSONB,
+    "createdAt" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMPTZ(6) NOT NULL,
+
+    CONSTRAINT "Dispute_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Dispute_stripeDisputeId_key" ON "Dispute"("stripeDisputeId");
+
+-- CreateIndex
+CREATE INDEX "Dispute_orderId_idx" ON "Dispute"("orderId");
+
+-- CreateIndex
+CREATE INDEX "Dispute_status_evidenceDueBy_idx" ON "Dispute"("status", "evidenceDueBy");
+
+-- AddForeignKey
+ALTER TABLE "Dispute" ADD CONSTRAINT "Dispute_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "Order"("id") ON DELETE CASCADE ON UPDATE CASCADE;
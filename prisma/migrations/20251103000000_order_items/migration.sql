@@ -0,0 +1,26 @@
+-- CreateTable
+CREATE TABLE "OrderItem" (
+    "id" TEXT NOT NULL,
+    "orderId" TEXT NOT NULL,
+    "position" INTEGER NOT NULL,
+    "priceId" VARCHAR(255) NOT NULL,
+    "productId" VARCHAR(255),
+    "description" VARCHAR(255),
+    "quantity" INTEGER NOT NULL,
+    "unitAmount" INTEGER NOT NULL,
+    "amount" INTEGER NOT NULL,
+    "platformFee" INTEGER NOT NULL,
+    "currency" VARCHAR(3) NOT NULL,
+    "createdAt" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "OrderItem_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "OrderItem_priceId_idx" ON "OrderItem"("priceId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "OrderItem_orderId_position_key" ON "OrderItem"("orderId", "position");
+
+-- AddForeignKey
+ALTER TABLE "OrderItem" ADD CONSTRAINT "OrderItem_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "Order"("id") ON DELETE CASCADE ON UPDATE CASCADE;
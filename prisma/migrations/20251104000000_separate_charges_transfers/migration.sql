@@ -0,0 +1,66 @@
+-- CreateEnum
+CREATE TYPE "TransferStatus" AS ENUM ('pending', 'paid', 'failed');
+
+-- DropIndex
+DROP INDEX "Order_chargeId_key";
+
+-- DropIndex
+DROP INDEX "Order_checkoutSessionId_key";
+
+-- DropIndex
+DROP INDEX "Order_paymentIntentId_key";
+
+-- AlterTable
+ALTER TABLE "Order" ADD COLUMN     "transferGroup" VARCHAR(255);
+
+-- CreateTable
+CREATE TABLE "Transfer" (
+    "id" TEXT NOT NULL,
+    "orderId" TEXT NOT NULL,
+    "sellerAccountId" TEXT NOT NULL,
+    "stripeTransferId" VARCHAR(255),
+    "transferGroup" VARCHAR(255) NOT NULL,
+    "sourceChargeId" VARCHAR(255),
+    "amount" INTEGER NOT NULL,
+    "currency" VARCHAR(3) NOT NULL,
+    "status" "TransferStatus" NOT NULL DEFAULT 'pending',
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "lastError" TEXT,
+    "createdAt" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMPTZ(6) NOT NULL,
+
+    CONSTRAINT "Transfer_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Transfer_orderId_key" ON "Transfer"("orderId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Transfer_stripeTransferId_key" ON "Transfer"("stripeTransferId");
+
+-- CreateIndex
+CREATE INDEX "Transfer_sellerAccountId_idx" ON "Transfer"("sellerAccountId");
+
+-- CreateIndex
+CREATE INDEX "Transfer_status_createdAt_idx" ON "Transfer"("status", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "Transfer_transferGroup_idx" ON "Transfer"("transferGroup");
+
+-- CreateIndex
+CREATE INDEX "Order_checkoutSessionId_idx" ON "Order"("checkoutSessionId");
+
+-- CreateIndex
+CREATE INDEX "Order_chargeId_idx" ON "Order"("chargeId");
+
+-- CreateIndex
+CREATE INDEX "Order_transferGroup_idx" ON "Order"("transferGroup");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Order_paymentIntentId_sellerAccountId_key" ON "Order"("paymentIntentId", "sellerAccountId");
+
+-- AddForeignKey
+ALTER TABLE "Transfer" ADD CONSTRAINT "Transfer_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "Order"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Transfer" ADD CONSTRAINT "Transfer_sellerAccountId_fkey" FOREIGN KEY ("sellerAccountId") REFERENCES "ConnectedAccount"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,31 @@
+-- CreateTable
+CREATE TABLE "FeeRule" (
+    "id" TEXT NOT NULL,
+    "name" VARCHAR(120) NOT NULL,
+    "sellerAccountId" TEXT,
+    "productId" VARCHAR(255),
+    "country" VARCHAR(2),
+    "percentBps" INTEGER NOT NULL DEFAULT 0,
+    "fixedAmount" INTEGER NOT NULL DEFAULT 0,
+    "minAmount" INTEGER,
+    "maxAmount" INTEGER,
+    "tiers" JSONB,
+    "priority" INTEGER NOT NULL DEFAULT 0,
+    "active" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMPTZ(6) NOT NULL,
+
+    CONSTRAINT "FeeRule_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "FeeRule_active_sellerAccountId_idx" ON "FeeRule"("active", "sellerAccountId");
+
+-- CreateIndex
+CREATE INDEX "FeeRule_active_productId_idx" ON "FeeRule"("active", "productId");
+
+-- CreateIndex
+CREATE INDEX "FeeRule_active_country_idx" ON "FeeRule"("active", "country");
+
+-- AddForeignKey
+ALTER TABLE "FeeRule" ADD CONSTRAINT "FeeRule_sellerAccountId_fkey" FOREIGN KEY ("sellerAccountId") REFERENCES "ConnectedAccount"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,12 @@
+-- AlterTable
+ALTER TABLE "WebhookEvent" ADD COLUMN     "attempts" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "lastAttemptAt" TIMESTAMPTZ(6),
+ADD COLUMN     "lastError" TEXT,
+ADD COLUMN     "lockedAt" TIMESTAMPTZ(6),
+ADD COLUMN     "nextAttemptAt" TIMESTAMPTZ(6);
+
+-- CreateIndex
+CREATE INDEX "WebhookEvent_processedAt_nextAttemptAt_idx" ON "WebhookEvent"("processedAt", "nextAttemptAt");
+
+-- Queue events that failed before the retry queue existed
+UPDATE "WebhookEvent" SET "nextAttemptAt" = CURRENT_TIMESTAMP WHERE "processedAt" IS NULL;
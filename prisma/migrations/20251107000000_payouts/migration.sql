@@ -0,0 +1,43 @@
+-- CreateEnum
+CREATE TYPE "PayoutStatus" AS ENUM ('pending', 'in_transit', 'paid', 'failed', 'canceled');
+
+-- AlterTable
+ALTER TABLE "Order" ADD COLUMN     "payoutId" TEXT;
+
+-- CreateTable
+CREATE TABLE "Payout" (
+    "id" TEXT NOT NULL,
+    "sellerAccountId" TEXT NOT NULL,
+    "stripePayoutId" VARCHAR(255) NOT NULL,
+    "amount" INTEGER NOT NULL,
+    "currency" VARCHAR(3) NOT NULL,
+    "status" "PayoutStatus" NOT NULL,
+    "arrivalDate" TIMESTAMPTZ(6),
+    "method" VARCHAR(16),
+    "automatic" BOOLEAN NOT NULL DEFAULT true,
+    "balanceTransactionId" VARCHAR(255),
+    "failureCode" VARCHAR(64),
+    "failureMessage" TEXT,
+    "createdAt" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMPTZ(6) NOT NULL,
+
+    CONSTRAINT "Payout_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Payout_stripePayoutId_key" ON "Payout"("stripePayoutId");
+
+-- CreateIndex
+CREATE INDEX "Payout_sellerAccountId_createdAt_idx" ON "Payout"("sellerAccountId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "Payout_status_idx" ON "Payout"("status");
+
+-- CreateIndex
+CREATE INDEX "Order_payoutId_idx" ON "Order"("payoutId");
+
+-- AddForeignKey
+ALTER TABLE "Order" ADD CONSTRAINT "Order_payoutId_fkey" FOREIGN KEY ("payoutId") REFERENCES "Payout"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Payout" ADD CONSTRAINT "Payout_sellerAccountId_fkey" FOREIGN KEY ("sellerAccountId") REFERENCES "ConnectedAccount"("id") ON DELETE CASCADE ON UPDATE CASCADE;
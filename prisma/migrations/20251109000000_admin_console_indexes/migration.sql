@@ -0,0 +1,8 @@
+-- CreateIndex
+CREATE INDEX "ConnectedAccount_createdAt_idx" ON "ConnectedAccount"("createdAt");
+
+-- CreateIndex
+CREATE INDEX "ConnectedAccount_country_createdAt_idx" ON "ConnectedAccount"("country", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "Order_sellerAccountId_createdAt_idx" ON "Order"("sellerAccountId", "createdAt");
@@ -0,0 +1,2 @@
+-- CreateIndex
+CREATE INDEX "ConnectedAccount_updatedAt_idx" ON "ConnectedAccount"("updatedAt");
@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "FeeRule" ADD COLUMN     "currency" VARCHAR(3);
+
+-- AlterTable
+ALTER TABLE "Order" ALTER COLUMN "currency" DROP DEFAULT;
+
+-- Existing amount-based rules were written for USD (the old single currency)
+UPDATE "FeeRule" SET "currency" = 'USD'
+WHERE "fixedAmount" <> 0 OR "minAmount" IS NOT NULL OR "maxAmount" IS NOT NULL OR "tiers" IS NOT NULL;
@@ -0,0 +1,97 @@
+-- CreateEnum
+CREATE TYPE "LedgerAccount" AS ENUM ('stripe_balance', 'fee_revenue', 'fee_refunds', 'processing_costs');
+
+-- CreateEnum
+CREATE TYPE "LedgerEntryType" AS ENUM ('application_fee', 'application_fee_refund', 'processing_fee');
+
+-- CreateTable
+CREATE TABLE "ApplicationFee" (
+    "id" TEXT NOT NULL,
+    "orderId" TEXT,
+    "stripeFeeId" VARCHAR(255) NOT NULL,
+    "stripeAccountId" VARCHAR(255) NOT NULL,
+    "chargeId" VARCHAR(255) NOT NULL,
+    "amount" INTEGER NOT NULL,
+    "amountRefunded" INTEGER NOT NULL DEFAULT 0,
+    "currency" VARCHAR(3) NOT NULL,
+    "refunded" BOOLEAN NOT NULL DEFAULT false,
+    "balanceTransactionId" VARCHAR(255),
+    "collectedAt" TIMESTAMPTZ(6) NOT NULL,
+    "createdAt" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMPTZ(6) NOT NULL,
+
+    CONSTRAINT "ApplicationFee_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ApplicationFeeRefund" (
+    "id" TEXT NOT NULL,
+    "applicationFeeId" TEXT NOT NULL,
+    "stripeFeeRefundId" VARCHAR(255) NOT NULL,
+    "amount" INTEGER NOT NULL,
+    "currency" VARCHAR(3) NOT NULL,
+    "balanceTransactionId" VARCHAR(255),
+    "metadata" JSONB,
+    "refundedAt" TIMESTAMPTZ(6) NOT NULL,
+    "createdAt" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMPTZ(6) NOT NULL,
+
+    CONSTRAINT "ApplicationFeeRefund_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "LedgerEntry" (
+    "id" TEXT NOT NULL,
+    "type" "LedgerEntryType" NOT NULL,
+    "sourceId" VARCHAR(255) NOT NULL,
+    "debitAccount" "LedgerAccount" NOT NULL,
+    "creditAccount" "LedgerAccount" NOT NULL,
+    "amount" INTEGER NOT NULL,
+    "currency" VARCHAR(3) NOT NULL,
+    "description" VARCHAR(255),
+    "chargeId" VARCHAR(255),
+    "orderId" TEXT,
+    "occurredAt" TIMESTAMPTZ(6) NOT NULL,
+    "createdAt" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "LedgerEntry_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ApplicationFee_stripeFeeId_key" ON "ApplicationFee"("stripeFeeId");
+
+-- CreateIndex
+CREATE INDEX "ApplicationFee_orderId_idx" ON "ApplicationFee"("orderId");
+
+-- CreateIndex
+CREATE INDEX "ApplicationFee_chargeId_idx" ON "ApplicationFee"("chargeId");
+
+-- CreateIndex
+CREATE INDEX "ApplicationFee_collectedAt_idx" ON "ApplicationFee"("collectedAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ApplicationFeeRefund_stripeFeeRefundId_key" ON "ApplicationFeeRefund"("stripeFeeRefundId");
+
+-- CreateIndex
+CREATE INDEX "ApplicationFeeRefund_applicationFeeId_idx" ON "ApplicationFeeRefund"("applicationFeeId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "LedgerEntry_type_sourceId_key" ON "LedgerEntry"("type", "sourceId");
+
+-- CreateIndex
+CREATE INDEX "LedgerEntry_occurredAt_idx" ON "LedgerEntry"("occurredAt");
+
+-- CreateIndex
+CREATE INDEX "LedgerEntry_chargeId_idx" ON "LedgerEntry"("chargeId");
+
+-- CreateIndex
+CREATE INDEX "LedgerEntry_orderId_idx" ON "LedgerEntry"("orderId");
+
+-- AddForeignKey
+ALTER TABLE "ApplicationFee" ADD CONSTRAINT "ApplicationFee_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "Order"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ApplicationFeeRefund" ADD CONSTRAINT "ApplicationFeeRefund_applicationFeeId_fkey" FOREIGN KEY ("applicationFeeId") REFERENCES "ApplicationFee"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "LedgerEntry" ADD CONSTRAINT "LedgerEntry_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "Order"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,5 @@
+-- CreateIndex
+CREATE INDEX "Refund_createdAt_idx" ON "Refund"("createdAt");
+
+-- CreateIndex
+CREATE INDEX "Payout_createdAt_idx" ON "Payout"("createdAt");
@@ -0,0 +1,58 @@
+-- AlterTable
+ALTER TABLE "OrderItem" ADD COLUMN     "listingId" TEXT;
+
+-- CreateTable
+CREATE TABLE "Product" (
+    "id" TEXT NOT NULL,
+    "sellerAccountId" TEXT NOT NULL,
+    "stripeProductId" VARCHAR(255) NOT NULL,
+    "name" VARCHAR(250) NOT NULL,
+    "description" VARCHAR(2000),
+    "imageUrl" VARCHAR(2048),
+    "active" BOOLEAN NOT NULL DEFAULT true,
+    "archivedAt" TIMESTAMPTZ(6),
+    "createdAt" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMPTZ(6) NOT NULL,
+
+    CONSTRAINT "Product_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "Listing" (
+    "id" TEXT NOT NULL,
+    "productId" TEXT NOT NULL,
+    "stripePriceId" VARCHAR(255) NOT NULL,
+    "unitAmount" INTEGER NOT NULL,
+    "currency" VARCHAR(3) NOT NULL,
+    "inventory" INTEGER,
+    "active" BOOLEAN NOT NULL DEFAULT true,
+    "archivedAt" TIMESTAMPTZ(6),
+    "createdAt" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMPTZ(6) NOT NULL,
+
+    CONSTRAINT "Listing_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "OrderItem_listingId_idx" ON "OrderItem"("listingId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Product_stripeProductId_key" ON "Product"("stripeProductId");
+
+-- CreateIndex
+CREATE INDEX "Product_sellerAccountId_active_idx" ON "Product"("sellerAccountId", "active");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Listing_stripePriceId_key" ON "Listing"("stripePriceId");
+
+-- CreateIndex
+CREATE INDEX "Listing_productId_active_idx" ON "Listing"("productId", "active");
+
+-- AddForeignKey
+ALTER TABLE "OrderItem" ADD CONSTRAINT "OrderItem_listingId_fkey" FOREIGN KEY ("listingId") REFERENCES "Listing"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Product" ADD CONSTRAINT "Product_sellerAccountId_fkey" FOREIGN KEY ("sellerAccountId") REFERENCES "ConnectedAccount"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Listing" ADD CONSTRAINT "Listing_productId_fkey" FOREIGN KEY ("productId") REFERENCES "Product"("id") ON DELETE CASCADE ON UPDATE CASCADE;
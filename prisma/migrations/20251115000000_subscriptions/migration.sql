@@ -0,0 +1,72 @@
+-- CreateEnum
+CREATE TYPE "RecurringInterval" AS ENUM ('day', 'week', 'month', 'year');
+
+-- CreateEnum
+CREATE TYPE "SubscriptionStatus" AS ENUM ('incomplete', 'incomplete_expired', 'trialing', 'active', 'past_due', 'canceled', 'unpaid', 'paused');
+
+-- AlterTable
+ALTER TABLE "Listing" ADD COLUMN     "interval" "RecurringInterval";
+
+-- AlterTable
+ALTER TABLE "Order" ADD COLUMN     "invoiceId" VARCHAR(255),
+ADD COLUMN     "subscriptionId" TEXT;
+
+-- CreateTable
+CREATE TABLE "Subscription" (
+    "id" TEXT NOT NULL,
+    "stripeSubscriptionId" VARCHAR(255) NOT NULL,
+    "customerId" VARCHAR(255) NOT NULL,
+    "checkoutSessionId" VARCHAR(255),
+    "buyerId" TEXT,
+    "sellerAccountId" TEXT NOT NULL,
+    "listingId" TEXT,
+    "priceId" VARCHAR(255) NOT NULL,
+    "quantity" INTEGER NOT NULL DEFAULT 1,
+    "currency" VARCHAR(3) NOT NULL,
+    "applicationFeePercent" DOUBLE PRECISION,
+    "status" "SubscriptionStatus" NOT NULL,
+    "currentPeriodStart" TIMESTAMPTZ(6),
+    "currentPeriodEnd" TIMESTAMPTZ(6),
+    "cancelAtPeriodEnd" BOOLEAN NOT NULL DEFAULT false,
+    "canceledAt" TIMESTAMPTZ(6),
+    "endedAt" TIMESTAMPTZ(6),
+    "latestInvoiceId" VARCHAR(255),
+    "metadata" JSONB,
+    "createdAt" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMPTZ(6) NOT NULL,
+
+    CONSTRAINT "Subscription_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Order_invoiceId_key" ON "Order"("invoiceId");
+
+-- CreateIndex
+CREATE INDEX "Order_subscriptionId_idx" ON "Order"("subscriptionId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Subscription_stripeSubscriptionId_key" ON "Subscription"("stripeSubscriptionId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Subscription_checkoutSessionId_key" ON "Subscription"("checkoutSessionId");
+
+-- CreateIndex
+CREATE INDEX "Subscription_sellerAccountId_status_idx" ON "Subscription"("sellerAccountId", "status");
+
+-- CreateIndex
+CREATE INDEX "Subscription_buyerId_idx" ON "Subscription"("buyerId");
+
+-- CreateIndex
+CREATE INDEX "Subscription_customerId_idx" ON "Subscription"("customerId");
+
+-- AddForeignKey
+ALTER TABLE "Order" ADD CONSTRAINT "Order_subscriptionId_fkey" FOREIGN KEY ("subscriptionId") REFERENCES "Subscription"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Subscription" ADD CONSTRAINT "Subscription_buyerId_fkey" FOREIGN KEY ("buyerId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Subscription" ADD CONSTRAINT "Subscription_sellerAccountId_fkey" FOREIGN KEY ("sellerAccountId") REFERENCES "ConnectedAccount"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Subscription" ADD CONSTRAINT "Subscription_listingId_fkey" FOREIGN KEY ("listingId") REFERENCES "Listing"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,11 @@
+-- CreateEnum
+CREATE TYPE "ChargeModel" AS ENUM ('destination', 'direct', 'separate');
+
+-- AlterTable
+ALTER TABLE "ConnectedAccount" ADD COLUMN     "chargeModel" "ChargeModel" NOT NULL DEFAULT 'destination';
+
+-- AlterTable
+ALTER TABLE "Order" ADD COLUMN     "chargeModel" "ChargeModel" NOT NULL DEFAULT 'destination';
+
+-- Backfill: multi-seller sub-orders are separate charges & transfers
+UPDATE "Order" SET "chargeModel" = 'separate' WHERE "transferGroup" IS NOT NULL;
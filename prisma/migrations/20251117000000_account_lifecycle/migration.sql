@@ -0,0 +1,7 @@
+-- CreateEnum
+CREATE TYPE "AccountRejectReason" AS ENUM ('fraud', 'terms_of_service', 'other');
+
+-- AlterTable
+ALTER TABLE "ConnectedAccount" ADD COLUMN     "deletedAt" TIMESTAMPTZ(6),
+ADD COLUMN     "rejectReason" "AccountRejectReason",
+ADD COLUMN     "rejectedAt" TIMESTAMPTZ(6);
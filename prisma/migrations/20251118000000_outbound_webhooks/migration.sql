@@ -0,0 +1,85 @@
+-- CreateTable
+CREATE TABLE "OutboundEndpoint" (
+    "id" TEXT NOT NULL,
+    "url" VARCHAR(2048) NOT NULL,
+    "description" VARCHAR(255),
+    "secret" VARCHAR(255) NOT NULL,
+    "enabledEvents" TEXT[],
+    "active" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMPTZ(6) NOT NULL,
+
+    CONSTRAINT "OutboundEndpoint_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "OutboundEvent" (
+    "id" TEXT NOT NULL,
+    "type" VARCHAR(64) NOT NULL,
+    "dedupeKey" VARCHAR(255),
+    "payload" JSONB NOT NULL,
+    "createdAt" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "OutboundEvent_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "OutboundDelivery" (
+    "id" TEXT NOT NULL,
+    "eventId" TEXT NOT NULL,
+    "endpointId" TEXT NOT NULL,
+    "deliveredAt" TIMESTAMPTZ(6),
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "lastStatusCode" INTEGER,
+    "lastError" TEXT,
+    "lastAttemptAt" TIMESTAMPTZ(6),
+    "nextAttemptAt" TIMESTAMPTZ(6),
+    "lockedAt" TIMESTAMPTZ(6),
+    "createdAt" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "OutboundDelivery_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "OutboundDeliveryAttempt" (
+    "id" TEXT NOT NULL,
+    "deliveryId" TEXT NOT NULL,
+    "attempt" INTEGER NOT NULL,
+    "statusCode" INTEGER,
+    "responseBody" TEXT,
+    "error" TEXT,
+    "durationMs" INTEGER NOT NULL,
+    "createdAt" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "OutboundDeliveryAttempt_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "OutboundEndpoint_active_idx" ON "OutboundEndpoint"("active");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "OutboundEvent_dedupeKey_key" ON "OutboundEvent"("dedupeKey");
+
+-- CreateIndex
+CREATE INDEX "OutboundEvent_type_createdAt_idx" ON "OutboundEvent"("type", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "OutboundDelivery_deliveredAt_nextAttemptAt_idx" ON "OutboundDelivery"("deliveredAt", "nextAttemptAt");
+
+-- CreateIndex
+CREATE INDEX "OutboundDelivery_endpointId_createdAt_idx" ON "OutboundDelivery"("endpointId", "createdAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "OutboundDelivery_eventId_endpointId_key" ON "OutboundDelivery"("eventId", "endpointId");
+
+-- CreateIndex
+CREATE INDEX "OutboundDeliveryAttempt_deliveryId_createdAt_idx" ON "OutboundDeliveryAttempt"("deliveryId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "OutboundDelivery" ADD CONSTRAINT "OutboundDelivery_eventId_fkey" FOREIGN KEY ("eventId") REFERENCES "OutboundEvent"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "OutboundDelivery" ADD CONSTRAINT "OutboundDelivery_endpointId_fkey" FOREIGN KEY ("endpointId") REFERENCES "OutboundEndpoint"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "OutboundDeliveryAttempt" ADD CONSTRAINT "OutboundDeliveryAttempt_deliveryId_fkey" FOREIGN KEY ("deliveryId") REFERENCES "OutboundDelivery"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "Order" ADD COLUMN     "oversoldAt" TIMESTAMPTZ(6);
@@ -0,0 +1,3 @@
+-- AlterEnum: platform share kept from separate-charge (multi-seller) orders, and its refunded part
+ALTER TYPE "LedgerEntryType" ADD VALUE 'platform_share';
+ALTER TYPE "LedgerEntryType" ADD VALUE 'platform_share_refund';
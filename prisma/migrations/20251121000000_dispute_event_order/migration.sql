@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "Dispute" ADD COLUMN     "lastEventAt" TIMESTAMPTZ(6);
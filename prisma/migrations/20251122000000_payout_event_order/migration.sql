@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "Payout" ADD COLUMN     "lastEventAt" TIMESTAMPTZ(6);
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "Transfer" ADD COLUMN     "lockedAt" TIMESTAMPTZ(6);
@@ -0,0 +1,93 @@
+// src/components/admin/AccountsTable.tsx
+// Connected accounts tab (GET /api/connect/list-accounts): flags, country, requirements, email
+import { useState } from "react";
+import Table, { FilterSelect, StripeLink } from "./Table";
+import { usePagedList } from "./usePagedList";
+
+type AccountRow = {
+    stripeAccountId: string;
+    user: { email: string; name: string | null };
+    chargesEnabled: boolean;
+    payoutsEnabled: boolean;
+    detailsSubmitted: boolean;
+    country: string | null;
+    requirementsDue: string[];
+    createdAt: string;
+    stripeUrl: string;
+};
+
+const YES_NO: [string, string][] = [["", "Any"], ["true", "Yes"], ["false", "No"]];
+const flag = (on: boolean) => (on ? "✓" : "—");
+
+export default function AccountsTable() {
+    const [chargesEnabled, setChargesEnabled] = useState("");
+    const [payoutsEnabled, setPayoutsEnabled] = useState("");
+    const [detailsSubmitted, setDetailsSubmitted] = useState("");
+    const [requirementsDue, setRequirementsDue] = useState("");
+    const [country, setCountry] = useState("");
+    const [email, setEmail] = useState("");
+
+    const list = usePagedList<AccountRow>("/api/connect/list-accounts", {
+        chargesEnabled,
+        payoutsEnabled,
+        detailsSubmitted,
+        requirementsDue,
+        country: country.length === 2 ? country : undefined,
+        email: email.trim() || undefined,
+    });
+
+    return (
+        <div className="space-y-4">
+            <div className="flex flex-wrap gap-4">
+                <FilterSelect label="Charges" value={chargesEnabled} onChange={setChargesEnabled} options={YES_NO} />
+                <FilterSelect label="Payouts" value={payoutsEnabled} onChange={setPayoutsEnabled} options={YES_NO} />
+                <FilterSelect label="Details" value={detailsSubmitted} onChange={setDetailsSubmitted} options={YES_NO} />
+                <FilterSelect label="Requirements due" value={requirementsDue} onChange={setRequirementsDue} options={YES_NO} />
+                <label className="flex items-center gap-2 text-sm">
+                    <span className="text-gray-500">Country</span>
+                    <input
+                        value={country}
+                        onChange={(e) => setCountry(e.target.value.toUpperCase().slice(0, 2))}
+                        placeholder="US"
+                        className="w-14 rounded border border-gray-300 px-2 py-1"
+                    />
+                </label>
+                <label className="flex items-center gap-2 text-sm">
+                    <span className="text-gray-500">Email</span>
+                    <input
+                        value={email}
+                        onChange={(e) => setEmail(e.target.value)}
+                        placeholder="alice@"
+                        className="w-48 rounded border border-gray-300 px-2 py-1"
+                    />
+                </label>
+            </div>
+
+            <Table
+                columns={["Account", "Email", "Charges", "Payouts", "Details", "Due", "Country", "Created"]}
+                empty={list.rows.length === 0}
+                loading={list.loading}
+                error={list.error}
+                hasMore={list.hasMore}
+                onLoadMore={() => void list.loadMore()}
+            >
+                {list.rows.map((a) => (
+                    <tr key={a.stripeAccountId}>
+                        <td className="px-3 py-2">
+                            <StripeLink href={a.stripeUrl}>{a.stripeAccountId}</StripeLink>
+                        </td>
+                        <td className="px-3 py-2">{a.user.email}</td>
+                        <td className="px-3 py-2">{flag(a.chargesEnabled)}</td>
+                        <td className="px-3 py-2">{flag(a.payoutsEnabled)}</td>
+                        <td className="px-3 py-2">{flag(a.detailsSubmitted)}</td>
+                        <td className="px-3 py-2" title={a.requirementsDue.join("\n")}>
+                            {a.requirementsDue.length || "—"}
+                        </td>
+                        <td className="px-3 py-2">{a.country ?? "—"}</td>
+                        <td className="px-3 py-2">{new Date(a.createdAt).toLocaleString()}</td>
+                    </tr>
+                ))}
+            </Table>
+        </div>
+    );
+}
@@ -0,0 +1,94 @@
+// src/components/admin/OrdersTable.tsx
+// Orders tab (GET /api/orders): filter by paymentState, created date range and seller (acct_***)
+import { useState } from "react";
+import { formatMoney } from "@/lib/money";
+import Table, { FilterSelect, StripeLink } from "./Table";
+import { usePagedList } from "./usePagedList";
+
+type OrderRow = {
+    id: string;
+    stripeAccountId: string;
+    paymentIntentId: string;
+    paymentState: string;
+    amount: number;
+    platformFee: number;
+    amountRefunded: number;
+    currency: string;
+    oversoldAt: string | null;
+    createdAt: string;
+    stripeUrl: string;
+};
+
+const PAYMENT_STATES: [string, string][] = [
+    ["", "Any"],
+    ["processing", "Processing"],
+    ["succeeded", "Succeeded"],
+    ["failed", "Failed"],
+    ["refunded_partial", "Partially refunded"],
+    ["refunded_full", "Refunded"],
+];
+
+export default function OrdersTable() {
+    const [paymentState, setPaymentState] = useState("");
+    const [from, setFrom] = useState("");
+    const [to, setTo] = useState("");
+    const [seller, setSeller] = useState("");
+
+    const list = usePagedList<OrderRow>("/api/orders", {
+        paymentState,
+        from,
+        to,
+        stripeAccountId: seller.startsWith("acct_") ? seller : undefined,
+    });
+
+    return (
+        <div className="space-y-4">
+            <div className="flex flex-wrap gap-4 text-sm">
+                <FilterSelect label="Payment" value={paymentState} onChange={setPaymentState} options={PAYMENT_STATES} />
+                <label className="flex items-center gap-2">
+                    <span className="text-gray-500">From</span>
+                    <input type="date" value={from} onChange={(e) => setFrom(e.target.value)} className="rounded border border-gray-300 px-2 py-1" />
+                </label>
+                <label className="flex items-center gap-2">
+                    <span className="text-gray-500">To</span>
+                    <input type="date" value={to} onChange={(e) => setTo(e.target.value)} className="rounded border border-gray-300 px-2 py-1" />
+                </label>
+                <label className="flex items-center gap-2">
+                    <span className="text-gray-500">Seller</span>
+                    <input
+                        value={seller}
+                        onChange={(e) => setSeller(e.target.value.trim())}
+                        placeholder="acct_..."
+                        className="w-48 rounded border border-gray-300 px-2 py-1 font-mono"
+                    />
+                </label>
+            </div>
+
+            <Table
+                columns={["Payment", "Seller", "State", "Amount", "Fee", "Refunded", "Created"]}
+                empty={list.rows.length === 0}
+                loading={list.loading}
+                error={list.error}
+                hasMore={list.hasMore}
+                onLoadMore={() => void list.loadMore()}
+            >
+                {list.rows.map((o) => (
+                    <tr key={o.id}>
+                        <td className="px-3 py-2">
+                            <StripeLink href={o.stripeUrl}>{o.paymentIntentId}</StripeLink>
+                        </td>
+                        <td className="px-3 py-2 font-mono">{o.stripeAccountId}</td>
+                        <td className="px-3 py-2">
+                            {o.paymentState}
+                            {o.oversoldAt && <span className="ml-2 text-xs text-red-600">oversold</span>}
+                        </td>
+                        <td className="px-3 py-2">{formatMoney(o.amount, o.currency)}</td>
+                        <td className="px-3 py-2">{formatMoney(o.platformFee, o.currency)}</td>
+                        <td className="px-3 py-2">{o.amountRefunded ? formatMoney(o.amountRefunded, o.currency) : "—"}</td>
+                        <td className="px-3 py-2">{new Date(o.createdAt).toLocaleString()}</td>
+                    </tr>
+                ))}
+            </Table>
+        </div>
+    );
+}
@@ -0,0 +1,80 @@
+// src/components/admin/Table.tsx
+// Minimal table shell shared by the admin console tabs (header row, body, "Load more")
+import type { ReactNode } from "react";
+
+type Props = {
+    columns: string[];
+    children: ReactNode;
+    empty: boolean;
+    loading: boolean;
+    error: string | null;
+    hasMore: boolean;
+    onLoadMore: () => void;
+};
+
+export default function Table(props: Props) {
+    return (
+        <div className="space-y-3">
+            {props.error && <p className="text-sm text-red-600">{props.error}</p>}
+            <div className="overflow-x-auto rounded border border-gray-200">
+                <table className="min-w-full text-left text-sm">
+                    <thead className="bg-gray-50 text-gray-500">
+                        <tr>
+                            {props.columns.map((c) => (
+                                <th key={c} className="px-3 py-2 font-medium">
+                                    {c}
+                                </th>
+                            ))}
+                        </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-100">{props.children}</tbody>
+                </table>
+            </div>
+            {props.empty && !props.loading && <p className="text-sm text-gray-500">No results.</p>}
+            {props.hasMore && (
+                <button
+                    type="button"
+                    onClick={props.onLoadMore}
+                    disabled={props.loading}
+                    className="rounded border border-gray-300 px-3 py-1 text-sm disabled:opacity-50"
+                >
+                    {props.loading ? "Loading…" : "Load more"}
+                </button>
+            )}
+        </div>
+    );
+}
+
+/** Table cell linking out to the Stripe Dashboard */
+export function StripeLink({ href, children }: { href: string; children: ReactNode }) {
+    return (
+        <a href={href} target="_blank" rel="noreferrer" className="font-mono text-blue-600 hover:underline">
+            {children}
+        </a>
+    );
+}
+
+/** Styled <select> for "any / yes / no" style filters */
+export function FilterSelect(props: {
+    label: string;
+    value: string;
+    onChange: (v: string) => void;
+    options: [string, string][]; // [value, label]
+}) {
+    return (
+        <label className="flex items-center gap-2 text-sm">
+            <span className="text-gray-500">{props.label}</span>
+            <select
+                value={props.value}
+                onChange={(e) => props.onChange(e.target.value)}
+                className="rounded border border-gray-300 px-2 py-1"
+            >
+                {props.options.map(([v, l]) => (
+                    <option key={v} value={v}>
+                        {l}
+                    </option>
+                ))}
+            </select>
+        </label>
+    );
+}
@@ -0,0 +1,96 @@
+// src/components/admin/WebhookEventsTable.tsx
+// Webhook events tab: filter by type and processed state; replay failed/parked events
+import { useState } from "react";
+import { postJson } from "@/lib/client";
+import Table, { FilterSelect, StripeLink } from "./Table";
+import { usePagedList } from "./usePagedList";
+
+type EventRow = {
+    id: string;
+    stripeEventId: string;
+    type: string;
+    attempts: number;
+    lastError: string | null;
+    nextAttemptAt: string | null;
+    processedAt: string | null;
+    createdAt: string;
+    stripeUrl: string;
+};
+
+const STATES: [string, string][] = [
+    ["unprocessed", "Unprocessed"],
+    ["parked", "Parked"],
+    ["processed", "Processed"],
+    ["all", "All"],
+];
+
+export default function WebhookEventsTable() {
+    const [state, setState] = useState("unprocessed");
+    const [type, setType] = useState("");
+    const [replaying, setReplaying] = useState<string | null>(null);
+
+    const list = usePagedList<EventRow>("/api/admin/webhook-events", { state, type: type || undefined });
+
+    async function replay(id: string) {
+        setReplaying(id);
+        try {
+            await postJson("/api/admin/webhook-events/replay", { eventIds: [id] });
+        } finally {
+            setReplaying(null);
+            void list.reload();
+        }
+    }
+
+    return (
+        <div className="space-y-4">
+            <div className="flex flex-wrap gap-4 text-sm">
+                <FilterSelect label="State" value={state} onChange={setState} options={STATES} />
+                <label className="flex items-center gap-2">
+                    <span className="text-gray-500">Type</span>
+                    <input
+                        value={type}
+                        onChange={(e) => setType(e.target.value.trim())}
+                        placeholder="payment_intent.succeeded"
+                        className="w-64 rounded border border-gray-300 px-2 py-1 font-mono"
+                    />
+                </label>
+            </div>
+
+            <Table
+                columns={["Event", "Type", "Attempts", "Last error", "Next attempt", "Processed", ""]}
+                empty={list.rows.length === 0}
+                loading={list.loading}
+                error={list.error}
+                hasMore={list.hasMore}
+                onLoadMore={() => void list.loadMore()}
+            >
+                {list.rows.map((e) => (
+                    <tr key={e.id}>
+                        <td className="px-3 py-2">
+                            <StripeLink href={e.stripeUrl}>{e.stripeEventId}</StripeLink>
+                        </td>
+                        <td className="px-3 py-2 font-mono">{e.type}</td>
+                        <td className="px-3 py-2">{e.attempts}</td>
+                        <td className="max-w-xs truncate px-3 py-2 text-red-600" title={e.lastError ?? undefined}>
+                            {e.lastError ?? ""}
+                        </td>
+                        <td className="px-3 py-2">{e.nextAttemptAt ? new Date(e.nextAttemptAt).toLocaleString() : "—"}</td>
+                        <td className="px-3 py-2">{e.processedAt ? new Date(e.processedAt).toLocaleString() : "—"}</td>
+                        <td className="px-3 py-2">
+                            {!e.processedAt && (
+                                <button
+                                    type="button"
+                                    onClick={() => void replay(e.id)}
+                                    disabled={replaying !== null}
+                                    className="rounded border border-gray-300 px-2 py-1 disabled:opacity-50"
+                                >
+                                    {replaying === e.id ? "Replaying…" : "Replay"}
+                                </button>
+                            )}
+                        </td>
+                    </tr>
+                ))}
+            </Table>
+        </div>
+    );
+}
@@ -0,0 +1,55 @@
+// src/components/admin/usePagedList.ts
+// Cursor-paginated list state for admin tables: resets when filters change, appends on loadMore
+import { useCallback, useEffect, useState } from "react";
+import { getJson } from "@/lib/client";
+
+type Page<T> = { data: T[]; nextCursor: string | null };
+
+// Drop empty filter values so they are not sent as "?country="
+function toQuery(params: Record<string, string | undefined>): URLSearchParams {
+    const qs = new URLSearchParams();
+    for (const [k, v] of Object.entries(params)) if (v) qs.set(k, v);
+    return qs;
+}
+
+export function usePagedList<T>(url: string, filters: Record<string, string | undefined>) {
+    const [rows, setRows] = useState<T[]>([]);
+    const [nextCursor, setNextCursor] = useState<string | null>(null);
+    const [loading, setLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const query = toQuery(filters).toString();
+
+    const fetchPage = useCallback(
+        async (cursor: string | null) => {
+            setLoading(true);
+            setError(null);
+            try {
+                const qs = new URLSearchParams(query);
+                if (cursor) qs.set("cursor", cursor);
+                const page = await getJson<Page<T>>(`${url}?${qs.toString()}`);
+                setRows((prev) => (cursor ? [...prev, ...page.data] : page.data));
+                setNextCursor(page.nextCursor);
+            } catch (e) {
+                setError(e instanceof Error ? e.message : "Unknown error");
+            } finally {
+                setLoading(false);
+            }
+        },
+        [url, query]
+    );
+
+    // New filters -> start over from the first page
+    useEffect(() => {
+        void fetchPage(null);
+    }, [fetchPage]);
+
+    return {
+        rows,
+        loading,
+        error,
+        hasMore: nextCursor !== null,
+        loadMore: () => nextCursor && fetchPage(nextCursor),
+        reload: () => fetchPage(null),
+    };
+}
@@ -0,0 +1,90 @@
+// src/components/seller/RequirementBanners.tsx
+// Actionable banners for Account.requirements (disabled_reason, past_due, currently_due)
+import {
+    describeDisabledReason,
+    describeRequirement,
+    type RequirementsSummary,
+} from "@/lib/requirements";
+
+type Props = {
+    requirements: RequirementsSummary;
+    onResolve: () => void;
+    busy?: boolean;
+};
+
+type Tone = "red" | "amber" | "blue";
+
+const TONES: Record<Tone, string> = {
+    red: "border-red-300 bg-red-50 text-red-800",
+    amber: "border-amber-300 bg-amber-50 text-amber-800",
+    blue: "border-blue-300 bg-blue-50 text-blue-800",
+};
+
+function Banner(props: {
+    tone: Tone;
+    title: string;
+    items?: string[];
+    action?: { label: string; onClick: () => void; disabled?: boolean };
+}) {
+    return (
+        <div className={`rounded border p-4 ${TONES[props.tone]}`}>
+            <div className="flex items-start justify-between gap-4">
+                <div className="space-y-1">
+                    <p className="font-medium">{props.title}</p>
+                    {props.items && props.items.length > 0 && (
+                        <ul className="list-disc pl-5 text-sm">
+                            {props.items.map((it) => (
+                                <li key={it}>{describeRequirement(it)}</li>
+                            ))}
+                        </ul>
+                    )}
+                </div>
+                {props.action && (
+                    <button
+                        type="button"
+                        onClick={props.action.onClick}
+                        disabled={props.action.disabled}
+                        className="shrink-0 rounded bg-white px-3 py-1 text-sm font-medium shadow disabled:opacity-50"
+                    >
+                        {props.action.label}
+                    </button>
+                )}
+            </div>
+        </div>
+    );
+}
+
+export default function RequirementBanners({ requirements, onResolve, busy }: Props) {
+    const { disabledReason, pastDue, currentlyDue, pendingVerification, currentDeadline } = requirements;
+    const action = { label: "Update details", onClick: onResolve, disabled: busy };
+    // Pending verification needs no action from the seller; only waiting
+    const verifying = disabledReason === "requirements.pending_verification";
+    const deadline = currentDeadline ? new Date(currentDeadline).toLocaleDateString() : null;
+
+    return (
+        <div className="space-y-3">
+            {disabledReason && (
+                <Banner
+                    tone={verifying ? "blue" : "red"}
+                    title={describeDisabledReason(disabledReason)}
+                    action={verifying ? undefined : action}
+                />
+            )}
+            {pastDue.length > 0 && (
+                <Banner tone="red" title="Overdue information" items={pastDue} action={action} />
+            )}
+            {currentlyDue.length > 0 && (
+                <Banner
+                    tone="amber"
+                    title={deadline ? `Information due by ${deadline}` : "Information needed"}
+                    // past_due is a subset of currently_due; avoid listing fields twice
+                    items={currentlyDue.filter((f) => !pastDue.includes(f))}
+                    action={pastDue.length > 0 ? undefined : action}
+                />
+            )}
+            {!disabledReason && pendingVerification.length > 0 && (
+                <Banner tone="blue" title="Stripe is verifying" items={pendingVerification} />
+            )}
+        </div>
+    );
+}
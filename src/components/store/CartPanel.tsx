@@ -0,0 +1,105 @@
+// src/components/store/CartPanel.tsx
+// Cart contents + checkout. One seller -> destination charge (/api/checkout);
+// several sellers -> separate charges & transfers (/api/checkout/multi-seller).
+import { useEffect, useState } from "react";
+import { postJson } from "@/lib/client";
+import { formatMoney } from "@/lib/money";
+import { cartTotal, MAX_QUANTITY, useCart, type CartLine } from "@/stores/cart";
+
+async function startCheckout(lines: CartLine[]): Promise<string> {
+    const sellers = new Set(lines.map((l) => l.stripeAccountId));
+    const session =
+        sellers.size === 1
+            ? await postJson<{ url: string }>("/api/checkout", {
+                stripeAccountId: lines[0].stripeAccountId,
+                items: lines.map((l) => ({ listingId: l.listingId, quantity: l.quantity })),
+            })
+            : await postJson<{ url: string }>("/api/checkout/multi-seller", {
+                items: lines.map((l) => ({ listingId: l.listingId, quantity: l.quantity })),
+            });
+    return session.url;
+}
+
+// Whole quantity in [1, MAX_QUANTITY]; null while the field is empty or not a number
+// (removing a line is the Remove button's job, so typing 0 never drops it)
+function parseQuantity(value: string): number | null {
+    const n = Math.trunc(Number(value));
+    if (value.trim() === "" || !Number.isFinite(n)) return null;
+    return Math.min(Math.max(n, 1), MAX_QUANTITY);
+}
+
+export default function CartPanel() {
+    const { lines, setQuantity, remove } = useCart();
+    const [busy, setBusy] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    // The cart lives in localStorage: render it only after hydration to avoid SSR mismatches
+    const [hydrated, setHydrated] = useState(false);
+    useEffect(() => setHydrated(true), []);
+    if (!hydrated) return null;
+
+    async function onCheckout() {
+        setBusy(true);
+        setError(null);
+        try {
+            // Cart is kept until /success confirms payment (so /cancel can restore it)
+            window.location.assign(await startCheckout(lines));
+        } catch (e) {
+            setError(e instanceof Error ? e.message : "Unknown error");
+            setBusy(false);
+        }
+    }
+
+    if (lines.length === 0) {
+        return <p className="text-gray-500">Your cart is empty.</p>;
+    }
+
+    const currency = lines[0].currency;
+    return (
+        <div className="space-y-4">
+            <ul className="divide-y divide-gray-200">
+                {lines.map((l) => (
+                    <li key={l.listingId} className="flex items-center justify-between gap-3 py-2">
+                        <span className="flex-1">{l.name}</span>
+                        <input
+                            type="number"
+                            min={1}
+                            max={MAX_QUANTITY}
+                            step={1}
+                            value={l.quantity}
+                            onChange={(e) => {
+                                const quantity = parseQuantity(e.target.value);
+                                if (quantity !== null) setQuantity(l.listingId, quantity);
+                            }}
+                            className="w-16 rounded border border-gray-300 px-2 py-1"
+                            aria-label={`Quantity of ${l.name}`}
+                        />
+                        <span className="w-24 text-right">{formatMoney(l.unitAmount * l.quantity, l.currency)}</span>
+                        <button
+                            type="button"
+                            onClick={() => remove(l.listingId)}
+                            className="text-sm text-gray-500 hover:text-red-600"
+                        >
+                            Remove
+                        </button>
+                    </li>
+                ))}
+            </ul>
+
+            <div className="flex items-center justify-between font-medium">
+                <span>Total</span>
+                <span>{formatMoney(cartTotal(lines), currency)}</span>
+            </div>
+
+            {error && <p className="text-sm text-red-600">{error}</p>}
+            <button
+                type="button"
+                onClick={onCheckout}
+                disabled={busy}
+                className="w-full rounded bg-blue-500 px-4 py-2 text-white disabled:opacity-50"
+            >
+                {busy ? "Redirecting…" : "Checkout"}
+            </button>
+        </div>
+    );
+}
@@ -0,0 +1,78 @@
+// Connected account lifecycle: mirror Stripe's account state, reject, delete.
+// Rows are soft-deleted (deletedAt) because orders, transfers and payouts keep pointing at them;
+// a rejected or deleted seller drops out of the catalog and cannot start new checkouts.
+// A chargesEnabled flip is announced downstream as seller.onboarded / seller.restricted.
+import type Stripe from "stripe";
+import type { AccountRejectReason, ConnectedAccount, Prisma } from "@prisma/client";
+import { stripe } from "./stripe";
+import { prisma } from "./prisma";
+import { toJsonOrUndefined } from "./json";
+import { emitSellerTransition } from "./outbound";
+
+/** ConnectedAccount columns mirrored from a Stripe Account */
+export function accountSnapshot(account: Stripe.Account) {
+    return {
+        chargesEnabled: Boolean(account.charges_enabled),
+        payoutsEnabled: Boolean(account.payouts_enabled),
+        detailsSubmitted: Boolean(account.details_submitted),
+        onboardingCompletedAt: account.details_submitted ? new Date() : null,
+        country: account.country ?? null,
+        defaultCurrency: account.default_currency ?? null,
+        requirements: toJsonOrUndefined(account.requirements),
+        capabilities: toJsonOrUndefined(account.capabilities),
+    } satisfies Prisma.ConnectedAccountUpdateInput;
+}
+
+// Update a ConnectedAccount and emit its seller.* event in the same transaction (null = no such row)
+async function updateAccount(
+    where: Prisma.ConnectedAccountWhereUniqueInput,
+    data: Prisma.ConnectedAccountUpdateInput
+): Promise<ConnectedAccount | null> {
+    return prisma.$transaction(async (tx) => {
+        const before = await tx.connectedAccount.findUnique({ where, select: { chargesEnabled: true } });
+        if (!before) return null;
+        const after = await tx.connectedAccount.update({ where, data });
+        await emitSellerTransition(tx, before.chargesEnabled, after);
+        return after;
+    });
+}
+
+/** account.updated (or a fresh read): mirror Stripe's state. No-op for accounts we don't know. */
+export async function syncAccount(account: Stripe.Account): Promise<ConnectedAccount | null> {
+    return updateAccount({ stripeAccountId: account.id }, accountSnapshot(account));
+}
+
+/**
+ * Reject a connected account (Stripe disables charges and payouts for good) and record why.
+ * Only platform-controlled accounts (Express/Custom) can be rejected.
+ */
+export async function rejectConnectedAccount(
+    account: { id: string; stripeAccountId: string },
+    reason: AccountRejectReason
+) {
+    const rejected = await stripe.accounts.reject(account.stripeAccountId, { reason });
+    const row = await updateAccount(
+        { id: account.id },
+        { ...accountSnapshot(rejected), rejectedAt: new Date(), rejectReason: reason }
+    );
+    if (!row) throw new Error(`Connected account not found: ${account.stripeAccountId}`);
+    return row;
+}
+
+/** Delete the account in Stripe (balance must be zero), then soft-delete our row. */
+export async function deleteConnectedAccount(account: { id: string; stripeAccountId: string }) {
+    await stripe.accounts.del(account.stripeAccountId);
+    return markAccountDeleted(account.stripeAccountId);
+}
+
+/**
+ * Soft-delete after the account is gone or disconnected (account.application.deauthorized):
+ * the platform can no longer charge it, so flags are cleared too. No-op for unknown accounts.
+ */
+export async function markAccountDeleted(stripeAccountId: string) {
+    const row = await updateAccount(
+        { stripeAccountId, deletedAt: null },
+        { deletedAt: new Date(), chargesEnabled: false, payoutsEnabled: false }
+    );
+    return row !== null;
+}
@@ -0,0 +1,172 @@
+// Email magic-link sessions and role checks for API routes.
+// Tokens are random 256-bit values; only their SHA-256 is stored, so a DB leak
+// does not hand out working links or sessions.
+import type { NextApiHandler, NextApiRequest, NextApiResponse } from "next";
+import type { UserRole } from "@prisma/client";
+import { createHash, randomBytes } from "node:crypto";
+import { prisma } from "./prisma";
+import { env } from "./env";
+
+export const SESSION_COOKIE = "sid";
+export const LOGIN_TOKEN_TTL_MS = 15 * 60 * 1000; // 15 minutes
+export const SESSION_TTL_MS = 30 * 24 * 60 * 60 * 1000; // 30 days
+
+export type AuthUser = { id: string; email: string; name: string | null; role: UserRole };
+
+type ConnectedAccountRef = { id: string; userId: string; stripeAccountId: string };
+type SellerAccountResult =
+    | { account: ConnectedAccountRef }
+    | { status: 400 | 403 | 404; error: string };
+
+const hashToken = (token: string) => createHash("sha256").update(token).digest("hex");
+const newToken = () => randomBytes(32).toString("base64url");
+
+// Emails listed in ADMIN_EMAILS are promoted on sign-in (bootstrap for the first admin)
+const adminEmails = () =>
+    (env.ADMIN_EMAILS ?? "")
+        .split(",")
+        .map((e) => e.trim().toLowerCase())
+        .filter(Boolean);
+
+/** Issue a one-time login token for `email`. Returns the raw token (goes into the link only). */
+export async function createLoginToken(email: string): Promise<string> {
+    const token = newToken();
+    await prisma.loginToken.create({
+        data: {
+            email: email.toLowerCase(),
+            tokenHash: hashToken(token),
+            expiresAt: new Date(Date.now() + LOGIN_TOKEN_TTL_MS),
+        },
+    });
+    return token;
+}
+
+/**
+ * Redeem a login token: marks it used and upserts the User for its email.
+ * Returns null when the token is unknown, expired, or already used.
+ */
+export async function consumeLoginToken(token: string): Promise<AuthUser | null> {
+    // Single conditional update so two clicks on the same link cannot both succeed
+    const tokenHash = hashToken(token);
+    const claimed = await prisma.loginToken.updateMany({
+        where: { tokenHash, usedAt: null, expiresAt: { gt: new Date() } },
+        data: { usedAt: new Date() },
+    });
+    if (claimed.count === 0) return null;
+
+    const { email } = await prisma.loginToken.findUniqueOrThrow({ where: { tokenHash } });
+    const promote = adminEmails().includes(email);
+    return prisma.user.upsert({
+        where: { email },
+        create: { email, role: promote ? "admin" : "seller" },
+        update: promote ? { role: "admin" } : {},
+        select: { id: true, email: true, name: true, role: true },
+    });
+}
+
+/** Start a session for `userId`. Returns the raw cookie value and its expiry. */
+export async function createSession(userId: string): Promise<{ token: string; expiresAt: Date }> {
+    const token = newToken();
+    const expiresAt = new Date(Date.now() + SESSION_TTL_MS);
+    await prisma.session.create({ data: { userId, tokenHash: hashToken(token), expiresAt } });
+    return { token, expiresAt };
+}
+
+/** Current user from the session cookie (null when missing/expired). */
+export async function getSessionUser(req: NextApiRequest): Promise<AuthUser | null> {
+    const token = req.cookies[SESSION_COOKIE];
+    if (!token) return null;
+
+    const session = await prisma.session.findUnique({
+        where: { tokenHash: hashToken(token) },
+        include: { user: { select: { id: true, email: true, name: true, role: true } } },
+    });
+    if (!session || session.expiresAt <= new Date()) return null;
+    return session.user;
+}
+
+/** Delete the session behind the request cookie (no-op when there is none). */
+export async function destroySession(req: NextApiRequest): Promise<void> {
+    const token = req.cookies[SESSION_COOKIE];
+    if (!token) return;
+    await prisma.session.deleteMany({ where: { tokenHash: hashToken(token) } });
+}
+
+/** Set-Cookie value for a session (HttpOnly; Secure outside development) */
+export function sessionCookie(token: string, expiresAt: Date): string {
+    const secure = process.env.NODE_ENV === "production" ? "; Secure" : "";
+    return `${SESSION_COOKIE}=${token}; Path=/; HttpOnly; SameSite=Lax; Expires=${expiresAt.toUTCString()}${secure}`;
+}
+
+/** Set-Cookie value that clears the session cookie */
+export function clearSessionCookie(): string {
+    return `${SESSION_COOKIE}=; Path=/; HttpOnly; SameSite=Lax; Max-Age=0`;
+}
+
+/**
+ * Require a signed-in user (401) and optionally a role (403). Admins pass every role check.
+ * The resolved user is passed to the handler as a third argument.
+ */
+export function withAuth(
+    handler: (req: NextApiRequest, res: NextApiResponse, user: AuthUser) => unknown,
+    opts: { role?: UserRole } = {}
+): NextApiHandler {
+    return async (req, res) => {
+        const user = await getSessionUser(req);
+        if (!user) {
+            return res.status(401).json({ error: "Unauthorized" });
+        }
+        if (opts.role && user.role !== opts.role && user.role !== "admin") {
+            return res.status(403).json({ error: "Forbidden" });
+        }
+        await handler(req, res, user);
+    };
+}
+
+/**
+ * Resolve the ConnectedAccount a request acts on. Sellers are bound to their own account
+ * (naming someone else's userId / acct_*** is 403); admins must name one explicitly.
+ */
+export async function resolveSellerAccount(
+    user: AuthUser,
+    input: { userId?: string; stripeAccountId?: string }
+): Promise<SellerAccountResult> {
+    const isAdmin = user.role === "admin";
+    if (!isAdmin && input.userId && input.userId !== user.id) {
+        return { status: 403, error: "Forbidden" };
+    }
+    if (isAdmin && !input.userId && !input.stripeAccountId) {
+        return { status: 400, error: "Either userId or stripeAccountId is required" };
+    }
+
+    const userId = isAdmin ? input.userId : user.id;
+    const account = await prisma.connectedAccount.findFirst({
+        // Sellers only reach their live account; admins can still name a deleted one by acct_***
+        where: input.stripeAccountId
+            ? { stripeAccountId: input.stripeAccountId, ...(isAdmin ? {} : { deletedAt: null }) }
+            : { userId, deletedAt: null },
+        select: { id: true, userId: true, stripeAccountId: true },
+        orderBy: { createdAt: "asc" },
+    });
+    if (!account) {
+        return { status: 404, error: "Connected account not found" };
+    }
+    if (!isAdmin && account.userId !== user.id) {
+        return { status: 403, error: "Forbidden" };
+    }
+    return { account };
+}
+
+/**
+ * Seller filter for list/report endpoints: admins may narrow to any acct_*** (or see all);
+ * sellers always get their own account.
+ */
+export async function resolveSellerFilter(
+    user: AuthUser,
+    stripeAccountId: string | undefined
+): Promise<{ sellerAccountId?: string } | { status: 400 | 403 | 404; error: string }> {
+    if (user.role === "admin" && !stripeAccountId) return {};
+    const scoped = await resolveSellerAccount(user, { stripeAccountId });
+    if ("error" in scoped) return scoped;
+    return { sellerAccountId: scoped.account.id };
+}
@@ -0,0 +1,309 @@
+// Seller catalog: Products and Listings owned by a ConnectedAccount, mirrored to Stripe
+// Products / Prices (one-time or recurring) on the platform account. The DB is the source of
+// truth for who sells what: checkout resolves listings here and never trusts a client-sent
+// price or seller.
+import type Stripe from "stripe";
+import type { ChargeModel, Listing, Prisma, Product, RecurringInterval } from "@prisma/client";
+import { stripe } from "./stripe";
+import { prisma } from "./prisma";
+
+export type CatalogListing = {
+    listingId: string;
+    productId: string;
+    name: string;
+    description: string | null;
+    image: string | null;
+    unitAmount: number;
+    currency: string;
+    interval: RecurringInterval | null; // null = one-time
+    inventory: number | null;
+};
+
+export type CatalogSeller = {
+    stripeAccountId: string;
+    name: string | null;
+    country: string | null;
+    listings: CatalogListing[];
+};
+
+// A listing can be bought: active, on an active product, and not sold out
+const sellableListing = {
+    active: true,
+    product: { active: true },
+    OR: [{ inventory: null }, { inventory: { gt: 0 } }],
+} satisfies Prisma.ListingWhereInput;
+
+/** Sellers that can take payments, each with their sellable listings (optionally one seller only). */
+export async function listCatalog(filter: { stripeAccountId?: string } = {}): Promise<CatalogSeller[]> {
+    const sellers = await prisma.connectedAccount.findMany({
+        where: {
+            chargesEnabled: true,
+            rejectedAt: null,
+            deletedAt: null,
+            ...(filter.stripeAccountId ? { stripeAccountId: filter.stripeAccountId } : {}),
+        },
+        select: { id: true, stripeAccountId: true, country: true, user: { select: { name: true } } },
+        orderBy: { createdAt: "asc" },
+    });
+    if (sellers.length === 0) return [];
+
+    const listings = await prisma.listing.findMany({
+        where: {
+            ...sellableListing,
+            product: { ...sellableListing.product, sellerAccountId: { in: sellers.map((s) => s.id) } },
+        },
+        include: { product: true },
+        orderBy: [{ product: { createdAt: "asc" } }, { createdAt: "asc" }],
+    });
+
+    const bySeller = new Map<string, CatalogListing[]>(sellers.map((s) => [s.id, []]));
+    for (const l of listings) {
+        bySeller.get(l.product.sellerAccountId)?.push({
+            listingId: l.id,
+            productId: l.product.id,
+            name: l.product.name,
+            description: l.product.description,
+            image: l.product.imageUrl,
+            unitAmount: l.unitAmount,
+            currency: l.currency,
+            interval: l.interval,
+            inventory: l.inventory,
+        });
+    }
+
+    return sellers
+        .map((s) => ({
+            stripeAccountId: s.stripeAccountId,
+            name: s.user.name,
+            country: s.country,
+            listings: bySeller.get(s.id) ?? [],
+        }))
+        .filter((s) => s.listings.length > 0);
+}
+
+/** Create a Stripe Product for a seller, then its Product row. */
+export async function createProduct(
+    seller: { id: string; stripeAccountId: string },
+    input: { name: string; description?: string; imageUrl?: string },
+    opts: { idempotencyKey?: string } = {}
+): Promise<Product> {
+    const product = await stripe.products.create(
+        {
+            name: input.name,
+            description: input.description,
+            images: input.imageUrl ? [input.imageUrl] : undefined,
+            // Lets the Stripe Dashboard show whose product this is
+            metadata: { sellerStripeAccountId: seller.stripeAccountId },
+        },
+        opts.idempotencyKey ? { idempotencyKey: opts.idempotencyKey } : undefined
+    );
+    return prisma.product.create({
+        data: {
+            sellerAccountId: seller.id,
+            stripeProductId: product.id,
+            name: input.name,
+            description: input.description ?? null,
+            imageUrl: input.imageUrl ?? null,
+        },
+    });
+}
+
+/** Update display fields in Stripe and locally (undefined = unchanged, null = cleared). */
+export async function updateProduct(
+    product: Product,
+    patch: { name?: string; description?: string | null; imageUrl?: string | null }
+): Promise<Product> {
+    const params: Stripe.ProductUpdateParams = {};
+    if (patch.name !== undefined) params.name = patch.name;
+    // Stripe clears a field with an empty string (empty arrays are dropped from the request)
+    if (patch.description !== undefined) params.description = patch.description ?? "";
+    if (patch.imageUrl !== undefined) params.images = patch.imageUrl ? [patch.imageUrl] : "";
+    await stripe.products.update(product.stripeProductId, params);
+
+    return prisma.product.update({ where: { id: product.id }, data: patch });
+}
+
+/** Create a Stripe Price (one-time, or recurring with `interval`) for a product, then its Listing row. */
+export async function createListing(
+    product: Product,
+    input: { unitAmount: number; currency: string; inventory: number | null; interval?: RecurringInterval },
+    opts: { idempotencyKey?: string } = {}
+): Promise<Listing> {
+    const price = await stripe.prices.create(
+        {
+            product: product.stripeProductId,
+            unit_amount: input.unitAmount,
+            currency: input.currency.toLowerCase(),
+            recurring: input.interval ? { interval: input.interval } : undefined,
+            metadata: { productRowId: product.id },
+        },
+        opts.idempotencyKey ? { idempotencyKey: opts.idempotencyKey } : undefined
+    );
+    return prisma.listing.create({
+        data: {
+            productId: product.id,
+            stripePriceId: price.id,
+            unitAmount: input.unitAmount,
+            currency: input.currency.toUpperCase(),
+            interval: input.interval ?? null,
+            inventory: input.inventory,
+        },
+    });
+}
+
+/** Deactivate a listing's Stripe Price and archive it (no-op when already archived). */
+export async function archiveListing(listing: Listing): Promise<Listing> {
+    if (!listing.active) return listing;
+    await stripe.prices.update(listing.stripePriceId, { active: false });
+    return prisma.listing.update({
+        where: { id: listing.id },
+        data: { active: false, archivedAt: new Date() },
+    });
+}
+
+/** Archive a product and every active listing on it, in Stripe and locally. */
+export async function archiveProduct(product: Product): Promise<Product> {
+    const listings = await prisma.listing.findMany({ where: { productId: product.id, active: true } });
+    for (const listing of listings) {
+        await archiveListing(listing);
+    }
+    if (!product.active) return product;
+
+    await stripe.products.update(product.stripeProductId, { active: false });
+    return prisma.product.update({
+        where: { id: product.id },
+        data: { active: false, archivedAt: new Date() },
+    });
+}
+
+/** One resolved cart line: what to charge and who is paid, straight from the catalog */
+export type CartListing = {
+    listingId: string;
+    quantity: number;
+    stripePriceId: string;
+    stripeProductId: string; // prod_*** (FeeRule.productId matches on it)
+    name: string;
+    description: string | null;
+    image: string | null;
+    unitAmount: number;
+    currency: string; // lowercase, as Stripe returns it
+    interval: RecurringInterval | null; // set for memberships (subscription checkout)
+    seller: { id: string; userId: string; stripeAccountId: string; country: string | null; chargeModel: ChargeModel };
+};
+
+export type CartResult =
+    | { lines: CartListing[] }
+    | { status: 404 | 409 | 422; error: string; listingId?: string; available?: number };
+
+/**
+ * Resolve cart lines against the catalog. Rejects unknown, archived or sold-out listings
+ * and mixed currencies; sellers are returned per line for the caller to check.
+ */
+export async function resolveCart(items: { listingId: string; quantity: number }[]): Promise<CartResult> {
+    const ids = [...new Set(items.map((it) => it.listingId))];
+    const rows = await prisma.listing.findMany({
+        where: { id: { in: ids } },
+        include: {
+            product: {
+                select: {
+                    active: true,
+                    stripeProductId: true,
+                    name: true,
+                    description: true,
+                    imageUrl: true,
+                    sellerAccount: {
+                        select: {
+                            id: true,
+                            userId: true,
+                            stripeAccountId: true,
+                            country: true,
+                            chargeModel: true,
+                            rejectedAt: true,
+                            deletedAt: true,
+                        },
+                    },
+                },
+            },
+        },
+    });
+    const byId = new Map(rows.map((r) => [r.id, r]));
+
+    // A listing may appear on several lines; stock covers their sum
+    const wanted = new Map<string, number>();
+    for (const it of items) wanted.set(it.listingId, (wanted.get(it.listingId) ?? 0) + it.quantity);
+
+    for (const id of ids) {
+        const listing = byId.get(id);
+        if (!listing) return { status: 404, error: "Listing not found", listingId: id };
+        if (!listing.active || !listing.product.active) {
+            return { status: 409, error: "Listing is no longer available", listingId: id };
+        }
+        // Rejected or deleted (incl. deauthorized) sellers cannot take new payments
+        const seller = listing.product.sellerAccount;
+        if (seller.rejectedAt || seller.deletedAt) {
+            return { status: 409, error: "Seller is no longer accepting payments", listingId: id };
+        }
+        if (listing.inventory !== null && listing.inventory < (wanted.get(id) ?? 0)) {
+            return {
+                status: 409,
+                error: "Not enough inventory",
+                listingId: id,
+                available: Math.max(listing.inventory, 0),
+            };
+        }
+    }
+
+    const lines = items.map((it) => {
+        const listing = byId.get(it.listingId)!;
+        const { id, userId, stripeAccountId, country, chargeModel } = listing.product.sellerAccount;
+        return {
+            listingId: listing.id,
+            quantity: it.quantity,
+            stripePriceId: listing.stripePriceId,
+            stripeProductId: listing.product.stripeProductId,
+            name: listing.product.name,
+            description: listing.product.description,
+            image: listing.product.imageUrl,
+            unitAmount: listing.unitAmount,
+            currency: listing.currency.toLowerCase(),
+            interval: listing.interval,
+            seller: { id, userId, stripeAccountId, country, chargeModel },
+        };
+    });
+    if (lines.some((l) => l.currency !== lines[0].currency)) {
+        return { status: 422, error: "All cart items must use the same currency" };
+    }
+    return { lines };
+}
+
+/** price_*** -> Listing.id for the prices that belong to catalog listings */
+export async function listingIdsByPrice(priceIds: string[]): Promise<Map<string, string>> {
+    const rows = await prisma.listing.findMany({
+        where: { stripePriceId: { in: priceIds } },
+        select: { id: true, stripePriceId: true },
+    });
+    return new Map(rows.map((r) => [r.stripePriceId, r.id]));
+}
+
+/**
+ * Take paid units out of stock (listings with unlimited inventory are left alone).
+ * Stock never goes below zero: returns the listing ids that did not have enough units left.
+ */
+export async function decrementInventory(
+    tx: Prisma.TransactionClient,
+    lines: { listingId?: string | null; quantity: number }[]
+): Promise<string[]> {
+    const short: string[] = [];
+    for (const line of lines) {
+        if (!line.listingId) continue;
+        // Conditional decrement: concurrent orders for the last units cannot both succeed
+        const { count } = await tx.listing.updateMany({
+            where: { id: line.listingId, inventory: { gte: line.quantity } },
+            data: { inventory: { decrement: line.quantity } },
+        });
+        if (count > 0) continue;
+        const listing = await tx.listing.findUnique({ where: { id: line.listingId }, select: { inventory: true } });
+        if (listing && listing.inventory !== null) short.push(line.listingId);
+    }
+    return short;
+}
@@ -0,0 +1,36 @@
+// Browser-side fetch helpers for our own API routes (JSON in, JSON out).
+// Non-2xx responses throw ApiError carrying the route's { error } message and status.
+
+export class ApiError extends Error {
+    constructor(public status: number, message: string) {
+        super(message);
+        this.name = "ApiError";
+    }
+}
+
+async function request<T>(url: string, init: RequestInit): Promise<T> {
+    const res = await fetch(url, { credentials: "same-origin", ...init });
+    const body: unknown = res.status === 204 ? null : await res.json().catch(() => null);
+    if (!res.ok) {
+        const message =
+            body && typeof body === "object" && "error" in body && typeof body.error === "string"
+                ? body.error
+                : `Request failed (${res.status})`;
+        throw new ApiError(res.status, message);
+    }
+    return body as T;
+}
+
+/** GET a JSON API route */
+export function getJson<T>(url: string): Promise<T> {
+    return request<T>(url, { method: "GET" });
+}
+
+/** POST a JSON body to an API route */
+export function postJson<T>(url: string, body: unknown = {}): Promise<T> {
+    return request<T>(url, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+    });
+}
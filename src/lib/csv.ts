@@ -0,0 +1,19 @@
+// Minimal RFC 4180 CSV encoding for exports (quotes only when needed, CRLF line endings).
+
+export type Cell = string | number | boolean | Date | null | undefined;
+
+// Plain decimals (e.g. "-1.00" from toDecimalString) must stay numbers in a spreadsheet
+const NUMERIC = /^-?\d+(\.\d+)?$/;
+
+// Quote fields containing separators / quotes / newlines; neutralize spreadsheet formulas
+function csvCell(v: Cell): string {
+    if (v == null) return "";
+    let s = v instanceof Date ? v.toISOString() : String(v);
+    if (typeof v === "string" && /^[=+\-@]/.test(s) && !NUMERIC.test(s)) s = `'${s}`;
+    return /[",\r\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+/** One CSV line (with trailing CRLF) */
+export function csvRow(cells: Cell[]): string {
+    return `${cells.map(csvCell).join(",")}\r\n`;
+}
@@ -0,0 +1,69 @@
+// Currency rules for amounts in the smallest unit, following Stripe's tables:
+// https://docs.stripe.com/currencies#zero-decimal and #three-decimal
+// Currency codes are handled upper-case (as stored); Stripe receives lower-case.
+import type Stripe from "stripe";
+
+// No minor unit: 500 JPY is sent as 500
+const ZERO_DECIMAL = new Set([
+    "BIF", "CLP", "DJF", "GNF", "JPY", "KMF", "KRW", "MGA",
+    "PYG", "RWF", "UGX", "VND", "VUV", "XAF", "XOF", "XPF",
+]);
+
+// Three minor digits; Stripe only accepts multiples of 10 (5.124 KWD -> 5120)
+const THREE_DECIMAL = new Set(["BHD", "JOD", "KWD", "OMR", "TND"]);
+
+/** Number of minor-unit digits Stripe uses for `currency` (0, 2 or 3) */
+export function minorUnits(currency: string): 0 | 2 | 3 {
+    const c = currency.toUpperCase();
+    if (ZERO_DECIMAL.has(c)) return 0;
+    if (THREE_DECIMAL.has(c)) return 3;
+    return 2;
+}
+
+/** Smallest amount step Stripe accepts (10 for three-decimal currencies, else 1) */
+export function amountStep(currency: string): number {
+    return minorUnits(currency) === 3 ? 10 : 1;
+}
+
+/**
+ * Round a computed amount (fee, pro-rated share) down to something Stripe accepts.
+ * Rounding down keeps fees/reversals from ever exceeding what they are a share of.
+ */
+export function floorToStep(amount: number, currency: string): number {
+    const step = amountStep(currency);
+    return Math.floor(amount / step) * step;
+}
+
+/** Same as floorToStep but to the nearest step (for splits where either side may get the remainder) */
+export function roundToStep(amount: number, currency: string): number {
+    const step = amountStep(currency);
+    return Math.round(amount / step) * step;
+}
+
+/** Major units -> smallest unit, e.g. (12.34, "USD") -> 1234, (500, "JPY") -> 500 */
+export function toMinor(major: number, currency: string): number {
+    return Math.round(major * 10 ** minorUnits(currency));
+}
+
+/** Smallest unit -> major units, e.g. (1234, "USD") -> 12.34 */
+export function toMajor(minor: number, currency: string): number {
+    return minor / 10 ** minorUnits(currency);
+}
+
+/** Smallest unit -> fixed-point string for exports, e.g. (1230, "USD") -> "12.30", (500, "JPY") -> "500" */
+export function toDecimalString(minor: number, currency: string): string {
+    return toMajor(minor, currency).toFixed(minorUnits(currency));
+}
+
+/**
+ * Currencies a connected account can settle without conversion: its default currency
+ * plus the currency of every attached bank account / card (upper-case).
+ */
+export function settlementCurrencies(account: Stripe.Account): string[] {
+    const currencies = new Set<string>();
+    if (account.default_currency) currencies.add(account.default_currency.toUpperCase());
+    for (const ext of account.external_accounts?.data ?? []) {
+        if (ext.currency) currencies.add(ext.currency.toUpperCase());
+    }
+    return [...currencies];
+}
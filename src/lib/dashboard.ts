@@ -0,0 +1,23 @@
+// Deep links into the Stripe Dashboard for ids we store.
+// Test-mode objects live under /test/; the mode follows the secret key (or event.livemode).
+import { env } from "./env";
+
+const BASE = "https://dashboard.stripe.com";
+
+// sk_live_ / rk_live_ keys are live mode; everything else is test mode
+const keyIsLive = () => /^(sk|rk)_live_/.test(env.STRIPE_SECRET_KEY);
+
+// Objects on a connected account (direct charges) are viewed as that account: /acct_***/...
+function link(path: string, livemode = keyIsLive(), stripeAccount?: string): string {
+    return `${BASE}${stripeAccount ? `/${stripeAccount}` : ""}${livemode ? "" : "/test"}/${path}`;
+}
+
+/** Connected account page (acct_***) */
+export const accountUrl = (stripeAccountId: string) => link(`connect/accounts/${stripeAccountId}`);
+
+/** Payment page (pi_*** or ch_***); pass the seller's acct_*** for direct charges */
+export const paymentUrl = (paymentIntentId: string, stripeAccount?: string) =>
+    link(`payments/${paymentIntentId}`, undefined, stripeAccount);
+
+/** Event page (evt_***); pass the stored livemode so test events link to test mode */
+export const eventUrl = (stripeEventId: string, livemode?: boolean) => link(`events/${stripeEventId}`, livemode);
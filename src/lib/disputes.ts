@@ -0,0 +1,88 @@
+// Sync Stripe disputes (chargebacks) into Dispute rows.
+// Idempotent on stripeDisputeId: every charge.dispute.* delivery can be replayed.
+import type Stripe from "stripe";
+import type { DisputeStatus, Order } from "@prisma/client";
+import { prisma } from "./prisma";
+import { toJson } from "./json";
+import { idOf } from "./expand";
+
+/** Statuses that still need (or await a decision on) a response */
+export const OPEN_DISPUTE_STATUSES: DisputeStatus[] = [
+    "warning_needs_response",
+    "warning_under_review",
+    "needs_response",
+    "under_review",
+];
+
+// Stripe sends unix seconds
+const fromUnix = (s: number | null | undefined): Date | null => (s ? new Date(s * 1000) : null);
+
+// Find the Order a dispute belongs to (PaymentIntent first, Charge as fallback).
+// Multi-seller carts: the dispute covers the whole charge; attach it to the first sub-order.
+async function findOrder(dispute: Stripe.Dispute): Promise<Order | null> {
+    const piId = idOf(dispute.payment_intent);
+    if (piId) {
+        const order = await prisma.order.findFirst({
+            where: { paymentIntentId: piId },
+            orderBy: { createdAt: "asc" },
+        });
+        if (order) return order;
+    }
+    const chargeId = idOf(dispute.charge);
+    return chargeId
+        ? prisma.order.findFirst({ where: { chargeId }, orderBy: { createdAt: "asc" } })
+        : null;
+}
+
+/**
+ * Upsert a Stripe dispute; the event's type and `created` time record fund movements and the
+ * final outcome (so replays and late retries keep the original timestamps). Stripe does not
+ * deliver events in order: one older than the last applied only fills in its own timestamp.
+ */
+export async function syncDispute(
+    dispute: Stripe.Dispute,
+    event: Pick<Stripe.Event, "type" | "created">
+): Promise<void> {
+    const order = await findOrder(dispute);
+    // Throw so the event is retried once payment_intent.succeeded has recorded the Order
+    if (!order) throw new Error(`Order not found for dispute ${dispute.id}`);
+
+    const at = new Date(event.created * 1000);
+    const closed = !OPEN_DISPUTE_STATUSES.includes(dispute.status);
+
+    const state = {
+        amount: dispute.amount,
+        currency: dispute.currency.toUpperCase(),
+        status: dispute.status,
+        reason: dispute.reason,
+        evidenceDueBy: fromUnix(dispute.evidence_details?.due_by),
+        outcome: closed ? dispute.status : null,
+        metadata: toJson(dispute.metadata ?? {}),
+        lastEventAt: at,
+    };
+    // Only stamp timestamps on the event that caused them
+    const stamps = {
+        ...(event.type === "charge.dispute.funds_withdrawn" ? { fundsWithdrawnAt: at } : {}),
+        ...(event.type === "charge.dispute.funds_reinstated" ? { fundsReinstatedAt: at } : {}),
+        ...(event.type === "charge.dispute.closed" ? { closedAt: at } : {}),
+    };
+
+    await prisma.dispute.upsert({
+        where: { stripeDisputeId: dispute.id },
+        create: {
+            orderId: order.id,
+            stripeDisputeId: dispute.id,
+            chargeId: idOf(dispute.charge) ?? "",
+            ...state,
+            ...stamps,
+        },
+        update: stamps,
+    });
+    await prisma.dispute.updateMany({
+        where: {
+            stripeDisputeId: dispute.id,
+            OR: [{ lastEventAt: null }, { lastEventAt: { lte: at } }],
+        },
+        data: state,
+    });
+}
@@ -4,7 +4,16 @@ import { z } from "zod";
 const schema = z.object({
     STRIPE_SECRET_KEY: z.string().min(1),
     STRIPE_WEBHOOK_SECRET: z.string().min(1).optional(), // required only for webhooks
+    STRIPE_CONNECT_WEBHOOK_SECRET: z.string().min(1).optional(), // Connect endpoint (event.account)
+    STRIPE_API_BASE: z.string().url().optional(), // local fake / stripe-mock instead of api.stripe.com
     NEXT_PUBLIC_APP_URL: z.string().url().optional(),
+    RESEND_API_KEY: z.string().min(1).optional(), // magic-link email; links are logged when unset (dev)
+    EMAIL_FROM: z.string().min(1).optional(), // e.g. "Marketplace <login@example.com>"
+    ADMIN_EMAILS: z.string().optional(), // comma-separated; promoted to admin on sign-in
+    // Refunds made outside our refund API (e.g. the Dashboard): claw back the seller's share
+    DASHBOARD_REFUND_CLAWBACK: z.enum(["true", "false"]).optional().transform((v) => v === "true"),
+    // Direct charges the seller refunds itself: also return the platform's proportional fee
+    DIRECT_REFUND_RETURNS_FEE: z.enum(["true", "false"]).optional().transform((v) => v === "true"),
 });
 
 const parsed = schema.safeParse(process.env);
@@ -0,0 +1,5 @@
+// Helpers for Stripe "expandable" fields (either an id string or the expanded object).
+
+/** Resolve an expandable Stripe field to its id */
+export const idOf = (v: string | { id: string } | null | undefined): string | undefined =>
+    typeof v === "string" ? v : v?.id;
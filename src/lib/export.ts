@@ -0,0 +1,80 @@
+// Streaming CSV / NDJSON exports for API routes. Rows are fetched in keyset batches and
+// written as they arrive (respecting socket backpressure), so memory stays flat no matter
+// how many rows a seller has.
+import type { NextApiResponse } from "next";
+import { once } from "node:events";
+import { csvRow, type Cell } from "./csv";
+
+export type ExportFormat = "csv" | "ndjson";
+
+export type ExportColumn<T> = { header: string; value: (row: T) => Cell };
+
+/** Rows per database round trip */
+export const EXPORT_BATCH_SIZE = 500;
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+    csv: "text/csv; charset=utf-8",
+    ndjson: "application/x-ndjson; charset=utf-8",
+};
+
+/** File name for a [from, to) export, e.g. "orders_2025-11-01_2025-12-01.csv" */
+export function exportFilename(kind: string, format: ExportFormat, range: { from?: Date; to?: Date }): string {
+    const day = (d: Date | undefined, fallback: string) => d?.toISOString().slice(0, 10) ?? fallback;
+    return `${kind}_${day(range.from, "start")}_${day(range.to, "now")}.${format}`;
+}
+
+// NDJSON line keyed by column header (Dates as ISO strings, like the CSV)
+function ndjsonRow<T>(row: T, columns: ExportColumn<T>[]): string {
+    const record: Record<string, Cell> = {};
+    for (const c of columns) {
+        const v = c.value(row);
+        record[c.header] = v instanceof Date ? v.toISOString() : (v ?? null);
+    }
+    return `${JSON.stringify(record)}\n`;
+}
+
+/**
+ * Stream every row as CSV (with header) or NDJSON.
+ * `fetchPage(after)` returns up to EXPORT_BATCH_SIZE rows following `after` (null = first page)
+ * in a stable order; a short page ends the export.
+ * The first page is loaded before anything is sent, so an early failure throws and the
+ * route can still answer with JSON. A failure mid-stream aborts the connection instead:
+ * a truncated file must never look complete.
+ */
+export async function streamExport<T>(
+    res: NextApiResponse,
+    opts: {
+        format: ExportFormat;
+        filename: string;
+        columns: ExportColumn<T>[];
+        fetchPage: (after: T | null) => Promise<T[]>;
+    }
+): Promise<void> {
+    const { format, columns } = opts;
+    let batch = await opts.fetchPage(null);
+
+    res.setHeader("Content-Type", CONTENT_TYPES[format]);
+    res.setHeader("Content-Disposition", `attachment; filename="${opts.filename}"`);
+    res.setHeader("Cache-Control", "no-store");
+    res.statusCode = 200;
+
+    // Wait for the socket to drain (or the client to go away) before the next batch
+    const write = async (chunk: string) => {
+        if (!res.write(chunk)) await Promise.race([once(res, "drain"), once(res, "close")]);
+    };
+
+    try {
+        if (format === "csv") await write(csvRow(columns.map((c) => c.header)));
+        while (batch.length > 0) {
+            const encode = format === "csv"
+                ? (row: T) => csvRow(columns.map((c) => c.value(row)))
+                : (row: T) => ndjsonRow(row, columns);
+            await write(batch.map(encode).join(""));
+            if (batch.length < EXPORT_BATCH_SIZE || res.destroyed) break;
+            batch = await opts.fetchPage(batch[batch.length - 1]);
+        }
+        res.end();
+    } catch (e) {
+        res.destroy(e instanceof Error ? e : new Error("Export failed"));
+    }
+}
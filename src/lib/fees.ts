@@ -0,0 +1,127 @@
+// Platform fee policy: resolve FeeRule rows per seller / product / country and compute
+// application_fee_amount on the server (clients never send their own fee).
+// Rules with fixed/min/max amounts or volume tiers carry a currency and only apply to it.
+import type { FeeRule } from "@prisma/client";
+import { prisma } from "./prisma";
+import { floorToStep } from "./currency";
+import { FeeTiersSchema } from "@/schemas/fees";
+
+/** Applied when no FeeRule matches (the old client default) */
+export const DEFAULT_FEE_BPS = 1000;
+
+/** Marker recorded in metadata when the default fee was used */
+export const DEFAULT_FEE_RULE = "default";
+
+// Window for volume-tier discounts
+const VOLUME_WINDOW_DAYS = 30;
+
+export type FeeSeller = { id: string; country: string | null };
+export type FeeLine = { productId: string | null; subtotal: number };
+export type FeeQuote = {
+    /** Per-line fee and the rule that produced it (null = default) */
+    lines: { fee: number; ruleId: string | null }[];
+    total: number;
+};
+
+// Higher = more specific (product beats seller beats country beats currency)
+const specificity = (r: FeeRule): number =>
+    (r.productId ? 8 : 0) + (r.sellerAccountId ? 4 : 0) + (r.country ? 2 : 0) + (r.currency ? 1 : 0);
+
+// Pick the winning rule for one line
+function pickRule(
+    rules: FeeRule[],
+    seller: FeeSeller,
+    productId: string | null,
+    currency: string
+): FeeRule | null {
+    const matching = rules.filter(
+        (r) =>
+            (!r.sellerAccountId || r.sellerAccountId === seller.id) &&
+            (!r.productId || r.productId === productId) &&
+            (!r.country || r.country === seller.country) &&
+            (!r.currency || r.currency === currency)
+    );
+    matching.sort((a, b) => specificity(b) - specificity(a) || b.priority - a.priority);
+    return matching[0] ?? null;
+}
+
+// Effective percentage after volume tiers
+function effectiveBps(rule: FeeRule, volume: number): number {
+    const tiers = FeeTiersSchema.safeParse(rule.tiers ?? []);
+    if (!tiers.success) return rule.percentBps;
+    const reached = tiers.data
+        .filter((t) => volume >= t.minVolume)
+        .sort((a, b) => b.minVolume - a.minVolume)[0];
+    return reached ? reached.percentBps : rule.percentBps;
+}
+
+/**
+ * Fee for one line under one rule (never more than the line itself), in the line's currency.
+ * Rounded down to an amount Stripe accepts (three-decimal currencies step by 10).
+ */
+export function computeLineFee(
+    rule: FeeRule | null,
+    subtotal: number,
+    volume: number,
+    currency: string
+): number {
+    if (!rule) return floorToStep((subtotal * DEFAULT_FEE_BPS) / 10000, currency);
+
+    let fee = Math.floor((subtotal * effectiveBps(rule, volume)) / 10000) + rule.fixedAmount;
+    if (rule.minAmount != null) fee = Math.max(fee, rule.minAmount);
+    if (rule.maxAmount != null) fee = Math.min(fee, rule.maxAmount);
+    return floorToStep(Math.min(Math.max(fee, 0), subtotal), currency);
+}
+
+// Seller's paid volume over the tier window (same currency only; amounts never mix)
+async function trailingVolume(sellerAccountId: string, currency: string): Promise<number> {
+    const since = new Date(Date.now() - VOLUME_WINDOW_DAYS * 24 * 60 * 60 * 1000);
+    const agg = await prisma.order.aggregate({
+        where: { sellerAccountId, currency, status: "paid", createdAt: { gte: since } },
+        _sum: { amount: true },
+    });
+    return agg._sum.amount ?? 0;
+}
+
+/** Compute per-line platform fees for one seller's lines (all in `currency`, any case) */
+export async function quoteFees(seller: FeeSeller, lines: FeeLine[], currency: string): Promise<FeeQuote> {
+    const cur = currency.toUpperCase();
+    const productIds = [...new Set(lines.map((l) => l.productId).filter((p): p is string => !!p))];
+    const rules = await prisma.feeRule.findMany({
+        where: {
+            active: true,
+            AND: [
+                { OR: [{ sellerAccountId: null }, { sellerAccountId: seller.id }] },
+                { OR: [{ productId: null }, { productId: { in: productIds } }] },
+                { OR: [{ country: null }, ...(seller.country ? [{ country: seller.country }] : [])] },
+                { OR: [{ currency: null }, { currency: cur }] },
+            ],
+        },
+    });
+    const volume = rules.some((r) => r.tiers != null) ? await trailingVolume(seller.id, cur) : 0;
+
+    const quoted = lines.map((l) => {
+        const rule = pickRule(rules, seller, l.productId, cur);
+        return { fee: computeLineFee(rule, l.subtotal, volume, cur), ruleId: rule?.id ?? null };
+    });
+    return { lines: quoted, total: quoted.reduce((sum, l) => sum + l.fee, 0) };
+}
+
+/**
+ * A quoted fee as Stripe's application_fee_percent (two decimals, capped at 100) for subscriptions,
+ * where Stripe takes a share of every invoice instead of a fixed amount.
+ */
+export function toFeePercent(fee: number, subtotal: number): number {
+    if (subtotal <= 0) return 0;
+    return Math.min(Math.round((fee / subtotal) * 10000) / 100, 100);
+}
+
+/** Applied rules for metadata, e.g. { feeRules: "ckx1,default", lineFeeRules: "0,1,0" } */
+export function encodeFeeRules(ruleIds: (string | null)[]): { feeRules: string; lineFeeRules: string } {
+    const ids = ruleIds.map((id) => id ?? DEFAULT_FEE_RULE);
+    const distinct = [...new Set(ids)];
+    return {
+        feeRules: distinct.join(","),
+        lineFeeRules: ids.map((id) => distinct.indexOf(id)).join(","),
+    };
+}
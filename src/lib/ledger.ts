@@ -0,0 +1,106 @@
+// Platform revenue ledger (double-entry). Every LedgerEntry debits one account and credits
+// another by the same amount, so per currency the accounts always net to zero.
+//   application fee collected   Dr stripe_balance    Cr fee_revenue
+//   application fee refunded    Dr fee_refunds       Cr stripe_balance
+//   Stripe processing fee       Dr processing_costs  Cr stripe_balance
+//   separate-charge share kept  Dr stripe_balance    Cr fee_revenue
+//   separate-charge share back  Dr fee_refunds       Cr stripe_balance
+// Entries are idempotent on (type, sourceId) so webhook replays never double-post.
+import type { LedgerAccount, LedgerEntryType, Prisma } from "@prisma/client";
+import { prisma } from "./prisma";
+
+export type LedgerPosting = {
+    type: LedgerEntryType;
+    sourceId: string; // fee_*** / fr_*** / txn_*** / Order.id / re_***
+    debitAccount: LedgerAccount;
+    creditAccount: LedgerAccount;
+    amount: number;
+    currency: string;
+    occurredAt: Date;
+    chargeId?: string | null;
+    orderId?: string | null;
+    description?: string;
+};
+
+/** Post (or re-post) one journal entry; zero amounts are skipped. */
+export async function postLedgerEntry(p: LedgerPosting): Promise<void> {
+    if (p.amount <= 0) return;
+    const data = {
+        debitAccount: p.debitAccount,
+        creditAccount: p.creditAccount,
+        amount: p.amount,
+        currency: p.currency.toUpperCase(),
+        occurredAt: p.occurredAt,
+        chargeId: p.chargeId ?? null,
+        description: p.description ?? null,
+        // Keep an existing Order link when the Order is not known at this point
+        ...(p.orderId ? { orderId: p.orderId } : {}),
+    };
+    await prisma.ledgerEntry.upsert({
+        where: { type_sourceId: { type: p.type, sourceId: p.sourceId } },
+        create: { type: p.type, sourceId: p.sourceId, ...data },
+        update: data,
+    });
+}
+
+export type AccountBalance = {
+    currency: string;
+    account: LedgerAccount;
+    debit: number;
+    credit: number;
+    balance: number; // debit - credit
+};
+
+export type RevenueSummary = {
+    currency: string;
+    grossFees: number;
+    refundedFees: number;
+    processingCosts: number;
+    netRevenue: number; // grossFees - refundedFees - processingCosts
+};
+
+/** Trial balance per currency and account for entries in [from, to) */
+export async function ledgerBalances(range: { from?: Date; to?: Date }): Promise<AccountBalance[]> {
+    const where: Prisma.LedgerEntryWhereInput =
+        range.from || range.to ? { occurredAt: { gte: range.from, lt: range.to } } : {};
+    const [debits, credits] = await Promise.all([
+        prisma.ledgerEntry.groupBy({ by: ["currency", "debitAccount"], where, _sum: { amount: true } }),
+        prisma.ledgerEntry.groupBy({ by: ["currency", "creditAccount"], where, _sum: { amount: true } }),
+    ]);
+
+    const rows = new Map<string, AccountBalance>();
+    const row = (currency: string, account: LedgerAccount) => {
+        const key = `${currency}:${account}`;
+        let r = rows.get(key);
+        if (!r) {
+            r = { currency, account, debit: 0, credit: 0, balance: 0 };
+            rows.set(key, r);
+        }
+        return r;
+    };
+    for (const d of debits) row(d.currency, d.debitAccount).debit += d._sum.amount ?? 0;
+    for (const c of credits) row(c.currency, c.creditAccount).credit += c._sum.amount ?? 0;
+
+    return [...rows.values()]
+        .map((r) => ({ ...r, balance: r.debit - r.credit }))
+        .sort((a, b) => a.currency.localeCompare(b.currency) || a.account.localeCompare(b.account));
+}
+
+/** Gross fees, refunded fees, processing costs and net revenue per currency */
+export function summarizeRevenue(balances: AccountBalance[]): RevenueSummary[] {
+    const byCurrency = new Map<string, RevenueSummary>();
+    for (const b of balances) {
+        let s = byCurrency.get(b.currency);
+        if (!s) {
+            s = { currency: b.currency, grossFees: 0, refundedFees: 0, processingCosts: 0, netRevenue: 0 };
+            byCurrency.set(b.currency, s);
+        }
+        if (b.account === "fee_revenue") s.grossFees = -b.balance; // income accounts carry credit balances
+        if (b.account === "fee_refunds") s.refundedFees = b.balance;
+        if (b.account === "processing_costs") s.processingCosts = b.balance;
+    }
+    return [...byCurrency.values()].map((s) => ({
+        ...s,
+        netRevenue: s.grossFees - s.refundedFees - s.processingCosts,
+    }));
+}
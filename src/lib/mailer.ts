@@ -0,0 +1,33 @@
+// Transactional email via the Resend HTTP API (no SDK dependency).
+// Without RESEND_API_KEY outside production, messages are logged instead of sent.
+import { env } from "./env";
+
+type Mail = { to: string; subject: string; text: string };
+
+/** Send a plain-text email. Throws when the provider rejects it. */
+export async function sendMail(mail: Mail): Promise<void> {
+    if (!env.RESEND_API_KEY) {
+        if (process.env.NODE_ENV === "production") {
+            throw new Error("RESEND_API_KEY is not configured");
+        }
+        console.info(`[mail] to=${mail.to} subject=${mail.subject}\n${mail.text}`);
+        return;
+    }
+
+    const res = await fetch("https://api.resend.com/emails", {
+        method: "POST",
+        headers: {
+            Authorization: `Bearer ${env.RESEND_API_KEY}`,
+            "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+            from: env.EMAIL_FROM ?? "onboarding@resend.dev",
+            to: [mail.to],
+            subject: mail.subject,
+            text: mail.text,
+        }),
+    });
+    if (!res.ok) {
+        throw new Error(`Email provider returned ${res.status}: ${await res.text()}`);
+    }
+}
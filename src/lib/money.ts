@@ -0,0 +1,16 @@
+// Display helpers for integer amounts in the smallest currency unit.
+import { minorUnits, toMajor } from "./currency";
+
+/**
+ * Format an amount in the smallest unit, e.g. (1234, "USD") -> "$12.34", (500, "JPY") -> "¥500",
+ * (5120, "KWD") -> "KWD 5.120". Digits follow Stripe's unit table, not the locale's.
+ */
+export function formatMoney(amount: number, currency: string): string {
+    const digits = minorUnits(currency);
+    return new Intl.NumberFormat("en-US", {
+        style: "currency",
+        currency: currency.toUpperCase(),
+        minimumFractionDigits: digits,
+        maximumFractionDigits: digits,
+    }).format(toMajor(amount, currency));
+}
@@ -0,0 +1,30 @@
+// Client-side Express onboarding helpers (AccountLinks are single-use and expire in
+// minutes, so a fresh one is created on every click and on refresh_url).
+import { postJson } from "./client";
+
+export const ONBOARDING_REFRESH_PATH = "/seller/onboarding/refresh";
+export const ONBOARDING_RETURN_PATH = "/seller?onboarding=return";
+
+/** Create a fresh AccountLink for the signed-in seller and navigate to it. */
+export async function goToOnboarding(): Promise<void> {
+    const origin = window.location.origin;
+    const link = await postJson<{ url: string }>("/api/connect/create-onboarding-link", {
+        refreshUrl: `${origin}${ONBOARDING_REFRESH_PATH}`,
+        returnUrl: `${origin}${ONBOARDING_RETURN_PATH}`,
+    });
+    window.location.assign(link.url);
+}
+
+/** Open the seller's Express Dashboard in a new tab (login links are single-use too). */
+export async function openExpressDashboard(): Promise<void> {
+    // Open synchronously so popup blockers allow it, then point it at the link
+    const tab = window.open("about:blank", "_blank");
+    try {
+        const link = await postJson<{ url: string }>("/api/connect/create-login-link");
+        if (tab) tab.location.href = link.url;
+        else window.location.assign(link.url);
+    } catch (e) {
+        tab?.close();
+        throw e;
+    }
+}
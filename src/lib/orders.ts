@@ -0,0 +1,105 @@
+// Order helpers shared by checkout and the webhook handler.
+import type Stripe from "stripe";
+import type { Prisma } from "@prisma/client";
+import { onAccount, stripe } from "./stripe";
+import { prisma } from "./prisma";
+import { idOf } from "./expand";
+import { decrementInventory, listingIdsByPrice } from "./catalog";
+
+/** Per-line fees in line order, e.g. "120,0,45" (PaymentIntent metadata values are strings) */
+export const encodeLineFees = (fees: number[]): string => fees.join(",");
+
+/** Inverse of encodeLineFees; missing/invalid entries count as 0 */
+export const parseLineFees = (raw: string | undefined): number[] =>
+    raw ? raw.split(",").map((v) => Number.parseInt(v, 10) || 0) : [];
+
+/** A Checkout line item with its fee share, ready to become an OrderItem */
+export type CheckoutLine = Omit<Prisma.OrderItemCreateManyInput, "orderId">;
+
+// Direct charges sell inline prices on the seller's account; their product carries the listing id
+const listingIdOf = (price: Stripe.Price | null): string | null => {
+    const product = price?.product;
+    return product && typeof product === "object" && !product.deleted ? product.metadata?.listingId || null : null;
+};
+
+/**
+ * Load the Checkout line items behind a PaymentIntent (null if it did not come from Checkout).
+ * Positions follow the original line order, which is also the order of `lineFees`.
+ * `stripeAccount` is set for direct charges (the session lives on the connected account).
+ */
+export async function fetchCheckoutLines(
+    pi: Stripe.PaymentIntent,
+    stripeAccount?: string
+): Promise<CheckoutLine[] | null> {
+    // The PaymentIntent does not know its line items; the Checkout Session does
+    const sessions = await stripe.checkout.sessions.list({ payment_intent: pi.id, limit: 1 }, onAccount(stripeAccount));
+    const session = sessions.data[0];
+    if (!session) return null;
+
+    const fees = parseLineFees(pi.metadata?.lineFees);
+    const lines: CheckoutLine[] = [];
+    const inline = new Map<number, string>(); // position -> listing id from product metadata
+
+    const params = { limit: 100, ...(stripeAccount ? { expand: ["data.price.product"] } : {}) };
+    for await (const li of stripe.checkout.sessions.listLineItems(session.id, params, onAccount(stripeAccount))) {
+        const position = lines.length;
+        const inlineListing = listingIdOf(li.price);
+        if (inlineListing) inline.set(position, inlineListing);
+        const quantity = li.quantity ?? 1;
+        lines.push({
+            position,
+            priceId: li.price?.id ?? "",
+            productId: idOf(li.price?.product) ?? null,
+            description: li.description,
+            quantity,
+            unitAmount: li.price?.unit_amount ?? Math.round(li.amount_subtotal / quantity),
+            amount: li.amount_subtotal,
+            platformFee: fees[position] ?? 0,
+            currency: li.currency.toUpperCase(),
+        });
+    }
+
+    // Tie each line to its catalog listing (null for prices created outside the catalog)
+    const listings = await listingIdsByPrice(lines.map((l) => l.priceId));
+    return lines.map((l) => ({ ...l, listingId: inline.get(l.position) ?? listings.get(l.priceId) ?? null }));
+}
+
+/**
+ * Insert OrderItem rows and take the paid units out of stock, once: a replay inserts
+ * nothing (rows are unique on (orderId, position)) and so decrements nothing.
+ * Units that were already gone flag the Order (oversoldAt) for a refund or restock.
+ * Subscription renewals pass takeStock: false (the seat was taken by the first invoice).
+ */
+export async function createOrderItems(
+    orderId: string,
+    lines: CheckoutLine[],
+    opts: { takeStock?: boolean } = {}
+): Promise<void> {
+    await prisma.$transaction(async (tx) => {
+        const { count } = await tx.orderItem.createMany({
+            data: lines.map((l) => ({ ...l, orderId })),
+            skipDuplicates: true,
+        });
+        if (count === 0 || !(opts.takeStock ?? true)) return;
+        const short = await decrementInventory(tx, lines);
+        if (short.length > 0) await tx.order.update({ where: { id: orderId }, data: { oversoldAt: new Date() } });
+    });
+}
+
+/**
+ * Persist the Checkout line items of a PaymentIntent as OrderItem rows.
+ * Safe to call repeatedly (see createOrderItems).
+ */
+export async function syncOrderItems(
+    orderId: string,
+    pi: Stripe.PaymentIntent,
+    stripeAccount?: string
+): Promise<void> {
+    const existing = await prisma.orderItem.count({ where: { orderId } });
+    if (existing > 0) return;
+
+    const lines = await fetchCheckoutLines(pi, stripeAccount);
+    if (!lines) return; // PaymentIntent not created through Checkout
+
+    await createOrderItems(orderId, lines);
+}
@@ -0,0 +1,30 @@
+// HMAC signatures for outbound webhooks (Stripe-style: timestamped to stop replays).
+// No DB access, so subscribers and the local test receiver can import it on their own.
+import { createHmac, randomBytes, timingSafeEqual } from "node:crypto";
+
+/** "t=<unix seconds>,v1=<hex HMAC-SHA256 of `${t}.${body}`>" */
+export const SIGNATURE_HEADER = "X-Webhook-Signature";
+
+/** Signing secret for a new endpoint */
+export const newEndpointSecret = (): string => `whsec_${randomBytes(24).toString("hex")}`;
+
+const hmac = (secret: string, timestamp: number, payload: string): string =>
+    createHmac("sha256", secret).update(`${timestamp}.${payload}`).digest("hex");
+
+/** Signature header value for a request body */
+export function signPayload(payload: string, secret: string, timestamp = Math.floor(Date.now() / 1000)): string {
+    return `t=${timestamp},v1=${hmac(secret, timestamp, payload)}`;
+}
+
+/** Verify a signature header; timestamps older than `toleranceSec` are rejected (replays). */
+export function verifySignature(payload: string, header: string, secret: string, toleranceSec = 300): boolean {
+    const parts = new Map(header.split(",").map((kv) => kv.split("=", 2) as [string, string]));
+    const timestamp = Number(parts.get("t"));
+    const signature = parts.get("v1");
+    if (!Number.isInteger(timestamp) || !signature) return false;
+    if (Math.abs(Date.now() / 1000 - timestamp) > toleranceSec) return false;
+
+    const expected = Buffer.from(hmac(secret, timestamp, payload));
+    const actual = Buffer.from(signature);
+    return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
@@ -0,0 +1,251 @@
+// Outbound webhooks: normalized domain events for downstream services (fulfillment, email).
+// Emitting writes the event plus one delivery per subscribed endpoint to the outbox, in the same
+// transaction as the state change where possible; deliveries are POSTed from the outbox with an
+// HMAC signature, retried with exponential backoff, and every attempt is logged.
+import type { ConnectedAccount, OutboundDelivery, Prisma } from "@prisma/client";
+import { prisma } from "./prisma";
+import { toJson } from "./json";
+import { summarizeRequirements } from "./requirements";
+import { SIGNATURE_HEADER, signPayload } from "./outbound-signature";
+import type { OutboundEventType } from "@/schemas/outbound";
+
+/** After this many failed attempts the delivery is parked (manual redelivery only) */
+export const MAX_DELIVERY_ATTEMPTS = 8;
+
+// Receivers should answer quickly and do the work asynchronously
+const DELIVERY_TIMEOUT_MS = 10_000;
+
+// A claimed delivery is considered abandoned after this long (crashed worker / timeout)
+const CLAIM_TTL_MS = 5 * 60 * 1000;
+
+// Exponential backoff: 30s, 1m, 2m, ... capped at 6h
+const backoffMs = (attempts: number): number =>
+    Math.min(30_000 * 2 ** Math.max(attempts - 1, 0), 6 * 60 * 60 * 1000);
+
+/**
+ * Write a domain event and its deliveries to the outbox. Pass `tx` to commit it together with
+ * the state change it announces; `dedupeKey` makes repeats (Stripe retries, replays) a no-op.
+ */
+export async function emitOutboundEvent(
+    type: OutboundEventType,
+    data: Record<string, unknown>,
+    opts: { dedupeKey?: string; tx?: Prisma.TransactionClient } = {}
+): Promise<void> {
+    const write = async (db: Prisma.TransactionClient) => {
+        // ON CONFLICT DO NOTHING: a concurrent emit with the same dedupeKey neither duplicates
+        // the event nor aborts the caller's transaction with a unique violation
+        const [event] = await db.outboundEvent.createManyAndReturn({
+            data: [{ type, dedupeKey: opts.dedupeKey ?? null, payload: toJson(data) }],
+            select: { id: true },
+            skipDuplicates: true,
+        });
+        if (!event) return;
+        // Fan out now: an endpoint added later does not receive older events
+        const endpoints = await db.outboundEndpoint.findMany({
+            where: { active: true, OR: [{ enabledEvents: { isEmpty: true } }, { enabledEvents: { has: type } }] },
+            select: { id: true },
+        });
+        const now = new Date();
+        await db.outboundDelivery.createMany({
+            data: endpoints.map((e) => ({ eventId: event.id, endpointId: e.id, nextAttemptAt: now })),
+        });
+    };
+    if (opts.tx) return write(opts.tx);
+    await prisma.$transaction(write);
+}
+
+// Order snapshot shared by order.* events
+async function orderData(orderId: string) {
+    const order = await prisma.order.findUniqueOrThrow({
+        where: { id: orderId },
+        include: {
+            sellerAccount: { select: { userId: true, stripeAccountId: true } },
+            items: { orderBy: { position: "asc" } },
+        },
+    });
+    return {
+        order: {
+            id: order.id,
+            status: order.status,
+            paymentState: order.paymentState,
+            chargeModel: order.chargeModel,
+            amount: order.amount,
+            amountRefunded: order.amountRefunded,
+            platformFee: order.platformFee,
+            currency: order.currency,
+            oversoldAt: order.oversoldAt?.toISOString() ?? null,
+            buyerId: order.buyerId,
+            paymentIntentId: order.paymentIntentId,
+            checkoutSessionId: order.checkoutSessionId,
+            subscriptionId: order.subscriptionId,
+            invoiceId: order.invoiceId,
+            createdAt: order.createdAt.toISOString(),
+        },
+        seller: order.sellerAccount,
+        items: order.items.map((i) => ({
+            listingId: i.listingId,
+            priceId: i.priceId,
+            description: i.description,
+            quantity: i.quantity,
+            unitAmount: i.unitAmount,
+            amount: i.amount,
+        })),
+    };
+}
+
+/** order.paid: once per Order, whichever Stripe event recorded the payment first */
+export async function emitOrderPaid(orderId: string): Promise<void> {
+    await emitOutboundEvent("order.paid", await orderData(orderId), { dedupeKey: `order.paid:${orderId}` });
+}
+
+/** order.refunded: once per succeeded refund (the order carries the running amountRefunded) */
+export async function emitOrderRefunded(
+    orderId: string,
+    refund: { stripeRefundId: string; amount: number; reason: string | null }
+): Promise<void> {
+    await emitOutboundEvent(
+        "order.refunded",
+        {
+            ...(await orderData(orderId)),
+            refund: { id: refund.stripeRefundId, amount: refund.amount, reason: refund.reason },
+        },
+        { dedupeKey: `order.refunded:${refund.stripeRefundId}` }
+    );
+}
+
+/**
+ * seller.onboarded / seller.restricted when an update flipped chargesEnabled. Call inside the
+ * update's transaction: the flip is only visible once, so the event must commit with it.
+ */
+export async function emitSellerTransition(
+    tx: Prisma.TransactionClient,
+    wasEnabled: boolean,
+    seller: ConnectedAccount
+): Promise<void> {
+    if (wasEnabled === seller.chargesEnabled) return;
+    const requirements = summarizeRequirements(seller.requirements);
+    await emitOutboundEvent(
+        seller.chargesEnabled ? "seller.onboarded" : "seller.restricted",
+        {
+            seller: {
+                userId: seller.userId,
+                stripeAccountId: seller.stripeAccountId,
+                chargesEnabled: seller.chargesEnabled,
+                payoutsEnabled: seller.payoutsEnabled,
+                detailsSubmitted: seller.detailsSubmitted,
+                currentlyDue: requirements.currentlyDue,
+                disabledReason: requirements.disabledReason,
+                rejectReason: seller.rejectReason,
+                deletedAt: seller.deletedAt?.toISOString() ?? null,
+            },
+        },
+        { tx }
+    );
+}
+
+export type DeliveryResult =
+    | { status: "delivered"; statusCode: number }
+    | { status: "skipped"; reason: "already_delivered" | "in_progress" | "endpoint_inactive" }
+    | { status: "failed"; error: string; statusCode: number | null; attempts: number; nextAttemptAt: Date | null };
+
+/**
+ * POST one delivery to its endpoint. Claims the row first so the retry queue and a manual
+ * redelivery never send the same delivery concurrently; every attempt is written to the log.
+ */
+export async function deliverOutbound(row: OutboundDelivery): Promise<DeliveryResult> {
+    if (row.deliveredAt) return { status: "skipped", reason: "already_delivered" };
+
+    const { event, endpoint } = await prisma.outboundDelivery.findUniqueOrThrow({
+        where: { id: row.id },
+        include: { event: true, endpoint: true },
+    });
+    if (!endpoint.active) return { status: "skipped", reason: "endpoint_inactive" };
+
+    const now = new Date();
+    const claimed = await prisma.outboundDelivery.updateMany({
+        where: {
+            id: row.id,
+            deliveredAt: null,
+            OR: [{ lockedAt: null }, { lockedAt: { lt: new Date(now.getTime() - CLAIM_TTL_MS) } }],
+        },
+        data: { lockedAt: now, lastAttemptAt: now, attempts: { increment: 1 } },
+    });
+    if (claimed.count === 0) return { status: "skipped", reason: "in_progress" };
+    const attempt = row.attempts + 1;
+
+    // Same body on every attempt: receivers dedupe on id
+    const body = JSON.stringify({
+        id: event.id,
+        type: event.type,
+        created: event.createdAt.toISOString(),
+        data: event.payload,
+    });
+    const started = Date.now();
+    let statusCode: number | null = null;
+    let responseBody: string | null = null;
+    let error: string | null = null;
+    try {
+        const res = await fetch(endpoint.url, {
+            method: "POST",
+            headers: {
+                "Content-Type": "application/json",
+                "X-Webhook-Id": event.id,
+                "X-Webhook-Event": event.type,
+                "X-Webhook-Attempt": String(attempt),
+                [SIGNATURE_HEADER]: signPayload(body, endpoint.secret),
+            },
+            body,
+            redirect: "manual",
+            signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+        });
+        statusCode = res.status;
+        responseBody = (await res.text()).slice(0, 2000);
+        if (!res.ok) error = `HTTP ${res.status}`;
+    } catch (e) {
+        error = e instanceof Error ? e.message : "Unknown error";
+    }
+    const durationMs = Date.now() - started;
+    const nextAttemptAt =
+        error && attempt < MAX_DELIVERY_ATTEMPTS ? new Date(Date.now() + backoffMs(attempt)) : null;
+
+    // Release the claim; nextAttemptAt drives the retry queue
+    await prisma.$transaction([
+        prisma.outboundDeliveryAttempt.create({
+            data: { deliveryId: row.id, attempt, statusCode, responseBody, error, durationMs },
+        }),
+        prisma.outboundDelivery.update({
+            where: { id: row.id },
+            data: {
+                deliveredAt: error ? null : new Date(),
+                lastStatusCode: statusCode,
+                lastError: error,
+                nextAttemptAt,
+                lockedAt: null,
+            },
+        }),
+    ]);
+    return error
+        ? { status: "failed", error, statusCode, attempts: attempt, nextAttemptAt }
+        : { status: "delivered", statusCode: statusCode ?? 200 };
+}
+
+/** Redeliver by delivery id (manual: ignores backoff and works for parked deliveries). */
+export async function redeliverOutbound(id: string): Promise<DeliveryResult | null> {
+    const row = await prisma.outboundDelivery.findUnique({ where: { id } });
+    return row ? deliverOutbound(row) : null;
+}
+
+/** Run the outbox: undelivered deliveries whose backoff has elapsed (oldest first). */
+export async function deliverDueOutbound(limit = 50): Promise<{ id: string; result: DeliveryResult }[]> {
+    const due = await prisma.outboundDelivery.findMany({
+        where: { deliveredAt: null, nextAttemptAt: { lte: new Date() }, endpoint: { active: true } },
+        orderBy: { nextAttemptAt: "asc" },
+        take: limit,
+    });
+
+    const results: { id: string; result: DeliveryResult }[] = [];
+    for (const row of due) {
+        results.push({ id: row.id, result: await deliverOutbound(row) });
+    }
+    return results;
+}
@@ -0,0 +1,66 @@
+// Opaque keyset cursors over (<timestamp> <dir>, id <dir>), createdAt desc by default.
+// Stable under concurrent inserts, unlike offset paging; the cursor is base64url JSON
+// so clients treat it as a token rather than building it themselves.
+
+export type SortField = "createdAt" | "updatedAt";
+export type SortDirection = "asc" | "desc";
+export type Sort = { field: SortField; direction: SortDirection };
+
+const DEFAULT_SORT: Sort = { field: "createdAt", direction: "desc" };
+
+type CursorKey = { value: Date; id: string };
+
+/** Cursor pointing just after a row with sort value `value` */
+export function encodeCursor(value: Date, id: string): string {
+    return Buffer.from(JSON.stringify([value.toISOString(), id])).toString("base64url");
+}
+
+/** Decode a cursor; null when it is malformed */
+export function decodeCursor(cursor: string): CursorKey | null {
+    try {
+        const raw: unknown = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+        if (!Array.isArray(raw) || typeof raw[0] !== "string" || typeof raw[1] !== "string") return null;
+        const value = new Date(raw[0]);
+        return Number.isNaN(value.getTime()) ? null : { value, id: raw[1] };
+    } catch {
+        return null;
+    }
+}
+
+/** Sort order the cursor assumes (pass to findMany.orderBy) */
+export function cursorOrder(sort: Sort = DEFAULT_SORT) {
+    return [{ [sort.field]: sort.direction }, { id: sort.direction }] as {
+        [K in SortField | "id"]?: SortDirection;
+    }[];
+}
+
+/** Default order: newest first */
+export const CURSOR_ORDER = cursorOrder();
+
+/** WHERE fragment selecting rows strictly after the cursor ({} on the first page) */
+export function afterCursor(cursor: string | undefined, sort: Sort = DEFAULT_SORT) {
+    const key = cursor ? decodeCursor(cursor) : null;
+    if (!key) return {};
+    const op = sort.direction === "desc" ? "lt" : "gt";
+    return {
+        OR: [
+            { [sort.field]: { [op]: key.value } },
+            { [sort.field]: key.value, id: { [op]: key.id } },
+        ],
+    };
+}
+
+/**
+ * Trim a `take: limit + 1` result to one page and derive nextCursor
+ * (null when this was the last page).
+ */
+export function toPage<T extends { id: string } & { [K in SortField]?: Date }>(
+    rows: T[],
+    limit: number,
+    sort: Sort = DEFAULT_SORT
+): { data: T[]; nextCursor: string | null } {
+    const data = rows.slice(0, limit);
+    const last = data[data.length - 1];
+    const value = last?.[sort.field];
+    return { data, nextCursor: rows.length > limit && value ? encodeCursor(value, last.id) : null };
+}
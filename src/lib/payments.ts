@@ -0,0 +1,172 @@
+// Order reconciliation from PaymentIntent / Checkout Session events.
+// Stripe does not guarantee event order, so every event rebuilds the Order from the
+// PaymentIntent (fetched live when the event only carries the session).
+// Direct charges arrive as Connect events (event.account): their objects are read on that account.
+import type Stripe from "stripe";
+import type { OrderStatus, PaymentState } from "@prisma/client";
+import { onAccount, stripe } from "./stripe";
+import { prisma } from "./prisma";
+import { toJson } from "./json";
+import { idOf } from "./expand";
+import { syncOrderItems } from "./orders";
+import { emitOrderPaid } from "./outbound";
+import { linkRevenueToOrder } from "./revenue";
+import { invoiceIdForPayment, recordPaidInvoice, refreshSubscription } from "./subscriptions";
+import { SEPARATE_CHECKOUT_MODE, settleSeparateCharge } from "./transfers";
+
+type Outcome = { status: OrderStatus; paymentState: PaymentState };
+
+// Map PaymentIntent status onto Order state (failed = async payment method was declined)
+function outcomeOf(pi: Stripe.PaymentIntent, failed: boolean): Outcome {
+    if (pi.status === "succeeded") return { status: "paid", paymentState: "succeeded" };
+    if (failed || pi.status === "canceled") return { status: "created", paymentState: "failed" };
+    return { status: "created", paymentState: "processing" };
+}
+
+// Refund states are owned by refunds.ts; a paid order never goes back to processing
+function keepExisting(existing: PaymentState, next: PaymentState): boolean {
+    if (existing === "refunded_partial" || existing === "refunded_full") return true;
+    return existing === "succeeded" && next !== "succeeded";
+}
+
+// "guest" is the checkout placeholder for anonymous buyers
+const buyerOf = (pi: Stripe.PaymentIntent): string | null => {
+    const raw = pi.metadata?.buyerId || null;
+    return raw && raw !== "guest" ? raw : null;
+};
+
+// Checkout Session that created a PaymentIntent (null for non-Checkout payments)
+async function findSessionId(piId: string, stripeAccount?: string): Promise<string | null> {
+    const sessions = await stripe.checkout.sessions.list({ payment_intent: piId, limit: 1 }, onAccount(stripeAccount));
+    return sessions.data[0]?.id ?? null;
+}
+
+/**
+ * Create or update the Order for a PaymentIntent, filling in every Stripe id we know.
+ * `stripeAccount` is the connected account a direct charge was made on.
+ * Throws when the seller is not in our DB yet so the event is retried, never dropped.
+ */
+export async function reconcilePaymentIntent(
+    pi: Stripe.PaymentIntent,
+    opts: { checkoutSessionId?: string; failed?: boolean; stripeAccount?: string } = {}
+): Promise<void> {
+    const { stripeAccount } = opts;
+    // A connected account's own payments are not ours; only our direct charges are recorded
+    if (stripeAccount && pi.metadata?.chargeModel !== "direct") return;
+
+    const outcome = outcomeOf(pi, opts.failed ?? false);
+    const checkoutSessionId = opts.checkoutSessionId ?? (await findSessionId(pi.id, stripeAccount));
+
+    // Multi-seller cart: sub-orders + transfers exist only once the charge succeeded
+    if (pi.metadata?.checkoutMode === SEPARATE_CHECKOUT_MODE) {
+        if (outcome.paymentState === "succeeded") {
+            await settleSeparateCharge(pi, checkoutSessionId);
+        }
+        return;
+    }
+
+    // Subscription invoices carry none of our checkout metadata: record them from the invoice
+    if (!stripeAccount && !checkoutSessionId && !pi.metadata?.sellerStripeAccountId) {
+        const invoiceId = await invoiceIdForPayment(pi.id);
+        if (invoiceId) {
+            if (outcome.paymentState === "succeeded") {
+                await recordPaidInvoice(await stripe.invoices.retrieve(invoiceId));
+            }
+            return;
+        }
+    }
+
+    // Resolve ConnectedAccount ID (foreign key constraint)
+    const sellerAcct =
+        stripeAccount || pi.metadata?.sellerStripeAccountId || idOf(pi.transfer_data?.destination) || "";
+    const seller = await prisma.connectedAccount.findUnique({
+        where: { stripeAccountId: sellerAcct },
+        select: { id: true },
+    });
+    if (!seller) throw new Error(`Connected account not found for ${pi.id}: ${sellerAcct || "(none)"}`);
+
+    // Capture Charge + Transfer IDs (transfer exists once a destination charge succeeds;
+    // direct charges pay the seller without one)
+    const chargeId = idOf(pi.latest_charge);
+    let transferId: string | undefined;
+    if (chargeId && outcome.paymentState === "succeeded" && !stripeAccount) {
+        const ch = await stripe.charges.retrieve(chargeId);
+        transferId = idOf(ch.transfer);
+    }
+
+    const where = {
+        paymentIntentId_sellerAccountId: { paymentIntentId: pi.id, sellerAccountId: seller.id },
+    };
+    const existing = await prisma.order.findUnique({ where, select: { paymentState: true } });
+    const state = existing && keepExisting(existing.paymentState, outcome.paymentState) ? {} : outcome;
+
+    const data = {
+        amount: pi.amount_received || pi.amount,
+        platformFee: Number(pi.metadata?.platformFee ?? "0"),
+        currency: pi.currency.toUpperCase(),
+        ...(checkoutSessionId ? { checkoutSessionId } : {}),
+        ...(chargeId ? { chargeId } : {}),
+        ...(transferId ? { transferId } : {}),
+        chargeModel: stripeAccount ? ("direct" as const) : ("destination" as const),
+        metadata: toJson(pi.metadata ?? {}),
+    };
+    const order = await prisma.order.upsert({
+        where,
+        create: {
+            paymentIntentId: pi.id,
+            sellerAccountId: seller.id,
+            buyerId: buyerOf(pi) ?? undefined,
+            ...outcome,
+            ...data,
+        },
+        update: { ...state, ...data },
+    });
+
+    // Itemize the cart (one OrderItem per Checkout line)
+    if (outcome.paymentState === "succeeded") {
+        await syncOrderItems(order.id, pi, stripeAccount);
+    }
+
+    // Fee / processing-cost events for this charge may have been recorded before the Order
+    if (chargeId) {
+        await linkRevenueToOrder(order.id, chargeId);
+    }
+
+    if (outcome.paymentState === "succeeded") {
+        await emitOrderPaid(order.id);
+    }
+}
+
+/** checkout.session.completed / async_payment_succeeded / async_payment_failed */
+export async function reconcileCheckoutSession(
+    session: Stripe.Checkout.Session,
+    opts: { failed?: boolean; stripeAccount?: string } = {}
+): Promise<void> {
+    const { stripeAccount } = opts;
+
+    // Subscription checkout: link the subscription to its session; invoice.paid records the payment
+    // (memberships are platform subscriptions, never direct charges)
+    if (session.mode === "subscription") {
+        if (stripeAccount) return;
+        const subscriptionId = idOf(session.subscription);
+        if (!subscriptionId) return;
+        const subscription = await refreshSubscription(subscriptionId, { checkoutSessionId: session.id });
+
+        // The first invoice may have been recorded before the session was known
+        const invoiceId = idOf(session.invoice);
+        if (invoiceId) {
+            await prisma.order.updateMany({
+                where: { subscriptionId: subscription.id, invoiceId, checkoutSessionId: null },
+                data: { checkoutSessionId: session.id },
+            });
+        }
+        return;
+    }
+
+    const piId = idOf(session.payment_intent);
+    if (!piId) return; // Not a one-time payment session
+
+    // The session payload is a snapshot; the PaymentIntent is the source of truth
+    const pi = await stripe.paymentIntents.retrieve(piId, {}, onAccount(stripeAccount));
+    await reconcilePaymentIntent(pi, { checkoutSessionId: session.id, failed: opts.failed, stripeAccount });
+}
@@ -0,0 +1,107 @@
+// Sync connected-account payouts (Connect payout.* events) and link them to the orders
+// they settled. Idempotent on stripePayoutId.
+import type Stripe from "stripe";
+import type { PayoutStatus } from "@prisma/client";
+import { stripe } from "./stripe";
+import { prisma } from "./prisma";
+import { idOf } from "./expand";
+
+// Map Stripe Payout.status (string) onto our enum
+function toPayoutStatus(status: string): PayoutStatus {
+    switch (status) {
+        case "in_transit":
+        case "paid":
+        case "failed":
+        case "canceled":
+            return status;
+        default:
+            return "pending";
+    }
+}
+
+/**
+ * Collect what funded a payout on the connected account. Destination charges and transfers show
+ * up there as py_*** payments whose source_transfer points back at our Order.transferId; direct
+ * charges were made on the account itself, so the charge is our Order.chargeId.
+ */
+async function payoutSources(
+    payout: Stripe.Payout,
+    stripeAccount: string
+): Promise<{ transferIds: string[]; chargeIds: string[] }> {
+    const transferIds: string[] = [];
+    const chargeIds: string[] = [];
+    const txns = stripe.balanceTransactions.list(
+        { payout: payout.id, limit: 100, expand: ["data.source"] },
+        { stripeAccount }
+    );
+    for await (const bt of txns) {
+        const src = bt.source;
+        if (src && typeof src !== "string" && src.object === "charge") {
+            const transferId = idOf(src.source_transfer);
+            if (transferId) transferIds.push(transferId);
+            else chargeIds.push(src.id);
+        }
+    }
+    return { transferIds, chargeIds };
+}
+
+/**
+ * Upsert a payout for `stripeAccountId` (event.account) and link settled orders. Events can
+ * arrive out of order: one older than the last applied (by `created`) changes nothing.
+ */
+export async function syncPayout(
+    payout: Stripe.Payout,
+    stripeAccountId: string,
+    event: Pick<Stripe.Event, "created">
+): Promise<void> {
+    const seller = await prisma.connectedAccount.findUnique({
+        where: { stripeAccountId },
+        select: { id: true },
+    });
+    if (!seller) return; // Account not in our DB (ignore)
+
+    const at = new Date(event.created * 1000);
+    const data = {
+        amount: payout.amount,
+        currency: payout.currency.toUpperCase(),
+        status: toPayoutStatus(payout.status),
+        arrivalDate: new Date(payout.arrival_date * 1000),
+        method: payout.method,
+        automatic: payout.automatic,
+        balanceTransactionId: idOf(payout.balance_transaction) ?? null,
+        failureCode: payout.failure_code,
+        failureMessage: payout.failure_message,
+        lastEventAt: at,
+    };
+    const row = await prisma.payout.upsert({
+        where: { stripePayoutId: payout.id },
+        create: { sellerAccountId: seller.id, stripePayoutId: payout.id, ...data },
+        update: {},
+    });
+    const applied = await prisma.payout.updateMany({
+        where: { id: row.id, OR: [{ lastEventAt: null }, { lastEventAt: { lte: at } }] },
+        data,
+    });
+    if (applied.count === 0) return; // a newer event already moved the payout on
+
+    // Stripe only itemizes automatic payouts; failed/canceled ones settled nothing
+    if (!payout.automatic) return;
+    if (data.status === "failed" || data.status === "canceled") {
+        await prisma.order.updateMany({ where: { payoutId: row.id }, data: { payoutId: null } });
+        return;
+    }
+
+    const { transferIds, chargeIds } = await payoutSources(payout, stripeAccountId);
+    if (transferIds.length > 0 || chargeIds.length > 0) {
+        await prisma.order.updateMany({
+            where: {
+                sellerAccountId: seller.id,
+                OR: [
+                    ...(transferIds.length > 0 ? [{ transferId: { in: transferIds } }] : []),
+                    ...(chargeIds.length > 0 ? [{ chargeModel: "direct" as const, chargeId: { in: chargeIds } }] : []),
+                ],
+            },
+            data: { payoutId: row.id },
+        });
+    }
+}
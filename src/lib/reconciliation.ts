@@ -0,0 +1,289 @@
+// Reconcile the local ledger (Order / Refund / Transfer rows, written from webhooks) against
+// Stripe's platform balance transactions and application fees for a time window. Direct charges
+// settle on the seller's account, so direct-charge sellers' balance transactions are read too.
+// Read-only unless `backfill` is set: then missing orders and refunds are re-synced through
+// the same code paths the webhook uses, so a backfill is indistinguishable from a late event.
+import type Stripe from "stripe";
+import { onAccount, stripe } from "./stripe";
+import { prisma } from "./prisma";
+import { idOf } from "./expand";
+import { reconcilePaymentIntent } from "./payments";
+import { syncRefund } from "./refunds";
+
+export type DiscrepancyKind =
+    | "missing_order" // succeeded charge with no Order
+    | "amount_mismatch" // Order amounts do not add up to the charge
+    | "fee_mismatch" // Order.platformFee differs from the application fee Stripe took
+    | "unrecorded_refund" // refund with no Refund row
+    | "refund_out_of_sync" // Refund row exists but is not marked succeeded / linked to its txn
+    | "orphaned_transfer"; // transfer out of the platform that no Order / Transfer row knows
+
+export type Discrepancy = {
+    kind: DiscrepancyKind;
+    stripeId: string; // ch_*** / re_*** / tr_*** / fee_***
+    stripeAccount: string | null; // acct_*** a direct charge / refund lives on (null = the platform)
+    balanceTransactionId: string | null;
+    currency: string;
+    expected: number | null; // Stripe's amount
+    actual: number | null; // ours (null when missing)
+    orderIds: string[];
+    backfilled?: boolean;
+    error?: string;
+};
+
+export type ReconciliationReport = {
+    from: Date;
+    to: Date;
+    backfill: boolean;
+    scanned: { balanceTransactions: number; applicationFees: number; connectedAccounts: number };
+    discrepancies: Discrepancy[];
+    counts: Record<DiscrepancyKind, number>;
+};
+
+// Balance transaction types that carry a charge / refund / transfer we should have recorded
+const CHARGE_TYPES = new Set(["charge", "payment"]);
+const REFUND_TYPES = new Set(["refund", "payment_refund"]);
+
+const seconds = (d: Date) => Math.floor(d.getTime() / 1000);
+
+/** Default window: the previous UTC day */
+export function previousUtcDay(now = new Date()): { from: Date; to: Date } {
+    const to = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+    return { from: new Date(to.getTime() - 24 * 60 * 60 * 1000), to };
+}
+
+// Backfill steps found while scanning; run once the scan is done (orders before refunds, so a
+// refund finds the Order its charge backfilled whatever page either was on)
+type Backfills = { orders: BackfillStep[]; refunds: BackfillStep[] };
+type BackfillStep = { d: Discrepancy; run: () => Promise<void> };
+
+// Run a backfill step and record its outcome on the discrepancy
+async function backfillWith({ d, run }: BackfillStep): Promise<void> {
+    try {
+        await run();
+        d.backfilled = true;
+    } catch (e) {
+        d.backfilled = false;
+        d.error = e instanceof Error ? e.message : "Unknown error";
+    }
+}
+
+async function checkCharge(
+    bt: Stripe.BalanceTransaction,
+    charge: Stripe.Charge,
+    stripeAccount: string | null,
+    backfills: Backfills | null
+): Promise<Discrepancy | null> {
+    if (charge.status !== "succeeded") return null;
+    // A connected account's own payments are not ours; only our direct charges are recorded
+    if (stripeAccount && charge.metadata?.chargeModel !== "direct") return null;
+    const piId = idOf(charge.payment_intent);
+    const orders = await prisma.order.findMany({
+        where: { OR: [{ chargeId: charge.id }, ...(piId ? [{ paymentIntentId: piId }] : [])] },
+        select: { id: true, amount: true, currency: true },
+    });
+    const base = {
+        stripeId: charge.id,
+        stripeAccount,
+        balanceTransactionId: bt.id,
+        currency: charge.currency.toUpperCase(),
+        expected: charge.amount,
+    };
+
+    if (orders.length === 0) {
+        const d: Discrepancy = { kind: "missing_order", ...base, actual: null, orderIds: [] };
+        if (backfills && piId) {
+            backfills.orders.push({
+                d,
+                run: async () =>
+                    reconcilePaymentIntent(
+                        await stripe.paymentIntents.retrieve(piId, {}, onAccount(stripeAccount)),
+                        { stripeAccount: stripeAccount ?? undefined }
+                    ),
+            });
+        }
+        return d;
+    }
+
+    // Multi-seller carts: the sub-orders split the one charge
+    const actual = orders.reduce((sum, o) => sum + o.amount, 0);
+    return actual === charge.amount
+        ? null
+        : { kind: "amount_mismatch", ...base, actual, orderIds: orders.map((o) => o.id) };
+}
+
+// Whether a charge on a connected account is one of our direct charges (recorded or not)
+async function isDirectCharge(chargeId: string | undefined, stripeAccount: string): Promise<boolean> {
+    if (!chargeId) return false;
+    if (await prisma.order.count({ where: { chargeId, chargeModel: "direct" } })) return true;
+    const charge = await stripe.charges.retrieve(chargeId, {}, onAccount(stripeAccount));
+    return charge.metadata?.chargeModel === "direct";
+}
+
+async function checkRefund(
+    bt: Stripe.BalanceTransaction,
+    refund: Stripe.Refund,
+    stripeAccount: string | null,
+    backfills: Backfills | null
+): Promise<Discrepancy | null> {
+    const row = await prisma.refund.findUnique({
+        where: { stripeRefundId: refund.id },
+        select: { orderId: true, amount: true, status: true, balanceTransactionId: true },
+    });
+    // On a connected account, only refunds of our direct charges are ours to record
+    if (!row && stripeAccount && !(await isDirectCharge(idOf(refund.charge), stripeAccount))) return null;
+    const base = {
+        stripeId: refund.id,
+        stripeAccount,
+        balanceTransactionId: bt.id,
+        currency: refund.currency.toUpperCase(),
+        expected: refund.amount,
+    };
+
+    let d: Discrepancy | null = null;
+    if (!row) {
+        d = { kind: "unrecorded_refund", ...base, actual: null, orderIds: [] };
+    } else if (
+        (refund.status === "succeeded" && row.status !== "succeeded") ||
+        row.amount !== refund.amount ||
+        row.balanceTransactionId !== bt.id
+    ) {
+        d = { kind: "refund_out_of_sync", ...base, actual: row.amount, orderIds: [row.orderId] };
+    }
+    if (!d) return null;
+    backfills?.refunds.push({
+        d,
+        run: async () => {
+            await syncRefund(refund);
+            // syncRefund skips refunds whose Order is unknown
+            const synced = await prisma.refund.count({ where: { stripeRefundId: refund.id } });
+            if (!synced) throw new Error("Order for this refund is not recorded");
+        },
+    });
+    return d;
+}
+
+async function checkTransfer(bt: Stripe.BalanceTransaction, transfer: Stripe.Transfer): Promise<Discrepancy | null> {
+    // Destination charges: Order.transferId; separate transfers: Transfer.stripeTransferId
+    const [order, row] = await Promise.all([
+        prisma.order.findUnique({ where: { transferId: transfer.id }, select: { id: true } }),
+        prisma.transfer.findUnique({ where: { stripeTransferId: transfer.id }, select: { orderId: true } }),
+    ]);
+    if (order || row) return null;
+    return {
+        kind: "orphaned_transfer",
+        stripeId: transfer.id,
+        stripeAccount: null,
+        balanceTransactionId: bt.id,
+        currency: transfer.currency.toUpperCase(),
+        expected: transfer.amount,
+        actual: null,
+        orderIds: [],
+    };
+}
+
+// Compare what Stripe actually took as application fee with what we recorded per charge
+async function checkApplicationFee(fee: Stripe.ApplicationFee): Promise<Discrepancy | null> {
+    // Destination charges: originating_transaction is the platform charge; fee.charge lives on the seller
+    const chargeId = idOf(fee.originating_transaction) ?? idOf(fee.charge);
+    if (!chargeId) return null;
+    const orders = await prisma.order.findMany({
+        where: { chargeId },
+        select: { id: true, platformFee: true },
+    });
+    if (orders.length === 0) return null; // reported as missing_order by the charge check
+
+    const actual = orders.reduce((sum, o) => sum + o.platformFee, 0);
+    return actual === fee.amount
+        ? null
+        : {
+            kind: "fee_mismatch",
+            stripeId: fee.id,
+            stripeAccount: null,
+            balanceTransactionId: idOf(fee.balance_transaction) ?? null,
+            currency: fee.currency.toUpperCase(),
+            expected: fee.amount,
+            actual,
+            orderIds: orders.map((o) => o.id),
+        };
+}
+
+// Check one balance transaction as it is listed (pages are never buffered)
+async function checkBalanceTransaction(
+    bt: Stripe.BalanceTransaction,
+    stripeAccount: string | null,
+    backfills: Backfills | null
+): Promise<Discrepancy | null> {
+    const src = bt.source;
+    if (!src || typeof src === "string") return null;
+
+    if (CHARGE_TYPES.has(bt.type) && src.object === "charge") {
+        return checkCharge(bt, src, stripeAccount, backfills);
+    }
+    if (REFUND_TYPES.has(bt.type) && src.object === "refund") {
+        return checkRefund(bt, src, stripeAccount, backfills);
+    }
+    // Transfers only leave the platform
+    if (!stripeAccount && bt.type === "transfer" && src.object === "transfer") {
+        return checkTransfer(bt, src);
+    }
+    return null;
+}
+
+/**
+ * Walk every platform balance transaction and application fee created in [from, to), plus
+ * the balance transactions of sellers with direct charges, and report what the local ledger
+ * is missing or disagrees with. Backfills run after the scan.
+ */
+export async function runReconciliation(opts: {
+    from: Date;
+    to: Date;
+    backfill?: boolean;
+}): Promise<ReconciliationReport> {
+    const backfill = opts.backfill ?? false;
+    const created = { gte: seconds(opts.from), lt: seconds(opts.to) };
+    const discrepancies: Discrepancy[] = [];
+    const scanned = { balanceTransactions: 0, applicationFees: 0, connectedAccounts: 0 };
+    const backfills: Backfills | null = backfill ? { orders: [], refunds: [] } : null;
+
+    // The platform, then each account a direct charge may have been made on
+    const directSellers = await prisma.connectedAccount.findMany({
+        where: { OR: [{ chargeModel: "direct" }, { orders: { some: { chargeModel: "direct" } } }] },
+        select: { stripeAccountId: true },
+        orderBy: { createdAt: "asc" },
+    });
+    scanned.connectedAccounts = directSellers.length;
+    for (const stripeAccount of [null, ...directSellers.map((s) => s.stripeAccountId)]) {
+        const txns = stripe.balanceTransactions.list(
+            { created, limit: 100, expand: ["data.source"] },
+            onAccount(stripeAccount)
+        );
+        for await (const bt of txns) {
+            scanned.balanceTransactions++;
+            const d = await checkBalanceTransaction(bt, stripeAccount, backfills);
+            if (d) discrepancies.push(d);
+        }
+    }
+
+    for await (const fee of stripe.applicationFees.list({ created, limit: 100 })) {
+        scanned.applicationFees++;
+        const d = await checkApplicationFee(fee);
+        if (d) discrepancies.push(d);
+    }
+
+    if (backfills) {
+        for (const step of [...backfills.orders, ...backfills.refunds]) await backfillWith(step);
+    }
+
+    const counts: Record<DiscrepancyKind, number> = {
+        missing_order: 0,
+        amount_mismatch: 0,
+        fee_mismatch: 0,
+        unrecorded_refund: 0,
+        refund_out_of_sync: 0,
+        orphaned_transfer: 0,
+    };
+    for (const d of discrepancies) counts[d.kind]++;
+
+    return { from: opts.from, to: opts.to, backfill, scanned, discrepancies, counts };
+}
@@ -0,0 +1,230 @@
+// Sync Stripe refunds into Refund rows and the aggregated refund state on Order.
+// Idempotent on stripeRefundId: every refund.* / charge.refunded delivery can be replayed.
+import type Stripe from "stripe";
+import type { Order, Refund, RefundStatus } from "@prisma/client";
+import { onAccount, stripe } from "./stripe";
+import { prisma } from "./prisma";
+import { toJson } from "./json";
+import { idOf } from "./expand";
+import { roundToStep } from "./currency";
+import { env } from "./env";
+import { emitOrderRefunded } from "./outbound";
+import { recordPlatformShareRefund } from "./revenue";
+
+// Refunds that still count against the charge (Stripe's amount_refunded includes pending ones)
+const ACTIVE_STATUSES: RefundStatus[] = ["pending", "requires_action", "succeeded"];
+
+/** Map Stripe Refund.status (nullable string) onto our enum */
+export function toRefundStatus(status: string | null): RefundStatus {
+    switch (status) {
+        case "succeeded":
+        case "failed":
+        case "canceled":
+        case "requires_action":
+            return status;
+        default:
+            return "pending";
+    }
+}
+
+// Find the Order a refund belongs to.
+// Our refund API pins the sub-order via metadata.orderId; otherwise fall back to the
+// PaymentIntent / Charge (multi-seller carts: first sub-order wins, so refund via the API).
+async function findOrder(refund: Stripe.Refund): Promise<Order | null> {
+    const pinned = refund.metadata?.orderId;
+    if (pinned) {
+        const order = await prisma.order.findUnique({ where: { id: pinned } });
+        if (order) return order;
+    }
+    const piId = idOf(refund.payment_intent);
+    if (piId) {
+        const order = await prisma.order.findFirst({
+            where: { paymentIntentId: piId },
+            orderBy: { createdAt: "asc" },
+        });
+        if (order) return order;
+    }
+    const chargeId = idOf(refund.charge);
+    return chargeId
+        ? prisma.order.findFirst({ where: { chargeId }, orderBy: { createdAt: "asc" } })
+        : null;
+}
+
+// Return the platform's part of a refund to the seller as an application fee refund
+async function refundPlatformShare(
+    order: Order,
+    refund: Stripe.Refund,
+    row: Refund,
+    amount: number,
+    stripeAccount?: string
+): Promise<void> {
+    if (row.applicationFeeRefundId || amount <= 0) return;
+    const chargeId = idOf(refund.charge);
+    if (!chargeId) return;
+    const charge = await stripe.charges.retrieve(chargeId, {}, onAccount(stripeAccount));
+    const feeId = idOf(charge.application_fee);
+    if (!feeId) return;
+
+    // Application fees live on the platform, whichever account the charge was made on
+    const feeRefund = await stripe.applicationFees.createRefund(
+        feeId,
+        { amount, metadata: { refundId: refund.id, orderId: order.id } },
+        { idempotencyKey: `refund-fee-${refund.id}` }
+    );
+    await prisma.refund.update({
+        where: { id: row.id },
+        data: { applicationFeeRefundId: feeRefund.id },
+    });
+}
+
+// Direct charge refunded by the seller (its own Dashboard or API): the seller's balance paid
+// for it. The platform keeps its fee unless DIRECT_REFUND_RETURNS_FEE opts in to returning the
+// proportional share. Our refund API chose with refundApplicationFee instead.
+async function refundDirectCharge(order: Order, refund: Stripe.Refund, row: Refund): Promise<void> {
+    const meta = refund.metadata ?? {};
+    const returnsFee = meta.platformInitiated === "true"
+        ? meta.refundApplicationFee === "true"
+        : env.DIRECT_REFUND_RETURNS_FEE;
+    if (!returnsFee || order.amount <= 0) return;
+    const seller = await prisma.connectedAccount.findUniqueOrThrow({
+        where: { id: order.sellerAccountId },
+        select: { stripeAccountId: true },
+    });
+    const feeRefundAmount = roundToStep((refund.amount * order.platformFee) / order.amount, order.currency);
+    await refundPlatformShare(order, refund, row, feeRefundAmount, seller.stripeAccountId);
+}
+
+// Claw back the seller's share of a refund from a destination or separate-transfer charge.
+// The reversal takes back the same fraction of the transfer as the refund is of the order
+// (destination charges transfer the full amount); the fee refund returns that fraction of the
+// platform fee, so the seller ends up paying for exactly its share of the refund.
+async function reverseSellerShare(order: Order, refund: Stripe.Refund, row: Refund): Promise<void> {
+    if (order.chargeModel === "direct") return refundDirectCharge(order, refund, row);
+
+    const meta = refund.metadata ?? {};
+    const platformInitiated = meta.platformInitiated === "true";
+    const feeRefundAmount = order.amount > 0
+        ? roundToStep((refund.amount * order.platformFee) / order.amount, order.currency)
+        : 0;
+
+    // Stripe already reversed it (refund created with reverse_transfer); the fee is ours to return
+    const stripeReversal = idOf(refund.transfer_reversal);
+    if (stripeReversal) {
+        if (!row.transferReversalId) {
+            await prisma.refund.update({
+                where: { id: row.id },
+                data: { transferReversalId: stripeReversal },
+            });
+        }
+        if (platformInitiated && meta.refundApplicationFee === "true") {
+            await refundPlatformShare(order, refund, row, feeRefundAmount);
+        }
+        return;
+    }
+    // Staff picked reverseTransfer / refundApplicationFee explicitly (api/orders/[id]/refund).
+    // Separate-transfer orders can't use reverse_transfer, so their reversal still happens here.
+    // Refunds from elsewhere (Dashboard) are only clawed back when DASHBOARD_REFUND_CLAWBACK is on.
+    if (platformInitiated && meta.reverseTransfer !== "true") {
+        if (meta.refundApplicationFee === "true") await refundPlatformShare(order, refund, row, feeRefundAmount);
+        return;
+    }
+    if (!platformInitiated && !env.DASHBOARD_REFUND_CLAWBACK) return;
+    if (!order.transferId || order.amount <= 0) return;
+
+    // Separate transfers carry the seller's share only; destination charges move the full amount
+    const transfer = await prisma.transfer.findUnique({ where: { orderId: order.id }, select: { amount: true } });
+    const transferAmount = transfer?.amount ?? order.amount;
+    const reversalAmount = roundToStep((refund.amount * transferAmount) / order.amount, order.currency);
+
+    // Idempotency keys guard against concurrent deliveries of the same refund
+    if (!row.transferReversalId && reversalAmount > 0) {
+        const reversal = await stripe.transfers.createReversal(
+            order.transferId,
+            { amount: reversalAmount, metadata: { refundId: refund.id, orderId: order.id } },
+            { idempotencyKey: `refund-reversal-${refund.id}` }
+        );
+        await prisma.refund.update({
+            where: { id: row.id },
+            data: { transferReversalId: reversal.id },
+        });
+    }
+    // Separate charges: the platform covers the rest of the refund from the share it kept
+    if (order.chargeModel === "separate" && reversalAmount > 0) {
+        await recordPlatformShareRefund(order, refund, refund.amount - reversalAmount);
+    }
+
+    // Separate charges have no application fee (refundPlatformShare finds none and stops)
+    if (!platformInitiated || meta.refundApplicationFee === "true") {
+        await refundPlatformShare(order, refund, row, feeRefundAmount);
+    }
+}
+
+/** Recompute Order.amountRefunded / paymentState / status from its Refund rows. */
+export async function recomputeOrderRefunds(orderId: string): Promise<void> {
+    const order = await prisma.order.findUniqueOrThrow({ where: { id: orderId } });
+    const agg = await prisma.refund.aggregate({
+        where: { orderId, status: { in: ACTIVE_STATUSES } },
+        _sum: { amount: true },
+    });
+    const amountRefunded = agg._sum.amount ?? 0;
+    const full = order.amount > 0 && amountRefunded >= order.amount;
+
+    // A refund implies the charge succeeded; never overwrite a failed payment
+    const paymentState = order.paymentState === "failed"
+        ? order.paymentState
+        : full
+            ? "refunded_full"
+            : amountRefunded > 0
+                ? "refunded_partial"
+                : "succeeded";
+
+    // Business status flips to refunded only once the whole amount is returned
+    const status = full ? "refunded" : order.status === "refunded" ? "paid" : order.status;
+
+    await prisma.order.update({
+        where: { id: orderId },
+        data: { amountRefunded, paymentState, status },
+    });
+}
+
+/** Upsert a single Stripe refund and roll its effect up into the Order. */
+export async function syncRefund(refund: Stripe.Refund): Promise<void> {
+    const order = await findOrder(refund);
+    if (!order) return; // Not a charge we created (or Order not recorded yet)
+
+    const status = toRefundStatus(refund.status);
+    const data = {
+        amount: refund.amount,
+        status,
+        balanceTransactionId: idOf(refund.balance_transaction) ?? null,
+        reason: refund.reason ?? null,
+        metadata: toJson(refund.metadata ?? {}),
+    };
+    const row = await prisma.refund.upsert({
+        where: { stripeRefundId: refund.id },
+        create: { orderId: order.id, stripeRefundId: refund.id, ...data },
+        update: data,
+    });
+
+    // Only move money once the refund has actually gone through
+    if (status === "succeeded") {
+        await reverseSellerShare(order, refund, row);
+    }
+
+    await recomputeOrderRefunds(order.id);
+
+    // Announced with the order's new refund totals
+    if (status === "succeeded") {
+        await emitOrderRefunded(order.id, row);
+    }
+}
+
+/**
+ * Sync every refund of a charge (charge.refunded no longer embeds the refund list).
+ * `stripeAccount` is set for direct charges (refunds live on the connected account).
+ */
+export async function syncChargeRefunds(charge: Stripe.Charge, stripeAccount?: string): Promise<void> {
+    for await (const refund of stripe.refunds.list({ charge: charge.id, limit: 100 }, onAccount(stripeAccount))) {
+        await syncRefund(refund);
+    }
+}
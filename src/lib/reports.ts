@@ -0,0 +1,126 @@
+// Sales reporting over Order / Refund (aggregated in Postgres, not in JS).
+// Only orders that were actually paid count; amounts stay in the smallest currency unit
+// and are never summed across currencies.
+import { Prisma, type ChargeModel, type RefundStatus } from "@prisma/client";
+import { prisma } from "./prisma";
+
+export type SummaryInterval = "day" | "week" | "month";
+
+export type SalesSummaryRow = {
+    period: string; // ISO timestamp of the bucket start (UTC)
+    stripeAccountId: string;
+    currency: string;
+    orderCount: number;
+    gross: number; // charged to buyers
+    platformFees: number; // application fees taken at charge time
+    refunds: number; // refunded to buyers
+    sellerRefunds: number; // the part of those refunds the seller paid for (see sellerRefundShare)
+    feeRefunds: number; // platform fees returned with those refunds
+    netToSeller: number; // gross - platformFees - sellerRefunds + feeRefunds
+};
+
+/**
+ * Part of a refund that came out of the seller's balance. Direct charges are refunded from the
+ * seller's own account; destination and separate-transfer charges only cost the seller the
+ * transfer reversal actually made (the same fraction of the transfer as the refund is of the
+ * order, see refunds.ts). A refund the platform did not claw back is paid by the platform.
+ */
+export function sellerRefundShare(
+    order: { chargeModel: ChargeModel; amount: number; transferAmount: number | null },
+    refund: { amount: number; status: RefundStatus; transferReversalId: string | null }
+): number {
+    if (refund.status !== "succeeded") return 0;
+    if (order.chargeModel === "direct") return refund.amount;
+    if (!refund.transferReversalId || order.amount <= 0) return 0;
+    // Destination charges transfer the full amount; separate transfers the seller's share only
+    return Math.round((refund.amount * (order.transferAmount ?? order.amount)) / order.amount);
+}
+
+type RawRow = {
+    period: Date;
+    stripeAccountId: string;
+    currency: string;
+    orderCount: number;
+    gross: bigint;
+    platformFees: bigint;
+    refunds: bigint;
+    sellerRefunds: bigint;
+    feeRefunds: bigint;
+};
+
+/**
+ * Gross / fees / refunds / net per (period, seller, currency).
+ * Fee refunds are pro-rated per refund, the same way refunds.ts returns the application fee.
+ */
+export async function summarizeSales(filter: {
+    sellerAccountId?: string;
+    interval: SummaryInterval;
+    from?: Date;
+    to?: Date;
+}): Promise<SalesSummaryRow[]> {
+    const conditions = [
+        Prisma.sql`o."paymentState" IN ('succeeded', 'refunded_partial', 'refunded_full')`,
+        ...(filter.sellerAccountId ? [Prisma.sql`o."sellerAccountId" = ${filter.sellerAccountId}`] : []),
+        ...(filter.from ? [Prisma.sql`o."createdAt" >= ${filter.from}`] : []),
+        ...(filter.to ? [Prisma.sql`o."createdAt" < ${filter.to}`] : []),
+    ];
+
+    const rows = await prisma.$queryRaw<RawRow[]>`
+        SELECT
+            date_trunc(${filter.interval}, o."createdAt" AT TIME ZONE 'UTC') AS "period",
+            ca."stripeAccountId" AS "stripeAccountId",
+            o."currency" AS "currency",
+            COUNT(*)::int AS "orderCount",
+            SUM(o."amount")::bigint AS "gross",
+            SUM(o."platformFee")::bigint AS "platformFees",
+            SUM(o."amountRefunded")::bigint AS "refunds",
+            COALESCE(SUM(sr."amount"), 0)::bigint AS "sellerRefunds",
+            COALESCE(SUM(fr."amount"), 0)::bigint AS "feeRefunds"
+        FROM "Order" o
+        JOIN "ConnectedAccount" ca ON ca."id" = o."sellerAccountId"
+        LEFT JOIN "Transfer" t ON t."orderId" = o."id"
+        -- Same rule as sellerRefundShare: direct refunds in full, otherwise the reversed fraction
+        LEFT JOIN LATERAL (
+            SELECT SUM(
+                CASE
+                    WHEN o."chargeModel" = 'direct' THEN r."amount"
+                    WHEN r."transferReversalId" IS NULL THEN 0
+                    ELSE ROUND(r."amount"::numeric * COALESCE(t."amount", o."amount") / NULLIF(o."amount", 0))
+                END
+            ) AS "amount"
+            FROM "Refund" r
+            WHERE r."orderId" = o."id"
+              AND r."status" = 'succeeded'
+        ) sr ON TRUE
+        LEFT JOIN LATERAL (
+            SELECT SUM(ROUND(o."platformFee"::numeric * r."amount" / NULLIF(o."amount", 0))) AS "amount"
+            FROM "Refund" r
+            WHERE r."orderId" = o."id"
+              AND r."status" = 'succeeded'
+              AND r."applicationFeeRefundId" IS NOT NULL
+        ) fr ON TRUE
+        WHERE ${Prisma.join(conditions, " AND ")}
+        GROUP BY 1, 2, 3
+        ORDER BY 1 DESC, 2, 3
+    `;
+
+    return rows.map((r) => {
+        const gross = Number(r.gross);
+        const platformFees = Number(r.platformFees);
+        const refunds = Number(r.refunds);
+        const sellerRefunds = Number(r.sellerRefunds);
+        const feeRefunds = Number(r.feeRefunds);
+        return {
+            period: r.period.toISOString(),
+            stripeAccountId: r.stripeAccountId,
+            currency: r.currency,
+            orderCount: r.orderCount,
+            gross,
+            platformFees,
+            refunds,
+            sellerRefunds,
+            feeRefunds,
+            netToSeller: gross - platformFees - sellerRefunds + feeRefunds,
+        };
+    });
+}
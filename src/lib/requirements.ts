@@ -0,0 +1,59 @@
+// Read Stripe Account.requirements (stored as JSON on ConnectedAccount) into a compact,
+// UI-friendly summary. Pure functions: safe to import from pages and API routes alike.
+import { z } from "zod";
+
+// Only the fields we surface; everything else in the stored JSON is ignored
+const StoredRequirementsSchema = z.object({
+    currently_due: z.array(z.string()).nullish(),
+    past_due: z.array(z.string()).nullish(),
+    eventually_due: z.array(z.string()).nullish(),
+    pending_verification: z.array(z.string()).nullish(),
+    disabled_reason: z.string().nullish(),
+    current_deadline: z.number().nullish(),
+});
+
+export type RequirementsSummary = {
+    currentlyDue: string[];
+    pastDue: string[];
+    eventuallyDue: string[];
+    pendingVerification: string[];
+    disabledReason: string | null;
+    currentDeadline: string | null; // ISO timestamp
+};
+
+/** Summarize a stored requirements JSON value (unknown shapes yield an empty summary). */
+export function summarizeRequirements(json: unknown): RequirementsSummary {
+    const parsed = StoredRequirementsSchema.safeParse(json ?? {});
+    const r = parsed.success ? parsed.data : {};
+    return {
+        currentlyDue: r.currently_due ?? [],
+        pastDue: r.past_due ?? [],
+        eventuallyDue: r.eventually_due ?? [],
+        pendingVerification: r.pending_verification ?? [],
+        disabledReason: r.disabled_reason ?? null,
+        currentDeadline: r.current_deadline ? new Date(r.current_deadline * 1000).toISOString() : null,
+    };
+}
+
+// Stripe's documented disabled_reason values (prefix match covers rejected.* etc.)
+const DISABLED_REASONS: [string, string][] = [
+    ["requirements.past_due", "Required information is overdue. Update your details to re-enable payments."],
+    ["requirements.pending_verification", "Stripe is verifying your information. This usually takes a few minutes."],
+    ["action_required.requested_capabilities", "Additional information is needed before payments can be enabled."],
+    ["under_review", "Your account is under review by Stripe."],
+    ["listed", "Your account is under review by Stripe."],
+    ["platform_paused", "Payouts are paused by the platform. Contact support."],
+    ["rejected.", "Your account was rejected by Stripe. Contact support."],
+];
+
+/** Human-readable explanation for Account.requirements.disabled_reason */
+export function describeDisabledReason(reason: string): string {
+    const hit = DISABLED_REASONS.find(([key]) => reason === key || (key.endsWith(".") && reason.startsWith(key)));
+    return hit ? hit[1] : "Your account is restricted. Update your details or contact support.";
+}
+
+/** "individual.verification.document" -> "Individual verification document" */
+export function describeRequirement(field: string): string {
+    const words = field.replace(/[._]/g, " ").replace(/\s+/g, " ").trim();
+    return words.charAt(0).toUpperCase() + words.slice(1);
+}
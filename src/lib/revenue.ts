@@ -0,0 +1,196 @@
+// Sync what Stripe actually collected for the platform: application fees and their refunds
+// (application_fee.* events), the share kept from separate-charge orders, and Stripe processing
+// fees on platform charges (charge.succeeded), posting each to the revenue ledger. Idempotent on
+// the Stripe ids (Order.id for separate-charge shares).
+import type Stripe from "stripe";
+import type { Order } from "@prisma/client";
+import { stripe } from "./stripe";
+import { prisma } from "./prisma";
+import { toJson } from "./json";
+import { idOf } from "./expand";
+import { postLedgerEntry } from "./ledger";
+
+// Order for a platform charge, if it has been recorded yet (linked later by linkRevenueToOrder)
+async function orderIdForCharge(chargeId: string): Promise<string | null> {
+    const order = await prisma.order.findFirst({
+        where: { chargeId },
+        orderBy: { createdAt: "asc" },
+        select: { id: true },
+    });
+    return order?.id ?? null;
+}
+
+/** Upsert an application fee, post it to the ledger and sync its refunds. */
+export async function syncApplicationFee(fee: Stripe.ApplicationFee): Promise<void> {
+    // Destination charges: originating_transaction is our charge; fee.charge is the seller's copy
+    const chargeId = idOf(fee.originating_transaction) ?? idOf(fee.charge) ?? "";
+    const orderId = await orderIdForCharge(chargeId);
+    const currency = fee.currency.toUpperCase();
+
+    const data = {
+        stripeAccountId: idOf(fee.account) ?? "",
+        chargeId,
+        amount: fee.amount,
+        amountRefunded: fee.amount_refunded,
+        currency,
+        refunded: fee.refunded,
+        balanceTransactionId: idOf(fee.balance_transaction) ?? null,
+        collectedAt: new Date(fee.created * 1000),
+        ...(orderId ? { orderId } : {}),
+    };
+    await prisma.applicationFee.upsert({
+        where: { stripeFeeId: fee.id },
+        create: { stripeFeeId: fee.id, ...data },
+        update: data,
+    });
+
+    await postLedgerEntry({
+        type: "application_fee",
+        sourceId: fee.id,
+        debitAccount: "stripe_balance",
+        creditAccount: "fee_revenue",
+        amount: fee.amount,
+        currency,
+        occurredAt: data.collectedAt,
+        chargeId,
+        orderId,
+        description: `Application fee ${fee.id}`,
+    });
+
+    // The embedded refunds list is truncated; page through all of them
+    if (fee.amount_refunded > 0) {
+        for await (const feeRefund of stripe.applicationFees.listRefunds(fee.id, { limit: 100 })) {
+            await syncApplicationFeeRefund(feeRefund);
+        }
+    }
+}
+
+/** Upsert one application fee refund (fr_***) and post it to the ledger. */
+export async function syncApplicationFeeRefund(feeRefund: Stripe.FeeRefund): Promise<void> {
+    const feeId = idOf(feeRefund.fee) ?? "";
+    let fee = await prisma.applicationFee.findUnique({ where: { stripeFeeId: feeId } });
+    if (!fee) {
+        // Refund event arrived first: pull the fee (which syncs this refund too)
+        await syncApplicationFee(await stripe.applicationFees.retrieve(feeId));
+        return;
+    }
+
+    const data = {
+        amount: feeRefund.amount,
+        currency: feeRefund.currency.toUpperCase(),
+        balanceTransactionId: idOf(feeRefund.balance_transaction) ?? null,
+        metadata: toJson(feeRefund.metadata ?? {}),
+        refundedAt: new Date(feeRefund.created * 1000),
+    };
+    await prisma.applicationFeeRefund.upsert({
+        where: { stripeFeeRefundId: feeRefund.id },
+        create: { applicationFeeId: fee.id, stripeFeeRefundId: feeRefund.id, ...data },
+        update: data,
+    });
+
+    // Roll the refunds up into the fee (events may arrive in any order)
+    const agg = await prisma.applicationFeeRefund.aggregate({
+        where: { applicationFeeId: fee.id },
+        _sum: { amount: true },
+    });
+    const amountRefunded = agg._sum.amount ?? 0;
+    fee = await prisma.applicationFee.update({
+        where: { id: fee.id },
+        data: { amountRefunded, refunded: amountRefunded >= fee.amount },
+    });
+
+    await postLedgerEntry({
+        type: "application_fee_refund",
+        sourceId: feeRefund.id,
+        debitAccount: "fee_refunds",
+        creditAccount: "stripe_balance",
+        amount: feeRefund.amount,
+        currency: data.currency,
+        occurredAt: data.refundedAt,
+        chargeId: fee.chargeId,
+        orderId: fee.orderId,
+        description: `Application fee refund ${feeRefund.id} (${fee.stripeFeeId})`,
+    });
+}
+
+/**
+ * Post the platform's share of a separate-charge sub-order. Multi-seller carts carry no
+ * application fee: the platform keeps what it does not transfer (Order.platformFee).
+ */
+export async function recordPlatformShare(
+    order: Pick<Order, "id" | "platformFee" | "currency" | "chargeId">,
+    occurredAt: Date
+): Promise<void> {
+    await postLedgerEntry({
+        type: "platform_share",
+        sourceId: order.id,
+        debitAccount: "stripe_balance",
+        creditAccount: "fee_revenue",
+        amount: order.platformFee,
+        currency: order.currency,
+        occurredAt,
+        chargeId: order.chargeId,
+        orderId: order.id,
+        description: `Platform share of order ${order.id}`,
+    });
+}
+
+/** Post the part of a platform share given back with a refund (the transfer reversal kept the rest). */
+export async function recordPlatformShareRefund(
+    order: Pick<Order, "id" | "currency" | "chargeId">,
+    refund: Stripe.Refund,
+    amount: number
+): Promise<void> {
+    await postLedgerEntry({
+        type: "platform_share_refund",
+        sourceId: refund.id,
+        debitAccount: "fee_refunds",
+        creditAccount: "stripe_balance",
+        amount,
+        currency: order.currency,
+        occurredAt: new Date(refund.created * 1000),
+        chargeId: order.chargeId,
+        orderId: order.id,
+        description: `Platform share refunded with ${refund.id}`,
+    });
+}
+
+/**
+ * Post the Stripe processing fee of a platform charge (from its balance transaction).
+ * Throws while the charge has not settled into the balance so the event is retried.
+ */
+export async function recordProcessingCost(charge: Stripe.Charge): Promise<void> {
+    // The event payload can predate the balance transaction; re-read the charge with it expanded
+    const settled = idOf(charge.balance_transaction)
+        ? charge
+        : await stripe.charges.retrieve(charge.id, { expand: ["balance_transaction"] });
+    const btId = idOf(settled.balance_transaction);
+    if (!btId) throw new Error(`No balance transaction yet for charge ${charge.id}`);
+
+    const bt =
+        typeof settled.balance_transaction === "object" && settled.balance_transaction
+            ? settled.balance_transaction
+            : await stripe.balanceTransactions.retrieve(btId);
+
+    // bt.currency is the settlement currency (may differ from the charge currency)
+    await postLedgerEntry({
+        type: "processing_fee",
+        sourceId: bt.id,
+        debitAccount: "processing_costs",
+        creditAccount: "stripe_balance",
+        amount: bt.fee,
+        currency: bt.currency,
+        occurredAt: new Date(bt.created * 1000),
+        chargeId: charge.id,
+        orderId: await orderIdForCharge(charge.id),
+        description: `Stripe fees on ${charge.id}`,
+    });
+}
+
+/** Attach fees / ledger entries recorded before their Order existed. */
+export async function linkRevenueToOrder(orderId: string, chargeId: string): Promise<void> {
+    await prisma.$transaction([
+        prisma.applicationFee.updateMany({ where: { chargeId, orderId: null }, data: { orderId } }),
+        prisma.ledgerEntry.updateMany({ where: { chargeId, orderId: null }, data: { orderId } }),
+    ]);
+}
@@ -1,7 +1,51 @@
 // Initialize Stripe once. Do not leak the key in logs.
+// The client is swappable so routes can run against the local fake (src/testing/fake-stripe.ts).
 import Stripe from "stripe";
 import { env } from "./env";
 
-export const stripe = new Stripe(env.STRIPE_SECRET_KEY, {
-    apiVersion: "2025-09-30.clover",
-});
+export const STRIPE_API_VERSION = "2025-09-30.clover";
+
+/**
+ * Build a Stripe client. `apiBase` (e.g. "http://127.0.0.1:12111") points it at a
+ * local Stripe-compatible server instead of api.stripe.com.
+ */
+export function createStripeClient(opts: { apiKey?: string; apiBase?: string } = {}): Stripe {
+    const base = opts.apiBase ? new URL(opts.apiBase) : null;
+    return new Stripe(opts.apiKey ?? env.STRIPE_SECRET_KEY, {
+        apiVersion: STRIPE_API_VERSION,
+        ...(base
+            ? {
+                  host: base.hostname,
+                  port: base.port || (base.protocol === "https:" ? 443 : 80),
+                  protocol: base.protocol === "https:" ? "https" : "http",
+                  maxNetworkRetries: 0,
+              }
+            : {}),
+    });
+}
+
+// Live binding: importers always see the current client
+export let stripe = createStripeClient({ apiBase: env.STRIPE_API_BASE });
+
+/** Replace the shared client (tests / local fake); returns the previous one for restoring */
+export function setStripeClient(client: Stripe): Stripe {
+    const previous = stripe;
+    stripe = client;
+    return previous;
+}
+
+/** Request options for a call on a connected account (direct charges); undefined = the platform */
+export const onAccount = (stripeAccount: string | null | undefined): Stripe.RequestOptions | undefined =>
+    stripeAccount ? { stripeAccount } : undefined;
+
+/**
+ * onAccount plus an optional Idempotency-Key. Undefined when neither is set: stripe-node
+ * rejects an empty options object as an unknown argument.
+ */
+export const requestOptions = (
+    stripeAccount: string | null | undefined,
+    idempotencyKey?: string
+): Stripe.RequestOptions | undefined =>
+    stripeAccount || idempotencyKey
+        ? { ...onAccount(stripeAccount), ...(idempotencyKey ? { idempotencyKey } : {}) }
+        : undefined;
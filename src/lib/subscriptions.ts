@@ -0,0 +1,190 @@
+// Memberships on Connect: a Stripe Subscription on the platform account bills the buyer every
+// period, pays the seller through transfer_data.destination and keeps application_fee_percent.
+// Stripe does not guarantee event order, so every customer.subscription.* / invoice.* event
+// re-reads the subscription; each paid invoice is recorded as an Order keyed by its PaymentIntent.
+import type Stripe from "stripe";
+import type { Subscription } from "@prisma/client";
+import { stripe } from "./stripe";
+import { prisma } from "./prisma";
+import { toJson } from "./json";
+import { idOf } from "./expand";
+import { listingIdsByPrice } from "./catalog";
+import { createOrderItems, type CheckoutLine } from "./orders";
+import { emitOrderPaid } from "./outbound";
+import { linkRevenueToOrder } from "./revenue";
+
+const toDate = (seconds: number | null | undefined): Date | null => (seconds ? new Date(seconds * 1000) : null);
+
+/** sub_*** an invoice belongs to (null for one-off invoices) */
+export const subscriptionIdOf = (invoice: Stripe.Invoice): string | null =>
+    idOf(invoice.parent?.subscription_details?.subscription) ?? null;
+
+/**
+ * Fetch a subscription and upsert its Subscription row.
+ * Throws when the seller is not in our DB yet so the event is retried, never dropped.
+ */
+export async function refreshSubscription(
+    subscriptionId: string,
+    opts: { checkoutSessionId?: string } = {}
+): Promise<Subscription> {
+    const sub = await stripe.subscriptions.retrieve(subscriptionId);
+
+    const sellerAcct = idOf(sub.transfer_data?.destination) ?? sub.metadata?.sellerStripeAccountId ?? "";
+    const seller = await prisma.connectedAccount.findUnique({
+        where: { stripeAccountId: sellerAcct },
+        select: { id: true },
+    });
+    if (!seller) throw new Error(`Connected account not found for ${sub.id}: ${sellerAcct || "(none)"}`);
+
+    // Memberships are single-item; billing periods live on the item since 2025-03-31.basil
+    const item = sub.items.data[0];
+    const priceId = item?.price.id ?? "";
+    const listings = await listingIdsByPrice([priceId]);
+    const buyerId = sub.metadata?.buyerId && sub.metadata.buyerId !== "guest" ? sub.metadata.buyerId : null;
+
+    const data = {
+        customerId: idOf(sub.customer) ?? "",
+        sellerAccountId: seller.id,
+        listingId: listings.get(priceId) ?? null,
+        priceId,
+        quantity: item?.quantity ?? 1,
+        currency: sub.currency.toUpperCase(),
+        applicationFeePercent: sub.application_fee_percent,
+        status: sub.status,
+        currentPeriodStart: toDate(item?.current_period_start),
+        currentPeriodEnd: toDate(item?.current_period_end),
+        cancelAtPeriodEnd: sub.cancel_at_period_end,
+        canceledAt: toDate(sub.canceled_at),
+        endedAt: toDate(sub.ended_at),
+        latestInvoiceId: idOf(sub.latest_invoice) ?? null,
+        metadata: toJson(sub.metadata ?? {}),
+        ...(opts.checkoutSessionId ? { checkoutSessionId: opts.checkoutSessionId } : {}),
+    };
+    return prisma.subscription.upsert({
+        where: { stripeSubscriptionId: sub.id },
+        create: { stripeSubscriptionId: sub.id, buyerId, ...data },
+        update: { ...data, ...(buyerId ? { buyerId } : {}) },
+    });
+}
+
+// PaymentIntent that paid an invoice (invoices no longer expose it directly since basil)
+async function invoicePaymentIntentId(invoiceId: string): Promise<string | null> {
+    for await (const payment of stripe.invoicePayments.list({ invoice: invoiceId, status: "paid", limit: 10 })) {
+        const piId = idOf(payment.payment.payment_intent);
+        if (piId) return piId;
+    }
+    return null;
+}
+
+/** Invoice a PaymentIntent was created for (null for checkout payments) */
+export async function invoiceIdForPayment(paymentIntentId: string): Promise<string | null> {
+    const payments = await stripe.invoicePayments.list({
+        payment: { type: "payment_intent", payment_intent: paymentIntentId },
+        limit: 1,
+    });
+    return idOf(payments.data[0]?.invoice) ?? null;
+}
+
+// Invoice lines as OrderItems, with the application fee spread by amount (remainder on the last line)
+async function fetchInvoiceLines(invoice: Stripe.Invoice, platformFee: number): Promise<CheckoutLine[]> {
+    const lines: CheckoutLine[] = [];
+    for await (const li of stripe.invoices.listLineItems(invoice.id, { limit: 100 })) {
+        const quantity = li.quantity ?? 1;
+        lines.push({
+            position: lines.length,
+            priceId: li.pricing?.price_details?.price ?? "",
+            productId: li.pricing?.price_details?.product ?? null,
+            description: li.description,
+            quantity,
+            unitAmount: Math.round(li.amount / quantity),
+            amount: li.amount,
+            platformFee: 0,
+            currency: li.currency.toUpperCase(),
+        });
+    }
+
+    const total = lines.reduce((sum, l) => sum + l.amount, 0);
+    let left = platformFee;
+    lines.forEach((l, i) => {
+        const share = i === lines.length - 1 ? left : total > 0 ? Math.floor((platformFee * l.amount) / total) : 0;
+        l.platformFee = share;
+        left -= share;
+    });
+
+    const listings = await listingIdsByPrice(lines.map((l) => l.priceId));
+    return lines.map((l) => ({ ...l, listingId: listings.get(l.priceId) ?? null }));
+}
+
+/** invoice.paid (or its payment_intent.succeeded): sync the subscription and record the payment as an Order. */
+export async function recordPaidInvoice(invoice: Stripe.Invoice): Promise<void> {
+    const subscriptionId = subscriptionIdOf(invoice);
+    if (!subscriptionId) return; // One-off invoice: not sold through our checkout
+    const subscription = await refreshSubscription(subscriptionId);
+
+    // Trials and fully discounted periods charge nothing, so there is no payment to record
+    if (invoice.amount_paid <= 0) return;
+
+    const piId = await invoicePaymentIntentId(invoice.id);
+    if (!piId) throw new Error(`No PaymentIntent recorded for paid invoice ${invoice.id}`);
+    const pi = await stripe.paymentIntents.retrieve(piId);
+
+    // Capture Charge + Transfer IDs (the destination transfer exists once the charge succeeded)
+    const chargeId = idOf(pi.latest_charge) ?? null;
+    let transferId: string | undefined;
+    if (chargeId) {
+        const ch = await stripe.charges.retrieve(chargeId);
+        transferId = idOf(ch.transfer);
+    }
+    const platformFee = pi.application_fee_amount ?? 0;
+
+    const data = {
+        buyerId: subscription.buyerId ?? undefined,
+        amount: invoice.amount_paid,
+        platformFee,
+        currency: invoice.currency.toUpperCase(),
+        chargeId,
+        ...(transferId ? { transferId } : {}),
+        invoiceId: invoice.id,
+        subscriptionId: subscription.id,
+        // Lets the success page find the first payment by its Checkout Session
+        ...(invoice.billing_reason === "subscription_create" && subscription.checkoutSessionId
+            ? { checkoutSessionId: subscription.checkoutSessionId }
+            : {}),
+        metadata: toJson({
+            ...(invoice.parent?.subscription_details?.metadata ?? {}),
+            billingReason: invoice.billing_reason ?? "",
+        }),
+    };
+    const order = await prisma.order.upsert({
+        where: {
+            paymentIntentId_sellerAccountId: { paymentIntentId: pi.id, sellerAccountId: subscription.sellerAccountId },
+        },
+        // State is set once; later refunds own it (replays must not reset it)
+        create: {
+            paymentIntentId: pi.id,
+            sellerAccountId: subscription.sellerAccountId,
+            status: "paid",
+            paymentState: "succeeded",
+            ...data,
+        },
+        update: data,
+    });
+
+    // Only the first invoice takes a seat out of stock; renewals keep it
+    await createOrderItems(order.id, await fetchInvoiceLines(invoice, platformFee), {
+        takeStock: invoice.billing_reason === "subscription_create",
+    });
+
+    // Fee / processing-cost events for this charge may have been recorded before the Order
+    if (chargeId) {
+        await linkRevenueToOrder(order.id, chargeId);
+    }
+
+    await emitOrderPaid(order.id);
+}
+
+/** invoice.payment_failed: the subscription moves to past_due / incomplete; no Order is created. */
+export async function recordFailedInvoice(invoice: Stripe.Invoice): Promise<void> {
+    const subscriptionId = subscriptionIdOf(invoice);
+    if (subscriptionId) await refreshSubscription(subscriptionId);
+}
@@ -0,0 +1,192 @@
+// Separate charges & transfers: a multi-seller cart is charged on the platform with a
+// transfer_group, then each seller's share is paid out with its own Transfer.
+import type Stripe from "stripe";
+import type { Transfer } from "@prisma/client";
+import { stripe } from "./stripe";
+import { prisma } from "./prisma";
+import { toJson } from "./json";
+import { idOf } from "./expand";
+import { createOrderItems, fetchCheckoutLines } from "./orders";
+import { emitOrderPaid } from "./outbound";
+import { recordPlatformShare } from "./revenue";
+
+// A claimed transfer is considered abandoned after this long (crashed worker / timeout)
+const CLAIM_TTL_MS = 5 * 60 * 1000;
+
+/** PaymentIntent metadata marker for multi-seller carts */
+export const SEPARATE_CHECKOUT_MODE = "separate";
+
+/** Seller list + per-line seller index, e.g. { sellers: "acct_1,acct_2", lineSellers: "0,1,0" } */
+export function encodeLineSellers(lineAccounts: string[]): { sellers: string; lineSellers: string } {
+    const sellers = [...new Set(lineAccounts)];
+    return {
+        sellers: sellers.join(","),
+        lineSellers: lineAccounts.map((a) => sellers.indexOf(a)).join(","),
+    };
+}
+
+// Inverse of encodeLineSellers: acct_*** for each line position
+function decodeLineSellers(metadata: Stripe.Metadata): string[] {
+    const sellers = (metadata.sellers ?? "").split(",").filter(Boolean);
+    return (metadata.lineSellers ?? "")
+        .split(",")
+        .filter(Boolean)
+        .map((i) => sellers[Number.parseInt(i, 10)] ?? "");
+}
+
+/**
+ * Pay out one sub-order's Transfer. Never throws on Stripe errors: the row is marked
+ * failed with lastError so it can be retried (POST /api/transfers/:id/retry). Claims the row
+ * first so a webhook retry and an admin retry never call Stripe for it at the same time; the
+ * row is returned unchanged (lockedAt set) while another attempt holds it.
+ */
+export async function executeTransfer(transferId: string): Promise<Transfer> {
+    const t = await prisma.transfer.findUniqueOrThrow({
+        where: { id: transferId },
+        include: { sellerAccount: { select: { stripeAccountId: true } } },
+    });
+    if (t.status === "paid") return t;
+
+    // Nothing to move (fee ate the whole sub-order)
+    if (t.amount <= 0) {
+        return prisma.transfer.update({ where: { id: t.id }, data: { status: "paid", lastError: null } });
+    }
+
+    const now = new Date();
+    const claimed = await prisma.transfer.updateMany({
+        where: {
+            id: t.id,
+            status: { not: "paid" },
+            OR: [{ lockedAt: null }, { lockedAt: { lt: new Date(now.getTime() - CLAIM_TTL_MS) } }],
+        },
+        data: { lockedAt: now, attempts: { increment: 1 } },
+    });
+    if (claimed.count === 0) return prisma.transfer.findUniqueOrThrow({ where: { id: t.id } });
+
+    try {
+        // A previous attempt may have reached Stripe before failing locally; adopt it
+        const previous = await stripe.transfers.list({
+            transfer_group: t.transferGroup,
+            destination: t.sellerAccount.stripeAccountId,
+            limit: 100,
+        });
+        const transfer =
+            previous.data.find((tr) => tr.metadata?.transferRowId === t.id) ??
+            (await stripe.transfers.create(
+                {
+                    amount: t.amount,
+                    currency: t.currency.toLowerCase(),
+                    destination: t.sellerAccount.stripeAccountId,
+                    transfer_group: t.transferGroup,
+                    // Tie to the charge so funds are available as soon as it succeeds
+                    source_transaction: t.sourceChargeId ?? undefined,
+                    metadata: { transferRowId: t.id, orderId: t.orderId },
+                },
+                // Same key on every attempt: Stripe returns the transfer it already made
+                { idempotencyKey: `transfer-${t.id}` }
+            ));
+
+        const [updated] = await prisma.$transaction([
+            prisma.transfer.update({
+                where: { id: t.id },
+                data: {
+                    status: "paid",
+                    stripeTransferId: transfer.id,
+                    lastError: null,
+                    lockedAt: null,
+                },
+            }),
+            prisma.order.update({ where: { id: t.orderId }, data: { transferId: transfer.id } }),
+        ]);
+        return updated;
+    } catch (e) {
+        const message = e instanceof Error ? e.message : "Unknown error";
+        return prisma.transfer.update({
+            where: { id: t.id },
+            data: { status: "failed", lastError: message, lockedAt: null },
+        });
+    }
+}
+
+/**
+ * Handle payment_intent.succeeded for a multi-seller cart: one sub-order (Order) per seller,
+ * its OrderItems, and one Transfer each. Idempotent per (PaymentIntent, seller).
+ */
+export async function settleSeparateCharge(
+    pi: Stripe.PaymentIntent,
+    checkoutSessionId: string | null = null
+): Promise<void> {
+    const lines = await fetchCheckoutLines(pi);
+    if (!lines) return;
+
+    const metadata = pi.metadata ?? {};
+    const lineSellers = decodeLineSellers(metadata);
+    const transferGroup = pi.transfer_group ?? metadata.transferGroup ?? pi.id;
+    const chargeId = idOf(pi.latest_charge) ?? null;
+    const buyerId = metadata.buyerId && metadata.buyerId !== "guest" ? metadata.buyerId : null;
+
+    for (const acct of new Set(lineSellers)) {
+        const sellerLines = lines.filter((l) => lineSellers[l.position] === acct);
+        if (!acct || sellerLines.length === 0) continue;
+
+        // Throw so Stripe retries: the seller must exist before money can move
+        const seller = await prisma.connectedAccount.findUnique({
+            where: { stripeAccountId: acct },
+            select: { id: true },
+        });
+        if (!seller) throw new Error(`Connected account not found: ${acct}`);
+
+        const amount = sellerLines.reduce((sum, l) => sum + l.amount, 0);
+        const platformFee = sellerLines.reduce((sum, l) => sum + l.platformFee, 0);
+        const currency = pi.currency.toUpperCase();
+
+        const data = {
+            buyerId: buyerId ?? undefined,
+            amount,
+            platformFee,
+            currency,
+            chargeId,
+            ...(checkoutSessionId ? { checkoutSessionId } : {}),
+            transferGroup,
+            chargeModel: "separate" as const,
+            metadata: toJson(metadata),
+        };
+        const order = await prisma.order.upsert({
+            where: {
+                paymentIntentId_sellerAccountId: {
+                    paymentIntentId: pi.id,
+                    sellerAccountId: seller.id,
+                },
+            },
+            // State is set once; later refunds own it (replays must not reset it)
+            create: {
+                paymentIntentId: pi.id,
+                sellerAccountId: seller.id,
+                status: "paid",
+                paymentState: "succeeded",
+                ...data,
+            },
+            update: data,
+        });
+
+        await createOrderItems(order.id, sellerLines);
+        await recordPlatformShare(order, new Date(pi.created * 1000));
+        await emitOrderPaid(order.id);
+
+        const transfer = await prisma.transfer.upsert({
+            where: { orderId: order.id },
+            create: {
+                orderId: order.id,
+                sellerAccountId: seller.id,
+                transferGroup,
+                sourceChargeId: chargeId,
+                amount: amount - platformFee,
+                currency,
+            },
+            update: {},
+        });
+        if (transfer.status !== "paid") {
+            await executeTransfer(transfer.id);
+        }
+    }
+}
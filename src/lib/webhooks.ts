@@ -0,0 +1,252 @@
+// Stripe webhook event processing, decoupled from the HTTP route so stored events
+// (WebhookEvent.payload) can be retried with backoff or replayed by an admin.
+import type Stripe from "stripe";
+import type { WebhookEvent } from "@prisma/client";
+import { prisma } from "./prisma";
+import { toJson } from "./json";
+import { markAccountDeleted, syncAccount } from "./accounts";
+import { syncChargeRefunds, syncRefund } from "./refunds";
+import { syncDispute } from "./disputes";
+import { reconcileCheckoutSession, reconcilePaymentIntent } from "./payments";
+import { syncPayout } from "./payouts";
+import { recordProcessingCost, syncApplicationFee, syncApplicationFeeRefund } from "./revenue";
+import { recordFailedInvoice, recordPaidInvoice, refreshSubscription } from "./subscriptions";
+
+/** After this many failed attempts the event is parked (manual replay only) */
+export const MAX_WEBHOOK_ATTEMPTS = 10;
+
+// A claimed event is considered abandoned after this long (crashed worker / timeout)
+const CLAIM_TTL_MS = 5 * 60 * 1000;
+
+// Exponential backoff: 1m, 2m, 4m, ... capped at 6h
+const backoffMs = (attempts: number): number =>
+    Math.min(60_000 * 2 ** Math.max(attempts - 1, 0), 6 * 60 * 60 * 1000);
+
+/** Apply one Stripe event to the database. Throws on failure (caller records the error). */
+export async function handleStripeEvent(event: Stripe.Event): Promise<void> {
+    // Connect events (event.account) happened on a connected account: direct charges, payouts
+    const stripeAccount = event.account ?? undefined;
+
+    switch (event.type) {
+        case "checkout.session.completed":
+        case "checkout.session.async_payment_succeeded": {
+            // Create or update Order from the session (payment_intent.succeeded may come later)
+            const session = event.data.object as Stripe.Checkout.Session;
+            await reconcileCheckoutSession(session, { stripeAccount });
+            break;
+        }
+
+        case "checkout.session.async_payment_failed": {
+            // Delayed payment method (e.g., bank debit) failed after checkout completed
+            const session = event.data.object as Stripe.Checkout.Session;
+            await reconcileCheckoutSession(session, { failed: true, stripeAccount });
+            break;
+        }
+
+        case "payment_intent.succeeded": {
+            // Create or update Order record when payment completes
+            const pi = event.data.object as Stripe.PaymentIntent;
+            await reconcilePaymentIntent(pi, { stripeAccount });
+            break;
+        }
+
+        case "customer.subscription.created":
+        case "customer.subscription.updated":
+        case "customer.subscription.deleted":
+        case "customer.subscription.paused":
+        case "customer.subscription.resumed": {
+            // Membership lifecycle (status, period, cancellation); re-read so order does not matter.
+            // Memberships are platform subscriptions: a connected account's own billing is not ours.
+            if (stripeAccount) break;
+            const sub = event.data.object as Stripe.Subscription;
+            await refreshSubscription(sub.id);
+            break;
+        }
+
+        case "invoice.paid": {
+            // One Order per paid subscription invoice
+            if (stripeAccount) break;
+            const invoice = event.data.object as Stripe.Invoice;
+            await recordPaidInvoice(invoice);
+            break;
+        }
+
+        case "invoice.payment_failed": {
+            // Renewal declined: subscription goes past_due (Stripe retries per the dunning settings)
+            if (stripeAccount) break;
+            const invoice = event.data.object as Stripe.Invoice;
+            await recordFailedInvoice(invoice);
+            break;
+        }
+
+        case "account.updated": {
+            // Sync ConnectedAccount status when Stripe account changes
+            // (account might not exist in our DB yet: ignored)
+            const account = event.data.object as Stripe.Account;
+            await syncAccount(account);
+            break;
+        }
+
+        case "account.application.deauthorized": {
+            // The seller disconnected the platform (or the account was deleted): the platform
+            // can no longer charge it, so soft-delete the row and stop new checkouts
+            if (stripeAccount) await markAccountDeleted(stripeAccount);
+            break;
+        }
+
+        case "charge.refunded": {
+            // Pull all refunds of the charge (list is not embedded in the event)
+            const charge = event.data.object as Stripe.Charge;
+            await syncChargeRefunds(charge, stripeAccount);
+            break;
+        }
+
+        case "refund.created":
+        case "refund.updated":
+        case "refund.failed": {
+            // Upsert Refund row and recompute Order refund state
+            const refund = event.data.object as Stripe.Refund;
+            await syncRefund(refund);
+            break;
+        }
+
+        case "charge.succeeded": {
+            // Stripe's processing fee on the platform charge -> revenue ledger
+            // (direct charges: the seller's account pays it)
+            if (stripeAccount) break;
+            const charge = event.data.object as Stripe.Charge;
+            await recordProcessingCost(charge);
+            break;
+        }
+
+        case "application_fee.created":
+        case "application_fee.refunded": {
+            // What Stripe actually collected (and returned) vs. the requested Order.platformFee
+            const fee = event.data.object as Stripe.ApplicationFee;
+            await syncApplicationFee(fee);
+            break;
+        }
+
+        case "application_fee.refund.updated": {
+            const feeRefund = event.data.object as Stripe.FeeRefund;
+            await syncApplicationFeeRefund(feeRefund);
+            break;
+        }
+
+        case "charge.dispute.created":
+        case "charge.dispute.updated":
+        case "charge.dispute.closed":
+        case "charge.dispute.funds_withdrawn":
+        case "charge.dispute.funds_reinstated": {
+            // Track chargeback lifecycle (platform is liable for destination charges)
+            const dispute = event.data.object as Stripe.Dispute;
+            await syncDispute(dispute, event);
+            break;
+        }
+
+        case "payout.created":
+        case "payout.updated":
+        case "payout.paid":
+        case "payout.failed":
+        case "payout.canceled": {
+            // Connect event: payout from a connected account to the seller's bank
+            const payout = event.data.object as Stripe.Payout;
+            if (stripeAccount) {
+                await syncPayout(payout, stripeAccount, event);
+            }
+            break;
+        }
+
+        default:
+            // Acknowledge other event types without processing
+            break;
+    }
+}
+
+/** Store an incoming event once (idempotent on stripeEventId) and return its row. */
+export async function recordWebhookEvent(event: Stripe.Event): Promise<WebhookEvent> {
+    return prisma.webhookEvent.upsert({
+        where: { stripeEventId: event.id },
+        create: {
+            stripeEventId: event.id,
+            type: event.type,
+            livemode: event.livemode,
+            apiVersion: event.api_version ?? null,
+            requestId: event.request?.id ?? null,
+            payload: toJson(event),
+        },
+        update: {},
+    });
+}
+
+export type ProcessResult =
+    | { status: "processed" }
+    | { status: "skipped"; reason: "already_processed" | "in_progress" }
+    | { status: "failed"; error: string; attempts: number; nextAttemptAt: Date | null };
+
+/**
+ * Process a stored event from its payload. Claims the row first so a Stripe retry,
+ * the retry queue and an admin replay never run the same event concurrently.
+ */
+export async function processWebhookEvent(row: WebhookEvent): Promise<ProcessResult> {
+    if (row.processedAt) return { status: "skipped", reason: "already_processed" };
+
+    const now = new Date();
+    const claimed = await prisma.webhookEvent.updateMany({
+        where: {
+            id: row.id,
+            processedAt: null,
+            OR: [{ lockedAt: null }, { lockedAt: { lt: new Date(now.getTime() - CLAIM_TTL_MS) } }],
+        },
+        data: { lockedAt: now, lastAttemptAt: now, attempts: { increment: 1 } },
+    });
+    if (claimed.count === 0) return { status: "skipped", reason: "in_progress" };
+
+    try {
+        await handleStripeEvent(row.payload as unknown as Stripe.Event);
+
+        await prisma.webhookEvent.update({
+            where: { id: row.id },
+            data: { processedAt: new Date(), lastError: null, nextAttemptAt: null, lockedAt: null },
+        });
+        return { status: "processed" };
+    } catch (e) {
+        const error = e instanceof Error ? e.message : "Unknown error";
+        const attempts = row.attempts + 1;
+        const nextAttemptAt =
+            attempts < MAX_WEBHOOK_ATTEMPTS ? new Date(Date.now() + backoffMs(attempts)) : null;
+
+        // Release the claim; nextAttemptAt drives the retry queue
+        await prisma.webhookEvent.update({
+            where: { id: row.id },
+            data: { lastError: error.slice(0, 2000), nextAttemptAt, lockedAt: null },
+        });
+        return { status: "failed", error, attempts, nextAttemptAt };
+    }
+}
+
+/** Replay a stored event by its local id or Stripe id (evt_***). */
+export async function replayWebhookEvent(id: string): Promise<ProcessResult | null> {
+    const row = await prisma.webhookEvent.findFirst({
+        where: { OR: [{ id }, { stripeEventId: id }] },
+    });
+    if (!row) return null;
+
+    // Manual replay ignores backoff (and works for parked events)
+    return processWebhookEvent(row);
+}
+
+/** Run the retry queue: unprocessed events whose backoff has elapsed (oldest first). */
+export async function retryDueWebhookEvents(limit = 50): Promise<{ id: string; result: ProcessResult }[]> {
+    const due = await prisma.webhookEvent.findMany({
+        where: { processedAt: null, nextAttemptAt: { lte: new Date() } },
+        orderBy: { nextAttemptAt: "asc" },
+        take: limit,
+    });
+
+    const results: { id: string; result: ProcessResult }[] = [];
+    for (const row of due) {
+        results.push({ id: row.id, result: await processWebhookEvent(row) });
+    }
+    return results;
+}
@@ -0,0 +1,67 @@
+// src/pages/admin/index.tsx
+// Ops console (admin role): connected accounts, orders and webhook events
+import { useEffect, useState } from "react";
+import { useRouter } from "next/router";
+import AccountsTable from "@/components/admin/AccountsTable";
+import OrdersTable from "@/components/admin/OrdersTable";
+import WebhookEventsTable from "@/components/admin/WebhookEventsTable";
+import { ApiError, getJson } from "@/lib/client";
+
+const TABS = {
+    accounts: { label: "Accounts", Component: AccountsTable },
+    orders: { label: "Orders", Component: OrdersTable },
+    events: { label: "Webhook events", Component: WebhookEventsTable },
+} as const;
+type Tab = keyof typeof TABS;
+
+const isTab = (v: unknown): v is Tab => typeof v === "string" && v in TABS;
+
+export default function AdminConsole() {
+    const router = useRouter();
+    const [allowed, setAllowed] = useState<boolean | null>(null);
+    const tab: Tab = isTab(router.query.tab) ? router.query.tab : "accounts";
+
+    // Gate on the session role (the APIs enforce it too)
+    useEffect(() => {
+        getJson<{ user: { role: string } }>("/api/auth/me")
+            .then((me) => setAllowed(me.user.role === "admin"))
+            .catch((e: unknown) => {
+                if (e instanceof ApiError && e.status === 401) {
+                    void router.replace(`/login?next=${encodeURIComponent("/admin")}`);
+                    return;
+                }
+                setAllowed(false);
+            });
+    }, [router]);
+
+    if (allowed === null) {
+        return <main className="p-6 text-gray-500">Loading…</main>;
+    }
+    if (!allowed) {
+        return <main className="p-6 text-red-600">Admins only.</main>;
+    }
+
+    const { Component } = TABS[tab];
+    return (
+        <main className="mx-auto max-w-6xl space-y-6 p-6">
+            <h1 className="text-2xl font-bold">Operations console</h1>
+            <nav className="flex gap-2 border-b border-gray-200">
+                {(Object.keys(TABS) as Tab[]).map((t) => (
+                    <button
+                        key={t}
+                        type="button"
+                        onClick={() => void router.replace({ query: { tab: t } }, undefined, { shallow: true })}
+                        className={
+                            t === tab
+                                ? "border-b-2 border-blue-500 px-3 py-2 font-medium"
+                                : "px-3 py-2 text-gray-500 hover:text-gray-800"
+                        }
+                    >
+                        {TABS[t].label}
+                    </button>
+                ))}
+            </nav>
+            <Component />
+        </main>
+    );
+}
@@ -0,0 +1,91 @@
+// src/pages/api/admin/ledger/export.ts
+// GET /api/admin/ledger/export?from=2025-11-01&to=2025-12-01&format=csv|ndjson
+// Journal export for accountants: two lines per entry (debit + credit), oldest first.
+// Amounts are decimals in each line's currency (e.g. 12.34 USD, 500 JPY).
+import type { NextApiRequest, NextApiResponse } from "next";
+import type { LedgerEntry } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { withAuth } from "@/lib/auth";
+import { toDecimalString } from "@/lib/currency";
+import { EXPORT_BATCH_SIZE, exportFilename, streamExport, type ExportColumn } from "@/lib/export";
+import { LedgerExportSchema } from "@/schemas/ledger";
+
+// Streamed journals can exceed Next's 4mb API response warning threshold
+export const config = { api: { responseLimit: false } } as const;
+
+// Extract first value from query params (handle array case)
+const first = (v: string | string[] | undefined): string | undefined =>
+    Array.isArray(v) ? v[0] : v;
+
+// Double-entry: each entry becomes a debit line and the balancing credit line
+type JournalLine = { entry: LedgerEntry; side: "debit" | "credit" };
+
+const amountOn = (side: JournalLine["side"]) => (l: JournalLine) =>
+    l.side === side ? toDecimalString(l.entry.amount, l.entry.currency) : "";
+
+const COLUMNS: ExportColumn<JournalLine>[] = [
+    { header: "date", value: (l) => l.entry.occurredAt },
+    { header: "entry_id", value: (l) => l.entry.id },
+    { header: "type", value: (l) => l.entry.type },
+    { header: "account", value: (l) => (l.side === "debit" ? l.entry.debitAccount : l.entry.creditAccount) },
+    { header: "debit", value: amountOn("debit") },
+    { header: "credit", value: amountOn("credit") },
+    { header: "currency", value: (l) => l.entry.currency },
+    { header: "source_id", value: (l) => l.entry.sourceId },
+    { header: "charge_id", value: (l) => l.entry.chargeId },
+    { header: "order_id", value: (l) => l.entry.orderId },
+    { header: "description", value: (l) => l.entry.description },
+];
+
+async function handler(req: NextApiRequest, res: NextApiResponse) {
+    // Only allow GET requests
+    if (req.method !== "GET") {
+        res.setHeader("Allow", "GET");
+        return res.status(405).json({ error: "Method Not Allowed" });
+    }
+
+    // Validate query parameters
+    const parsed = LedgerExportSchema.safeParse({
+        format: first(req.query.format),
+        from: first(req.query.from),
+        to: first(req.query.to),
+    });
+    if (!parsed.success) {
+        return res.status(400).json({
+            error: "Invalid query",
+            issues: parsed.error.issues
+        });
+    }
+    const { format, from, to } = parsed.data;
+    const where = from || to ? { occurredAt: { gte: from, lt: to } } : {};
+
+    try {
+        await streamExport<JournalLine>(res, {
+            format,
+            filename: exportFilename("ledger", format, { from, to }),
+            columns: COLUMNS,
+            // Pages hold BATCH_SIZE lines: half as many entries, each split in two
+            fetchPage: async (after) => {
+                const entries = await prisma.ledgerEntry.findMany({
+                    where,
+                    orderBy: [{ occurredAt: "asc" }, { id: "asc" }],
+                    take: EXPORT_BATCH_SIZE / 2,
+                    ...(after ? { cursor: { id: after.entry.id }, skip: 1 } : {}),
+                });
+                return entries.flatMap((entry) => [
+                    { entry, side: "debit" as const },
+                    { entry, side: "credit" as const },
+                ]);
+            },
+        });
+    } catch (e) {
+        const message = e instanceof Error ? e.message : "Unknown error";
+        return res.status(500).json({
+            error: "Failed to export ledger",
+            message
+        });
+    }
+}
+
+// Admin only
+export default withAuth(handler, { role: "admin" });
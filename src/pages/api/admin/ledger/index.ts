@@ -0,0 +1,51 @@
+// src/pages/api/admin/ledger/index.ts
+// GET /api/admin/ledger?from=2025-11-01&to=2025-12-01
+// Platform revenue per currency (gross fees, refunded fees, Stripe processing costs, net)
+// plus the trial balance of every ledger account
+import type { NextApiRequest, NextApiResponse } from "next";
+import { withAuth } from "@/lib/auth";
+import { ledgerBalances, summarizeRevenue } from "@/lib/ledger";
+import { LedgerRangeSchema } from "@/schemas/ledger";
+
+// Extract first value from query params (handle array case)
+const first = (v: string | string[] | undefined): string | undefined =>
+    Array.isArray(v) ? v[0] : v;
+
+async function handler(req: NextApiRequest, res: NextApiResponse) {
+    // Only allow GET requests
+    if (req.method !== "GET") {
+        res.setHeader("Allow", "GET");
+        return res.status(405).json({ error: "Method Not Allowed" });
+    }
+
+    // Validate query parameters
+    const parsed = LedgerRangeSchema.safeParse({
+        from: first(req.query.from),
+        to: first(req.query.to),
+    });
+    if (!parsed.success) {
+        return res.status(400).json({
+            error: "Invalid query",
+            issues: parsed.error.issues
+        });
+    }
+
+    try {
+        const balances = await ledgerBalances(parsed.data);
+        return res.status(200).json({
+            from: parsed.data.from ?? null,
+            to: parsed.data.to ?? null,
+            revenue: summarizeRevenue(balances),
+            balances,
+        });
+    } catch (e) {
+        const message = e instanceof Error ? e.message : "Unknown error";
+        return res.status(500).json({
+            error: "Failed to load ledger",
+            message
+        });
+    }
+}
+
+// Admin only
+export default withAuth(handler, { role: "admin" });
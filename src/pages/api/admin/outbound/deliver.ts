@@ -0,0 +1,52 @@
+// src/pages/api/admin/outbound/deliver.ts
+// POST /api/admin/outbound/deliver
+// Redeliver specific deliveries ({ deliveryIds }) or run the outbox ({ due: true }).
+// Point a cron at { due: true } to send new events and retry failed ones with backoff.
+import type { NextApiRequest, NextApiResponse } from "next";
+import { deliverDueOutbound, redeliverOutbound, type DeliveryResult } from "@/lib/outbound";
+import { withAuth } from "@/lib/auth";
+import { DeliverOutboundSchema } from "@/schemas/outbound";
+
+async function handler(req: NextApiRequest, res: NextApiResponse) {
+    // Only allow POST requests
+    if (req.method !== "POST") {
+        res.setHeader("Allow", "POST");
+        return res.status(405).json({ error: "Method Not Allowed" });
+    }
+
+    // Validate request body
+    const parsed = DeliverOutboundSchema.safeParse(req.body);
+    if (!parsed.success) {
+        return res.status(400).json({
+            error: "Invalid body",
+            issues: parsed.error.issues
+        });
+    }
+    const { deliveryIds, due } = parsed.data;
+
+    try {
+        const results: { id: string; result: DeliveryResult | { status: "not_found" } }[] = [];
+
+        for (const id of deliveryIds ?? []) {
+            results.push({ id, result: (await redeliverOutbound(id)) ?? { status: "not_found" } });
+        }
+        if (due) {
+            results.push(...(await deliverDueOutbound()));
+        }
+
+        return res.status(200).json({
+            delivered: results.filter(r => r.result.status === "delivered").length,
+            failed: results.filter(r => r.result.status === "failed").length,
+            results,
+        });
+    } catch (e) {
+        const message = e instanceof Error ? e.message : "Unknown error";
+        return res.status(500).json({
+            error: "Failed to deliver outbound events",
+            message
+        });
+    }
+}
+
+// Admin only
+export default withAuth(handler, { role: "admin" });
@@ -0,0 +1,43 @@
+// src/pages/api/admin/outbound/deliveries/[id].ts
+// GET /api/admin/outbound/deliveries/:id
+// One delivery with its event payload and attempt log (newest attempt first)
+import type { NextApiRequest, NextApiResponse } from "next";
+import { prisma } from "@/lib/prisma";
+import { withAuth } from "@/lib/auth";
+
+// Extract first value from query params (handle array case)
+const first = (v: string | string[] | undefined): string | undefined =>
+    Array.isArray(v) ? v[0] : v;
+
+async function handler(req: NextApiRequest, res: NextApiResponse) {
+    // Only allow GET requests
+    if (req.method !== "GET") {
+        res.setHeader("Allow", "GET");
+        return res.status(405).json({ error: "Method Not Allowed" });
+    }
+
+    const deliveryId = first(req.query.id);
+    if (!deliveryId) {
+        return res.status(400).json({ error: "Missing delivery id" });
+    }
+
+    try {
+        const delivery = await prisma.outboundDelivery.findUnique({
+            where: { id: deliveryId },
+            include: {
+                event: true,
+                endpoint: { omit: { secret: true } },
+                log: { orderBy: { createdAt: "desc" } },
+            },
+        });
+        if (!delivery) return res.status(404).json({ error: "Outbound delivery not found" });
+
+        return res.status(200).json(delivery);
+    } catch (e) {
+        const message = e instanceof Error ? e.message : "Unknown error";
+        return res.status(500).json({ error: "Failed to load outbound delivery", message });
+    }
+}
+
+// Admin only
+export default withAuth(handler, { role: "admin" });
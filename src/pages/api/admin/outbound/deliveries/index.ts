@@ -0,0 +1,79 @@
+// src/pages/api/admin/outbound/deliveries/index.ts
+// GET /api/admin/outbound/deliveries?state=pending&endpointId=...&type=order.paid&cursor=...
+// List outbound deliveries with retry bookkeeping (event payload and attempt log omitted)
+import type { NextApiRequest, NextApiResponse } from "next";
+import type { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { withAuth } from "@/lib/auth";
+import { afterCursor, CURSOR_ORDER, toPage } from "@/lib/pagination";
+import { ListOutboundDeliveriesSchema } from "@/schemas/outbound";
+
+// Extract first value from query params (handle array case)
+const first = (v: string | string[] | undefined): string | undefined =>
+    Array.isArray(v) ? v[0] : v;
+
+async function handler(req: NextApiRequest, res: NextApiResponse) {
+    // Only allow GET requests
+    if (req.method !== "GET") {
+        res.setHeader("Allow", "GET");
+        return res.status(405).json({ error: "Method Not Allowed" });
+    }
+
+    // Validate query parameters
+    const parsed = ListOutboundDeliveriesSchema.safeParse({
+        state: first(req.query.state),
+        endpointId: first(req.query.endpointId),
+        type: first(req.query.type),
+        cursor: first(req.query.cursor),
+        limit: first(req.query.limit),
+    });
+    if (!parsed.success) {
+        return res.status(400).json({
+            error: "Invalid query",
+            issues: parsed.error.issues
+        });
+    }
+    const { state, endpointId, type, cursor, limit } = parsed.data;
+
+    // Build WHERE clause
+    const byState: Prisma.OutboundDeliveryWhereInput =
+        state === "delivered"
+            ? { deliveredAt: { not: null } }
+            : state === "parked"
+                ? { deliveredAt: null, nextAttemptAt: null }
+                : state === "all"
+                    ? {}
+                    : { deliveredAt: null, nextAttemptAt: { not: null } };
+
+    try {
+        const rows = await prisma.outboundDelivery.findMany({
+            where: {
+                AND: [
+                    { ...byState, ...(endpointId ? { endpointId } : {}), ...(type ? { event: { type } } : {}) },
+                    afterCursor(cursor),
+                ],
+            },
+            include: {
+                event: { select: { type: true, createdAt: true } },
+                endpoint: { select: { url: true, active: true } },
+            },
+            orderBy: CURSOR_ORDER,
+            take: limit + 1,
+        });
+        const page = toPage(rows, limit);
+
+        return res.status(200).json({
+            data: page.data,
+            nextCursor: page.nextCursor,
+        });
+    } catch (e) {
+        const message = e instanceof Error ? e.message : "Unknown error";
+        return res.status(500).json({
+            error: "Failed to list outbound deliveries",
+            message
+        });
+    }
+}
+
+// Admin only
+export default withAuth(handler, { role: "admin" });
@@ -0,0 +1,59 @@
+// src/pages/api/admin/outbound/endpoints/[id].ts
+// PATCH  /api/admin/outbound/endpoints/:id    Update an endpoint (rotateSecret returns the new secret)
+// DELETE /api/admin/outbound/endpoints/:id    Deactivate an endpoint (delivery log is kept)
+import type { NextApiRequest, NextApiResponse } from "next";
+import { prisma } from "@/lib/prisma";
+import { withAuth } from "@/lib/auth";
+import { newEndpointSecret } from "@/lib/outbound-signature";
+import { UpdateOutboundEndpointSchema } from "@/schemas/outbound";
+
+// Extract first value from query params (handle array case)
+const first = (v: string | string[] | undefined): string | undefined =>
+    Array.isArray(v) ? v[0] : v;
+
+async function handler(req: NextApiRequest, res: NextApiResponse) {
+    if (req.method !== "PATCH" && req.method !== "DELETE") {
+        res.setHeader("Allow", "PATCH, DELETE");
+        return res.status(405).json({ error: "Method Not Allowed" });
+    }
+
+    const endpointId = first(req.query.id);
+    if (!endpointId) {
+        return res.status(400).json({ error: "Missing endpoint id" });
+    }
+
+    try {
+        const existing = await prisma.outboundEndpoint.findUnique({ where: { id: endpointId } });
+        if (!existing) return res.status(404).json({ error: "Outbound endpoint not found" });
+
+        // Pending deliveries wait while the endpoint is inactive and resume if it is re-enabled
+        if (req.method === "DELETE") {
+            const endpoint = await prisma.outboundEndpoint.update({
+                where: { id: endpointId },
+                data: { active: false },
+                omit: { secret: true },
+            });
+            return res.status(200).json(endpoint);
+        }
+
+        // Validate request body
+        const parsed = UpdateOutboundEndpointSchema.safeParse(req.body);
+        if (!parsed.success) {
+            return res.status(400).json({ error: "Invalid body", issues: parsed.error.issues });
+        }
+        const { rotateSecret, ...fields } = parsed.data;
+
+        const endpoint = await prisma.outboundEndpoint.update({
+            where: { id: endpointId },
+            data: { ...fields, ...(rotateSecret ? { secret: newEndpointSecret() } : {}) },
+            omit: { secret: !rotateSecret },
+        });
+        return res.status(200).json(endpoint);
+    } catch (e) {
+        const message = e instanceof Error ? e.message : "Unknown error";
+        return res.status(500).json({ error: "Failed to update outbound endpoint", message });
+    }
+}
+
+// Admin only
+export default withAuth(handler, { role: "admin" });
@@ -0,0 +1,47 @@
+// src/pages/api/admin/outbound/endpoints/index.ts
+// GET  /api/admin/outbound/endpoints     List outbound webhook endpoints (secrets omitted)
+// POST /api/admin/outbound/endpoints     Register an endpoint; the signing secret is returned once
+import type { NextApiRequest, NextApiResponse } from "next";
+import { prisma } from "@/lib/prisma";
+import { withAuth } from "@/lib/auth";
+import { newEndpointSecret } from "@/lib/outbound-signature";
+import { CreateOutboundEndpointSchema } from "@/schemas/outbound";
+
+async function handler(req: NextApiRequest, res: NextApiResponse) {
+    if (req.method === "GET") {
+        try {
+            const rows = await prisma.outboundEndpoint.findMany({
+                omit: { secret: true },
+                orderBy: [{ active: "desc" }, { createdAt: "desc" }],
+            });
+            return res.status(200).json(rows);
+        } catch (e) {
+            const message = e instanceof Error ? e.message : "Unknown error";
+            return res.status(500).json({ error: "Failed to list outbound endpoints", message });
+        }
+    }
+
+    if (req.method !== "POST") {
+        res.setHeader("Allow", "GET, POST");
+        return res.status(405).json({ error: "Method Not Allowed" });
+    }
+
+    // Validate request body
+    const parsed = CreateOutboundEndpointSchema.safeParse(req.body);
+    if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid body", issues: parsed.error.issues });
+    }
+
+    try {
+        const endpoint = await prisma.outboundEndpoint.create({
+            data: { ...parsed.data, secret: newEndpointSecret() },
+        });
+        return res.status(201).json(endpoint);
+    } catch (e) {
+        const message = e instanceof Error ? e.message : "Unknown error";
+        return res.status(500).json({ error: "Failed to create outbound endpoint", message });
+    }
+}
+
+// Admin only
+export default withAuth(handler, { role: "admin" });
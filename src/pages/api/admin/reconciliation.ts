@@ -0,0 +1,46 @@
+// src/pages/api/admin/reconciliation.ts
+// POST /api/admin/reconciliation
+// Compare Orders / Refunds / Transfers with Stripe balance transactions and application fees
+// for [from, to) (default: the previous UTC day) and return a discrepancy report.
+// Point a daily cron at {} (report only) or { backfill: true } to also re-sync what is missing.
+import type { NextApiRequest, NextApiResponse } from "next";
+import { withAuth } from "@/lib/auth";
+import { previousUtcDay, runReconciliation } from "@/lib/reconciliation";
+import { RunReconciliationSchema } from "@/schemas/reconciliation";
+
+async function handler(req: NextApiRequest, res: NextApiResponse) {
+    // Only allow POST requests
+    if (req.method !== "POST") {
+        res.setHeader("Allow", "POST");
+        return res.status(405).json({ error: "Method Not Allowed" });
+    }
+
+    // Validate request body
+    const parsed = RunReconciliationSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+        return res.status(400).json({
+            error: "Invalid body",
+            issues: parsed.error.issues
+        });
+    }
+    const input = parsed.data;
+
+    // Missing bounds fall back to the previous UTC day
+    const day = previousUtcDay();
+    const from = input.from ?? (input.to ? new Date(input.to.getTime() - 24 * 60 * 60 * 1000) : day.from);
+    const to = input.to ?? (input.from ? new Date(input.from.getTime() + 24 * 60 * 60 * 1000) : day.to);
+
+    try {
+        const report = await runReconciliation({ from, to, backfill: input.backfill });
+        return res.status(200).json(report);
+    } catch (e) {
+        const message = e instanceof Error ? e.message : "Unknown error";
+        return res.status(500).json({
+            error: "Failed to run reconciliation",
+            message
+        });
+    }
+}
+
+// Admin only
+export default withAuth(handler, { role: "admin" });
@@ -0,0 +1,85 @@
+// src/pages/api/admin/webhook-events/index.ts
+// GET /api/admin/webhook-events?state=unprocessed&type=payment_intent.succeeded&cursor=...
+// List stored Stripe events with retry bookkeeping (payload omitted)
+import type { NextApiRequest, NextApiResponse } from "next";
+import type { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { withAuth } from "@/lib/auth";
+import { MAX_WEBHOOK_ATTEMPTS } from "@/lib/webhooks";
+import { eventUrl } from "@/lib/dashboard";
+import { afterCursor, CURSOR_ORDER, toPage } from "@/lib/pagination";
+import { ListWebhookEventsSchema } from "@/schemas/webhooks";
+
+// Extract first value from query params (handle array case)
+const first = (v: string | string[] | undefined): string | undefined =>
+    Array.isArray(v) ? v[0] : v;
+
+async function handler(req: NextApiRequest, res: NextApiResponse) {
+    // Only allow GET requests
+    if (req.method !== "GET") {
+        res.setHeader("Allow", "GET");
+        return res.status(405).json({ error: "Method Not Allowed" });
+    }
+
+    // Validate query parameters
+    const parsed = ListWebhookEventsSchema.safeParse({
+        state: first(req.query.state),
+        type: first(req.query.type),
+        cursor: first(req.query.cursor),
+        limit: first(req.query.limit),
+    });
+    if (!parsed.success) {
+        return res.status(400).json({
+            error: "Invalid query",
+            issues: parsed.error.issues
+        });
+    }
+    const { state, type, cursor, limit } = parsed.data;
+
+    // Build WHERE clause (a first attempt in flight also has no nextAttemptAt, so parked
+    // means the retry budget is spent)
+    const byState: Prisma.WebhookEventWhereInput =
+        state === "processed"
+            ? { processedAt: { not: null } }
+            : state === "parked"
+                ? { processedAt: null, nextAttemptAt: null, attempts: { gte: MAX_WEBHOOK_ATTEMPTS } }
+                : state === "all"
+                    ? {}
+                    : { processedAt: null };
+
+    try {
+        const rows = await prisma.webhookEvent.findMany({
+            // Served by [type, createdAt] / [processedAt]
+            where: { AND: [{ ...byState, ...(type ? { type } : {}) }, afterCursor(cursor)] },
+            select: {
+                id: true,
+                stripeEventId: true,
+                type: true,
+                livemode: true,
+                attempts: true,
+                lastError: true,
+                lastAttemptAt: true,
+                nextAttemptAt: true,
+                processedAt: true,
+                createdAt: true,
+            },
+            orderBy: CURSOR_ORDER,
+            take: limit + 1,
+        });
+        const page = toPage(rows, limit);
+
+        return res.status(200).json({
+            data: page.data.map(e => ({ ...e, stripeUrl: eventUrl(e.stripeEventId, e.livemode) })),
+            nextCursor: page.nextCursor,
+        });
+    } catch (e) {
+        const message = e instanceof Error ? e.message : "Unknown error";
+        return res.status(500).json({
+            error: "Failed to list webhook events",
+            message
+        });
+    }
+}
+
+// Admin only
+export default withAuth(handler, { role: "admin" });
@@ -0,0 +1,53 @@
+// src/pages/api/admin/webhook-events/replay.ts
+// POST /api/admin/webhook-events/replay
+// Replay stored events from their payload ({ eventIds }) or run the retry queue ({ due: true }).
+// Point a cron at { due: true } to retry failed events with backoff.
+import type { NextApiRequest, NextApiResponse } from "next";
+import { replayWebhookEvent, retryDueWebhookEvents, type ProcessResult } from "@/lib/webhooks";
+import { withAuth } from "@/lib/auth";
+import { ReplayWebhookEventsSchema } from "@/schemas/webhooks";
+
+async function handler(req: NextApiRequest, res: NextApiResponse) {
+    // Only allow POST requests
+    if (req.method !== "POST") {
+        res.setHeader("Allow", "POST");
+        return res.status(405).json({ error: "Method Not Allowed" });
+    }
+
+    // Validate request body
+    const parsed = ReplayWebhookEventsSchema.safeParse(req.body);
+    if (!parsed.success) {
+        return res.status(400).json({
+            error: "Invalid body",
+            issues: parsed.error.issues
+        });
+    }
+    const { eventIds, due } = parsed.data;
+
+    try {
+        const results: { id: string; result: ProcessResult | { status: "not_found" } }[] = [];
+
+        // Sequential on purpose: events for the same order should apply in order
+        for (const id of eventIds ?? []) {
+            results.push({ id, result: (await replayWebhookEvent(id)) ?? { status: "not_found" } });
+        }
+        if (due) {
+            results.push(...(await retryDueWebhookEvents()));
+        }
+
+        return res.status(200).json({
+            processed: results.filter(r => r.result.status === "processed").length,
+            failed: results.filter(r => r.result.status === "failed").length,
+            results,
+        });
+    } catch (e) {
+        const message = e instanceof Error ? e.message : "Unknown error";
+        return res.status(500).json({
+            error: "Failed to replay webhook events",
+            message
+        });
+    }
+}
+
+// Admin only
+export default withAuth(handler, { role: "admin" });
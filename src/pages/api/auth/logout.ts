@@ -0,0 +1,25 @@
+// src/pages/api/auth/logout.ts
+// POST /api/auth/logout
+// End the current session and clear the cookie
+import type { NextApiRequest, NextApiResponse } from "next";
+import { clearSessionCookie, destroySession } from "@/lib/auth";
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+    // Only allow POST requests (GET would let any page log the user out)
+    if (req.method !== "POST") {
+        res.setHeader("Allow", "POST");
+        return res.status(405).json({ error: "Method Not Allowed" });
+    }
+
+    try {
+        await destroySession(req);
+        res.setHeader("Set-Cookie", clearSessionCookie());
+        return res.status(204).end();
+    } catch (e) {
+        const message = e instanceof Error ? e.message : "Unknown error";
+        return res.status(500).json({
+            error: "Failed to sign out",
+            message
+        });
+    }
+}
@@ -0,0 +1,38 @@
+// src/pages/api/auth/me.ts
+// GET /api/auth/me
+// Current user, role, and their connected account (if any)
+import type { NextApiRequest, NextApiResponse } from "next";
+import { prisma } from "@/lib/prisma";
+import { withAuth, type AuthUser } from "@/lib/auth";
+
+async function handler(req: NextApiRequest, res: NextApiResponse, user: AuthUser) {
+    // Only allow GET requests
+    if (req.method !== "GET") {
+        res.setHeader("Allow", "GET");
+        return res.status(405).json({ error: "Method Not Allowed" });
+    }
+
+    try {
+        const ca = await prisma.connectedAccount.findFirst({
+            where: { userId: user.id, deletedAt: null },
+            select: {
+                stripeAccountId: true,
+                chargesEnabled: true,
+                payoutsEnabled: true,
+                detailsSubmitted: true,
+                rejectedAt: true,
+            },
+            orderBy: { createdAt: "asc" },
+        });
+
+        return res.status(200).json({ user, connectedAccount: ca });
+    } catch (e) {
+        const message = e instanceof Error ? e.message : "Unknown error";
+        return res.status(500).json({
+            error: "Failed to load session",
+            message
+        });
+    }
+}
+
+export default withAuth(handler);
@@ -0,0 +1,65 @@
+// src/pages/api/auth/request-link.ts
+// POST /api/auth/request-link
+// Email a one-time sign-in link. Always 202 so the endpoint does not reveal which emails exist.
+import type { NextApiRequest, NextApiResponse } from "next";
+import { prisma } from "@/lib/prisma";
+import { createLoginToken, LOGIN_TOKEN_TTL_MS } from "@/lib/auth";
+import { sendMail } from "@/lib/mailer";
+import { RequestLoginLinkSchema } from "@/schemas/auth";
+
+// At most one link per email per minute (cheap protection against mail bombing)
+const RESEND_INTERVAL_MS = 60 * 1000;
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+    // Only allow POST requests
+    if (req.method !== "POST") {
+        res.setHeader("Allow", "POST");
+        return res.status(405).json({ error: "Method Not Allowed" });
+    }
+
+    // Validate request body
+    const parsed = RequestLoginLinkSchema.safeParse(req.body);
+    if (!parsed.success) {
+        return res.status(400).json({
+            error: "Invalid body",
+            issues: parsed.error.issues
+        });
+    }
+    const email = parsed.data.email.toLowerCase();
+
+    const base = process.env.NEXT_PUBLIC_APP_URL;
+    if (!base) {
+        return res.status(500).json({ error: "Missing NEXT_PUBLIC_APP_URL" });
+    }
+
+    try {
+        // Step 1: Throttle repeated requests for the same address
+        const recent = await prisma.loginToken.findFirst({
+            where: { email, createdAt: { gt: new Date(Date.now() - RESEND_INTERVAL_MS) } },
+            select: { id: true },
+        });
+        if (recent) {
+            return res.status(202).json({ ok: true });
+        }
+
+        // Step 2: Issue token and email the link
+        const token = await createLoginToken(email);
+        const url = new URL("/api/auth/verify", base);
+        url.searchParams.set("token", token);
+        if (parsed.data.next) url.searchParams.set("next", parsed.data.next);
+
+        await sendMail({
+            to: email,
+            subject: "Your sign-in link",
+            text: `Sign in: ${url.toString()}\n\nThis link expires in ${LOGIN_TOKEN_TTL_MS / 60000} minutes and can be used once.`,
+        });
+
+        return res.status(202).json({ ok: true });
+    } catch (e) {
+        const message = e instanceof Error ? e.message : "Unknown error";
+        return res.status(500).json({
+            error: "Failed to send sign-in link",
+            message
+        });
+    }
+}
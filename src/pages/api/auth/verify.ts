@@ -0,0 +1,43 @@
+// src/pages/api/auth/verify.ts
+// GET /api/auth/verify?token=xxx&next=/path
+// Redeem an emailed sign-in link, start a session cookie, and redirect into the app
+import type { NextApiRequest, NextApiResponse } from "next";
+import { consumeLoginToken, createSession, sessionCookie } from "@/lib/auth";
+import { VerifyLoginSchema } from "@/schemas/auth";
+
+// Extract first value from query params (handle array case)
+const first = (v: string | string[] | undefined): string | undefined =>
+    Array.isArray(v) ? v[0] : v;
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+    // Only allow GET requests (the link is opened from an email client)
+    if (req.method !== "GET") {
+        res.setHeader("Allow", "GET");
+        return res.status(405).json({ error: "Method Not Allowed" });
+    }
+
+    const parsed = VerifyLoginSchema.safeParse({
+        token: first(req.query.token),
+        next: first(req.query.next),
+    });
+    if (!parsed.success) {
+        return res.redirect(302, "/login?error=invalid_link");
+    }
+
+    try {
+        const user = await consumeLoginToken(parsed.data.token);
+        if (!user) {
+            return res.redirect(302, "/login?error=expired_link");
+        }
+
+        const session = await createSession(user.id);
+        res.setHeader("Set-Cookie", sessionCookie(session.token, session.expiresAt));
+        return res.redirect(302, parsed.data.next ?? "/");
+    } catch (e) {
+        const message = e instanceof Error ? e.message : "Unknown error";
+        return res.status(500).json({
+            error: "Failed to sign in",
+            message
+        });
+    }
+}
@@ -0,0 +1,31 @@
+// src/pages/api/catalog.ts
+// GET /api/catalog (optional ?stripeAccountId=acct_xxx)
+// Public storefront catalog: sellable listings grouped by seller
+import type { NextApiRequest, NextApiResponse } from "next";
+import { listCatalog } from "@/lib/catalog";
+
+// Extract first value from query params (handle array case)
+const first = (v: string | string[] | undefined): string | undefined =>
+    Array.isArray(v) ? v[0] : v;
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+    // Only allow GET requests
+    if (req.method !== "GET") {
+        res.setHeader("Allow", "GET");
+        return res.status(405).json({ error: "Method Not Allowed" });
+    }
+
+    try {
+        const sellers = await listCatalog({ stripeAccountId: first(req.query.stripeAccountId) });
+
+        // Short shared cache: listings change rarely and the page is public
+        res.setHeader("Cache-Control", "public, s-maxage=60, stale-while-revalidate=300");
+        return res.status(200).json({ sellers });
+    } catch (e) {
+        const message = e instanceof Error ? e.message : "Unknown error";
+        return res.status(500).json({
+            error: "Failed to load catalog",
+            message
+        });
+    }
+}
@@ -1,8 +1,17 @@
 // src/pages/api/checkout/checkout.ts
-// Create Checkout Session with destination charges (platform fee model)
+// Create Checkout Session with destination charges (platform fee model) for catalog listings.
+// Direct charges (the seller's chargeModel, set by an admin) create the session on the connected account
+// instead: the seller is merchant of record and the platform keeps application_fee_amount.
+// A membership listing (recurring price) starts a subscription instead: transfer_data.destination
+// pays the seller every period and application_fee_percent keeps the platform's share.
 import type { NextApiRequest, NextApiResponse } from "next";
-import { prisma } from "@/lib/prisma";
-import { stripe } from "@/lib/stripe";
+import type Stripe from "stripe";
+import { requestOptions, stripe } from "@/lib/stripe";
+import { getSessionUser } from "@/lib/auth";
+import { resolveCart } from "@/lib/catalog";
+import { settlementCurrencies } from "@/lib/currency";
+import { encodeFeeRules, quoteFees, toFeePercent } from "@/lib/fees";
+import { encodeLineFees } from "@/lib/orders";
 import {
     CreateCheckoutSessionSchema,
     type CreateCheckoutSessionInput,
@@ -28,30 +37,80 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     const input: CreateCheckoutSessionInput = parsed.data;
 
     try {
-        // Step 1: Resolve seller's Stripe account ID
-        let sellerAcct = input.stripeAccountId;
-        if (!sellerAcct && input.userId) {
-            const ca = await prisma.connectedAccount.findFirst({
-                where: { userId: input.userId },
-                select: { stripeAccountId: true },
+        // Step 1: Resolve the cart against the catalog (price and seller come from each listing)
+        const cart = await resolveCart(input.items);
+        if ("error" in cart) {
+            const { status, ...body } = cart;
+            return res.status(status).json(body);
+        }
+        const { lines } = cart;
+        const seller = lines[0].seller;
+        if (lines.some((l) => l.seller.id !== seller.id)) {
+            return res.status(422).json({
+                error: "All cart items must belong to the same seller (use /api/checkout/multi-seller)",
             });
-            if (!ca) return res.status(404).json({ error: "Connected account not found" });
-            sellerAcct = ca.stripeAccountId;
         }
+        // A seller named by the client must be the one the listings belong to
+        if (
+            (input.stripeAccountId && input.stripeAccountId !== seller.stripeAccountId) ||
+            (input.userId && input.userId !== seller.userId)
+        ) {
+            return res.status(422).json({ error: "Listing belongs to another seller" });
+        }
+        // Memberships are sold one per checkout (one Subscription per listing)
+        const subscription = lines.some((l) => l.interval);
+        if (subscription && lines.length > 1) {
+            return res.status(422).json({ error: "A membership must be checked out on its own" });
+        }
+        // Buyer: the signed-in user (guests may buy one-time items). A membership needs one,
+        // since only its buyer can open the Customer Portal to cancel it.
+        const buyer = await getSessionUser(req);
+        if (subscription && !buyer) {
+            return res.status(401).json({ error: "Sign in to subscribe" });
+        }
+        // Charge model: always the seller's (who is merchant of record is not the buyer's call)
+        const direct = seller.chargeModel === "direct";
+        if (subscription && direct) {
+            return res.status(422).json({ error: "Memberships are only sold with destination charges" });
+        }
+        const sellerAcct = seller.stripeAccountId;
 
-        // Step 2: Check if seller can receive payments
-        const account = await stripe.accounts.retrieve(sellerAcct!);
-        if (!account.charges_enabled) {
+        // Step 2: Check if seller can receive payments (direct charges need card_payments on the account)
+        const account = await stripe.accounts.retrieve(sellerAcct);
+        const capable = direct
+            ? account.capabilities?.card_payments === "active"
+            : account.capabilities?.transfers === "active";
+        if (!account.charges_enabled || !capable) {
             return res.status(409).json({ error: "Seller account cannot receive payments yet" });
         }
 
-        // Step 3: Calculate platform fee from price
-        const price = await stripe.prices.retrieve(input.priceId);
-        if (!price.unit_amount || !price.currency) {
-            return res.status(422).json({ error: "Price missing amount or currency" });
+        // Step 3: Calculate platform fee per cart line from the server-side fee policy
+        const currency = lines[0].currency;
+        // The seller must be able to settle the charge currency (default currency or a payout account in it)
+        const settles = settlementCurrencies(account);
+        if (!settles.includes(currency.toUpperCase())) {
+            return res.status(422).json({
+                error: "Seller cannot settle this currency",
+                currency: currency.toUpperCase(),
+                supportedCurrencies: settles,
+            });
         }
-        const subtotal = price.unit_amount * input.quantity;
-        const applicationFee = Math.floor(subtotal * (input.feePercent / 100));
+        const quote = await quoteFees(
+            { id: seller.id, country: account.country ?? seller.country },
+            lines.map((l) => ({ productId: l.stripeProductId, subtotal: l.unitAmount * l.quantity })),
+            currency
+        );
+        const applicationFee = quote.total;
+        const feeMetadata = {
+            // FIX: Empty string causes issues in webhook processing
+            buyerId: buyer?.id ?? "guest",
+            sellerStripeAccountId: sellerAcct,
+            // Which FeeRule produced each line's fee (copied into Order.metadata)
+            ...encodeFeeRules(quote.lines.map((l) => l.ruleId)),
+            itemCount: String(input.items.length),
+            currency,
+            chargeModel: direct ? "direct" : "destination",
+        };
 
         // Step 4: Build redirect URLs
         const base = process.env.NEXT_PUBLIC_APP_URL;
@@ -60,38 +119,77 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
                 .status(500)
                 .json({ error: "Missing NEXT_PUBLIC_APP_URL or explicit redirect URLs" });
         }
-        const successUrl = input.successUrl ?? `${base}/success?session_id={CHECKOUT_SESSION_ID}`;
+        // Direct sessions live on the seller's account: the success page needs it to look them up
+        const successUrl =
+            input.successUrl ??
+            `${base}/success?session_id={CHECKOUT_SESSION_ID}${direct ? `&account=${sellerAcct}` : ""}`;
         const cancelUrl = input.cancelUrl ?? `${base}/cancel`;
 
         // Step 5: Optional idempotency key from request header
         const idemKey = first(req.headers["idempotency-key"]);
 
-        // Step 6: Create Checkout Session with destination charges
-        const session = await stripe.checkout.sessions.create(
-            {
+        // Step 6: Create Checkout Session with destination or direct charges (or a destination subscription).
+        // Catalog Prices exist on the platform only, so direct sessions send them inline.
+        const lineItems: Stripe.Checkout.SessionCreateParams.LineItem[] = lines.map((l) =>
+            direct
+                ? {
+                    price_data: {
+                        currency,
+                        unit_amount: l.unitAmount,
+                        product_data: {
+                            name: l.name,
+                            description: l.description ?? undefined,
+                            images: l.image ? [l.image] : undefined,
+                            // Ties the seller-side line back to its listing (see fetchCheckoutLines)
+                            metadata: { listingId: l.listingId },
+                        },
+                    },
+                    quantity: l.quantity,
+                }
+                : { price: l.stripePriceId, quantity: l.quantity }
+        );
+        const params: Stripe.Checkout.SessionCreateParams = subscription
+            ? {
+                mode: "subscription",
+                line_items: lineItems,
+                success_url: successUrl,
+                cancel_url: cancelUrl,
+                subscription_data: {
+                    // The first period's quoted fee as a share of every invoice
+                    application_fee_percent: toFeePercent(applicationFee, lines[0].unitAmount * lines[0].quantity),
+                    transfer_data: { destination: sellerAcct },
+                    // Copied onto every invoice (invoice.parent.subscription_details.metadata)
+                    metadata: { ...feeMetadata, listingId: lines[0].listingId },
+                },
+            }
+            : {
                 mode: "payment",
-                line_items: [{ price: input.priceId, quantity: input.quantity }],
+                line_items: lineItems,
                 success_url: successUrl,
                 cancel_url: cancelUrl,
                 payment_intent_data: {
                     application_fee_amount: applicationFee,
-                    transfer_data: { destination: sellerAcct! },
+                    // Direct charges settle on the seller's account; nothing to transfer
+                    ...(direct ? {} : { transfer_data: { destination: sellerAcct } }),
                     metadata: {
-                        // FIX: Empty string causes issues in webhook processing
-                        buyerId: input.buyerId || "guest",
-                        sellerStripeAccountId: sellerAcct!,
+                        ...feeMetadata,
                         platformFee: String(applicationFee),
-                        quantity: String(input.quantity),
-                        currency: price.currency,
-                        unitAmount: String(price.unit_amount),
+                        // Per-line fees in line order; webhook turns them into OrderItem rows
+                        lineFees: encodeLineFees(quote.lines.map((l) => l.fee)),
                     },
                 },
-            },
-            idemKey ? { idempotencyKey: idemKey } : undefined
+            };
+        const session = await stripe.checkout.sessions.create(
+            params,
+            requestOptions(direct ? sellerAcct : null, idemKey)
         );
 
         // Step 7: Return hosted checkout URL (no secrets exposed)
-        return res.status(201).json({ url: session.url, sessionId: session.id });
+        return res.status(201).json({
+            url: session.url,
+            sessionId: session.id,
+            chargeModel: direct ? "direct" : "destination",
+        });
     } catch (e) {
         const message = e instanceof Error ? e.message : "Unknown error";
         return res.status(500).json({ error: "Failed to create checkout session", message });
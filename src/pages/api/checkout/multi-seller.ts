@@ -0,0 +1,149 @@
+// src/pages/api/checkout/multi-seller.ts
+// Create Checkout Session for a multi-seller cart (separate charges & transfers)
+// The platform is the merchant; sellers are paid per sub-order on payment_intent.succeeded.
+import type { NextApiRequest, NextApiResponse } from "next";
+import { randomUUID } from "node:crypto";
+import type Stripe from "stripe";
+import { stripe } from "@/lib/stripe";
+import { getSessionUser } from "@/lib/auth";
+import { resolveCart } from "@/lib/catalog";
+import { settlementCurrencies } from "@/lib/currency";
+import { encodeFeeRules, quoteFees } from "@/lib/fees";
+import { encodeLineFees } from "@/lib/orders";
+import { encodeLineSellers, SEPARATE_CHECKOUT_MODE } from "@/lib/transfers";
+import {
+    CreateMultiSellerCheckoutSchema,
+    MAX_CART_SELLERS,
+    type CreateMultiSellerCheckoutInput,
+} from "@/schemas/checkout";
+
+// Extract first value from multi-value headers (e.g., idempotency-key)
+const first = (v: string | string[] | undefined): string | undefined =>
+    Array.isArray(v) ? v[0] : v;
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+    // Only allow POST method
+    if (req.method !== "POST") {
+        res.setHeader("Allow", "POST");
+        return res.status(405).json({ error: "Method Not Allowed" });
+    }
+
+    // Validate request body with Zod
+    const parsed = CreateMultiSellerCheckoutSchema.safeParse(req.body);
+    if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid body", issues: parsed.error.issues });
+    }
+
+    const input: CreateMultiSellerCheckoutInput = parsed.data;
+
+    try {
+        // Step 1: Resolve the cart against the catalog; each line is paid to its listing's seller
+        const cart = await resolveCart(input.items);
+        if ("error" in cart) {
+            const { status, ...body } = cart;
+            return res.status(status).json(body);
+        }
+        const { lines } = cart;
+        // Transfers are paid once per charge; a membership needs its own destination subscription
+        if (lines.some((l) => l.interval)) {
+            return res.status(422).json({ error: "Memberships must be bought through /api/checkout" });
+        }
+        const sellers = [...new Map(lines.map((l) => [l.seller.id, l.seller])).values()];
+        if (sellers.length > MAX_CART_SELLERS) {
+            return res.status(422).json({ error: `At most ${MAX_CART_SELLERS} sellers per cart` });
+        }
+
+        // Step 2: Every seller must be able to receive transfers
+        const accounts = new Map<string, Stripe.Account>();
+        for (const seller of sellers) {
+            const acct = seller.stripeAccountId;
+            const account = await stripe.accounts.retrieve(acct);
+            if (account.capabilities?.transfers !== "active") {
+                return res
+                    .status(409)
+                    .json({ error: "Seller account cannot receive transfers yet", stripeAccountId: acct });
+            }
+            accounts.set(acct, account);
+        }
+
+        // Step 3: Calculate platform fee per cart line from the server-side fee policy
+        const currency = lines[0].currency;
+        // Transfers move the charge currency as-is: every seller must be able to settle it
+        for (const [acct, account] of accounts) {
+            const settles = settlementCurrencies(account);
+            if (!settles.includes(currency.toUpperCase())) {
+                return res.status(422).json({
+                    error: "Seller cannot settle this currency",
+                    stripeAccountId: acct,
+                    currency: currency.toUpperCase(),
+                    supportedCurrencies: settles,
+                });
+            }
+        }
+        const lineFees: number[] = new Array(lines.length).fill(0);
+        const lineRules: (string | null)[] = new Array(lines.length).fill(null);
+        for (const seller of sellers) {
+            // Quote each seller's lines against that seller's rules
+            const idx = lines.map((l, i) => (l.seller.id === seller.id ? i : -1)).filter((i) => i >= 0);
+            const quote = await quoteFees(
+                { id: seller.id, country: seller.country },
+                idx.map((i) => ({
+                    productId: lines[i].stripeProductId,
+                    subtotal: lines[i].unitAmount * lines[i].quantity,
+                })),
+                currency
+            );
+            idx.forEach((i, k) => {
+                lineFees[i] = quote.lines[k].fee;
+                lineRules[i] = quote.lines[k].ruleId;
+            });
+        }
+        const applicationFee = lineFees.reduce((sum, fee) => sum + fee, 0);
+
+        // Step 4: Build redirect URLs
+        const base = process.env.NEXT_PUBLIC_APP_URL;
+        if (!base && (!input.successUrl || !input.cancelUrl)) {
+            return res
+                .status(500)
+                .json({ error: "Missing NEXT_PUBLIC_APP_URL or explicit redirect URLs" });
+        }
+        const successUrl = input.successUrl ?? `${base}/success?session_id={CHECKOUT_SESSION_ID}`;
+        const cancelUrl = input.cancelUrl ?? `${base}/cancel`;
+
+        // Step 5: Optional idempotency key from request header; the buyer is the signed-in user (or a guest)
+        const idemKey = first(req.headers["idempotency-key"]);
+        const buyer = await getSessionUser(req);
+
+        // Step 6: Charge on the platform; transfers are created per seller by the webhook
+        const transferGroup = `cart_${randomUUID()}`;
+        const session = await stripe.checkout.sessions.create(
+            {
+                mode: "payment",
+                line_items: lines.map((l) => ({ price: l.stripePriceId, quantity: l.quantity })),
+                success_url: successUrl,
+                cancel_url: cancelUrl,
+                payment_intent_data: {
+                    transfer_group: transferGroup,
+                    metadata: {
+                        checkoutMode: SEPARATE_CHECKOUT_MODE,
+                        buyerId: buyer?.id ?? "guest",
+                        transferGroup,
+                        platformFee: String(applicationFee),
+                        lineFees: encodeLineFees(lineFees),
+                        ...encodeFeeRules(lineRules),
+                        ...encodeLineSellers(lines.map((l) => l.seller.stripeAccountId)),
+                        itemCount: String(input.items.length),
+                        currency,
+                    },
+                },
+            },
+            idemKey ? { idempotencyKey: idemKey } : undefined
+        );
+
+        // Step 7: Return hosted checkout URL (no secrets exposed)
+        return res.status(201).json({ url: session.url, sessionId: session.id, transferGroup });
+    } catch (e) {
+        const message = e instanceof Error ? e.message : "Unknown error";
+        return res.status(500).json({ error: "Failed to create checkout session", message });
+    }
+}
@@ -1,11 +1,15 @@
 // src/pages/api/connect/create-account.ts
+// POST /api/connect/create-account
+// Create (or reuse) the Express connected account for the signed-in seller (admins: any userId).
+// Email and business name are prefilled from the User so onboarding asks for less.
 import type { NextApiRequest, NextApiResponse } from "next";
 import { stripe } from "@/lib/stripe";
 import { prisma } from "@/lib/prisma";
-import { toJson } from "@/lib/json"; //  Import from shared lib
+import { accountSnapshot } from "@/lib/accounts";
+import { withAuth, type AuthUser } from "@/lib/auth";
 import { CreateConnectedAccountSchema } from "@/schemas/connect";
 
-export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+async function handler(req: NextApiRequest, res: NextApiResponse, user: AuthUser) {
     if (req.method !== "POST") {
         res.setHeader("Allow", "POST");
         return res.status(405).json({ error: "Method Not Allowed" });
@@ -15,11 +19,22 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     if (!parsed.success) {
         return res.status(400).json({ error: "Invalid body", issues: parsed.error.issues });
     }
-    const { userId } = parsed.data;
+    // Sellers can only create their own account
+    if (user.role !== "admin" && parsed.data.userId && parsed.data.userId !== user.id) {
+        return res.status(403).json({ error: "Forbidden" });
+    }
+    const { country, businessType, capabilities } = parsed.data;
+    const userId = parsed.data.userId ?? user.id;
 
     try {
-        // Check if account already exists
-        const existing = await prisma.connectedAccount.findFirst({ where: { userId } });
+        // Check if account already exists (deleted accounts are kept for history only)
+        const existing = await prisma.connectedAccount.findFirst({
+            where: { userId, deletedAt: null },
+            orderBy: { createdAt: "asc" },
+        });
+        if (existing?.rejectedAt) {
+            return res.status(409).json({ error: "Connected account was rejected" });
+        }
         if (existing) {
             return res.status(200).json({
                 stripeAccountId: existing.stripeAccountId,
@@ -27,23 +42,25 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
             });
         }
 
-        // Create Express connected account
-        const account = await stripe.accounts.create({ type: "express" });
+        const owner = await prisma.user.findUnique({ where: { id: userId }, select: { email: true, name: true } });
+        if (!owner) {
+            return res.status(404).json({ error: "User not found" });
+        }
+
+        // Create Express connected account, prefilled from the User
+        const account = await stripe.accounts.create({
+            type: "express",
+            email: owner.email,
+            ...(country ? { country } : {}),
+            ...(businessType ? { business_type: businessType } : {}),
+            ...(owner.name ? { business_profile: { name: owner.name } } : {}),
+            capabilities: Object.fromEntries(capabilities.map((c) => [c, { requested: true }])),
+            metadata: { userId },
+        });
 
         // Persist to database
         await prisma.connectedAccount.create({
-            data: {
-                userId,
-                stripeAccountId: account.id,
-                chargesEnabled: Boolean(account.charges_enabled),
-                payoutsEnabled: Boolean(account.payouts_enabled),
-                detailsSubmitted: Boolean(account.details_submitted),
-                onboardingCompletedAt: account.details_submitted ? new Date() : null,
-                country: account.country ?? null,
-                defaultCurrency: account.default_currency ?? null,
-                requirements: account.requirements ? toJson(account.requirements) : undefined,
-                capabilities: account.capabilities ? toJson(account.capabilities) : undefined,
-            },
+            data: { userId, stripeAccountId: account.id, ...accountSnapshot(account) },
         });
 
         return res.status(201).json({ stripeAccountId: account.id, reused: false });
@@ -51,4 +68,6 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
         const message = e instanceof Error ? e.message : "Unknown error";
         return res.status(500).json({ error: "Failed to create connected account", message });
     }
-}
\ No newline at end of file
+}
+
+export default withAuth(handler);
@@ -3,10 +3,10 @@
 // Generate Stripe onboarding link (AccountLink) for identity verification
 import type { NextApiRequest, NextApiResponse } from "next";
 import { stripe } from "@/lib/stripe";
-import { prisma } from "@/lib/prisma";
+import { resolveSellerAccount, withAuth, type AuthUser } from "@/lib/auth";
 import { CreateAccountLinkSchema } from "@/schemas/connect";
 
-export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+async function handler(req: NextApiRequest, res: NextApiResponse, user: AuthUser) {
     // Only allow POST requests
     if (req.method !== "POST") {
         res.setHeader("Allow", "POST");
@@ -24,24 +24,16 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     const { userId, stripeAccountId: rawAcct, refreshUrl, returnUrl } = parsed.data;
 
     try {
-        // Resolve Stripe account ID (from userId or direct)
-        let stripeAccountId = rawAcct;
-        if (!stripeAccountId && userId) {
-            const ca = await prisma.connectedAccount.findFirst({
-                where: { userId },
-                select: { stripeAccountId: true },
-            });
-            if (!ca) {
-                return res.status(404).json({
-                    error: "Connected account not found"
-                });
-            }
-            stripeAccountId = ca.stripeAccountId;
+        // Resolve Stripe account ID (sellers: own account only; admins: userId or acct_***)
+        const scoped = await resolveSellerAccount(user, { userId, stripeAccountId: rawAcct });
+        if ("error" in scoped) {
+            return res.status(scoped.status).json({ error: scoped.error });
         }
+        const { stripeAccountId } = scoped.account;
 
         // Create onboarding link (expires in ~5 minutes)
         const link = await stripe.accountLinks.create({
-            account: stripeAccountId!,
+            account: stripeAccountId,
             refresh_url: refreshUrl,
             return_url: returnUrl,
             type: "account_onboarding",
@@ -58,4 +50,6 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
             message
         });
     }
-}
\ No newline at end of file
+}
+
+export default withAuth(handler);
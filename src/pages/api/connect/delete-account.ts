@@ -0,0 +1,48 @@
+// src/pages/api/connect/delete-account.ts
+// POST /api/connect/delete-account
+// Delete a seller's connected account in Stripe (its balance must be zero). The ConnectedAccount
+// row is soft-deleted so past orders, transfers and payouts keep their seller.
+import type { NextApiRequest, NextApiResponse } from "next";
+import { prisma } from "@/lib/prisma";
+import { deleteConnectedAccount } from "@/lib/accounts";
+import { resolveSellerAccount, withAuth, type AuthUser } from "@/lib/auth";
+import { DeleteConnectedAccountSchema } from "@/schemas/connect";
+
+async function handler(req: NextApiRequest, res: NextApiResponse, user: AuthUser) {
+    // Only allow POST requests
+    if (req.method !== "POST") {
+        res.setHeader("Allow", "POST");
+        return res.status(405).json({ error: "Method Not Allowed" });
+    }
+
+    // Validate request body
+    const parsed = DeleteConnectedAccountSchema.safeParse(req.body);
+    if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid body", issues: parsed.error.issues });
+    }
+    const { userId, stripeAccountId } = parsed.data;
+
+    try {
+        const scoped = await resolveSellerAccount(user, { userId, stripeAccountId });
+        if ("error" in scoped) {
+            return res.status(scoped.status).json({ error: scoped.error });
+        }
+        const current = await prisma.connectedAccount.findUniqueOrThrow({
+            where: { id: scoped.account.id },
+            select: { deletedAt: true },
+        });
+        if (current.deletedAt) {
+            return res.status(200).json({ stripeAccountId: scoped.account.stripeAccountId, deleted: true });
+        }
+
+        await deleteConnectedAccount(scoped.account);
+
+        return res.status(200).json({ stripeAccountId: scoped.account.stripeAccountId, deleted: true });
+    } catch (e) {
+        const message = e instanceof Error ? e.message : "Unknown error";
+        return res.status(500).json({ error: "Failed to delete connected account", message });
+    }
+}
+
+// Admin only
+export default withAuth(handler, { role: "admin" });
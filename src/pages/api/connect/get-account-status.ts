@@ -1,16 +1,17 @@
 // src/pages/api/connect/get-account-status.ts
-// GET /api/connect/get-account-status?userId=xxx
+// GET /api/connect/get-account-status (admins: ?userId=xxx or ?stripeAccountId=acct_xxx)
 // Retrieve Stripe Connect account status and sync to database
 import type { NextApiRequest, NextApiResponse } from "next";
 import { stripe } from "@/lib/stripe";
-import { prisma } from "@/lib/prisma";
-import { toJson } from "@/lib/json";
+import { syncAccount } from "@/lib/accounts";
+import { resolveSellerAccount, withAuth, type AuthUser } from "@/lib/auth";
+import { summarizeRequirements } from "@/lib/requirements";
 import { GetAccountStatusSchema } from "@/schemas/connect";
 
 // Extract first value from query params (handle array case)
 const first = (v: string | string[] | undefined) => (Array.isArray(v) ? v[0] : v);
 
-export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+async function handler(req: NextApiRequest, res: NextApiResponse, user: AuthUser) {
     // Only allow GET requests
     if (req.method !== "GET") {
         res.setHeader("Allow", "GET");
@@ -31,38 +32,18 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     const { userId, stripeAccountId: rawAcct } = parsed.data;
 
     try {
-        // Resolve Stripe account ID (from userId or direct)
-        let stripeAccountId = rawAcct;
-        if (!stripeAccountId && userId) {
-            const ca = await prisma.connectedAccount.findFirst({
-                where: { userId },
-                select: { stripeAccountId: true },
-            });
-            if (!ca) {
-                return res.status(404).json({
-                    error: "Connected account not found"
-                });
-            }
-            stripeAccountId = ca.stripeAccountId;
+        // Resolve Stripe account ID (sellers: own account only; admins: userId or acct_***)
+        const scoped = await resolveSellerAccount(user, { userId, stripeAccountId: rawAcct });
+        if ("error" in scoped) {
+            return res.status(scoped.status).json({ error: scoped.error });
         }
+        const { stripeAccountId } = scoped.account;
 
         // Fetch latest account status from Stripe
-        const account = await stripe.accounts.retrieve(stripeAccountId!);
+        const account = await stripe.accounts.retrieve(stripeAccountId);
 
-        // Sync account status to database (best-effort update)
-        await prisma.connectedAccount.updateMany({
-            where: { stripeAccountId: account.id },
-            data: {
-                chargesEnabled: Boolean(account.charges_enabled),
-                payoutsEnabled: Boolean(account.payouts_enabled),
-                detailsSubmitted: Boolean(account.details_submitted),
-                onboardingCompletedAt: account.details_submitted ? new Date() : null,
-                country: account.country ?? null,
-                defaultCurrency: account.default_currency ?? null,
-                requirements: account.requirements ? toJson(account.requirements) : undefined,
-                capabilities: account.capabilities ? toJson(account.capabilities) : undefined,
-            },
-        });
+        // Sync account status to database (emits seller.* when chargesEnabled flips)
+        await syncAccount(account);
 
         // Return simplified response for client
         return res.status(200).json({
@@ -72,6 +53,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
             detailsSubmitted: account.details_submitted,
             country: account.country ?? null,
             defaultCurrency: account.default_currency ?? null,
+            requirements: summarizeRequirements(account.requirements),
         });
     } catch (e) {
         const message = e instanceof Error ? e.message : "Unknown error";
@@ -80,4 +62,6 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
             message
         });
     }
-}
\ No newline at end of file
+}
+
+export default withAuth(handler);
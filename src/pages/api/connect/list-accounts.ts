@@ -1,34 +1,79 @@
 // src/pages/api/connect/list-accounts.ts
-// GET /api/connect/list-accounts?userId=xxx
-// List all connected accounts (admin/dashboard view)
+// GET /api/connect/list-accounts?chargesEnabled=true&country=US&email=alice&cursor=...
+// List connected accounts with filters and cursor pagination (admin only)
 import type { NextApiRequest, NextApiResponse } from "next";
+import { Prisma } from "@prisma/client";
 import { prisma } from "@/lib/prisma";
+import { withAuth } from "@/lib/auth";
+import { accountUrl } from "@/lib/dashboard";
+import { afterCursor, cursorOrder, toPage } from "@/lib/pagination";
+import { summarizeRequirements } from "@/lib/requirements";
+import { ListAccountsSchema, type ListAccountsInput } from "@/schemas/connect";
 
 // Extract first value from query params (handle array case)
 const first = (v: string | string[] | undefined): string | undefined =>
     Array.isArray(v) ? v[0] : v;
 
-export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+// Filters over the stored requirements JSON (Stripe Account.requirements snapshot)
+function requirementsWhere(q: ListAccountsInput): Prisma.ConnectedAccountWhereInput[] {
+    const where: Prisma.ConnectedAccountWhereInput[] = [];
+    if (q.requirementsDue === true) {
+        where.push({ requirements: { path: ["currently_due"], not: [] } });
+    }
+    if (q.requirementsDue === false) {
+        where.push({
+            OR: [
+                { requirements: { equals: Prisma.DbNull } },
+                { requirements: { path: ["currently_due"], equals: [] } },
+            ],
+        });
+    }
+    if (q.requirement) {
+        where.push({ requirements: { path: ["currently_due"], array_contains: [q.requirement] } });
+    }
+    return where;
+}
+
+async function handler(req: NextApiRequest, res: NextApiResponse) {
     // Only allow GET requests
     if (req.method !== "GET") {
         res.setHeader("Allow", "GET");
         return res.status(405).json({ error: "Method Not Allowed" });
     }
 
-    // Optional filters from query params
-    const userId = first(req.query.userId);
-    const stripeAccountId = first(req.query.stripeAccountId);
+    // Validate query parameters
+    const parsed = ListAccountsSchema.safeParse(
+        Object.fromEntries(Object.entries(req.query).map(([k, v]) => [k, first(v)]))
+    );
+    if (!parsed.success) {
+        return res.status(400).json({
+            error: "Invalid query",
+            issues: parsed.error.issues
+        });
+    }
+    const q = parsed.data;
+    const sort = { field: q.sort, direction: q.order };
 
-    // Build WHERE clause
-    const where =
-        stripeAccountId != null
-            ? { stripeAccountId }
-            : userId != null
-                ? { userId }
-                : {};
+    // Build WHERE clause (every filter is optional; combined with AND)
+    const where: Prisma.ConnectedAccountWhereInput = {
+        AND: [
+            {
+                ...(q.userId ? { userId: q.userId } : {}),
+                ...(q.stripeAccountId ? { stripeAccountId: q.stripeAccountId } : {}),
+                ...(q.email ? { user: { email: { contains: q.email, mode: "insensitive" } } } : {}),
+                ...(q.chargesEnabled !== undefined ? { chargesEnabled: q.chargesEnabled } : {}),
+                ...(q.payoutsEnabled !== undefined ? { payoutsEnabled: q.payoutsEnabled } : {}),
+                ...(q.detailsSubmitted !== undefined ? { detailsSubmitted: q.detailsSubmitted } : {}),
+                ...(q.country ? { country: q.country } : {}),
+                ...(q.createdFrom || q.createdTo ? { createdAt: { gte: q.createdFrom, lt: q.createdTo } } : {}),
+            },
+            ...requirementsWhere(q),
+            afterCursor(q.cursor, sort),
+        ],
+    };
 
     try {
-        // Fetch connected accounts with user info
+        // Fetch one extra row to know whether another page exists
         const rows = await prisma.connectedAccount.findMany({
             where,
             include: {
@@ -40,24 +85,35 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
                     }
                 },
             },
-            orderBy: { createdAt: "desc" },
-            take: 200, // Limit to prevent huge responses
+            orderBy: cursorOrder(sort),
+            take: q.limit + 1,
         });
+        const page = toPage(rows, q.limit, sort);
 
         // Return simplified response
-        return res.status(200).json(
-            rows.map(r => ({
-                stripeAccountId: r.stripeAccountId,
-                user: r.user,
-                chargesEnabled: r.chargesEnabled,
-                payoutsEnabled: r.payoutsEnabled,
-                detailsSubmitted: r.detailsSubmitted,
-                country: r.country,
-                defaultCurrency: r.defaultCurrency,
-                createdAt: r.createdAt,
-                updatedAt: r.updatedAt,
-            }))
-        );
+        return res.status(200).json({
+            data: page.data.map(r => {
+                const requirements = summarizeRequirements(r.requirements);
+                return {
+                    stripeAccountId: r.stripeAccountId,
+                    user: r.user,
+                    chargesEnabled: r.chargesEnabled,
+                    payoutsEnabled: r.payoutsEnabled,
+                    detailsSubmitted: r.detailsSubmitted,
+                    country: r.country,
+                    defaultCurrency: r.defaultCurrency,
+                    requirementsDue: requirements.currentlyDue,
+                    disabledReason: requirements.disabledReason,
+                    rejectedAt: r.rejectedAt,
+                    rejectReason: r.rejectReason,
+                    deletedAt: r.deletedAt,
+                    createdAt: r.createdAt,
+                    updatedAt: r.updatedAt,
+                    stripeUrl: accountUrl(r.stripeAccountId),
+                };
+            }),
+            nextCursor: page.nextCursor,
+        });
     } catch (e) {
         const message = e instanceof Error ? e.message : "Unknown error";
         return res.status(500).json({
@@ -65,4 +121,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
             message
         });
     }
-}
\ No newline at end of file
+}
+
+// Admin only
+export default withAuth(handler, { role: "admin" });
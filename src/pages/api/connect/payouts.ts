@@ -0,0 +1,79 @@
+// src/pages/api/connect/payouts.ts
+// GET /api/connect/payouts (admins: ?userId=xxx or ?stripeAccountId=acct_xxx)
+// Seller payout history (from DB) + current available/pending balance (from Stripe)
+import type { NextApiRequest, NextApiResponse } from "next";
+import { stripe } from "@/lib/stripe";
+import { prisma } from "@/lib/prisma";
+import { resolveSellerAccount, withAuth, type AuthUser } from "@/lib/auth";
+import { GetPayoutsSchema } from "@/schemas/connect";
+
+// Extract first value from query params (handle array case)
+const first = (v: string | string[] | undefined) => (Array.isArray(v) ? v[0] : v);
+
+async function handler(req: NextApiRequest, res: NextApiResponse, user: AuthUser) {
+    // Only allow GET requests
+    if (req.method !== "GET") {
+        res.setHeader("Allow", "GET");
+        return res.status(405).json({ error: "Method Not Allowed" });
+    }
+
+    // Validate query parameters
+    const parsed = GetPayoutsSchema.safeParse({
+        userId: first(req.query.userId),
+        stripeAccountId: first(req.query.stripeAccountId),
+        limit: first(req.query.limit),
+    });
+    if (!parsed.success) {
+        return res.status(400).json({
+            error: "Invalid query",
+            issues: parsed.error.issues
+        });
+    }
+    const { userId, stripeAccountId, limit } = parsed.data;
+
+    try {
+        // Resolve ConnectedAccount (sellers: own account only; admins: userId or acct_***)
+        const scoped = await resolveSellerAccount(user, { userId, stripeAccountId });
+        if ("error" in scoped) {
+            return res.status(scoped.status).json({ error: scoped.error });
+        }
+        const ca = scoped.account;
+
+        // Balance lives on the connected account (Stripe-Account header)
+        const balance = await stripe.balance.retrieve({}, { stripeAccount: ca.stripeAccountId });
+
+        const payouts = await prisma.payout.findMany({
+            where: { sellerAccountId: ca.id },
+            include: { _count: { select: { orders: true } } },
+            orderBy: { createdAt: "desc" },
+            take: limit,
+        });
+
+        return res.status(200).json({
+            stripeAccountId: ca.stripeAccountId,
+            balance: {
+                available: balance.available.map(b => ({ amount: b.amount, currency: b.currency.toUpperCase() })),
+                pending: balance.pending.map(b => ({ amount: b.amount, currency: b.currency.toUpperCase() })),
+            },
+            payouts: payouts.map(p => ({
+                stripePayoutId: p.stripePayoutId,
+                amount: p.amount,
+                currency: p.currency,
+                status: p.status,
+                arrivalDate: p.arrivalDate,
+                method: p.method,
+                failureMessage: p.failureMessage,
+                orderCount: p._count.orders,
+                createdAt: p.createdAt,
+            })),
+        });
+    } catch (e) {
+        const message = e instanceof Error ? e.message : "Unknown error";
+        return res.status(500).json({
+            error: "Failed to retrieve payouts",
+            message
+        });
+    }
+}
+
+export default withAuth(handler);
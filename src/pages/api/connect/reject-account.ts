@@ -0,0 +1,60 @@
+// src/pages/api/connect/reject-account.ts
+// POST /api/connect/reject-account
+// Reject a seller's connected account for fraud / terms of service / other. Irreversible:
+// Stripe disables charges and payouts, and the seller leaves the catalog.
+import type { NextApiRequest, NextApiResponse } from "next";
+import { prisma } from "@/lib/prisma";
+import { rejectConnectedAccount } from "@/lib/accounts";
+import { resolveSellerAccount, withAuth, type AuthUser } from "@/lib/auth";
+import { RejectConnectedAccountSchema } from "@/schemas/connect";
+
+async function handler(req: NextApiRequest, res: NextApiResponse, user: AuthUser) {
+    // Only allow POST requests
+    if (req.method !== "POST") {
+        res.setHeader("Allow", "POST");
+        return res.status(405).json({ error: "Method Not Allowed" });
+    }
+
+    // Validate request body
+    const parsed = RejectConnectedAccountSchema.safeParse(req.body);
+    if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid body", issues: parsed.error.issues });
+    }
+    const { userId, stripeAccountId, reason } = parsed.data;
+
+    try {
+        const scoped = await resolveSellerAccount(user, { userId, stripeAccountId });
+        if ("error" in scoped) {
+            return res.status(scoped.status).json({ error: scoped.error });
+        }
+        const current = await prisma.connectedAccount.findUniqueOrThrow({
+            where: { id: scoped.account.id },
+            select: { rejectedAt: true, rejectReason: true, deletedAt: true },
+        });
+        if (current.deletedAt) {
+            return res.status(409).json({ error: "Connected account was deleted" });
+        }
+        // Already rejected: report the original decision
+        if (current.rejectedAt) {
+            return res.status(200).json({
+                stripeAccountId: scoped.account.stripeAccountId,
+                rejectedAt: current.rejectedAt,
+                rejectReason: current.rejectReason,
+            });
+        }
+
+        const rejected = await rejectConnectedAccount(scoped.account, reason);
+
+        return res.status(200).json({
+            stripeAccountId: rejected.stripeAccountId,
+            rejectedAt: rejected.rejectedAt,
+            rejectReason: rejected.rejectReason,
+        });
+    } catch (e) {
+        const message = e instanceof Error ? e.message : "Unknown error";
+        return res.status(500).json({ error: "Failed to reject connected account", message });
+    }
+}
+
+// Admin only
+export default withAuth(handler, { role: "admin" });
@@ -0,0 +1,45 @@
+// src/pages/api/connect/set-charge-model.ts
+// POST /api/connect/set-charge-model
+// Choose how a seller's single-seller checkouts charge: destination (platform is merchant of
+// record) or direct (Checkout Session on the connected account, seller is merchant of record)
+import type { NextApiRequest, NextApiResponse } from "next";
+import { prisma } from "@/lib/prisma";
+import { resolveSellerAccount, withAuth, type AuthUser } from "@/lib/auth";
+import { SetChargeModelSchema } from "@/schemas/connect";
+
+async function handler(req: NextApiRequest, res: NextApiResponse, user: AuthUser) {
+    // Only allow POST requests
+    if (req.method !== "POST") {
+        res.setHeader("Allow", "POST");
+        return res.status(405).json({ error: "Method Not Allowed" });
+    }
+
+    // Validate request body
+    const parsed = SetChargeModelSchema.safeParse(req.body);
+    if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid body", issues: parsed.error.issues });
+    }
+    const { userId, stripeAccountId, chargeModel } = parsed.data;
+
+    try {
+        const scoped = await resolveSellerAccount(user, { userId, stripeAccountId });
+        if ("error" in scoped) {
+            return res.status(scoped.status).json({ error: scoped.error });
+        }
+
+        // Applies to new checkouts only; existing orders keep the model they were charged with
+        const updated = await prisma.connectedAccount.update({
+            where: { id: scoped.account.id },
+            data: { chargeModel },
+            select: { stripeAccountId: true, chargeModel: true },
+        });
+
+        return res.status(200).json(updated);
+    } catch (e) {
+        const message = e instanceof Error ? e.message : "Unknown error";
+        return res.status(500).json({ error: "Failed to set charge model", message });
+    }
+}
+
+// Admin only
+export default withAuth(handler, { role: "admin" });
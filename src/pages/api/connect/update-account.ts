@@ -0,0 +1,70 @@
+// src/pages/api/connect/update-account.ts
+// POST /api/connect/update-account
+// Update onboarding prefill (email, business type / profile) or request more capabilities.
+// Only fields Stripe still lets the platform change on an Express account are accepted.
+import type { NextApiRequest, NextApiResponse } from "next";
+import { stripe } from "@/lib/stripe";
+import { prisma } from "@/lib/prisma";
+import { syncAccount } from "@/lib/accounts";
+import { resolveSellerAccount, withAuth, type AuthUser } from "@/lib/auth";
+import { UpdateConnectedAccountSchema } from "@/schemas/connect";
+
+async function handler(req: NextApiRequest, res: NextApiResponse, user: AuthUser) {
+    // Only allow POST requests
+    if (req.method !== "POST") {
+        res.setHeader("Allow", "POST");
+        return res.status(405).json({ error: "Method Not Allowed" });
+    }
+
+    // Validate request body
+    const parsed = UpdateConnectedAccountSchema.safeParse(req.body);
+    if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid body", issues: parsed.error.issues });
+    }
+    const { userId, stripeAccountId, email, businessType, capabilities, ...profile } = parsed.data;
+
+    try {
+        const scoped = await resolveSellerAccount(user, { userId, stripeAccountId });
+        if ("error" in scoped) {
+            return res.status(scoped.status).json({ error: scoped.error });
+        }
+        const current = await prisma.connectedAccount.findUniqueOrThrow({
+            where: { id: scoped.account.id },
+            select: { rejectedAt: true, deletedAt: true },
+        });
+        if (current.deletedAt || current.rejectedAt) {
+            return res.status(409).json({ error: "Connected account is closed" });
+        }
+
+        const businessProfile = {
+            ...(profile.businessName ? { name: profile.businessName } : {}),
+            ...(profile.productDescription ? { product_description: profile.productDescription } : {}),
+            ...(profile.supportEmail ? { support_email: profile.supportEmail } : {}),
+            ...(profile.url ? { url: profile.url } : {}),
+        };
+        const account = await stripe.accounts.update(scoped.account.stripeAccountId, {
+            ...(email ? { email } : {}),
+            ...(businessType ? { business_type: businessType } : {}),
+            ...(Object.keys(businessProfile).length > 0 ? { business_profile: businessProfile } : {}),
+            // Requesting is additive: capabilities not named here are left as they are
+            ...(capabilities
+                ? { capabilities: Object.fromEntries(capabilities.map((c) => [c, { requested: true }])) }
+                : {}),
+        });
+
+        await syncAccount(account);
+
+        return res.status(200).json({
+            stripeAccountId: account.id,
+            email: account.email ?? null,
+            businessType: account.business_type ?? null,
+            businessProfile: account.business_profile ?? null,
+            capabilities: account.capabilities ?? null,
+        });
+    } catch (e) {
+        const message = e instanceof Error ? e.message : "Unknown error";
+        return res.status(500).json({ error: "Failed to update connected account", message });
+    }
+}
+
+export default withAuth(handler);
@@ -0,0 +1,117 @@
+// src/pages/api/disputes/[id]/evidence.ts
+// POST /api/disputes/:id/evidence
+// Upload evidence files, attach text, and optionally submit the dispute response
+import type { NextApiRequest, NextApiResponse } from "next";
+import Stripe from "stripe";
+import { onAccount, stripe } from "@/lib/stripe";
+import { prisma } from "@/lib/prisma";
+import { OPEN_DISPUTE_STATUSES } from "@/lib/disputes";
+import { withAuth, type AuthUser } from "@/lib/auth";
+import {
+    SubmitDisputeEvidenceSchema,
+    type SubmitDisputeEvidenceInput,
+} from "@/schemas/disputes";
+
+// Base64 evidence files need more than the default 1mb body limit
+export const config = { api: { bodyParser: { sizeLimit: "16mb" } } } as const;
+
+// Extract first value from query params (handle array case)
+const first = (v: string | string[] | undefined): string | undefined =>
+    Array.isArray(v) ? v[0] : v;
+
+async function handler(req: NextApiRequest, res: NextApiResponse, user: AuthUser) {
+    // Only allow POST requests
+    if (req.method !== "POST") {
+        res.setHeader("Allow", "POST");
+        return res.status(405).json({ error: "Method Not Allowed" });
+    }
+
+    const disputeId = first(req.query.id);
+    if (!disputeId) {
+        return res.status(400).json({ error: "Missing dispute id" });
+    }
+
+    // Validate request body
+    const parsed = SubmitDisputeEvidenceSchema.safeParse(req.body);
+    if (!parsed.success) {
+        return res.status(400).json({
+            error: "Invalid body",
+            issues: parsed.error.issues
+        });
+    }
+    const input: SubmitDisputeEvidenceInput = parsed.data;
+
+    try {
+        // Step 1: Dispute must exist, belong to the caller (unless admin), and still accept evidence
+        const dispute = await prisma.dispute.findUnique({
+            where: { id: disputeId },
+            include: {
+                order: {
+                    select: { chargeModel: true, sellerAccount: { select: { userId: true, stripeAccountId: true } } },
+                },
+            },
+        });
+        if (!dispute) {
+            return res.status(404).json({ error: "Dispute not found" });
+        }
+        if (user.role !== "admin" && dispute.order.sellerAccount.userId !== user.id) {
+            return res.status(403).json({ error: "Forbidden" });
+        }
+        if (!OPEN_DISPUTE_STATUSES.includes(dispute.status)) {
+            return res.status(409).json({ error: "Dispute is closed" });
+        }
+
+        // Direct charges are disputed on the seller's account; files and evidence go there too
+        const options = onAccount(
+            dispute.order.chargeModel === "direct" ? dispute.order.sellerAccount.stripeAccountId : null
+        );
+
+        // Step 2: Upload files to Stripe (purpose: dispute_evidence)
+        const evidence: Stripe.DisputeUpdateParams.Evidence = { ...input.text };
+        for (const f of input.files ?? []) {
+            const file = await stripe.files.create(
+                {
+                    purpose: "dispute_evidence",
+                    file: {
+                        data: Buffer.from(f.data, "base64"),
+                        name: f.filename,
+                        type: f.contentType,
+                    },
+                },
+                options
+            );
+            evidence[f.field] = file.id;
+        }
+
+        // Step 3: Attach evidence (and submit if requested)
+        const updated = await stripe.disputes.update(
+            dispute.stripeDisputeId,
+            { evidence, submit: input.submit },
+            options
+        );
+
+        // Step 4: Mirror new status locally (charge.dispute.updated will follow too)
+        await prisma.dispute.update({
+            where: { id: dispute.id },
+            data: {
+                status: updated.status,
+                ...(input.submit ? { evidenceSubmittedAt: new Date() } : {}),
+            },
+        });
+
+        return res.status(200).json({
+            id: dispute.id,
+            stripeDisputeId: updated.id,
+            status: updated.status,
+            submitted: input.submit,
+        });
+    } catch (e) {
+        const message = e instanceof Error ? e.message : "Unknown error";
+        return res.status(500).json({
+            error: "Failed to submit dispute evidence",
+            message
+        });
+    }
+}
+
+export default withAuth(handler);
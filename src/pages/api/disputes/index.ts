@@ -0,0 +1,79 @@
+// src/pages/api/disputes/index.ts
+// GET /api/disputes (admins: ?userId=xxx or ?stripeAccountId=acct_xxx)
+// List open disputes on a seller's orders
+import type { NextApiRequest, NextApiResponse } from "next";
+import { prisma } from "@/lib/prisma";
+import { resolveSellerAccount, withAuth, type AuthUser } from "@/lib/auth";
+import { OPEN_DISPUTE_STATUSES } from "@/lib/disputes";
+import { ListDisputesSchema } from "@/schemas/disputes";
+
+// Extract first value from query params (handle array case)
+const first = (v: string | string[] | undefined): string | undefined =>
+    Array.isArray(v) ? v[0] : v;
+
+async function handler(req: NextApiRequest, res: NextApiResponse, user: AuthUser) {
+    // Only allow GET requests
+    if (req.method !== "GET") {
+        res.setHeader("Allow", "GET");
+        return res.status(405).json({ error: "Method Not Allowed" });
+    }
+
+    // Validate query parameters
+    const parsed = ListDisputesSchema.safeParse({
+        userId: first(req.query.userId),
+        stripeAccountId: first(req.query.stripeAccountId),
+    });
+    if (!parsed.success) {
+        return res.status(400).json({
+            error: "Invalid query",
+            issues: parsed.error.issues
+        });
+    }
+    const { userId, stripeAccountId } = parsed.data;
+
+    try {
+        // Resolve ConnectedAccount (sellers: own account only; admins: userId or acct_***)
+        const scoped = await resolveSellerAccount(user, { userId, stripeAccountId });
+        if ("error" in scoped) {
+            return res.status(scoped.status).json({ error: scoped.error });
+        }
+        const ca = scoped.account;
+
+        // Soonest evidence deadline first
+        const rows = await prisma.dispute.findMany({
+            where: {
+                status: { in: OPEN_DISPUTE_STATUSES },
+                order: { sellerAccountId: ca.id },
+            },
+            include: {
+                order: {
+                    select: { id: true, paymentIntentId: true, amount: true, currency: true },
+                },
+            },
+            orderBy: [{ evidenceDueBy: "asc" }, { createdAt: "asc" }],
+        });
+
+        return res.status(200).json(
+            rows.map(d => ({
+                id: d.id,
+                stripeDisputeId: d.stripeDisputeId,
+                order: d.order,
+                amount: d.amount,
+                currency: d.currency,
+                status: d.status,
+                reason: d.reason,
+                evidenceDueBy: d.evidenceDueBy,
+                evidenceSubmittedAt: d.evidenceSubmittedAt,
+                createdAt: d.createdAt,
+            }))
+        );
+    } catch (e) {
+        const message = e instanceof Error ? e.message : "Unknown error";
+        return res.status(500).json({
+            error: "Failed to list disputes",
+            message
+        });
+    }
+}
+
+export default withAuth(handler);
@@ -0,0 +1,127 @@
+// src/pages/api/exports/orders.ts
+// GET /api/exports/orders?format=csv|ndjson&from=2025-11-01&to=2025-12-01&stripeAccountId=acct_***
+// Streamed statement of paid orders (sellers: own orders; admins: one seller or everyone), oldest first.
+// Amounts are decimals in the order currency; net = amount - fee - seller refunds + fee refunded.
+import type { NextApiRequest, NextApiResponse } from "next";
+import type { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { resolveSellerFilter, withAuth, type AuthUser } from "@/lib/auth";
+import { toDecimalString } from "@/lib/currency";
+import { sellerRefundShare } from "@/lib/reports";
+import { EXPORT_BATCH_SIZE, exportFilename, streamExport, type ExportColumn } from "@/lib/export";
+import { ExportQuerySchema } from "@/schemas/exports";
+
+// Streamed statements can exceed Next's 4mb API response warning threshold
+export const config = { api: { responseLimit: false } } as const;
+
+// Extract first value from query params (handle array case)
+const first = (v: string | string[] | undefined): string | undefined =>
+    Array.isArray(v) ? v[0] : v;
+
+const include = {
+    sellerAccount: { select: { stripeAccountId: true } },
+    transfer: { select: { amount: true } },
+    Refund: {
+        where: { status: "succeeded" },
+        select: { amount: true, status: true, transferReversalId: true, applicationFeeRefundId: true },
+    },
+} satisfies Prisma.OrderInclude;
+
+type OrderRow = Prisma.OrderGetPayload<{ include: typeof include }>;
+
+// Platform fee returned with refunds, pro-rated like refunds.ts / the sales summary
+const feeRefunded = (o: OrderRow): number =>
+    o.amount === 0
+        ? 0
+        : o.Refund.filter((r) => r.applicationFeeRefundId)
+            .reduce((sum, r) => sum + Math.round((o.platformFee * r.amount) / o.amount), 0);
+
+// Refunds the seller paid for (direct charges, or the transfer reversals actually made)
+const sellerRefunds = (o: OrderRow): number =>
+    o.Refund.reduce(
+        (sum, r) => sum + sellerRefundShare({ ...o, transferAmount: o.transfer?.amount ?? null }, r),
+        0
+    );
+
+const money = (amount: (o: OrderRow) => number) => (o: OrderRow) => toDecimalString(amount(o), o.currency);
+
+const COLUMNS: ExportColumn<OrderRow>[] = [
+    { header: "order_id", value: (o) => o.id },
+    { header: "created_at", value: (o) => o.createdAt },
+    { header: "stripe_account_id", value: (o) => o.sellerAccount.stripeAccountId },
+    { header: "buyer_id", value: (o) => o.buyerId },
+    { header: "status", value: (o) => o.status },
+    { header: "payment_state", value: (o) => o.paymentState },
+    { header: "charge_model", value: (o) => o.chargeModel },
+    { header: "currency", value: (o) => o.currency },
+    { header: "amount", value: money((o) => o.amount) },
+    { header: "platform_fee", value: money((o) => o.platformFee) },
+    { header: "refunded", value: money((o) => o.amountRefunded) },
+    { header: "seller_refunded", value: money(sellerRefunds) },
+    { header: "fee_refunded", value: money(feeRefunded) },
+    { header: "net", value: money((o) => o.amount - o.platformFee - sellerRefunds(o) + feeRefunded(o)) },
+    { header: "payment_intent_id", value: (o) => o.paymentIntentId },
+    { header: "charge_id", value: (o) => o.chargeId },
+    { header: "transfer_id", value: (o) => o.transferId },
+    { header: "checkout_session_id", value: (o) => o.checkoutSessionId },
+];
+
+async function handler(req: NextApiRequest, res: NextApiResponse, user: AuthUser) {
+    // Only allow GET requests
+    if (req.method !== "GET") {
+        res.setHeader("Allow", "GET");
+        return res.status(405).json({ error: "Method Not Allowed" });
+    }
+
+    // Validate query parameters
+    const parsed = ExportQuerySchema.safeParse({
+        format: first(req.query.format),
+        stripeAccountId: first(req.query.stripeAccountId),
+        from: first(req.query.from),
+        to: first(req.query.to),
+    });
+    if (!parsed.success) {
+        return res.status(400).json({
+            error: "Invalid query",
+            issues: parsed.error.issues
+        });
+    }
+    const { format, stripeAccountId, from, to } = parsed.data;
+
+    try {
+        // Sellers are pinned to their own account
+        const seller = await resolveSellerFilter(user, stripeAccountId);
+        if ("error" in seller) {
+            return res.status(seller.status).json({ error: seller.error });
+        }
+
+        // Served by [sellerAccountId, createdAt] / [createdAt]
+        // Paid orders only: unpaid (created) ones never settled, so they have no net
+        const where: Prisma.OrderWhereInput = {
+            ...seller,
+            status: { not: "created" },
+            ...(from || to ? { createdAt: { gte: from, lt: to } } : {}),
+        };
+        await streamExport(res, {
+            format,
+            filename: exportFilename("orders", format, { from, to }),
+            columns: COLUMNS,
+            fetchPage: (after) =>
+                prisma.order.findMany({
+                    where,
+                    include,
+                    orderBy: [{ createdAt: "asc" }, { id: "asc" }],
+                    take: EXPORT_BATCH_SIZE,
+                    ...(after ? { cursor: { id: after.id }, skip: 1 } : {}),
+                }),
+        });
+    } catch (e) {
+        const message = e instanceof Error ? e.message : "Unknown error";
+        return res.status(500).json({
+            error: "Failed to export orders",
+            message
+        });
+    }
+}
+
+export default withAuth(handler);
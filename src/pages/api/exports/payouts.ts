@@ -0,0 +1,97 @@
+// src/pages/api/exports/payouts.ts
+// GET /api/exports/payouts?format=csv|ndjson&from=2025-11-01&to=2025-12-01&stripeAccountId=acct_***
+// Streamed payout statement (sellers: own payouts; admins: one seller or everyone), oldest first.
+import type { NextApiRequest, NextApiResponse } from "next";
+import type { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { resolveSellerFilter, withAuth, type AuthUser } from "@/lib/auth";
+import { toDecimalString } from "@/lib/currency";
+import { EXPORT_BATCH_SIZE, exportFilename, streamExport, type ExportColumn } from "@/lib/export";
+import { ExportQuerySchema } from "@/schemas/exports";
+
+// Streamed statements can exceed Next's 4mb API response warning threshold
+export const config = { api: { responseLimit: false } } as const;
+
+// Extract first value from query params (handle array case)
+const first = (v: string | string[] | undefined): string | undefined =>
+    Array.isArray(v) ? v[0] : v;
+
+const include = {
+    sellerAccount: { select: { stripeAccountId: true } },
+    _count: { select: { orders: true } },
+} satisfies Prisma.PayoutInclude;
+
+type PayoutRow = Prisma.PayoutGetPayload<{ include: typeof include }>;
+
+const COLUMNS: ExportColumn<PayoutRow>[] = [
+    { header: "payout_id", value: (p) => p.stripePayoutId },
+    { header: "created_at", value: (p) => p.createdAt },
+    { header: "stripe_account_id", value: (p) => p.sellerAccount.stripeAccountId },
+    { header: "status", value: (p) => p.status },
+    { header: "method", value: (p) => p.method },
+    { header: "automatic", value: (p) => p.automatic },
+    { header: "currency", value: (p) => p.currency },
+    { header: "amount", value: (p) => toDecimalString(p.amount, p.currency) },
+    { header: "arrival_date", value: (p) => p.arrivalDate },
+    { header: "order_count", value: (p) => p._count.orders },
+    { header: "balance_transaction_id", value: (p) => p.balanceTransactionId },
+    { header: "failure_code", value: (p) => p.failureCode },
+];
+
+async function handler(req: NextApiRequest, res: NextApiResponse, user: AuthUser) {
+    // Only allow GET requests
+    if (req.method !== "GET") {
+        res.setHeader("Allow", "GET");
+        return res.status(405).json({ error: "Method Not Allowed" });
+    }
+
+    // Validate query parameters
+    const parsed = ExportQuerySchema.safeParse({
+        format: first(req.query.format),
+        stripeAccountId: first(req.query.stripeAccountId),
+        from: first(req.query.from),
+        to: first(req.query.to),
+    });
+    if (!parsed.success) {
+        return res.status(400).json({
+            error: "Invalid query",
+            issues: parsed.error.issues
+        });
+    }
+    const { format, stripeAccountId, from, to } = parsed.data;
+
+    try {
+        // Sellers are pinned to their own account
+        const seller = await resolveSellerFilter(user, stripeAccountId);
+        if ("error" in seller) {
+            return res.status(seller.status).json({ error: seller.error });
+        }
+
+        // Served by [sellerAccountId, createdAt] / [createdAt]
+        const where: Prisma.PayoutWhereInput = {
+            ...seller,
+            ...(from || to ? { createdAt: { gte: from, lt: to } } : {}),
+        };
+        await streamExport(res, {
+            format,
+            filename: exportFilename("payouts", format, { from, to }),
+            columns: COLUMNS,
+            fetchPage: (after) =>
+                prisma.payout.findMany({
+                    where,
+                    include,
+                    orderBy: [{ createdAt: "asc" }, { id: "asc" }],
+                    take: EXPORT_BATCH_SIZE,
+                    ...(after ? { cursor: { id: after.id }, skip: 1 } : {}),
+                }),
+        });
+    } catch (e) {
+        const message = e instanceof Error ? e.message : "Unknown error";
+        return res.status(500).json({
+            error: "Failed to export payouts",
+            message
+        });
+    }
+}
+
+export default withAuth(handler);
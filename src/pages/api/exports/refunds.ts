@@ -0,0 +1,123 @@
+// src/pages/api/exports/refunds.ts
+// GET /api/exports/refunds?format=csv|ndjson&from=2025-11-01&to=2025-12-01&stripeAccountId=acct_***
+// Streamed refund statement (sellers: refunds on their orders; admins: one seller or everyone),
+// oldest first, with the Stripe ids of the refund, its order and the clawed-back seller share.
+import type { NextApiRequest, NextApiResponse } from "next";
+import type { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { resolveSellerFilter, withAuth, type AuthUser } from "@/lib/auth";
+import { toDecimalString } from "@/lib/currency";
+import { sellerRefundShare } from "@/lib/reports";
+import { EXPORT_BATCH_SIZE, exportFilename, streamExport, type ExportColumn } from "@/lib/export";
+import { ExportQuerySchema } from "@/schemas/exports";
+
+// Streamed statements can exceed Next's 4mb API response warning threshold
+export const config = { api: { responseLimit: false } } as const;
+
+// Extract first value from query params (handle array case)
+const first = (v: string | string[] | undefined): string | undefined =>
+    Array.isArray(v) ? v[0] : v;
+
+const include = {
+    order: {
+        select: {
+            amount: true,
+            platformFee: true,
+            chargeModel: true,
+            currency: true,
+            paymentIntentId: true,
+            chargeId: true,
+            transferId: true,
+            sellerAccount: { select: { stripeAccountId: true } },
+            transfer: { select: { amount: true } },
+        },
+    },
+} satisfies Prisma.RefundInclude;
+
+type RefundRow = Prisma.RefundGetPayload<{ include: typeof include }>;
+
+// Platform fee returned with this refund (pro-rated, only once the fee refund exists)
+const feeRefunded = (r: RefundRow): number =>
+    r.applicationFeeRefundId && r.order.amount > 0
+        ? Math.round((r.order.platformFee * r.amount) / r.order.amount)
+        : 0;
+
+// What the seller paid for (reversal or direct refund) minus the fee it got back
+const sellerShare = (r: RefundRow): number =>
+    sellerRefundShare({ ...r.order, transferAmount: r.order.transfer?.amount ?? null }, r) - feeRefunded(r);
+
+const COLUMNS: ExportColumn<RefundRow>[] = [
+    { header: "refund_id", value: (r) => r.stripeRefundId },
+    { header: "created_at", value: (r) => r.createdAt },
+    { header: "order_id", value: (r) => r.orderId },
+    { header: "stripe_account_id", value: (r) => r.order.sellerAccount.stripeAccountId },
+    { header: "status", value: (r) => r.status },
+    { header: "reason", value: (r) => r.reason },
+    { header: "currency", value: (r) => r.order.currency },
+    { header: "amount", value: (r) => toDecimalString(r.amount, r.order.currency) },
+    { header: "fee_refunded", value: (r) => toDecimalString(feeRefunded(r), r.order.currency) },
+    { header: "seller_share", value: (r) => toDecimalString(sellerShare(r), r.order.currency) },
+    { header: "payment_intent_id", value: (r) => r.order.paymentIntentId },
+    { header: "charge_id", value: (r) => r.order.chargeId },
+    { header: "transfer_id", value: (r) => r.order.transferId },
+    { header: "transfer_reversal_id", value: (r) => r.transferReversalId },
+    { header: "application_fee_refund_id", value: (r) => r.applicationFeeRefundId },
+    { header: "balance_transaction_id", value: (r) => r.balanceTransactionId },
+];
+
+async function handler(req: NextApiRequest, res: NextApiResponse, user: AuthUser) {
+    // Only allow GET requests
+    if (req.method !== "GET") {
+        res.setHeader("Allow", "GET");
+        return res.status(405).json({ error: "Method Not Allowed" });
+    }
+
+    // Validate query parameters
+    const parsed = ExportQuerySchema.safeParse({
+        format: first(req.query.format),
+        stripeAccountId: first(req.query.stripeAccountId),
+        from: first(req.query.from),
+        to: first(req.query.to),
+    });
+    if (!parsed.success) {
+        return res.status(400).json({
+            error: "Invalid query",
+            issues: parsed.error.issues
+        });
+    }
+    const { format, stripeAccountId, from, to } = parsed.data;
+
+    try {
+        // Sellers are pinned to their own account
+        const seller = await resolveSellerFilter(user, stripeAccountId);
+        if ("error" in seller) {
+            return res.status(seller.status).json({ error: seller.error });
+        }
+
+        const where: Prisma.RefundWhereInput = {
+            ...(seller.sellerAccountId ? { order: { sellerAccountId: seller.sellerAccountId } } : {}),
+            ...(from || to ? { createdAt: { gte: from, lt: to } } : {}),
+        };
+        await streamExport(res, {
+            format,
+            filename: exportFilename("refunds", format, { from, to }),
+            columns: COLUMNS,
+            fetchPage: (after) =>
+                prisma.refund.findMany({
+                    where,
+                    include,
+                    orderBy: [{ createdAt: "asc" }, { id: "asc" }],
+                    take: EXPORT_BATCH_SIZE,
+                    ...(after ? { cursor: { id: after.id }, skip: 1 } : {}),
+                }),
+        });
+    } catch (e) {
+        const message = e instanceof Error ? e.message : "Unknown error";
+        return res.status(500).json({
+            error: "Failed to export refunds",
+            message
+        });
+    }
+}
+
+export default withAuth(handler);
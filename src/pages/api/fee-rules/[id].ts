@@ -0,0 +1,87 @@
+// src/pages/api/fee-rules/[id].ts
+// PATCH  /api/fee-rules/:id    Update a fee rule
+// DELETE /api/fee-rules/:id    Deactivate a fee rule (kept for Order.metadata audit trail)
+import type { NextApiRequest, NextApiResponse } from "next";
+import { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { toJson } from "@/lib/json";
+import { withAuth } from "@/lib/auth";
+import { amountsHaveCurrency, UpdateFeeRuleSchema } from "@/schemas/fees";
+
+// Extract first value from query params (handle array case)
+const first = (v: string | string[] | undefined): string | undefined =>
+    Array.isArray(v) ? v[0] : v;
+
+async function handler(req: NextApiRequest, res: NextApiResponse) {
+    if (req.method !== "PATCH" && req.method !== "DELETE") {
+        res.setHeader("Allow", "PATCH, DELETE");
+        return res.status(405).json({ error: "Method Not Allowed" });
+    }
+
+    const ruleId = first(req.query.id);
+    if (!ruleId) {
+        return res.status(400).json({ error: "Missing fee rule id" });
+    }
+
+    try {
+        const existing = await prisma.feeRule.findUnique({ where: { id: ruleId } });
+        if (!existing) return res.status(404).json({ error: "Fee rule not found" });
+
+        if (req.method === "DELETE") {
+            const rule = await prisma.feeRule.update({ where: { id: ruleId }, data: { active: false } });
+            return res.status(200).json(rule);
+        }
+
+        // Validate request body
+        const parsed = UpdateFeeRuleSchema.safeParse(req.body);
+        if (!parsed.success) {
+            return res.status(400).json({ error: "Invalid body", issues: parsed.error.issues });
+        }
+        const { stripeAccountId, tiers, ...fields } = parsed.data;
+
+        // min/max may be split across the stored row and the patch
+        const minAmount = fields.minAmount !== undefined ? fields.minAmount : existing.minAmount;
+        const maxAmount = fields.maxAmount !== undefined ? fields.maxAmount : existing.maxAmount;
+        if (minAmount != null && maxAmount != null && minAmount > maxAmount) {
+            return res.status(400).json({ error: "minAmount must not exceed maxAmount" });
+        }
+        const merged = {
+            currency: fields.currency !== undefined ? fields.currency : existing.currency,
+            fixedAmount: fields.fixedAmount ?? existing.fixedAmount,
+            minAmount,
+            maxAmount,
+            tiers: tiers !== undefined ? tiers : existing.tiers,
+        };
+        if (!amountsHaveCurrency(merged)) {
+            return res.status(400).json({ error: "currency is required when amounts or tiers are set" });
+        }
+
+        // Resolve seller scope: undefined = unchanged, null = any seller
+        let sellerAccountId: string | null | undefined = undefined;
+        if (stripeAccountId === null) sellerAccountId = null;
+        if (stripeAccountId) {
+            const ca = await prisma.connectedAccount.findUnique({
+                where: { stripeAccountId },
+                select: { id: true },
+            });
+            if (!ca) return res.status(404).json({ error: "Connected account not found" });
+            sellerAccountId = ca.id;
+        }
+
+        const rule = await prisma.feeRule.update({
+            where: { id: ruleId },
+            data: {
+                ...fields,
+                sellerAccountId,
+                tiers: tiers === null ? Prisma.DbNull : tiers ? toJson(tiers) : undefined,
+            },
+        });
+        return res.status(200).json(rule);
+    } catch (e) {
+        const message = e instanceof Error ? e.message : "Unknown error";
+        return res.status(500).json({ error: "Failed to update fee rule", message });
+    }
+}
+
+// Admin only
+export default withAuth(handler, { role: "admin" });
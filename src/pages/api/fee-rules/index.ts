@@ -0,0 +1,59 @@
+// src/pages/api/fee-rules/index.ts
+// GET  /api/fee-rules          List fee rules (active first)
+// POST /api/fee-rules          Create a fee rule
+import type { NextApiRequest, NextApiResponse } from "next";
+import { prisma } from "@/lib/prisma";
+import { toJsonOrUndefined } from "@/lib/json";
+import { withAuth } from "@/lib/auth";
+import { CreateFeeRuleSchema } from "@/schemas/fees";
+
+async function handler(req: NextApiRequest, res: NextApiResponse) {
+    if (req.method === "GET") {
+        try {
+            const rows = await prisma.feeRule.findMany({
+                include: { sellerAccount: { select: { stripeAccountId: true } } },
+                orderBy: [{ active: "desc" }, { priority: "desc" }, { createdAt: "desc" }],
+            });
+            return res.status(200).json(rows);
+        } catch (e) {
+            const message = e instanceof Error ? e.message : "Unknown error";
+            return res.status(500).json({ error: "Failed to list fee rules", message });
+        }
+    }
+
+    if (req.method !== "POST") {
+        res.setHeader("Allow", "GET, POST");
+        return res.status(405).json({ error: "Method Not Allowed" });
+    }
+
+    // Validate request body
+    const parsed = CreateFeeRuleSchema.safeParse(req.body);
+    if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid body", issues: parsed.error.issues });
+    }
+    const { stripeAccountId, tiers, ...fields } = parsed.data;
+
+    try {
+        // Resolve seller scope (acct_*** -> ConnectedAccount.id)
+        let sellerAccountId: string | null = null;
+        if (stripeAccountId) {
+            const ca = await prisma.connectedAccount.findUnique({
+                where: { stripeAccountId },
+                select: { id: true },
+            });
+            if (!ca) return res.status(404).json({ error: "Connected account not found" });
+            sellerAccountId = ca.id;
+        }
+
+        const rule = await prisma.feeRule.create({
+            data: { ...fields, sellerAccountId, tiers: toJsonOrUndefined(tiers) },
+        });
+        return res.status(201).json(rule);
+    } catch (e) {
+        const message = e instanceof Error ? e.message : "Unknown error";
+        return res.status(500).json({ error: "Failed to create fee rule", message });
+    }
+}
+
+// Admin only
+export default withAuth(handler, { role: "admin" });
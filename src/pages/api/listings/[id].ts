@@ -0,0 +1,61 @@
+// src/pages/api/listings/[id].ts
+// PATCH  /api/listings/:id    Set the stock level ({ inventory: number | null })
+// DELETE /api/listings/:id    Archive the listing (its Stripe Price is deactivated)
+import type { NextApiRequest, NextApiResponse } from "next";
+import { prisma } from "@/lib/prisma";
+import { archiveListing } from "@/lib/catalog";
+import { withAuth, type AuthUser } from "@/lib/auth";
+import { UpdateListingSchema } from "@/schemas/catalog";
+
+// Extract first value from query params (handle array case)
+const first = (v: string | string[] | undefined): string | undefined =>
+    Array.isArray(v) ? v[0] : v;
+
+async function handler(req: NextApiRequest, res: NextApiResponse, user: AuthUser) {
+    if (req.method !== "PATCH" && req.method !== "DELETE") {
+        res.setHeader("Allow", "PATCH, DELETE");
+        return res.status(405).json({ error: "Method Not Allowed" });
+    }
+
+    const listingId = first(req.query.id);
+    if (!listingId) {
+        return res.status(400).json({ error: "Missing listing id" });
+    }
+
+    try {
+        // Listing must exist and belong to the caller (unless admin)
+        const listing = await prisma.listing.findUnique({
+            where: { id: listingId },
+            include: { product: { select: { sellerAccount: { select: { userId: true } } } } },
+        });
+        if (!listing) return res.status(404).json({ error: "Listing not found" });
+        const { product, ...row } = listing;
+        if (user.role !== "admin" && product.sellerAccount.userId !== user.id) {
+            return res.status(403).json({ error: "Forbidden" });
+        }
+
+        if (req.method === "DELETE") {
+            return res.status(200).json(await archiveListing(row));
+        }
+
+        // Validate request body
+        const parsed = UpdateListingSchema.safeParse(req.body);
+        if (!parsed.success) {
+            return res.status(400).json({ error: "Invalid body", issues: parsed.error.issues });
+        }
+        if (!row.active) {
+            return res.status(409).json({ error: "Listing is archived" });
+        }
+
+        const updated = await prisma.listing.update({
+            where: { id: row.id },
+            data: { inventory: parsed.data.inventory },
+        });
+        return res.status(200).json(updated);
+    } catch (e) {
+        const message = e instanceof Error ? e.message : "Unknown error";
+        return res.status(500).json({ error: "Failed to update listing", message });
+    }
+}
+
+export default withAuth(handler);
@@ -0,0 +1,60 @@
+// src/pages/api/listings/index.ts
+// POST /api/listings
+// List a product for sale: create a Stripe Price (one-time or recurring) and its Listing
+import type { NextApiRequest, NextApiResponse } from "next";
+import { prisma } from "@/lib/prisma";
+import { createListing } from "@/lib/catalog";
+import { amountStep } from "@/lib/currency";
+import { withAuth, type AuthUser } from "@/lib/auth";
+import { CreateListingSchema, type CreateListingInput } from "@/schemas/catalog";
+
+// Extract first value from multi-value headers (e.g., idempotency-key)
+const first = (v: string | string[] | undefined): string | undefined =>
+    Array.isArray(v) ? v[0] : v;
+
+async function handler(req: NextApiRequest, res: NextApiResponse, user: AuthUser) {
+    // Only allow POST requests
+    if (req.method !== "POST") {
+        res.setHeader("Allow", "POST");
+        return res.status(405).json({ error: "Method Not Allowed" });
+    }
+
+    // Validate request body
+    const parsed = CreateListingSchema.safeParse(req.body);
+    if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid body", issues: parsed.error.issues });
+    }
+    const input: CreateListingInput = parsed.data;
+
+    // Three-decimal currencies are charged in multiples of 10
+    const step = amountStep(input.currency);
+    if (input.unitAmount % step !== 0) {
+        return res.status(400).json({ error: `unitAmount must be a multiple of ${step} for ${input.currency}` });
+    }
+
+    try {
+        // Product must exist, belong to the caller (unless admin), and not be archived
+        const product = await prisma.product.findUnique({
+            where: { id: input.productId },
+            include: { sellerAccount: { select: { userId: true } } },
+        });
+        if (!product) return res.status(404).json({ error: "Product not found" });
+        const { sellerAccount, ...row } = product;
+        if (user.role !== "admin" && sellerAccount.userId !== user.id) {
+            return res.status(403).json({ error: "Forbidden" });
+        }
+        if (!row.active) {
+            return res.status(409).json({ error: "Product is archived" });
+        }
+
+        const listing = await createListing(row, input, {
+            idempotencyKey: first(req.headers["idempotency-key"]),
+        });
+        return res.status(201).json(listing);
+    } catch (e) {
+        const message = e instanceof Error ? e.message : "Unknown error";
+        return res.status(500).json({ error: "Failed to create listing", message });
+    }
+}
+
+export default withAuth(handler);
@@ -0,0 +1,94 @@
+// src/pages/api/orders/[id]/index.ts
+// GET /api/orders/:id
+// Order detail with line items and refunds (admin, the seller, or the buyer)
+import type { NextApiRequest, NextApiResponse } from "next";
+import { prisma } from "@/lib/prisma";
+import { withAuth, type AuthUser } from "@/lib/auth";
+import { paymentUrl } from "@/lib/dashboard";
+
+// Extract first value from query params (handle array case)
+const first = (v: string | string[] | undefined): string | undefined =>
+    Array.isArray(v) ? v[0] : v;
+
+async function handler(req: NextApiRequest, res: NextApiResponse, user: AuthUser) {
+    // Only allow GET requests
+    if (req.method !== "GET") {
+        res.setHeader("Allow", "GET");
+        return res.status(405).json({ error: "Method Not Allowed" });
+    }
+
+    const orderId = first(req.query.id);
+    if (!orderId) {
+        return res.status(400).json({ error: "Missing order id" });
+    }
+
+    try {
+        const order = await prisma.order.findUnique({
+            where: { id: orderId },
+            include: {
+                sellerAccount: { select: { stripeAccountId: true, userId: true } },
+                items: { orderBy: { position: "asc" } },
+                Refund: { orderBy: { createdAt: "asc" } },
+            },
+        });
+        // Same 404 for "missing" and "not yours" (no probing other orders' ids)
+        const visible =
+            order &&
+            (user.role === "admin" || order.sellerAccount.userId === user.id || order.buyerId === user.id);
+        if (!order || !visible) {
+            return res.status(404).json({ error: "Order not found" });
+        }
+
+        return res.status(200).json({
+            id: order.id,
+            stripeAccountId: order.sellerAccount.stripeAccountId,
+            buyerId: order.buyerId,
+            paymentIntentId: order.paymentIntentId,
+            checkoutSessionId: order.checkoutSessionId,
+            chargeId: order.chargeId,
+            transferId: order.transferId,
+            status: order.status,
+            paymentState: order.paymentState,
+            chargeModel: order.chargeModel,
+            amount: order.amount,
+            platformFee: order.platformFee,
+            amountRefunded: order.amountRefunded,
+            currency: order.currency,
+            items: order.items.map(it => ({
+                position: it.position,
+                listingId: it.listingId,
+                priceId: it.priceId,
+                productId: it.productId,
+                description: it.description,
+                quantity: it.quantity,
+                unitAmount: it.unitAmount,
+                amount: it.amount,
+                platformFee: it.platformFee,
+            })),
+            refunds: order.Refund.map(r => ({
+                id: r.id,
+                stripeRefundId: r.stripeRefundId,
+                amount: r.amount,
+                status: r.status,
+                reason: r.reason,
+                transferReversalId: r.transferReversalId,
+                applicationFeeRefundId: r.applicationFeeRefundId,
+                createdAt: r.createdAt,
+            })),
+            createdAt: order.createdAt,
+            updatedAt: order.updatedAt,
+            stripeUrl: paymentUrl(
+                order.paymentIntentId,
+                order.chargeModel === "direct" ? order.sellerAccount.stripeAccountId : undefined
+            ),
+        });
+    } catch (e) {
+        const message = e instanceof Error ? e.message : "Unknown error";
+        return res.status(500).json({
+            error: "Failed to retrieve order",
+            message
+        });
+    }
+}
+
+export default withAuth(handler);
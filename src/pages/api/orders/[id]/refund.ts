@@ -0,0 +1,106 @@
+// src/pages/api/orders/[id]/refund.ts
+// POST /api/orders/:id/refund
+// Platform-initiated refund (full or partial) with transfer reversal / fee refund toggles
+import type { NextApiRequest, NextApiResponse } from "next";
+import { requestOptions, stripe } from "@/lib/stripe";
+import { prisma } from "@/lib/prisma";
+import { toJson } from "@/lib/json";
+import { recomputeOrderRefunds, toRefundStatus } from "@/lib/refunds";
+import { withAuth } from "@/lib/auth";
+import { CreateRefundSchema, type CreateRefundInput } from "@/schemas/orders";
+
+// Extract first value from multi-value headers / query params
+const first = (v: string | string[] | undefined): string | undefined =>
+    Array.isArray(v) ? v[0] : v;
+
+async function handler(req: NextApiRequest, res: NextApiResponse) {
+    // Only allow POST method
+    if (req.method !== "POST") {
+        res.setHeader("Allow", "POST");
+        return res.status(405).json({ error: "Method Not Allowed" });
+    }
+
+    const orderId = first(req.query.id);
+    if (!orderId) {
+        return res.status(400).json({ error: "Missing order id" });
+    }
+
+    // Validate request body with Zod
+    const parsed = CreateRefundSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid body", issues: parsed.error.issues });
+    }
+    const input: CreateRefundInput = parsed.data;
+
+    try {
+        // Step 1: Load order and make sure it was actually paid
+        const order = await prisma.order.findUnique({
+            where: { id: orderId },
+            include: { sellerAccount: { select: { stripeAccountId: true } } },
+        });
+        if (!order) return res.status(404).json({ error: "Order not found" });
+        if (order.status === "created" || order.paymentState === "failed") {
+            return res.status(409).json({ error: "Order has not been paid" });
+        }
+
+        // Step 2: Check amount against what is still refundable
+        const refundable = order.amount - order.amountRefunded;
+        const amount = input.amount ?? refundable;
+        if (refundable <= 0) {
+            return res.status(409).json({ error: "Order is already fully refunded" });
+        }
+        if (amount > refundable) {
+            return res
+                .status(409)
+                .json({ error: "Refund amount exceeds refundable balance", refundable });
+        }
+
+        // Step 3: Optional idempotency key from request header
+        const idemKey = first(req.headers["idempotency-key"]);
+
+        // Step 4: Create refund on the platform charge (direct charges: on the seller's account,
+        // paid from its balance; there is no transfer to reverse).
+        // Separate charges & transfers have no transfer_data: the webhook reverses the transfer.
+        // The webhook also returns the fee, so the Refund row records the fee refund it made.
+        const { chargeModel } = order;
+        const refund = await stripe.refunds.create(
+            {
+                payment_intent: order.paymentIntentId,
+                amount,
+                reason: input.reason,
+                ...(chargeModel === "destination" ? { reverse_transfer: input.reverseTransfer } : {}),
+                metadata: {
+                    // Tells the webhook whether it still has to reverse the transfer / return the fee
+                    platformInitiated: "true",
+                    orderId: order.id,
+                    reverseTransfer: String(input.reverseTransfer),
+                    refundApplicationFee: String(input.refundApplicationFee),
+                },
+            },
+            requestOptions(chargeModel === "direct" ? order.sellerAccount.stripeAccountId : null, idemKey)
+        );
+
+        // Step 5: Record the refund as Stripe reports it (refund.* webhooks track later changes)
+        await prisma.refund.upsert({
+            where: { stripeRefundId: refund.id },
+            create: {
+                orderId: order.id,
+                stripeRefundId: refund.id,
+                amount: refund.amount,
+                status: toRefundStatus(refund.status),
+                reason: refund.reason ?? null,
+                metadata: toJson(refund.metadata ?? {}),
+            },
+            update: {}, // Webhook got there first; keep its status
+        });
+        await recomputeOrderRefunds(order.id);
+
+        return res.status(201).json({ refundId: refund.id, amount: refund.amount, status: toRefundStatus(refund.status) });
+    } catch (e) {
+        const message = e instanceof Error ? e.message : "Unknown error";
+        return res.status(500).json({ error: "Failed to create refund", message });
+    }
+}
+
+// Admin only
+export default withAuth(handler, { role: "admin" });
@@ -0,0 +1,101 @@
+// src/pages/api/orders/index.ts
+// GET /api/orders?paymentState=succeeded&from=2025-01-01&to=2025-02-01&cursor=...
+// List orders, newest first (sellers: own orders; admins: any seller via stripeAccountId)
+import type { NextApiRequest, NextApiResponse } from "next";
+import { prisma } from "@/lib/prisma";
+import { resolveSellerFilter, withAuth, type AuthUser } from "@/lib/auth";
+import { paymentUrl } from "@/lib/dashboard";
+import { afterCursor, CURSOR_ORDER, toPage } from "@/lib/pagination";
+import { ListOrdersSchema } from "@/schemas/orders";
+
+// Extract first value from query params (handle array case)
+const first = (v: string | string[] | undefined): string | undefined =>
+    Array.isArray(v) ? v[0] : v;
+
+async function handler(req: NextApiRequest, res: NextApiResponse, user: AuthUser) {
+    // Only allow GET requests
+    if (req.method !== "GET") {
+        res.setHeader("Allow", "GET");
+        return res.status(405).json({ error: "Method Not Allowed" });
+    }
+
+    // Validate query parameters
+    const parsed = ListOrdersSchema.safeParse({
+        stripeAccountId: first(req.query.stripeAccountId),
+        buyerId: first(req.query.buyerId),
+        status: first(req.query.status),
+        paymentState: first(req.query.paymentState),
+        oversold: first(req.query.oversold),
+        from: first(req.query.from),
+        to: first(req.query.to),
+        cursor: first(req.query.cursor),
+        limit: first(req.query.limit),
+    });
+    if (!parsed.success) {
+        return res.status(400).json({
+            error: "Invalid query",
+            issues: parsed.error.issues
+        });
+    }
+    const { stripeAccountId, buyerId, status, paymentState, oversold, from, to, cursor, limit } = parsed.data;
+
+    try {
+        // Sellers are pinned to their own account
+        const seller = await resolveSellerFilter(user, stripeAccountId);
+        if ("error" in seller) {
+            return res.status(seller.status).json({ error: seller.error });
+        }
+
+        // Served by [paymentState, createdAt], [sellerAccountId, createdAt] and [createdAt]
+        const rows = await prisma.order.findMany({
+            where: {
+                AND: [
+                    {
+                        ...seller,
+                        ...(buyerId ? { buyerId } : {}),
+                        ...(status ? { status } : {}),
+                        ...(paymentState ? { paymentState } : {}),
+                        ...(oversold !== undefined ? { oversoldAt: oversold ? { not: null } : null } : {}),
+                        ...(from || to ? { createdAt: { gte: from, lt: to } } : {}),
+                    },
+                    afterCursor(cursor),
+                ],
+            },
+            include: { sellerAccount: { select: { stripeAccountId: true } } },
+            orderBy: CURSOR_ORDER,
+            take: limit + 1,
+        });
+        const page = toPage(rows, limit);
+
+        return res.status(200).json({
+            data: page.data.map(o => ({
+                id: o.id,
+                stripeAccountId: o.sellerAccount.stripeAccountId,
+                buyerId: o.buyerId,
+                paymentIntentId: o.paymentIntentId,
+                status: o.status,
+                paymentState: o.paymentState,
+                chargeModel: o.chargeModel,
+                amount: o.amount,
+                platformFee: o.platformFee,
+                amountRefunded: o.amountRefunded,
+                currency: o.currency,
+                oversoldAt: o.oversoldAt,
+                createdAt: o.createdAt,
+                stripeUrl: paymentUrl(
+                    o.paymentIntentId,
+                    o.chargeModel === "direct" ? o.sellerAccount.stripeAccountId : undefined
+                ),
+            })),
+            nextCursor: page.nextCursor,
+        });
+    } catch (e) {
+        const message = e instanceof Error ? e.message : "Unknown error";
+        return res.status(500).json({
+            error: "Failed to list orders",
+            message
+        });
+    }
+}
+
+export default withAuth(handler);
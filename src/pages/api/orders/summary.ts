@@ -0,0 +1,53 @@
+// src/pages/api/orders/summary.ts
+// GET /api/orders/summary?interval=week&from=2025-01-01&to=2025-04-01 (admins: &stripeAccountId=acct_xxx)
+// Per-seller sales: gross, platform fees, refunds and net-to-seller per day/week/month
+import type { NextApiRequest, NextApiResponse } from "next";
+import { resolveSellerFilter, withAuth, type AuthUser } from "@/lib/auth";
+import { summarizeSales } from "@/lib/reports";
+import { OrderSummarySchema } from "@/schemas/orders";
+
+// Extract first value from query params (handle array case)
+const first = (v: string | string[] | undefined): string | undefined =>
+    Array.isArray(v) ? v[0] : v;
+
+async function handler(req: NextApiRequest, res: NextApiResponse, user: AuthUser) {
+    // Only allow GET requests
+    if (req.method !== "GET") {
+        res.setHeader("Allow", "GET");
+        return res.status(405).json({ error: "Method Not Allowed" });
+    }
+
+    // Validate query parameters
+    const parsed = OrderSummarySchema.safeParse({
+        stripeAccountId: first(req.query.stripeAccountId),
+        interval: first(req.query.interval),
+        from: first(req.query.from),
+        to: first(req.query.to),
+    });
+    if (!parsed.success) {
+        return res.status(400).json({
+            error: "Invalid query",
+            issues: parsed.error.issues
+        });
+    }
+    const { stripeAccountId, interval, from, to } = parsed.data;
+
+    try {
+        // Sellers are pinned to their own account; admins without a filter get every seller
+        const seller = await resolveSellerFilter(user, stripeAccountId);
+        if ("error" in seller) {
+            return res.status(seller.status).json({ error: seller.error });
+        }
+
+        const rows = await summarizeSales({ ...seller, interval, from, to });
+        return res.status(200).json({ interval, rows });
+    } catch (e) {
+        const message = e instanceof Error ? e.message : "Unknown error";
+        return res.status(500).json({
+            error: "Failed to summarize orders",
+            message
+        });
+    }
+}
+
+export default withAuth(handler);
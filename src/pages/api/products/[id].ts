@@ -0,0 +1,66 @@
+// src/pages/api/products/[id].ts
+// GET    /api/products/:id    Product with all its listings
+// PATCH  /api/products/:id    Update name / description / image (Stripe Product too)
+// DELETE /api/products/:id    Archive the product and its listings (kept for order history)
+import type { NextApiRequest, NextApiResponse } from "next";
+import { prisma } from "@/lib/prisma";
+import { archiveProduct, updateProduct } from "@/lib/catalog";
+import { withAuth, type AuthUser } from "@/lib/auth";
+import { UpdateProductSchema } from "@/schemas/catalog";
+
+// Extract first value from query params (handle array case)
+const first = (v: string | string[] | undefined): string | undefined =>
+    Array.isArray(v) ? v[0] : v;
+
+async function handler(req: NextApiRequest, res: NextApiResponse, user: AuthUser) {
+    if (req.method !== "GET" && req.method !== "PATCH" && req.method !== "DELETE") {
+        res.setHeader("Allow", "GET, PATCH, DELETE");
+        return res.status(405).json({ error: "Method Not Allowed" });
+    }
+
+    const productId = first(req.query.id);
+    if (!productId) {
+        return res.status(400).json({ error: "Missing product id" });
+    }
+
+    try {
+        // Product must exist and belong to the caller (unless admin)
+        const product = await prisma.product.findUnique({
+            where: { id: productId },
+            include: { sellerAccount: { select: { userId: true, stripeAccountId: true } } },
+        });
+        if (!product) return res.status(404).json({ error: "Product not found" });
+        const { sellerAccount, ...row } = product;
+        if (user.role !== "admin" && sellerAccount.userId !== user.id) {
+            return res.status(403).json({ error: "Forbidden" });
+        }
+
+        if (req.method === "GET") {
+            const listings = await prisma.listing.findMany({
+                where: { productId: row.id },
+                orderBy: [{ active: "desc" }, { createdAt: "asc" }],
+            });
+            return res.status(200).json({ ...row, stripeAccountId: sellerAccount.stripeAccountId, listings });
+        }
+
+        if (req.method === "DELETE") {
+            return res.status(200).json(await archiveProduct(row));
+        }
+
+        // Validate request body
+        const parsed = UpdateProductSchema.safeParse(req.body);
+        if (!parsed.success) {
+            return res.status(400).json({ error: "Invalid body", issues: parsed.error.issues });
+        }
+        if (!row.active) {
+            return res.status(409).json({ error: "Product is archived" });
+        }
+
+        return res.status(200).json(await updateProduct(row, parsed.data));
+    } catch (e) {
+        const message = e instanceof Error ? e.message : "Unknown error";
+        return res.status(500).json({ error: "Failed to update product", message });
+    }
+}
+
+export default withAuth(handler);
@@ -0,0 +1,84 @@
+// src/pages/api/products/index.ts
+// GET  /api/products (admins: ?stripeAccountId=acct_xxx; optional ?includeArchived=true)
+//                              List a seller's products with their listings
+// POST /api/products           Create a product (Stripe Product on the platform account)
+import type { NextApiRequest, NextApiResponse } from "next";
+import { prisma } from "@/lib/prisma";
+import { createProduct } from "@/lib/catalog";
+import { resolveSellerAccount, resolveSellerFilter, withAuth, type AuthUser } from "@/lib/auth";
+import { CreateProductSchema, ListProductsSchema } from "@/schemas/catalog";
+
+// Extract first value from query params / headers (handle array case)
+const first = (v: string | string[] | undefined): string | undefined =>
+    Array.isArray(v) ? v[0] : v;
+
+async function handler(req: NextApiRequest, res: NextApiResponse, user: AuthUser) {
+    if (req.method === "GET") {
+        // Validate query parameters
+        const parsed = ListProductsSchema.safeParse({
+            stripeAccountId: first(req.query.stripeAccountId),
+            includeArchived: first(req.query.includeArchived),
+        });
+        if (!parsed.success) {
+            return res.status(400).json({ error: "Invalid query", issues: parsed.error.issues });
+        }
+        const { stripeAccountId, includeArchived } = parsed.data;
+
+        try {
+            // Sellers: own account only; admins: any acct_*** (or every seller)
+            const scope = await resolveSellerFilter(user, stripeAccountId);
+            if ("error" in scope) {
+                return res.status(scope.status).json({ error: scope.error });
+            }
+
+            const rows = await prisma.product.findMany({
+                where: {
+                    ...(scope.sellerAccountId ? { sellerAccountId: scope.sellerAccountId } : {}),
+                    ...(includeArchived ? {} : { active: true }),
+                },
+                include: {
+                    sellerAccount: { select: { stripeAccountId: true } },
+                    listings: {
+                        where: includeArchived ? {} : { active: true },
+                        orderBy: { createdAt: "asc" },
+                    },
+                },
+                orderBy: [{ active: "desc" }, { createdAt: "desc" }],
+            });
+            return res.status(200).json(rows);
+        } catch (e) {
+            const message = e instanceof Error ? e.message : "Unknown error";
+            return res.status(500).json({ error: "Failed to list products", message });
+        }
+    }
+
+    if (req.method !== "POST") {
+        res.setHeader("Allow", "GET, POST");
+        return res.status(405).json({ error: "Method Not Allowed" });
+    }
+
+    // Validate request body
+    const parsed = CreateProductSchema.safeParse(req.body);
+    if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid body", issues: parsed.error.issues });
+    }
+    const { userId, stripeAccountId, ...fields } = parsed.data;
+
+    try {
+        // Resolve the owning seller (sellers: own account only)
+        const scoped = await resolveSellerAccount(user, { userId, stripeAccountId });
+        if ("error" in scoped) {
+            return res.status(scoped.status).json({ error: scoped.error });
+        }
+
+        const product = await createProduct(scoped.account, fields, {
+            idempotencyKey: first(req.headers["idempotency-key"]),
+        });
+        return res.status(201).json(product);
+    } catch (e) {
+        const message = e instanceof Error ? e.message : "Unknown error";
+        return res.status(500).json({ error: "Failed to create product", message });
+    }
+}
+
+export default withAuth(handler);
@@ -0,0 +1,57 @@
+// src/pages/api/subscriptions/portal.ts
+// POST /api/subscriptions/portal
+// Open a Stripe Customer Portal session so a buyer can cancel or manage a membership
+import type { NextApiRequest, NextApiResponse } from "next";
+import { stripe } from "@/lib/stripe";
+import { prisma } from "@/lib/prisma";
+import { withAuth, type AuthUser } from "@/lib/auth";
+import { CreatePortalSessionSchema } from "@/schemas/subscriptions";
+
+async function handler(req: NextApiRequest, res: NextApiResponse, user: AuthUser) {
+    // Only allow POST requests
+    if (req.method !== "POST") {
+        res.setHeader("Allow", "POST");
+        return res.status(405).json({ error: "Method Not Allowed" });
+    }
+
+    // Validate request body
+    const parsed = CreatePortalSessionSchema.safeParse(req.body);
+    if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid body", issues: parsed.error.issues });
+    }
+    const { subscriptionId, returnUrl } = parsed.data;
+
+    try {
+        // Named subscription (row id or sub_***), else the caller's most recent one
+        const subscription = subscriptionId
+            ? await prisma.subscription.findFirst({
+                where: { OR: [{ id: subscriptionId }, { stripeSubscriptionId: subscriptionId }] },
+            })
+            : await prisma.subscription.findFirst({
+                where: { buyerId: user.id },
+                orderBy: { createdAt: "desc" },
+            });
+        if (!subscription) return res.status(404).json({ error: "Subscription not found" });
+        if (user.role !== "admin" && subscription.buyerId !== user.id) {
+            return res.status(403).json({ error: "Forbidden" });
+        }
+
+        const base = process.env.NEXT_PUBLIC_APP_URL;
+        if (!base && !returnUrl) {
+            return res.status(500).json({ error: "Missing NEXT_PUBLIC_APP_URL or explicit returnUrl" });
+        }
+
+        // The portal manages every subscription of the Stripe Customer created at checkout
+        const session = await stripe.billingPortal.sessions.create({
+            customer: subscription.customerId,
+            return_url: returnUrl ?? `${base}/store`,
+        });
+
+        return res.status(201).json({ url: session.url });
+    } catch (e) {
+        const message = e instanceof Error ? e.message : "Unknown error";
+        return res.status(500).json({ error: "Failed to create portal session", message });
+    }
+}
+
+export default withAuth(handler);
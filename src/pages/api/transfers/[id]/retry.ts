@@ -0,0 +1,56 @@
+// src/pages/api/transfers/[id]/retry.ts
+// POST /api/transfers/:id/retry
+// Retry a failed (or stuck pending) seller transfer
+import type { NextApiRequest, NextApiResponse } from "next";
+import { prisma } from "@/lib/prisma";
+import { executeTransfer } from "@/lib/transfers";
+import { withAuth } from "@/lib/auth";
+
+// Extract first value from query params (handle array case)
+const first = (v: string | string[] | undefined): string | undefined =>
+    Array.isArray(v) ? v[0] : v;
+
+async function handler(req: NextApiRequest, res: NextApiResponse) {
+    // Only allow POST requests
+    if (req.method !== "POST") {
+        res.setHeader("Allow", "POST");
+        return res.status(405).json({ error: "Method Not Allowed" });
+    }
+
+    const transferId = first(req.query.id);
+    if (!transferId) {
+        return res.status(400).json({ error: "Missing transfer id" });
+    }
+
+    try {
+        const existing = await prisma.transfer.findUnique({ where: { id: transferId } });
+        if (!existing) {
+            return res.status(404).json({ error: "Transfer not found" });
+        }
+        if (existing.status === "paid") {
+            return res.status(409).json({ error: "Transfer already paid" });
+        }
+
+        // Failures are recorded on the row, not thrown
+        const t = await executeTransfer(existing.id);
+        if (t.status !== "paid" && t.lockedAt) {
+            return res.status(409).json({ error: "Transfer already in progress" });
+        }
+        return res.status(t.status === "paid" ? 200 : 502).json({
+            id: t.id,
+            stripeTransferId: t.stripeTransferId,
+            status: t.status,
+            attempts: t.attempts,
+            lastError: t.lastError,
+        });
+    } catch (e) {
+        const message = e instanceof Error ? e.message : "Unknown error";
+        return res.status(500).json({
+            error: "Failed to retry transfer",
+            message
+        });
+    }
+}
+
+// Admin only
+export default withAuth(handler, { role: "admin" });
@@ -0,0 +1,70 @@
+// src/pages/api/transfers/index.ts
+// GET /api/transfers?status=failed
+// List seller transfers of multi-seller carts (ops view for retries)
+import type { NextApiRequest, NextApiResponse } from "next";
+import { prisma } from "@/lib/prisma";
+import { withAuth } from "@/lib/auth";
+import { ListTransfersSchema } from "@/schemas/transfers";
+
+// Extract first value from query params (handle array case)
+const first = (v: string | string[] | undefined): string | undefined =>
+    Array.isArray(v) ? v[0] : v;
+
+async function handler(req: NextApiRequest, res: NextApiResponse) {
+    // Only allow GET requests
+    if (req.method !== "GET") {
+        res.setHeader("Allow", "GET");
+        return res.status(405).json({ error: "Method Not Allowed" });
+    }
+
+    // Validate query parameters
+    const parsed = ListTransfersSchema.safeParse({
+        status: first(req.query.status),
+        stripeAccountId: first(req.query.stripeAccountId),
+    });
+    if (!parsed.success) {
+        return res.status(400).json({
+            error: "Invalid query",
+            issues: parsed.error.issues
+        });
+    }
+    const { status, stripeAccountId } = parsed.data;
+
+    try {
+        const rows = await prisma.transfer.findMany({
+            where: {
+                ...(status ? { status } : {}),
+                ...(stripeAccountId ? { sellerAccount: { stripeAccountId } } : {}),
+            },
+            include: { sellerAccount: { select: { stripeAccountId: true } } },
+            orderBy: { createdAt: "desc" },
+            take: 200, // Limit to prevent huge responses
+        });
+
+        return res.status(200).json(
+            rows.map(t => ({
+                id: t.id,
+                orderId: t.orderId,
+                stripeAccountId: t.sellerAccount.stripeAccountId,
+                stripeTransferId: t.stripeTransferId,
+                transferGroup: t.transferGroup,
+                amount: t.amount,
+                currency: t.currency,
+                status: t.status,
+                attempts: t.attempts,
+                lastError: t.lastError,
+                createdAt: t.createdAt,
+                updatedAt: t.updatedAt,
+            }))
+        );
+    } catch (e) {
+        const message = e instanceof Error ? e.message : "Unknown error";
+        return res.status(500).json({
+            error: "Failed to list transfers",
+            message
+        });
+    }
+}
+
+// Admin only
+export default withAuth(handler, { role: "admin" });
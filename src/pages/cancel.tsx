@@ -0,0 +1,17 @@
+// src/pages/cancel.tsx
+// Checkout cancel_url: nothing was charged; the persisted cart is shown again as it was
+import Link from "next/link";
+import CartPanel from "@/components/store/CartPanel";
+
+export default function CheckoutCanceled() {
+    return (
+        <main className="mx-auto max-w-md space-y-6 p-6">
+            <h1 className="text-2xl font-bold">Checkout canceled</h1>
+            <p className="text-gray-600">You were not charged. Your cart is still here.</p>
+            <CartPanel />
+            <Link href="/store" className="text-blue-600 underline">
+                Continue shopping
+            </Link>
+        </main>
+    );
+}
@@ -1,7 +1,68 @@
+// src/pages/login.tsx
+// Email magic-link sign-in (POST /api/auth/request-link)
+import { useState, type FormEvent } from "react";
+import { useRouter } from "next/router";
+
+type State = "idle" | "sending" | "sent" | "error";
+
+// Messages for ?error=... set by /api/auth/verify
+const LINK_ERRORS: Record<string, string> = {
+    invalid_link: "That sign-in link is not valid.",
+    expired_link: "That sign-in link has expired or was already used. Request a new one.",
+};
+
 export default function Login() {
+    const router = useRouter();
+    const [email, setEmail] = useState("");
+    const [state, setState] = useState<State>("idle");
+
+    const next = typeof router.query.next === "string" ? router.query.next : undefined;
+    const linkError = typeof router.query.error === "string" ? LINK_ERRORS[router.query.error] : undefined;
+
+    async function onSubmit(e: FormEvent<HTMLFormElement>) {
+        e.preventDefault();
+        setState("sending");
+        const res = await fetch("/api/auth/request-link", {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ email, next }),
+        });
+        setState(res.ok ? "sent" : "error");
+    }
+
     return (
-        <main className="flex min-h-screen items-center justify-center">
-            <div className="text-gray-500">Dummy Login Page</div>
+        <main className="flex min-h-screen items-center justify-center p-6">
+            <div className="w-full max-w-sm space-y-4">
+                <h1 className="text-2xl font-bold">Sign in</h1>
+
+                {state === "sent" ? (
+                    <p className="text-gray-600">
+                        Check <span className="font-medium">{email}</span> for a sign-in link.
+                    </p>
+                ) : (
+                    <form onSubmit={onSubmit} className="space-y-3">
+                        {linkError && <p className="text-sm text-red-600">{linkError}</p>}
+                        <input
+                            type="email"
+                            required
+                            value={email}
+                            onChange={(e) => setEmail(e.target.value)}
+                            placeholder="you@example.com"
+                            className="w-full rounded border border-gray-300 px-3 py-2"
+                        />
+                        <button
+                            type="submit"
+                            disabled={state === "sending"}
+                            className="w-full rounded bg-blue-500 px-3 py-2 text-white disabled:opacity-50"
+                        >
+                            {state === "sending" ? "Sending…" : "Email me a link"}
+                        </button>
+                        {state === "error" && (
+                            <p className="text-sm text-red-600">Could not send the link. Try again.</p>
+                        )}
+                    </form>
+                )}
+            </div>
         </main>
     );
-}
\ No newline at end of file
+}
@@ -0,0 +1,178 @@
+// src/pages/seller/index.tsx
+// Seller dashboard: create the Express account, run onboarding, surface requirements,
+// and open the Express Dashboard once details are submitted.
+import { useCallback, useEffect, useState } from "react";
+import { useRouter } from "next/router";
+import RequirementBanners from "@/components/seller/RequirementBanners";
+import { ApiError, getJson, postJson } from "@/lib/client";
+import { goToOnboarding, openExpressDashboard } from "@/lib/onboarding";
+import type { RequirementsSummary } from "@/lib/requirements";
+
+type Me = {
+    user: { id: string; email: string; role: "seller" | "admin" };
+    connectedAccount: { stripeAccountId: string } | null;
+};
+
+type AccountStatus = {
+    stripeAccountId: string;
+    chargesEnabled: boolean;
+    payoutsEnabled: boolean;
+    detailsSubmitted: boolean;
+    country: string | null;
+    defaultCurrency: string | null;
+    requirements: RequirementsSummary;
+};
+
+function Flag({ label, on }: { label: string; on: boolean }) {
+    return (
+        <div className="rounded border border-gray-200 p-3">
+            <p className="text-sm text-gray-500">{label}</p>
+            <p className={on ? "font-medium text-emerald-600" : "font-medium text-gray-400"}>
+                {on ? "Enabled" : "Not yet"}
+            </p>
+        </div>
+    );
+}
+
+export default function SellerDashboard() {
+    const router = useRouter();
+    const [me, setMe] = useState<Me | null>(null);
+    const [status, setStatus] = useState<AccountStatus | null>(null);
+    const [loading, setLoading] = useState(true);
+    const [busy, setBusy] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const returned = router.query.onboarding === "return";
+
+    const load = useCallback(async () => {
+        setLoading(true);
+        setError(null);
+        try {
+            const current = await getJson<Me>("/api/auth/me");
+            setMe(current);
+            // get-account-status also re-syncs flags + requirements from Stripe
+            setStatus(
+                current.connectedAccount
+                    ? await getJson<AccountStatus>("/api/connect/get-account-status")
+                    : null
+            );
+        } catch (e) {
+            if (e instanceof ApiError && e.status === 401) {
+                await router.replace(`/login?next=${encodeURIComponent("/seller")}`);
+                return;
+            }
+            setError(e instanceof Error ? e.message : "Unknown error");
+        } finally {
+            setLoading(false);
+        }
+    }, [router]);
+
+    useEffect(() => {
+        if (router.isReady) void load();
+    }, [router.isReady, load]);
+
+    // Wrap button actions: single flight + error display
+    const run = (fn: () => Promise<void>) => async () => {
+        setBusy(true);
+        setError(null);
+        try {
+            await fn();
+        } catch (e) {
+            setError(e instanceof Error ? e.message : "Unknown error");
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    const startOnboarding = run(async () => {
+        if (!me?.connectedAccount) await postJson("/api/connect/create-account");
+        await goToOnboarding();
+    });
+    const resumeOnboarding = run(goToOnboarding);
+    const openDashboard = run(openExpressDashboard);
+
+    if (loading) {
+        return <main className="p-6 text-gray-500">Loading…</main>;
+    }
+
+    return (
+        <main className="mx-auto max-w-2xl space-y-6 p-6">
+            <header className="flex items-center justify-between">
+                <h1 className="text-2xl font-bold">Seller dashboard</h1>
+                {me && <span className="text-sm text-gray-500">{me.user.email}</span>}
+            </header>
+
+            {error && <p className="rounded border border-red-300 bg-red-50 p-3 text-red-700">{error}</p>}
+
+            {!status ? (
+                <section className="space-y-3 rounded border border-gray-200 p-6">
+                    <p>Set up a Stripe Express account to start selling and receive payouts.</p>
+                    <button
+                        type="button"
+                        onClick={startOnboarding}
+                        disabled={busy}
+                        className="rounded bg-blue-500 px-4 py-2 text-white disabled:opacity-50"
+                    >
+                        Set up payouts
+                    </button>
+                </section>
+            ) : (
+                <>
+                    {returned && !status.detailsSubmitted && (
+                        <p className="rounded border border-amber-300 bg-amber-50 p-3 text-amber-800">
+                            Onboarding is not finished yet. Continue where you left off.
+                        </p>
+                    )}
+
+                    <RequirementBanners
+                        requirements={status.requirements}
+                        onResolve={resumeOnboarding}
+                        busy={busy}
+                    />
+
+                    <section className="grid grid-cols-3 gap-3">
+                        <Flag label="Details submitted" on={status.detailsSubmitted} />
+                        <Flag label="Charges" on={status.chargesEnabled} />
+                        <Flag label="Payouts" on={status.payoutsEnabled} />
+                    </section>
+
+                    <section className="flex flex-wrap gap-3">
+                        {status.detailsSubmitted ? (
+                            <button
+                                type="button"
+                                onClick={openDashboard}
+                                disabled={busy}
+                                className="rounded bg-blue-500 px-4 py-2 text-white disabled:opacity-50"
+                            >
+                                Open Express dashboard
+                            </button>
+                        ) : (
+                            <button
+                                type="button"
+                                onClick={resumeOnboarding}
+                                disabled={busy}
+                                className="rounded bg-blue-500 px-4 py-2 text-white disabled:opacity-50"
+                            >
+                                Continue onboarding
+                            </button>
+                        )}
+                        <button
+                            type="button"
+                            onClick={() => void load()}
+                            disabled={busy}
+                            className="rounded border border-gray-300 px-4 py-2 disabled:opacity-50"
+                        >
+                            Refresh status
+                        </button>
+                    </section>
+
+                    <p className="text-sm text-gray-500">
+                        Account {status.stripeAccountId}
+                        {status.country ? ` · ${status.country}` : ""}
+                        {status.defaultCurrency ? ` · ${status.defaultCurrency.toUpperCase()}` : ""}
+                    </p>
+                </>
+            )}
+        </main>
+    );
+}
@@ -0,0 +1,40 @@
+// src/pages/seller/onboarding/refresh.tsx
+// AccountLink refresh_url: Stripe sends the seller here when a link expired or was reused.
+// Create a new link right away and continue onboarding.
+import { useEffect, useRef, useState } from "react";
+import Link from "next/link";
+import { goToOnboarding } from "@/lib/onboarding";
+import { ApiError } from "@/lib/client";
+
+export default function OnboardingRefresh() {
+    const [error, setError] = useState<string | null>(null);
+    const started = useRef(false);
+
+    useEffect(() => {
+        // Strict mode runs effects twice in dev; one link is enough
+        if (started.current) return;
+        started.current = true;
+        goToOnboarding().catch((e: unknown) => {
+            if (e instanceof ApiError && e.status === 401) {
+                window.location.assign(`/login?next=${encodeURIComponent("/seller/onboarding/refresh")}`);
+                return;
+            }
+            setError(e instanceof Error ? e.message : "Unknown error");
+        });
+    }, []);
+
+    return (
+        <main className="flex min-h-screen items-center justify-center p-6">
+            {error ? (
+                <div className="space-y-3 text-center">
+                    <p className="text-red-600">Could not resume onboarding: {error}</p>
+                    <Link href="/seller" className="text-blue-600 underline">
+                        Back to seller dashboard
+                    </Link>
+                </div>
+            ) : (
+                <p className="text-gray-500">Resuming onboarding…</p>
+            )}
+        </main>
+    );
+}
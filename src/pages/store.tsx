@@ -0,0 +1,119 @@
+// src/pages/store.tsx
+// Storefront: every seller's active listings (GET /api/catalog) with a persisted cart.
+// Memberships skip the cart: each one is its own subscription checkout.
+import { useEffect, useState } from "react";
+import Image from "next/image";
+import CartPanel from "@/components/store/CartPanel";
+import { ApiError, getJson, postJson } from "@/lib/client";
+import { formatMoney } from "@/lib/money";
+import type { CatalogSeller } from "@/lib/catalog";
+import { useCart } from "@/stores/cart";
+
+export default function Store() {
+    const [sellers, setSellers] = useState<CatalogSeller[] | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [subscribing, setSubscribing] = useState<string | null>(null);
+    const add = useCart((s) => s.add);
+
+    useEffect(() => {
+        getJson<{ sellers: CatalogSeller[] }>("/api/catalog")
+            .then((r) => setSellers(r.sellers))
+            .catch((e: unknown) => setError(e instanceof Error ? e.message : "Unknown error"));
+    }, []);
+
+    async function subscribe(listingId: string) {
+        setSubscribing(listingId);
+        setError(null);
+        try {
+            const session = await postJson<{ url: string }>("/api/checkout", { items: [{ listingId, quantity: 1 }] });
+            window.location.assign(session.url);
+        } catch (e) {
+            // Memberships belong to a signed-in buyer (who manages them in the Customer Portal)
+            if (e instanceof ApiError && e.status === 401) {
+                window.location.assign(`/login?next=${encodeURIComponent("/store")}`);
+                return;
+            }
+            setError(e instanceof Error ? e.message : "Unknown error");
+            setSubscribing(null);
+        }
+    }
+
+    return (
+        <main className="mx-auto grid max-w-5xl gap-8 p-6 md:grid-cols-[1fr_20rem]">
+            <section className="space-y-8">
+                <h1 className="text-2xl font-bold">Store</h1>
+                {error && <p className="text-red-600">{error}</p>}
+                {!sellers && !error && <p className="text-gray-500">Loading…</p>}
+                {sellers?.length === 0 && <p className="text-gray-500">No products yet.</p>}
+
+                {sellers?.map((seller) => (
+                    <div key={seller.stripeAccountId} className="space-y-3">
+                        <h2 className="text-lg font-semibold">
+                            {seller.name ?? seller.stripeAccountId}
+                            {seller.country && <span className="ml-2 text-sm text-gray-500">{seller.country}</span>}
+                        </h2>
+                        <ul className="grid gap-3 sm:grid-cols-2">
+                            {seller.listings.map((p) => (
+                                <li key={p.listingId} className="flex flex-col gap-2 rounded border border-gray-200 p-4">
+                                    {p.image && (
+                                        // Seller-provided https URLs: loaded by the browser, never through the
+                                        // image optimizer (which would fetch any host from our server)
+                                        <div className="relative h-32 w-full">
+                                            <Image
+                                                src={p.image}
+                                                alt=""
+                                                fill
+                                                sizes="(min-width: 640px) 50vw, 100vw"
+                                                unoptimized
+                                                className="rounded object-cover"
+                                            />
+                                        </div>
+                                    )}
+                                    <p className="font-medium">{p.name}</p>
+                                    {p.description && <p className="text-sm text-gray-500">{p.description}</p>}
+                                    <div className="mt-auto flex items-center justify-between">
+                                        <span>
+                                            {formatMoney(p.unitAmount, p.currency)}
+                                            {p.interval && <span className="text-sm text-gray-500"> / {p.interval}</span>}
+                                        </span>
+                                        {p.interval ? (
+                                            <button
+                                                type="button"
+                                                onClick={() => subscribe(p.listingId)}
+                                                disabled={subscribing !== null}
+                                                className="rounded bg-blue-500 px-3 py-1 text-sm text-white disabled:opacity-50"
+                                            >
+                                                {subscribing === p.listingId ? "Redirecting…" : "Subscribe"}
+                                            </button>
+                                        ) : (
+                                            <button
+                                                type="button"
+                                                onClick={() =>
+                                                    add({
+                                                        listingId: p.listingId,
+                                                        stripeAccountId: seller.stripeAccountId,
+                                                        name: p.name,
+                                                        unitAmount: p.unitAmount,
+                                                        currency: p.currency,
+                                                    })
+                                                }
+                                                className="rounded bg-blue-500 px-3 py-1 text-sm text-white"
+                                            >
+                                                Add to cart
+                                            </button>
+                                        )}
+                                    </div>
+                                </li>
+                            ))}
+                        </ul>
+                    </div>
+                ))}
+            </section>
+
+            <aside className="space-y-3">
+                <h2 className="text-lg font-semibold">Cart</h2>
+                <CartPanel />
+            </aside>
+        </main>
+    );
+}
@@ -0,0 +1,133 @@
+// src/pages/success.tsx
+// Checkout success_url (?session_id=cs_***): the session is retrieved server-side and matched
+// to our Order rows (one per seller). Orders appear once the webhook has reconciled them.
+// Direct-charge sessions add &account=acct_*** (they live on the seller's account).
+import { useEffect } from "react";
+import type { GetServerSideProps } from "next";
+import Link from "next/link";
+import { onAccount, stripe } from "@/lib/stripe";
+import { prisma } from "@/lib/prisma";
+import { idOf } from "@/lib/expand";
+import { formatMoney } from "@/lib/money";
+import { useCart } from "@/stores/cart";
+
+type OrderView = {
+    id: string;
+    paymentState: string;
+    amount: number;
+    currency: string;
+    items: { description: string | null; quantity: number; amount: number }[];
+};
+
+type Props = {
+    sessionId: string;
+    paymentStatus: string; // "paid" | "unpaid" | "no_payment_required"
+    subscription: boolean; // membership checkout (the cart was not used)
+    amountTotal: number | null;
+    currency: string | null;
+    email: string | null;
+    orders: OrderView[];
+};
+
+// Extract first value from query params (handle array case)
+const first = (v: string | string[] | undefined): string | undefined =>
+    Array.isArray(v) ? v[0] : v;
+
+export const getServerSideProps: GetServerSideProps<Props> = async (ctx) => {
+    const sessionId = first(ctx.query.session_id);
+    if (!sessionId || !sessionId.startsWith("cs_")) return { notFound: true };
+    const account = first(ctx.query.account);
+    if (account !== undefined && !account.startsWith("acct_")) return { notFound: true };
+
+    let session;
+    try {
+        session = await stripe.checkout.sessions.retrieve(sessionId, {}, onAccount(account));
+    } catch {
+        return { notFound: true };
+    }
+
+    // checkoutSessionId is filled by the webhook; fall back to the PaymentIntent
+    const piId = idOf(session.payment_intent);
+    const orders = await prisma.order.findMany({
+        where: { OR: [{ checkoutSessionId: session.id }, ...(piId ? [{ paymentIntentId: piId }] : [])] },
+        include: { items: { orderBy: { position: "asc" } } },
+        orderBy: { createdAt: "asc" },
+    });
+
+    return {
+        props: {
+            sessionId: session.id,
+            paymentStatus: session.payment_status,
+            subscription: session.mode === "subscription",
+            amountTotal: session.amount_total,
+            currency: session.currency?.toUpperCase() ?? null,
+            email: session.customer_details?.email ?? null,
+            orders: orders.map((o) => ({
+                id: o.id,
+                paymentState: o.paymentState,
+                amount: o.amount,
+                currency: o.currency,
+                items: o.items.map((it) => ({
+                    description: it.description,
+                    quantity: it.quantity,
+                    amount: it.amount,
+                })),
+            })),
+        },
+    };
+};
+
+export default function CheckoutSuccess(props: Props) {
+    const clear = useCart((s) => s.clear);
+    const paid = props.paymentStatus !== "unpaid";
+    const cartBought = paid && !props.subscription;
+
+    // Payment went through: the cart has been bought
+    useEffect(() => {
+        if (cartBought) clear();
+    }, [cartBought, clear]);
+
+    return (
+        <main className="mx-auto max-w-xl space-y-6 p-6">
+            <h1 className="text-2xl font-bold">{paid ? "Thank you for your order" : "Payment processing"}</h1>
+            <p className="text-gray-600">
+                {paid
+                    ? "Your payment was received."
+                    : "Your payment is still being confirmed. We will email you once it completes."}
+                {props.email && ` A receipt will be sent to ${props.email}.`}
+            </p>
+
+            {props.amountTotal != null && props.currency && (
+                <p className="font-medium">Total: {formatMoney(props.amountTotal, props.currency)}</p>
+            )}
+
+            {props.orders.length === 0 ? (
+                <p className="text-sm text-gray-500">Order details will appear here shortly. Refresh in a moment.</p>
+            ) : (
+                props.orders.map((o) => (
+                    <section key={o.id} className="space-y-2 rounded border border-gray-200 p-4">
+                        <div className="flex justify-between text-sm text-gray-500">
+                            <span>Order {o.id}</span>
+                            <span>{o.paymentState}</span>
+                        </div>
+                        <ul className="text-sm">
+                            {o.items.map((it, i) => (
+                                <li key={i} className="flex justify-between">
+                                    <span>
+                                        {it.description ?? "Item"} × {it.quantity}
+                                    </span>
+                                    <span>{formatMoney(it.amount, o.currency)}</span>
+                                </li>
+                            ))}
+                        </ul>
+                        <p className="text-right font-medium">{formatMoney(o.amount, o.currency)}</p>
+                    </section>
+                ))
+            )}
+
+            <Link href="/store" className="text-blue-600 underline">
+                Continue shopping
+            </Link>
+        </main>
+    );
+}
@@ -0,0 +1,29 @@
+// Zod schemas for email magic-link sign-in.
+// Notes:
+// - `next` is a same-origin path only (no open redirects after login)
+
+import { z } from "zod";
+
+// Relative in-app path, e.g. "/seller" (rejects "//evil.com" and absolute URLs)
+const NextPathSchema = z
+    .string()
+    .max(512)
+    .refine((s) => s.startsWith("/") && !s.startsWith("//") && !s.includes("\\"), {
+        message: "Must be a relative path",
+    });
+
+// Request a sign-in link by email.
+export const RequestLoginLinkSchema = z.object({
+    email: z.email().max(254),
+    next: NextPathSchema.optional(),
+});
+
+// Redeem a sign-in link (query string of the emailed URL).
+export const VerifyLoginSchema = z.object({
+    token: z.string().min(1).max(128),
+    next: NextPathSchema.optional(),
+});
+
+// Inferred types (handy for handlers; keeps "any" out)
+export type RequestLoginLinkInput = z.infer<typeof RequestLoginLinkSchema>;
+export type VerifyLoginInput = z.infer<typeof VerifyLoginSchema>;
@@ -0,0 +1,61 @@
+// Zod schemas for the seller catalog (Product / Listing, mirrored to Stripe Products / Prices).
+// Notes:
+// - Sellers manage their own catalog; admins name the seller with userId or stripeAccountId
+// - Listing amounts are integers in the smallest unit of `currency` and cannot be changed later
+//   (Stripe Prices are immutable): archive the listing and create a new one instead
+// - inventory null = unlimited stock
+// - interval makes the listing a membership (recurring Price) bought through subscription checkout
+
+import { z } from "zod";
+import { HttpsUrlSchema, QueryBooleanSchema } from "./common";
+
+// List a seller's products with their listings.
+export const ListProductsSchema = z.object({
+    stripeAccountId: z.string().min(1).optional(),
+    includeArchived: QueryBooleanSchema.optional(),
+});
+
+// Create a product (Stripe Product on the platform account).
+export const CreateProductSchema = z.object({
+    userId: z.string().min(1).optional(),
+    stripeAccountId: z.string().min(1).optional(), // acct_***
+
+    name: z.string().trim().min(1).max(250),
+    description: z.string().trim().min(1).max(2000).optional(),
+    imageUrl: HttpsUrlSchema.optional(),
+});
+
+// Update a product's display fields (null clears an optional field).
+export const UpdateProductSchema = z
+    .object({
+        name: z.string().trim().min(1).max(250).optional(),
+        description: z.string().trim().min(1).max(2000).nullable().optional(),
+        imageUrl: HttpsUrlSchema.nullable().optional(),
+    })
+    .refine((d) => Object.values(d).some((v) => v !== undefined), {
+        message: "Nothing to update",
+    });
+
+// Stock level: null = unlimited
+const InventorySchema = z.number().int().min(0).max(1_000_000).nullable();
+
+// Create a listing (one-time or recurring Stripe Price) for a product.
+export const CreateListingSchema = z.object({
+    productId: z.string().min(1), // Product.id
+    unitAmount: z.number().int().positive(),
+    currency: z.string().length(3).toUpperCase(), // e.g., "USD"
+    inventory: InventorySchema.optional().default(null),
+    interval: z.enum(["day", "week", "month", "year"]).optional(), // omit = one-time
+});
+
+// Update a listing's stock.
+export const UpdateListingSchema = z.object({
+    inventory: InventorySchema,
+});
+
+// Inferred types (handy for handlers; keeps "any" out)
+export type ListProductsInput = z.infer<typeof ListProductsSchema>;
+export type CreateProductInput = z.infer<typeof CreateProductSchema>;
+export type UpdateProductInput = z.infer<typeof UpdateProductSchema>;
+export type CreateListingInput = z.infer<typeof CreateListingSchema>;
+export type UpdateListingInput = z.infer<typeof UpdateListingSchema>;
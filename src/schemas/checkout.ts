@@ -1,34 +1,50 @@
-// Zod schema for creating Checkout Sessions (destination charges).
+// Zod schemas for creating Checkout Sessions (destination or direct charges, or separate
+// charges & transfers for multi-seller carts).
 // Notes:
-// - One of userId or stripeAccountId (acct_***) must be provided
+// - Carts name catalog listings; price and seller come from the Listing, never from the client
+// - userId / stripeAccountId are optional on single-seller checkout; when set they must match the listings' seller
+// - Platform fees are computed server-side from FeeRule (never sent by the client)
+// - The buyer is the signed-in user (session cookie), never a body field; memberships require one
+// - Destination vs. direct charges is the seller's setting (set-charge-model), never the buyer's
 // - successUrl/cancelUrl use a custom absolute-URL validator to avoid deprecated .url()
 
 import { z } from "zod";
 import { AbsoluteUrlSchema } from "./common";
 
-export const CreateCheckoutSessionSchema = z
-    .object({
-        // Identify the seller by your user id or by Stripe account id
-        userId: z.string().min(1).optional(),
-        stripeAccountId: z.string().min(1).optional(), // e.g., "acct_123"
+// Per-line fees travel in PaymentIntent metadata (500 chars per value), so keep carts bounded
+export const MAX_CART_LINES = 50;
 
-        // Optional buyer id for your own records
-        buyerId: z.string().min(1).optional(),
+// One cart line
+export const CheckoutLineItemSchema = z.object({
+    listingId: z.string().min(1), // Listing.id
+    quantity: z.number().int().positive().max(99).optional().default(1),
+});
 
-        // What to sell: Stripe Price id
-        priceId: z.string().min(1),
+export const CreateCheckoutSessionSchema = z.object({
+    // Optional guard: the seller the buyer expects to pay (user id or Stripe account id)
+    userId: z.string().min(1).optional(),
+    stripeAccountId: z.string().min(1).optional(), // e.g., "acct_123"
 
-        // Defaults tuned for typical single-item flows
-        quantity: z.number().int().positive().max(99).optional().default(1),
-        feePercent: z.number().min(0).max(100).optional().default(10),
+    // What to sell: cart lines (listings of one seller), all in the same currency
+    items: z.array(CheckoutLineItemSchema).min(1).max(MAX_CART_LINES),
 
-        // Optional explicit redirect URLs; if absent, server will derive from NEXT_PUBLIC_APP_URL
-        successUrl: AbsoluteUrlSchema.optional(),
-        cancelUrl: AbsoluteUrlSchema.optional(),
-    })
-    .refine((d) => d.userId || d.stripeAccountId, {
-        message: "Either userId or stripeAccountId is required",
-    });
+    // Optional explicit redirect URLs; if absent, server will derive from NEXT_PUBLIC_APP_URL
+    successUrl: AbsoluteUrlSchema.optional(),
+    cancelUrl: AbsoluteUrlSchema.optional(),
+});
 
-// Inferred type for handlers
+// Seller ids travel in PaymentIntent metadata too (acct_*** list, 500 chars per value)
+export const MAX_CART_SELLERS = 20;
+
+// Multi-seller cart (separate charges & transfers): each line's seller is its listing's seller.
+export const CreateMultiSellerCheckoutSchema = z.object({
+    items: z.array(CheckoutLineItemSchema).min(1).max(MAX_CART_LINES),
+
+    successUrl: AbsoluteUrlSchema.optional(),
+    cancelUrl: AbsoluteUrlSchema.optional(),
+});
+
+// Inferred types for handlers
+export type CheckoutLineItemInput = z.infer<typeof CheckoutLineItemSchema>;
 export type CreateCheckoutSessionInput = z.infer<typeof CreateCheckoutSessionSchema>;
+export type CreateMultiSellerCheckoutInput = z.infer<typeof CreateMultiSellerCheckoutSchema>;
@@ -1,7 +1,9 @@
 // URL validator without using deprecated Zod .url()
 // - Accepts only absolute http/https URLs.
 // - Keeps types strict without `any`.
+// Also shared query building blocks: cursor pagination and "true"/"false" flags.
 import { z } from "zod";
+import { decodeCursor } from "@/lib/pagination";
 
 export const AbsoluteUrlSchema = z
     .string()
@@ -14,3 +16,19 @@ export const AbsoluteUrlSchema = z
             return false;
         }
     }, { message: "Invalid URL" });
+
+// Absolute https URL (e.g. seller-provided images the storefront loads in buyers' browsers)
+export const HttpsUrlSchema = AbsoluteUrlSchema.refine((s) => new URL(s).protocol === "https:", {
+    message: "URL must use https",
+});
+
+// Opaque pagination cursor (see lib/pagination) + page size
+export const CursorSchema = z
+    .string()
+    .min(1)
+    .max(256)
+    .refine((s) => decodeCursor(s) !== null, { message: "Invalid cursor" });
+export const PageLimitSchema = z.coerce.number().int().min(1).max(100).optional().default(50);
+
+// Query-string booleans ("true" / "false"); anything else is rejected
+export const QueryBooleanSchema = z.enum(["true", "false"]).transform((v) => v === "true");
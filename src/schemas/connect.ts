@@ -2,49 +2,124 @@
 // Notes:
 // - No deprecated .url(): use AbsoluteUrlSchema from ./common
 // - Avoid "any"; prefer inference-friendly exports
+// - userId / stripeAccountId are optional: sellers are bound to their own account by the
+//   session (see resolveSellerAccount); admins must name one of them
 
 import { z } from "zod";
-import { AbsoluteUrlSchema } from "./common";
+import { AbsoluteUrlSchema, CursorSchema, PageLimitSchema, QueryBooleanSchema } from "./common";
 
-// Create an Express connected account for a user.
+// Capabilities a seller can request: card_payments (direct charges) and transfers (everything else)
+export const CapabilitySchema = z.enum(["card_payments", "transfers"]);
+
+export const BusinessTypeSchema = z.enum(["individual", "company", "non_profit", "government_entity"]);
+
+// Create an Express connected account for a user (defaults to the signed-in user).
+// Email and business name are prefilled from User; the rest is optional onboarding prefill.
 export const CreateConnectedAccountSchema = z.object({
-    userId: z.string().min(1),
+    userId: z.string().min(1).optional(),
+    country: z.string().length(2).toUpperCase().optional(), // e.g., "US" (cannot change later)
+    businessType: BusinessTypeSchema.optional(),
+    capabilities: z.array(CapabilitySchema).min(1).optional().default(["card_payments", "transfers"]),
 });
 
-// Create onboarding link (either userId or acct_***).
-export const CreateAccountLinkSchema = z
-    .object({
-        userId: z.string().min(1).optional(),
-        stripeAccountId: z.string().min(1).optional(), // e.g., "acct_123"
-        refreshUrl: AbsoluteUrlSchema,
-        returnUrl: AbsoluteUrlSchema,
-    })
-    .refine((d) => d.userId || d.stripeAccountId, {
-        message: "Either userId or stripeAccountId is required",
-    });
-
-// Read account status (either userId or acct_***).
-export const GetAccountStatusSchema = z
+// Update prefill / request more capabilities (userId or acct_***; defaults to the caller's account).
+export const UpdateConnectedAccountSchema = z
     .object({
         userId: z.string().min(1).optional(),
         stripeAccountId: z.string().min(1).optional(),
+        email: z.email().max(254).optional(),
+        businessType: BusinessTypeSchema.optional(),
+        businessName: z.string().trim().min(1).max(200).optional(),
+        productDescription: z.string().trim().min(1).max(500).optional(),
+        supportEmail: z.email().max(254).optional(),
+        url: AbsoluteUrlSchema.optional(),
+        capabilities: z.array(CapabilitySchema).min(1).optional(),
     })
-    .refine((d) => d.userId || d.stripeAccountId, {
-        message: "Either userId or stripeAccountId is required",
-    });
+    .refine(
+        (d) => Object.entries(d).some(([k, v]) => v !== undefined && k !== "userId" && k !== "stripeAccountId"),
+        { message: "Nothing to update" }
+    );
+
+// Reject a connected account (admin only). Irreversible: Stripe disables the account.
+export const RejectConnectedAccountSchema = z.object({
+    userId: z.string().min(1).optional(),
+    stripeAccountId: z.string().min(1).optional(),
+    reason: z.enum(["fraud", "terms_of_service", "other"]),
+});
+
+// Delete a connected account (admin only). The row is kept (soft delete) for order history.
+export const DeleteConnectedAccountSchema = z.object({
+    userId: z.string().min(1).optional(),
+    stripeAccountId: z.string().min(1).optional(),
+});
+
+// Create onboarding link (userId or acct_***; defaults to the caller's account).
+export const CreateAccountLinkSchema = z.object({
+    userId: z.string().min(1).optional(),
+    stripeAccountId: z.string().min(1).optional(), // e.g., "acct_123"
+    refreshUrl: AbsoluteUrlSchema,
+    returnUrl: AbsoluteUrlSchema,
+});
+
+// Read account status (userId or acct_***; defaults to the caller's account).
+export const GetAccountStatusSchema = z.object({
+    userId: z.string().min(1).optional(),
+    stripeAccountId: z.string().min(1).optional(),
+});
+
+// Create Express Dashboard login link (userId or acct_***; defaults to the caller's account).
+export const CreateLoginLinkSchema = z.object({
+    userId: z.string().min(1).optional(),
+    stripeAccountId: z.string().min(1).optional(),
+});
+
+// Seller payout history + balance (userId or acct_***; defaults to the caller's account).
+export const GetPayoutsSchema = z.object({
+    userId: z.string().min(1).optional(),
+    stripeAccountId: z.string().min(1).optional(),
+    limit: z.coerce.number().int().min(1).max(100).optional().default(20),
+});
+
+// Default charge model for a seller's single-seller checkouts (admin only).
+export const SetChargeModelSchema = z.object({
+    userId: z.string().min(1).optional(),
+    stripeAccountId: z.string().min(1).optional(),
+    chargeModel: z.enum(["destination", "direct"]),
+});
 
-// Create Express Dashboard login link (either userId or acct_***).
-export const CreateLoginLinkSchema = z
+// Admin account list: cursor pagination + filters (all optional, combined with AND).
+export const ListAccountsSchema = z
     .object({
         userId: z.string().min(1).optional(),
         stripeAccountId: z.string().min(1).optional(),
+        email: z.string().trim().min(1).max(254).optional(), // case-insensitive substring of User.email
+        chargesEnabled: QueryBooleanSchema.optional(),
+        payoutsEnabled: QueryBooleanSchema.optional(),
+        detailsSubmitted: QueryBooleanSchema.optional(),
+        country: z.string().length(2).toUpperCase().optional(), // e.g., "US"
+        // true = requirements.currently_due is non-empty; false = nothing due
+        requirementsDue: QueryBooleanSchema.optional(),
+        // A specific outstanding requirement, e.g. "external_account"
+        requirement: z.string().min(1).max(128).optional(),
+        createdFrom: z.coerce.date().optional(),
+        createdTo: z.coerce.date().optional(),
+        sort: z.enum(["createdAt", "updatedAt"]).optional().default("createdAt"),
+        order: z.enum(["asc", "desc"]).optional().default("desc"),
+        cursor: CursorSchema.optional(),
+        limit: PageLimitSchema,
     })
-    .refine((d) => d.userId || d.stripeAccountId, {
-        message: "Either userId or stripeAccountId is required",
+    .refine((d) => !d.createdFrom || !d.createdTo || d.createdFrom < d.createdTo, {
+        message: "createdFrom must be before createdTo",
     });
 
 // Inferred types (handy for handlers; keeps "any" out)
 export type CreateConnectedAccountInput = z.infer<typeof CreateConnectedAccountSchema>;
+export type UpdateConnectedAccountInput = z.infer<typeof UpdateConnectedAccountSchema>;
+export type RejectConnectedAccountInput = z.infer<typeof RejectConnectedAccountSchema>;
+export type DeleteConnectedAccountInput = z.infer<typeof DeleteConnectedAccountSchema>;
 export type CreateAccountLinkInput = z.infer<typeof CreateAccountLinkSchema>;
 export type GetAccountStatusInput = z.infer<typeof GetAccountStatusSchema>;
 export type CreateLoginLinkInput = z.infer<typeof CreateLoginLinkSchema>;
+export type GetPayoutsInput = z.infer<typeof GetPayoutsSchema>;
+export type SetChargeModelInput = z.infer<typeof SetChargeModelSchema>;
+export type ListAccountsInput = z.infer<typeof ListAccountsSchema>;
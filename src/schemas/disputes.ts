@@ -0,0 +1,69 @@
+// Zod schemas for dispute (chargeback) tracking and evidence submission.
+// Notes:
+// - Evidence keys use Stripe's own field names so they pass through unchanged
+// - Files are sent base64-encoded in JSON (no multipart parser needed)
+
+import { z } from "zod";
+
+// List open disputes for a seller (either userId or acct_***).
+export const ListDisputesSchema = z.object({
+    userId: z.string().min(1).optional(),
+    stripeAccountId: z.string().min(1).optional(),
+});
+
+// Stripe evidence fields that take free text
+export const EVIDENCE_TEXT_FIELDS = [
+    "access_activity_log",
+    "billing_address",
+    "cancellation_policy_disclosure",
+    "cancellation_rebuttal",
+    "customer_email_address",
+    "customer_name",
+    "customer_purchase_ip",
+    "duplicate_charge_explanation",
+    "duplicate_charge_id",
+    "product_description",
+    "refund_policy_disclosure",
+    "refund_refusal_explanation",
+    "service_date",
+    "shipping_address",
+    "shipping_carrier",
+    "shipping_date",
+    "shipping_tracking_number",
+    "uncategorized_text",
+] as const;
+
+// Stripe evidence fields that take an uploaded file id
+export const EVIDENCE_FILE_FIELDS = [
+    "cancellation_policy",
+    "customer_communication",
+    "customer_signature",
+    "duplicate_charge_documentation",
+    "receipt",
+    "refund_policy",
+    "service_documentation",
+    "shipping_documentation",
+    "uncategorized_file",
+] as const;
+
+const EvidenceFileSchema = z.object({
+    field: z.enum(EVIDENCE_FILE_FIELDS),
+    filename: z.string().min(1).max(255),
+    contentType: z.enum(["application/pdf", "image/jpeg", "image/png"]),
+    data: z.base64(), // Stripe caps dispute evidence at 5MB per file
+});
+
+// Attach evidence to a dispute; submit=true sends it to the bank (no further edits).
+export const SubmitDisputeEvidenceSchema = z
+    .object({
+        text: z.partialRecord(z.enum(EVIDENCE_TEXT_FIELDS), z.string().min(1).max(20000)).optional(),
+        files: z.array(EvidenceFileSchema).max(EVIDENCE_FILE_FIELDS.length).optional(),
+        submit: z.boolean().optional().default(false),
+    })
+    .refine((d) => (d.text && Object.keys(d.text).length > 0) || (d.files && d.files.length > 0), {
+        message: "Provide at least one text field or file",
+    });
+
+// Inferred types (handy for handlers; keeps "any" out)
+export type ListDisputesInput = z.infer<typeof ListDisputesSchema>;
+export type SubmitDisputeEvidenceInput = z.infer<typeof SubmitDisputeEvidenceSchema>;
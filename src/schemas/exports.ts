@@ -0,0 +1,21 @@
+// Zod schemas for statement / finance exports (orders, refunds, payouts).
+// Notes:
+// - format: csv (default) or ndjson (one JSON object per line, same fields as the CSV columns)
+// - Date ranges are [from, to) on createdAt
+// - Sellers are bound to their own account; admins may filter by any seller or export everything
+
+import { z } from "zod";
+
+export const ExportQuerySchema = z
+    .object({
+        format: z.enum(["csv", "ndjson"]).optional().default("csv"),
+        stripeAccountId: z.string().min(1).optional(), // seller (acct_***)
+        from: z.coerce.date().optional(),
+        to: z.coerce.date().optional(),
+    })
+    .refine((d) => !d.from || !d.to || d.from < d.to, {
+        message: "from must be before to",
+    });
+
+// Inferred types (handy for handlers; keeps "any" out)
+export type ExportQueryInput = z.infer<typeof ExportQuerySchema>;
@@ -0,0 +1,70 @@
+// Zod schemas for platform fee rules (server-side fee policy).
+// Notes:
+// - Percentages are basis points (1000 = 10%) to stay in integers
+// - Amounts are integers in the smallest unit of the rule's currency; a rule with fixed/min/max
+//   amounts or volume tiers must name that currency (100 means $1.00 in USD but ¥100 in JPY)
+
+import { z } from "zod";
+
+// One volume discount tier (stored in FeeRule.tiers)
+export const FeeTierSchema = z.object({
+    minVolume: z.number().int().min(0),
+    percentBps: z.number().int().min(0).max(10000),
+});
+
+export const FeeTiersSchema = z.array(FeeTierSchema).max(20);
+
+const FeeRuleFields = z.object({
+    name: z.string().min(1).max(120),
+
+    // Match criteria (omit = wildcard)
+    stripeAccountId: z.string().min(1).nullable().optional(), // acct_***
+    productId: z.string().min(1).nullable().optional(), // prod_***
+    country: z.string().length(2).toUpperCase().nullable().optional(),
+    currency: z.string().length(3).toUpperCase().nullable().optional(), // e.g., "JPY"
+
+    percentBps: z.number().int().min(0).max(10000).optional().default(0),
+    fixedAmount: z.number().int().min(0).optional().default(0),
+    minAmount: z.number().int().min(0).nullable().optional(),
+    maxAmount: z.number().int().min(0).nullable().optional(),
+    tiers: FeeTiersSchema.nullable().optional(),
+
+    priority: z.number().int().optional().default(0),
+    active: z.boolean().optional().default(true),
+});
+
+// min <= max when both are set
+const capsInOrder = (d: { minAmount?: number | null; maxAmount?: number | null }) =>
+    d.minAmount == null || d.maxAmount == null || d.minAmount <= d.maxAmount;
+
+/** Amount-based parts of a rule are meaningless without a currency */
+export const amountsHaveCurrency = (d: {
+    currency?: string | null;
+    fixedAmount?: number;
+    minAmount?: number | null;
+    maxAmount?: number | null;
+    tiers?: unknown;
+}) =>
+    !!d.currency || (!d.fixedAmount && d.minAmount == null && d.maxAmount == null && d.tiers == null);
+
+const CURRENCY_REQUIRED = "currency is required when fixedAmount, minAmount, maxAmount or tiers are set";
+
+// Create a fee rule.
+export const CreateFeeRuleSchema = FeeRuleFields.refine(capsInOrder, {
+    message: "minAmount must not exceed maxAmount",
+}).refine(amountsHaveCurrency, { message: CURRENCY_REQUIRED, path: ["currency"] });
+
+// Update a fee rule (all fields optional, no defaults applied).
+export const UpdateFeeRuleSchema = FeeRuleFields.partial()
+    .extend({
+        percentBps: z.number().int().min(0).max(10000).optional(),
+        fixedAmount: z.number().int().min(0).optional(),
+        priority: z.number().int().optional(),
+        active: z.boolean().optional(),
+    })
+    .refine(capsInOrder, { message: "minAmount must not exceed maxAmount" });
+
+// Inferred types (handy for handlers; keeps "any" out)
+export type FeeTier = z.infer<typeof FeeTierSchema>;
+export type CreateFeeRuleInput = z.infer<typeof CreateFeeRuleSchema>;
+export type UpdateFeeRuleInput = z.infer<typeof UpdateFeeRuleSchema>;
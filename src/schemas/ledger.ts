@@ -0,0 +1,31 @@
+// Zod schemas for the platform revenue ledger (admin).
+// Notes:
+// - Date ranges are [from, to) on LedgerEntry.occurredAt (when the money moved at Stripe)
+// - Amounts stay per currency; nothing is converted or summed across currencies
+
+import { z } from "zod";
+
+// Trial balance / revenue summary and the accountant export share the same window
+export const LedgerRangeSchema = z
+    .object({
+        from: z.coerce.date().optional(),
+        to: z.coerce.date().optional(),
+    })
+    .refine((d) => !d.from || !d.to || d.from < d.to, {
+        message: "from must be before to",
+    });
+
+// Accountant export: the same window as CSV (default) or NDJSON
+export const LedgerExportSchema = z
+    .object({
+        format: z.enum(["csv", "ndjson"]).optional().default("csv"),
+        from: z.coerce.date().optional(),
+        to: z.coerce.date().optional(),
+    })
+    .refine((d) => !d.from || !d.to || d.from < d.to, {
+        message: "from must be before to",
+    });
+
+// Inferred types (handy for handlers; keeps "any" out)
+export type LedgerRangeInput = z.infer<typeof LedgerRangeSchema>;
+export type LedgerExportInput = z.infer<typeof LedgerExportSchema>;
@@ -0,0 +1,55 @@
+// Zod schemas for platform-side Order operations.
+// Notes:
+// - Amounts are integers in the smallest currency unit (same as Order.amount)
+// - Omit amount to refund whatever is still refundable
+// - Lists are cursor-paginated (pass nextCursor back as cursor); date ranges are [from, to)
+// - Sellers are bound to their own account; admins may filter by any seller
+
+import { z } from "zod";
+import { CursorSchema, PageLimitSchema, QueryBooleanSchema } from "./common";
+
+const PaymentStateSchema = z.enum(["processing", "succeeded", "failed", "refunded_partial", "refunded_full"]);
+
+// List orders (newest first).
+export const ListOrdersSchema = z
+    .object({
+        stripeAccountId: z.string().min(1).optional(), // seller (acct_***)
+        buyerId: z.string().min(1).optional(),
+        status: z.enum(["created", "paid", "refunded"]).optional(),
+        paymentState: PaymentStateSchema.optional(),
+        oversold: QueryBooleanSchema.optional(), // paid for units that were out of stock
+        from: z.coerce.date().optional(),
+        to: z.coerce.date().optional(),
+        cursor: CursorSchema.optional(),
+        limit: PageLimitSchema,
+    })
+    .refine((d) => !d.from || !d.to || d.from < d.to, {
+        message: "from must be before to",
+    });
+
+// Per-seller sales summary bucketed by day / week (ISO, Monday) / month (UTC).
+export const OrderSummarySchema = z
+    .object({
+        stripeAccountId: z.string().min(1).optional(), // admins: omit for every seller
+        interval: z.enum(["day", "week", "month"]).optional().default("day"),
+        from: z.coerce.date().optional(),
+        to: z.coerce.date().optional(),
+    })
+    .refine((d) => !d.from || !d.to || d.from < d.to, {
+        message: "from must be before to",
+    });
+
+// Refund an order (full or partial) from the platform.
+export const CreateRefundSchema = z.object({
+    amount: z.number().int().positive().optional(),
+    reason: z.enum(["duplicate", "fraudulent", "requested_by_customer"]).optional(),
+
+    // Destination charges: pull the seller's share back and return the platform fee
+    reverseTransfer: z.boolean().optional().default(true),
+    refundApplicationFee: z.boolean().optional().default(true),
+});
+
+// Inferred types (handy for handlers; keeps "any" out)
+export type CreateRefundInput = z.infer<typeof CreateRefundSchema>;
+export type ListOrdersInput = z.infer<typeof ListOrdersSchema>;
+export type OrderSummaryInput = z.infer<typeof OrderSummarySchema>;
@@ -0,0 +1,53 @@
+// Zod schemas for the outbound webhook admin API (endpoints, deliveries, redelivery).
+// Notes:
+// - enabledEvents: [] (or omitted) subscribes an endpoint to every event type
+// - Endpoint URLs must be absolute http(s) URLs (see AbsoluteUrlSchema)
+
+import { z } from "zod";
+import { AbsoluteUrlSchema, CursorSchema, PageLimitSchema } from "./common";
+
+// Domain events emitted after Stripe events are applied (see @/lib/outbound)
+export const OutboundEventTypeSchema = z.enum(["order.paid", "order.refunded", "seller.onboarded", "seller.restricted"]);
+
+// Register a subscriber endpoint (the signing secret is generated and returned once).
+export const CreateOutboundEndpointSchema = z.object({
+    url: AbsoluteUrlSchema,
+    description: z.string().trim().min(1).max(255).optional(),
+    enabledEvents: z.array(OutboundEventTypeSchema).optional().default([]),
+});
+
+// Partial update; rotateSecret issues a new signing secret (returned in the response).
+export const UpdateOutboundEndpointSchema = z.object({
+    url: AbsoluteUrlSchema.optional(),
+    description: z.string().trim().min(1).max(255).nullable().optional(),
+    enabledEvents: z.array(OutboundEventTypeSchema).optional(),
+    active: z.boolean().optional(),
+    rotateSecret: z.boolean().optional(),
+});
+
+// Delivery log (defaults to everything not yet delivered), newest first.
+export const ListOutboundDeliveriesSchema = z.object({
+    // pending = waiting for (re)try; parked = gave up after max attempts
+    state: z.enum(["pending", "parked", "delivered", "all"]).optional().default("pending"),
+    endpointId: z.string().min(1).optional(),
+    type: OutboundEventTypeSchema.optional(),
+    cursor: CursorSchema.optional(),
+    limit: PageLimitSchema,
+});
+
+// Redeliver specific deliveries or run the due outbox.
+export const DeliverOutboundSchema = z
+    .object({
+        deliveryIds: z.array(z.string().min(1)).min(1).max(100).optional(),
+        due: z.boolean().optional(),
+    })
+    .refine((d) => d.deliveryIds || d.due, {
+        message: "Either deliveryIds or due is required",
+    });
+
+// Inferred types (handy for handlers; keeps "any" out)
+export type OutboundEventType = z.infer<typeof OutboundEventTypeSchema>;
+export type CreateOutboundEndpointInput = z.infer<typeof CreateOutboundEndpointSchema>;
+export type UpdateOutboundEndpointInput = z.infer<typeof UpdateOutboundEndpointSchema>;
+export type ListOutboundDeliveriesInput = z.infer<typeof ListOutboundDeliveriesSchema>;
+export type DeliverOutboundInput = z.infer<typeof DeliverOutboundSchema>;
@@ -0,0 +1,26 @@
+// Zod schemas for the reconciliation job (local ledger vs Stripe balance transactions).
+// Notes:
+// - The window is [from, to) on Stripe's `created`; defaults to the previous UTC day
+// - backfill re-syncs missing orders / refunds from Stripe; mismatches are only reported
+
+import { z } from "zod";
+
+// Longest window one run may scan (each day is a full balance-transaction page walk)
+const MAX_WINDOW_DAYS = 31;
+
+export const RunReconciliationSchema = z
+    .object({
+        from: z.coerce.date().optional(),
+        to: z.coerce.date().optional(),
+        backfill: z.boolean().optional().default(false),
+    })
+    .refine((d) => !d.from || !d.to || d.from < d.to, {
+        message: "from must be before to",
+    })
+    .refine(
+        (d) => !d.from || !d.to || d.to.getTime() - d.from.getTime() <= MAX_WINDOW_DAYS * 24 * 60 * 60 * 1000,
+        { message: `Window must be at most ${MAX_WINDOW_DAYS} days` }
+    );
+
+// Inferred types (handy for handlers; keeps "any" out)
+export type RunReconciliationInput = z.infer<typeof RunReconciliationSchema>;
@@ -0,0 +1,16 @@
+// Zod schemas for buyer memberships (Stripe Subscriptions on the platform account).
+// Notes:
+// - Buyers only reach their own subscriptions; admins may open any of them
+// - subscriptionId accepts Subscription.id or sub_***; omitted = the buyer's latest subscription
+
+import { z } from "zod";
+import { AbsoluteUrlSchema } from "./common";
+
+// Open a Customer Portal session (cancel, update payment method, invoices).
+export const CreatePortalSessionSchema = z.object({
+    subscriptionId: z.string().min(1).optional(),
+    returnUrl: AbsoluteUrlSchema.optional(),
+});
+
+// Inferred types (handy for handlers; keeps "any" out)
+export type CreatePortalSessionInput = z.infer<typeof CreatePortalSessionSchema>;
@@ -0,0 +1,12 @@
+// Zod schemas for seller transfers (separate charges & transfers).
+
+import { z } from "zod";
+
+// List transfers, optionally by status and seller.
+export const ListTransfersSchema = z.object({
+    status: z.enum(["pending", "paid", "failed"]).optional(),
+    stripeAccountId: z.string().min(1).optional(),
+});
+
+// Inferred types (handy for handlers; keeps "any" out)
+export type ListTransfersInput = z.infer<typeof ListTransfersSchema>;
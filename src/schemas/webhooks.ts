@@ -0,0 +1,27 @@
+// Zod schemas for the webhook event admin API (retry queue / replay).
+
+import { z } from "zod";
+import { CursorSchema, PageLimitSchema } from "./common";
+
+// List stored events (defaults to everything not yet processed), newest first.
+export const ListWebhookEventsSchema = z.object({
+    // unprocessed = failed or pending; parked = gave up after max attempts
+    state: z.enum(["unprocessed", "parked", "processed", "all"]).optional().default("unprocessed"),
+    type: z.string().min(1).max(64).optional(),
+    cursor: CursorSchema.optional(),
+    limit: PageLimitSchema,
+});
+
+// Replay specific events (local id or evt_***) or run the due retry queue.
+export const ReplayWebhookEventsSchema = z
+    .object({
+        eventIds: z.array(z.string().min(1)).min(1).max(100).optional(),
+        due: z.boolean().optional(),
+    })
+    .refine((d) => d.eventIds || d.due, {
+        message: "Either eventIds or due is required",
+    });
+
+// Inferred types (handy for handlers; keeps "any" out)
+export type ListWebhookEventsInput = z.infer<typeof ListWebhookEventsSchema>;
+export type ReplayWebhookEventsInput = z.infer<typeof ReplayWebhookEventsSchema>;
@@ -0,0 +1,72 @@
+// Buyer cart (zustand, persisted to localStorage so it survives the Stripe redirect).
+// Lines remember their seller so checkout can pick destination vs. multi-seller mode.
+import { create } from "zustand";
+import { createJSONStorage, persist } from "zustand/middleware";
+
+// Mirrors the API limits (MAX_CART_LINES, CheckoutLineItemSchema.quantity)
+export const MAX_LINES = 50;
+export const MAX_QUANTITY = 99;
+
+export type CartLine = {
+    listingId: string;
+    stripeAccountId: string;
+    name: string;
+    unitAmount: number;
+    currency: string;
+    quantity: number;
+};
+
+type CartState = {
+    lines: CartLine[];
+    add: (line: Omit<CartLine, "quantity">, quantity?: number) => void;
+    setQuantity: (listingId: string, quantity: number) => void;
+    remove: (listingId: string) => void;
+    clear: () => void;
+};
+
+export const useCart = create<CartState>()(
+    persist(
+        (set) => ({
+            lines: [],
+            add: (line, quantity = 1) =>
+                set((s) => {
+                    const existing = s.lines.find((l) => l.listingId === line.listingId);
+                    if (existing) {
+                        return {
+                            lines: s.lines.map((l) =>
+                                l.listingId === line.listingId
+                                    ? { ...l, quantity: Math.min(l.quantity + quantity, MAX_QUANTITY) }
+                                    : l
+                            ),
+                        };
+                    }
+                    if (s.lines.length >= MAX_LINES) return s;
+                    // The API only accepts one currency per cart; start over on a switch
+                    const sameCurrency = s.lines.every((l) => l.currency === line.currency);
+                    return { lines: [...(sameCurrency ? s.lines : []), { ...line, quantity }] };
+                }),
+            setQuantity: (listingId, quantity) =>
+                set((s) => ({
+                    lines:
+                        quantity <= 0
+                            ? s.lines.filter((l) => l.listingId !== listingId)
+                            : s.lines.map((l) =>
+                                l.listingId === listingId ? { ...l, quantity: Math.min(quantity, MAX_QUANTITY) } : l
+                            ),
+                })),
+            remove: (listingId) => set((s) => ({ lines: s.lines.filter((l) => l.listingId !== listingId) })),
+            clear: () => set({ lines: [] }),
+        }),
+        {
+            name: "cart",
+            storage: createJSONStorage(() => localStorage),
+            version: 2,
+            // v1 lines were keyed by Stripe Price id; checkout now takes listing ids
+            migrate: () => ({ lines: [] }),
+        }
+    )
+);
+
+/** Cart total in the smallest currency unit */
+export const cartTotal = (lines: CartLine[]) => lines.reduce((sum, l) => sum + l.unitAmount * l.quantity, 0);
+
@@ -0,0 +1,162 @@
+// Minimal stand-in for the Next.js API router: serves the handlers in src/pages/api over a real
+// HTTP server, with the parts of NextApiRequest / NextApiResponse the routes use (query incl.
+// dynamic segments, cookies, JSON body unless `config.api.bodyParser` is false, status/json/
+// send/redirect). Handlers are imported on first request, so set globals (the Prisma client,
+// the Stripe client) before calling them.
+//
+//   const api = await startApiServer();
+//   await fetch(`${api.url}/api/orders?status=paid`, { headers: { cookie: "sid=..." } });
+//   await fake.deliver(`${api.url}/api/webhooks/stripe`, event);
+//   await api.close();
+import { createServer, type IncomingMessage, type ServerResponse } from "node:http";
+import type { AddressInfo } from "node:net";
+import { existsSync } from "node:fs";
+import path from "node:path";
+import type { NextApiHandler, NextApiRequest, NextApiResponse, PageConfig } from "next";
+
+const API_DIR = path.join(process.cwd(), "src", "pages", "api");
+
+type RouteModule = { default: NextApiHandler; config?: PageConfig };
+
+export type ApiServerOptions = {
+    /** Fixed port; a free one is picked by default */
+    port?: number;
+};
+
+export type ApiServer = {
+    /** Base URL, e.g. "http://127.0.0.1:54321" (routes live under /api) */
+    url: string;
+    close: () => Promise<void>;
+};
+
+/**
+ * Resolve "/api/orders/abc/refund" to src/pages/api/orders/[id]/refund.ts with { id: "abc" }.
+ * Static names win over dynamic ones, like the Next.js router.
+ */
+export function resolveRoute(pathname: string): { file: string; params: Record<string, string> } | null {
+    const segments = pathname.replace(/^\/api\/?/, "").split("/").filter(Boolean).map(decodeURIComponent);
+    const params: Record<string, string> = {};
+    let dir = API_DIR;
+
+    for (const [i, segment] of segments.entries()) {
+        const last = i === segments.length - 1;
+        if (last && existsSync(path.join(dir, `${segment}.ts`))) {
+            return { file: path.join(dir, `${segment}.ts`), params };
+        }
+        if (existsSync(path.join(dir, segment))) {
+            dir = path.join(dir, segment);
+            continue;
+        }
+        // [param].ts for the last segment, [param]/ directory otherwise
+        const dynamic = findDynamic(dir, last);
+        if (!dynamic) return null;
+        params[dynamic.name] = segment;
+        if (dynamic.file) return { file: dynamic.file, params };
+        dir = dynamic.dir;
+    }
+    const index = path.join(dir, "index.ts");
+    return existsSync(index) ? { file: index, params } : null;
+}
+
+// Only the [id] convention is used under src/pages/api
+function findDynamic(dir: string, last: boolean): { name: string; file?: string; dir: string } | null {
+    const name = "id";
+    const file = path.join(dir, `[${name}].ts`);
+    if (last && existsSync(file)) return { name, file, dir };
+    const sub = path.join(dir, `[${name}]`);
+    return existsSync(sub) ? { name, dir: sub } : null;
+}
+
+function parseCookies(header: string | undefined): Record<string, string> {
+    const cookies: Record<string, string> = {};
+    for (const part of (header ?? "").split(";")) {
+        const eq = part.indexOf("=");
+        if (eq > 0) cookies[part.slice(0, eq).trim()] = decodeURIComponent(part.slice(eq + 1).trim());
+    }
+    return cookies;
+}
+
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) chunks.push(typeof chunk === "string" ? Buffer.from(chunk) : chunk);
+    const raw = Buffer.concat(chunks).toString("utf8");
+    if (!raw) return undefined;
+    // Next.js parses JSON bodies and leaves anything else as a string
+    return (req.headers["content-type"] ?? "").includes("application/json") ? JSON.parse(raw) : raw;
+}
+
+// The NextApiResponse helpers on top of a plain ServerResponse
+function decorateResponse(res: ServerResponse): NextApiResponse {
+    const next = res as NextApiResponse;
+    next.status = (code: number) => {
+        res.statusCode = code;
+        return next;
+    };
+    next.json = (body: unknown) => {
+        if (!res.hasHeader("Content-Type")) res.setHeader("Content-Type", "application/json; charset=utf-8");
+        res.end(JSON.stringify(body));
+    };
+    next.send = (body: unknown) => {
+        if (typeof body === "object" && body !== null && !Buffer.isBuffer(body)) return next.json(body);
+        res.end(body as string | Buffer | undefined);
+    };
+    next.redirect = ((statusOrUrl: number | string, url?: string) => {
+        res.statusCode = typeof statusOrUrl === "number" ? statusOrUrl : 307;
+        res.setHeader("Location", typeof statusOrUrl === "string" ? statusOrUrl : (url ?? "/"));
+        res.end();
+        return next;
+    }) as NextApiResponse["redirect"];
+    return next;
+}
+
+/** Start the server on 127.0.0.1; close() it when done */
+export async function startApiServer(opts: ApiServerOptions = {}): Promise<ApiServer> {
+    const modules = new Map<string, Promise<RouteModule>>();
+    const load = (file: string) => {
+        if (!modules.has(file)) modules.set(file, import(file) as Promise<RouteModule>);
+        return modules.get(file)!;
+    };
+
+    const server = createServer(async (req, res) => {
+        const url = new URL(req.url ?? "/", "http://localhost");
+        const route = resolveRoute(url.pathname);
+        const nextRes = decorateResponse(res);
+        if (!route) return nextRes.status(404).json({ error: "Not Found" });
+
+        try {
+            const mod = await load(route.file);
+            const query: Record<string, string | string[]> = {};
+            for (const key of new Set(url.searchParams.keys())) {
+                const values = url.searchParams.getAll(key);
+                query[key] = values.length === 1 ? values[0] : values;
+            }
+            const nextReq = req as NextApiRequest;
+            nextReq.query = { ...query, ...route.params };
+            nextReq.cookies = parseCookies(req.headers.cookie);
+            if (mod.config?.api?.bodyParser !== false) nextReq.body = await readJsonBody(req);
+
+            await mod.default(nextReq, nextRes);
+        } catch (e) {
+            // Next.js answers unhandled errors with a bare 500
+            if (!res.headersSent) {
+                const message = e instanceof Error ? e.message : "Unknown error";
+                nextRes.status(500).json({ error: "Internal Server Error", message });
+            } else {
+                res.destroy();
+            }
+        }
+    });
+
+    await new Promise<void>((resolve) => server.listen(opts.port ?? 0, "127.0.0.1", resolve));
+    const url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+    return {
+        url,
+        close: () =>
+            new Promise<void>((resolve, reject) => {
+                server.close((e) => (e ? reject(e) : resolve()));
+                // Keep-alive sockets from fetch would hold close() open
+                server.closeAllConnections();
+            }),
+    };
+}
@@ -0,0 +1,1371 @@
+// In-process fake of the Stripe REST API for running routes and webhooks offline.
+// Covers what this app calls: accounts, account links, products/prices, Checkout Sessions,
+// PaymentIntents, charges, refunds, transfers (+ reversals), application fees, subscriptions
+// with their invoices, Customer Portal sessions, disputes, payouts and the balance transactions
+// they book (transfers show up on the destination as py_*** payments, like in Stripe).
+// Requests with a Stripe-Account header (direct charges) create and see that account's objects only.
+// Objects are kept in memory; state changes that Stripe would announce are queued as
+// events that can be signed with a test secret and replayed into /api/webhooks/stripe.
+//
+//   const fake = await startFakeStripe({ webhookSecret: "whsec_test" });
+//   setStripeClient(fake.client);
+//   ...call handlers...
+//   for (const event of fake.takeEvents()) await fake.deliver(`${appUrl}/api/webhooks/stripe`, event);
+//   await fake.close();
+import { createServer, type IncomingMessage, type ServerResponse } from "node:http";
+import type { AddressInfo } from "node:net";
+import { randomBytes } from "node:crypto";
+import Stripe from "stripe";
+import { createStripeClient, STRIPE_API_VERSION } from "../lib/stripe";
+import { bool, decodeForm, list, metadata, num, obj, str, type Form } from "./form";
+
+type Obj = {
+    id: string;
+    object: string;
+    created: number;
+    metadata?: Record<string, string>;
+    [key: string]: unknown;
+};
+
+type Route = {
+    method: string;
+    pattern: RegExp;
+    handle: (params: string[], form: Form) => unknown;
+};
+
+export type FakeStripeOptions = {
+    /** Secret used by signEvent / deliver (match STRIPE_WEBHOOK_SECRET) */
+    webhookSecret?: string;
+    /** Fixed port; a free one is picked by default */
+    port?: number;
+};
+
+export type FakeStripe = {
+    /** Base URL of the fake, e.g. "http://127.0.0.1:54321" (STRIPE_API_BASE) */
+    url: string;
+    /** Stripe client pointed at the fake (pass to setStripeClient) */
+    client: Stripe;
+    /** Look up any stored object by id */
+    get: (id: string) => Obj | undefined;
+    /** Events emitted so far (oldest first), without removing them */
+    events: Stripe.Event[];
+    /** Return and clear the queued events */
+    takeEvents: () => Stripe.Event[];
+    /** Make a connected account fully enabled (charges, payouts, transfers) in `currency` */
+    activateAccount: (accountId: string, opts?: { currency?: string; country?: string }) => Obj;
+    /**
+     * Pay an open Checkout Session: PaymentIntent succeeds, a charge (and destination transfer) is created.
+     * Subscription sessions also create the customer, subscription and its first paid invoice.
+     */
+    completeCheckout: (sessionId: string, opts?: { email?: string }) => { session: Obj; paymentIntent: Obj; charge: Obj };
+    /** Start the next billing period of a subscription and pay its invoice */
+    renewSubscription: (subscriptionId: string) => { invoice: Obj; paymentIntent: Obj; charge: Obj };
+    /** Open a chargeback on a charge (needs_response, funds withdrawn) */
+    openDispute: (chargeId: string, opts?: { reason?: string; amount?: number }) => Obj;
+    /** Decide a dispute (funds come back when it is won) */
+    closeDispute: (disputeId: string, status: "won" | "lost") => Obj;
+    /** Pay out a connected account's balance so far in one automatic payout that has arrived */
+    payOut: (accountId: string) => Obj;
+    /** Payload + Stripe-Signature header for an event */
+    signEvent: (event: Stripe.Event) => { payload: string; signature: string };
+    /** POST a signed event to a webhook endpoint */
+    deliver: (url: string, event: Stripe.Event) => Promise<Response>;
+    close: () => Promise<void>;
+};
+
+// Stripe-shaped API error ({ error: { type, message, code, param } })
+class FakeStripeError extends Error {
+    constructor(
+        readonly status: number,
+        message: string,
+        readonly code?: string,
+        readonly param?: string
+    ) {
+        super(message);
+    }
+}
+
+const newId = (prefix: string) => `${prefix}_${randomBytes(10).toString("hex")}`;
+const now = () => Math.floor(Date.now() / 1000);
+
+/** Start the fake on 127.0.0.1; close() it when done */
+export async function startFakeStripe(opts: FakeStripeOptions = {}): Promise<FakeStripe> {
+    const webhookSecret = opts.webhookSecret ?? "whsec_test_fake";
+    const objects = new Map<string, Obj>(); // every object by id, insertion order = creation order
+    const idempotent = new Map<string, unknown>();
+    const subscriptionData = new Map<string, Form>(); // Checkout Session id -> subscription_data
+    const owners = new Map<string, string>(); // object id -> connected account it lives on (Stripe-Account)
+    const paidOut = new Map<string, string>(); // balance transaction id -> payout that settled it
+    let requestAccount: string | null = null; // Stripe-Account of the request being handled
+    const events: Stripe.Event[] = [];
+
+    // ---------- storage helpers ----------
+
+    function save<T extends Obj>(o: T): T {
+        objects.set(o.id, o);
+        if (requestAccount) owners.set(o.id, requestAccount);
+        return o;
+    }
+
+    // Objects are only visible on the account they were created on
+    const visible = (o: Obj) => (owners.get(o.id) ?? null) === requestAccount;
+
+    // Run `fn` as a request on `account` (null = the platform)
+    function asAccount<T>(account: string | null, fn: () => T): T {
+        const previous = requestAccount;
+        requestAccount = account;
+        try {
+            return fn();
+        } finally {
+            requestAccount = previous;
+        }
+    }
+
+    function find(id: string, object: string): Obj {
+        const o = objects.get(id);
+        if (!o || o.object !== object || !visible(o)) {
+            throw new FakeStripeError(404, `No such ${object}: '${id}'`, "resource_missing", "id");
+        }
+        return o;
+    }
+
+    // Newest first with starting_after / limit / created[gte|lt], like Stripe list endpoints
+    function listOf(object: string, form: Form, match: (o: Obj) => boolean = () => true, url = "") {
+        const created = obj(form.created);
+        const inWindow = (o: Obj) =>
+            (num(created.gte) === undefined || o.created >= num(created.gte)!) &&
+            (num(created.lt) === undefined || o.created < num(created.lt)!);
+        const all = [...objects.values()]
+            .filter((o) => o.object === object && visible(o) && inWindow(o) && match(o))
+            .reverse();
+        const after = str(form.starting_after);
+        const start = after ? all.findIndex((o) => o.id === after) + 1 : 0;
+        const limit = num(form.limit) ?? 10;
+        const data = all.slice(start, start + limit);
+        return { object: "list", data, has_more: start + limit < all.length, url };
+    }
+
+    // expand[]=product / expand[]=data.product / expand[]=data.price.product: replace id strings with the stored object
+    function expand<T>(value: T, form: Form): T {
+        const paths = list(form.expand).filter((p): p is string => typeof p === "string");
+        if (paths.length === 0) return value;
+        const copy = structuredClone(value) as Record<string, unknown>;
+        for (const path of paths) {
+            const [head, ...rest] = path.split(".");
+            const targets =
+                head === "data" && Array.isArray(copy.data) ? (copy.data as Record<string, unknown>[]) : [copy];
+            const fields = head === "data" && Array.isArray(copy.data) ? rest : [head, ...rest];
+            for (const t of targets) {
+                // Walk down to the object holding the last field
+                let node: Record<string, unknown> | undefined = t;
+                for (const field of fields.slice(0, -1)) {
+                    const next: unknown = node?.[field];
+                    node = next && typeof next === "object" ? (next as Record<string, unknown>) : undefined;
+                }
+                const field = fields[fields.length - 1];
+                const ref = node?.[field];
+                if (node && typeof ref === "string" && objects.has(ref)) {
+                    node[field] = structuredClone(objects.get(ref));
+                }
+            }
+        }
+        return copy as T;
+    }
+
+    function emit(type: string, o: Obj, extra: { account?: string; previous?: Record<string, unknown> } = {}) {
+        const event = {
+            id: newId("evt"),
+            object: "event",
+            api_version: STRIPE_API_VERSION,
+            created: now(),
+            type,
+            livemode: false,
+            pending_webhooks: 1,
+            request: { id: null, idempotency_key: null },
+            data: {
+                object: structuredClone(o),
+                ...(extra.previous ? { previous_attributes: extra.previous } : {}),
+            },
+            ...(extra.account ?? owners.get(o.id) ? { account: extra.account ?? owners.get(o.id) } : {}),
+        };
+        events.push(event as unknown as Stripe.Event);
+    }
+
+    // Balance entry on the requesting account for a charge or payment (+), application fee (+),
+    // refund (-), fee refund (-), transfer (-) or payout (-).
+    // Charges pay a flat 2.9% processing fee (no fixed part, so it works in every currency).
+    function book(type: string, amount: number, currency: string, source: string): string {
+        const fee = type === "charge" ? Math.round(amount * 0.029) : 0;
+        return save({
+            id: newId("txn"),
+            object: "balance_transaction",
+            created: now(),
+            type,
+            amount,
+            fee,
+            net: amount - fee,
+            currency,
+            status: "available",
+            source,
+        }).id;
+    }
+
+    // ---------- accounts ----------
+
+    function createAccount(form: Form): Obj {
+        const currency = str(form.default_currency) ?? "usd";
+        return save({
+            id: newId("acct"),
+            object: "account",
+            created: now(),
+            type: str(form.type) ?? "express",
+            email: str(form.email) ?? null,
+            country: str(form.country) ?? "US",
+            business_type: str(form.business_type) ?? null,
+            business_profile: {
+                name: null,
+                product_description: null,
+                support_email: null,
+                url: null,
+                ...obj(form.business_profile),
+            },
+            default_currency: currency,
+            charges_enabled: false,
+            payouts_enabled: false,
+            details_submitted: false,
+            capabilities: { card_payments: "inactive", transfers: "inactive" },
+            requirements: {
+                currently_due: ["business_type", "external_account", "tos_acceptance.date", "tos_acceptance.ip"],
+                eventually_due: [],
+                past_due: [],
+                pending_verification: [],
+                disabled_reason: "requirements.past_due",
+                current_deadline: null,
+                errors: [],
+            },
+            external_accounts: { object: "list", data: [], has_more: false, url: "" },
+            metadata: metadata(form.metadata),
+        });
+    }
+
+    function activateAccount(accountId: string, o: { currency?: string; country?: string } = {}): Obj {
+        const account = find(accountId, "account");
+        const currency = (o.currency ?? String(account.default_currency)).toLowerCase();
+        Object.assign(account, {
+            country: o.country ?? account.country,
+            default_currency: currency,
+            charges_enabled: true,
+            payouts_enabled: true,
+            details_submitted: true,
+            capabilities: { card_payments: "active", transfers: "active" },
+            requirements: {
+                currently_due: [],
+                eventually_due: [],
+                past_due: [],
+                pending_verification: [],
+                disabled_reason: null,
+                current_deadline: null,
+                errors: [],
+            },
+            external_accounts: {
+                object: "list",
+                data: [{ id: newId("ba"), object: "bank_account", account: accountId, currency, last4: "6789" }],
+                has_more: false,
+                url: `/v1/accounts/${accountId}/external_accounts`,
+            },
+        });
+        emit("account.updated", account, { account: accountId });
+        return account;
+    }
+
+    // ---------- catalog ----------
+
+    function createProduct(form: Form): Obj {
+        return save({
+            id: newId("prod"),
+            object: "product",
+            created: now(),
+            name: str(form.name) ?? "Product",
+            description: str(form.description) ?? null,
+            images: images(form.images),
+            active: bool(form.active) ?? true,
+            metadata: metadata(form.metadata),
+        });
+    }
+
+    // images[]=url; an empty value ("images=") clears the list
+    function images(v: Form[string] | undefined): string[] {
+        return list(v).filter((u): u is string => typeof u === "string" && u !== "");
+    }
+
+    function createPrice(form: Form): Obj {
+        const product = str(form.product) ?? createProduct(obj(form.product_data)).id;
+        find(product, "product");
+        const currency = str(form.currency);
+        const unitAmount = num(form.unit_amount);
+        if (!currency || unitAmount === undefined) {
+            throw new FakeStripeError(400, "Missing required param: currency / unit_amount", "parameter_missing");
+        }
+        const recurring = obj(form.recurring);
+        return save({
+            id: newId("price"),
+            object: "price",
+            created: now(),
+            active: bool(form.active) ?? true,
+            currency: currency.toLowerCase(),
+            unit_amount: unitAmount,
+            type: recurring.interval ? "recurring" : "one_time",
+            recurring: recurring.interval ? { interval: str(recurring.interval), interval_count: 1 } : null,
+            nickname: str(form.nickname) ?? null,
+            product,
+            metadata: metadata(form.metadata),
+        });
+    }
+
+    // ---------- Checkout / payments ----------
+
+    function createPaymentIntent(amount: number, currency: string, pid: Form): Obj {
+        const transferData = obj(pid.transfer_data);
+        return save({
+            id: newId("pi"),
+            object: "payment_intent",
+            created: now(),
+            amount,
+            currency,
+            status: "requires_payment_method",
+            application_fee_amount: num(pid.application_fee_amount) ?? null,
+            transfer_data: str(transferData.destination) ? { destination: str(transferData.destination) } : null,
+            on_behalf_of: str(pid.on_behalf_of) ?? null,
+            transfer_group: str(pid.transfer_group) ?? null,
+            latest_charge: null,
+            metadata: metadata(pid.metadata),
+        });
+    }
+
+    function createCheckoutSession(form: Form): Obj {
+        const lines = list(form.line_items).map((raw) => {
+            const line = obj(raw);
+            // price_data creates a one-off Price (and product_data a Product) on the fly
+            const price = line.price_data ? createPrice(obj(line.price_data)) : find(str(line.price) ?? "", "price");
+            if (!price.active) {
+                throw new FakeStripeError(400, `The price specified is inactive: '${price.id}'`, "price_inactive", "line_items");
+            }
+            return { price, quantity: num(line.quantity) ?? 1 };
+        });
+        if (lines.length === 0) {
+            throw new FakeStripeError(400, "Missing required param: line_items", "parameter_missing", "line_items");
+        }
+        const currency = String(lines[0].price.currency);
+        if (lines.some((l) => l.price.currency !== currency)) {
+            throw new FakeStripeError(400, "All line items must use the same currency", undefined, "line_items");
+        }
+        const amount = lines.reduce((sum, l) => sum + Number(l.price.unit_amount) * l.quantity, 0);
+        const mode = str(form.mode) ?? "payment";
+        if ((mode === "subscription") !== lines.some((l) => l.price.type === "recurring")) {
+            throw new FakeStripeError(
+                400,
+                mode === "subscription"
+                    ? "You must provide at least one recurring price in `subscription` mode"
+                    : "You must use `subscription` mode for recurring prices",
+                undefined,
+                "line_items"
+            );
+        }
+
+        // Subscription mode: the first invoice creates its PaymentIntent when the session is paid
+        const paymentIntent = mode === "payment" ? createPaymentIntent(amount, currency, obj(form.payment_intent_data)) : null;
+
+        const sessionId = newId("cs_test");
+        const session = save({
+            id: sessionId,
+            object: "checkout.session",
+            created: now(),
+            mode,
+            status: "open",
+            payment_status: "unpaid",
+            amount_subtotal: amount,
+            amount_total: amount,
+            currency,
+            payment_intent: paymentIntent?.id ?? null,
+            subscription: null as string | null,
+            invoice: null as string | null,
+            customer: null as string | null,
+            client_reference_id: str(form.client_reference_id) ?? null,
+            customer_email: str(form.customer_email) ?? null,
+            customer_details: null,
+            success_url: str(form.success_url) ?? null,
+            cancel_url: str(form.cancel_url) ?? null,
+            url: `https://checkout.stripe.com/c/pay/${sessionId}`,
+            metadata: metadata(form.metadata),
+        });
+        if (mode === "subscription") subscriptionData.set(session.id, obj(form.subscription_data));
+
+        lines.forEach((l, i) =>
+            save({
+                id: `li_${session.id}_${i}`,
+                object: "item",
+                created: now(),
+                session: session.id,
+                description: String(objects.get(String(l.price.product))?.name ?? ""),
+                quantity: l.quantity,
+                currency,
+                amount_subtotal: Number(l.price.unit_amount) * l.quantity,
+                amount_total: Number(l.price.unit_amount) * l.quantity,
+                price: structuredClone(l.price),
+            })
+        );
+        return session;
+    }
+
+    // Charge a PaymentIntent; destination charges also transfer the full amount to the seller,
+    // and the platform then collects its application fee from the seller (as Stripe does)
+    function payPaymentIntent(paymentIntent: Obj, email: string | null): Obj {
+        const amount = Number(paymentIntent.amount);
+        const currency = String(paymentIntent.currency);
+        const feeAmount = paymentIntent.application_fee_amount as number | null;
+        const destination = (paymentIntent.transfer_data as { destination: string } | null)?.destination ?? null;
+
+        const charge = save({
+            id: newId("ch"),
+            object: "charge",
+            created: now(),
+            amount,
+            amount_captured: amount,
+            amount_refunded: 0,
+            currency,
+            paid: true,
+            captured: true,
+            refunded: false,
+            status: "succeeded",
+            payment_intent: paymentIntent.id,
+            transfer_group: paymentIntent.transfer_group ?? null,
+            transfer: null as string | null,
+            application_fee: null as string | null,
+            application_fee_amount: feeAmount,
+            balance_transaction: null as string | null,
+            billing_details: { email },
+            metadata: { ...paymentIntent.metadata },
+        });
+
+        charge.balance_transaction = book("charge", amount, currency, charge.id);
+
+        if (destination) {
+            const transfer = createTransfer({
+                amount,
+                currency,
+                destination,
+                source_transaction: charge.id,
+                transfer_group: paymentIntent.transfer_group as string | undefined,
+            });
+            charge.transfer = transfer.id;
+        }
+
+        // The fee is collected by the platform from the seller: destination charges (after the
+        // transfer) or direct charges (made on the seller's account, requestAccount)
+        const feeAccount = destination ?? requestAccount;
+        if (feeAmount && feeAccount) {
+            const fee = asAccount(null, () => {
+                const created = save({
+                    id: newId("fee"),
+                    object: "application_fee",
+                    created: now(),
+                    amount: feeAmount,
+                    amount_refunded: 0,
+                    currency,
+                    account: feeAccount,
+                    charge: charge.id,
+                    originating_transaction: charge.id,
+                    balance_transaction: null as string | null,
+                    refunded: false,
+                    refunds: { object: "list", data: [], has_more: false, url: "" },
+                });
+                created.balance_transaction = book("application_fee", feeAmount, currency, created.id);
+                emit("application_fee.created", created);
+                return created;
+            });
+            charge.application_fee = fee.id;
+            // ...and leaves the seller's balance
+            asAccount(feeAccount, () => book("application_fee", -feeAmount, currency, fee.id));
+        }
+
+        Object.assign(paymentIntent, { status: "succeeded", latest_charge: charge.id });
+        emit("charge.succeeded", charge);
+        emit("payment_intent.succeeded", paymentIntent);
+        return charge;
+    }
+
+    function completeCheckout(sessionId: string, o: { email?: string } = {}) {
+        // Direct charges are paid on the account the session was created on
+        return asAccount(owners.get(sessionId) ?? null, () => payCheckoutSession(sessionId, o));
+    }
+
+    function payCheckoutSession(sessionId: string, o: { email?: string }) {
+        const session = find(sessionId, "checkout.session");
+        if (session.status !== "open") {
+            throw new FakeStripeError(400, `Checkout Session ${sessionId} is ${String(session.status)}`);
+        }
+        const email = o.email ?? (session.customer_email as string | null) ?? null;
+
+        let paymentIntent: Obj;
+        let charge: Obj;
+        if (session.mode === "subscription") {
+            const customer = save({ id: newId("cus"), object: "customer", created: now(), email, metadata: {} });
+            const subscription = createSubscription(session, customer.id, subscriptionData.get(session.id) ?? {});
+            emit("customer.subscription.created", subscription);
+            const paid = billSubscription(subscription, "subscription_create");
+            ({ paymentIntent, charge } = paid);
+            Object.assign(session, { customer: customer.id, subscription: subscription.id, invoice: paid.invoice.id });
+        } else {
+            paymentIntent = find(String(session.payment_intent), "payment_intent");
+            charge = payPaymentIntent(paymentIntent, email);
+        }
+
+        Object.assign(session, {
+            status: "complete",
+            payment_status: "paid",
+            customer_details: { email },
+        });
+        emit("checkout.session.completed", session);
+        return { session, paymentIntent, charge };
+    }
+
+    // ---------- subscriptions / invoices ----------
+
+    // Period length per recurring interval (months and years are approximated)
+    const PERIOD_SECONDS: Record<string, number> = { day: 86_400, week: 604_800, month: 2_592_000, year: 31_536_000 };
+
+    function createSubscription(session: Obj, customer: string, data: Form): Obj {
+        const items = listOf("item", { limit: "100" }, (li) => li.session === session.id).data.reverse();
+        const start = now();
+        const transferData = obj(data.transfer_data);
+        const subscription = save({
+            id: newId("sub"),
+            object: "subscription",
+            created: start,
+            customer,
+            status: "active",
+            currency: String(session.currency),
+            application_fee_percent: num(data.application_fee_percent) ?? null,
+            transfer_data: str(transferData.destination)
+                ? { destination: str(transferData.destination), amount_percent: null }
+                : null,
+            cancel_at_period_end: false,
+            canceled_at: null as number | null,
+            ended_at: null as number | null,
+            latest_invoice: null as string | null,
+            items: { object: "list", data: [] as Obj[], has_more: false, url: "" },
+            metadata: metadata(data.metadata),
+        });
+        (subscription.items as { data: Obj[] }).data = items.map((li) => {
+            const price = li.price as Obj & { recurring: { interval: string } };
+            return {
+                id: newId("si"),
+                object: "subscription_item",
+                created: start,
+                subscription: subscription.id,
+                price: structuredClone(price),
+                quantity: li.quantity,
+                current_period_start: start,
+                current_period_end: start + (PERIOD_SECONDS[price.recurring.interval] ?? PERIOD_SECONDS.month),
+                metadata: {},
+            };
+        });
+        return subscription;
+    }
+
+    // Invoice the current period and pay it with a destination PaymentIntent keeping application_fee_percent
+    function billSubscription(subscription: Obj, billingReason: string) {
+        const items = (subscription.items as { data: (Obj & { price: Obj; quantity: number })[] }).data;
+        const currency = String(subscription.currency);
+        const amount = items.reduce((sum, it) => sum + Number(it.price.unit_amount) * it.quantity, 0);
+        const pct = subscription.application_fee_percent as number | null;
+        const destination = (subscription.transfer_data as { destination: string } | null)?.destination;
+
+        const invoice = save({
+            id: newId("in"),
+            object: "invoice",
+            created: now(),
+            customer: subscription.customer,
+            currency,
+            status: "draft",
+            billing_reason: billingReason,
+            amount_due: amount,
+            amount_paid: 0,
+            amount_remaining: amount,
+            parent: {
+                type: "subscription_details",
+                quote_details: null,
+                subscription_details: { subscription: subscription.id, metadata: { ...subscription.metadata } },
+            },
+            period_start: items[0]?.current_period_start ?? now(),
+            period_end: items[0]?.current_period_end ?? now(),
+            metadata: {},
+        });
+        items.forEach((it) =>
+            save({
+                id: newId("il"),
+                object: "line_item",
+                created: now(),
+                invoice: invoice.id,
+                description: `${it.quantity} × ${String(objects.get(String(it.price.product))?.name ?? "")}`,
+                quantity: it.quantity,
+                currency,
+                amount: Number(it.price.unit_amount) * it.quantity,
+                pricing: { type: "price_details", price_details: { price: it.price.id, product: it.price.product } },
+                parent: { type: "subscription_item_details", subscription_item_details: { subscription_item: it.id } },
+            })
+        );
+
+        // Invoice PaymentIntents carry no metadata; the invoice_payment links them back
+        const paymentIntent = createPaymentIntent(amount, currency, {
+            ...(pct !== null ? { application_fee_amount: String(Math.round((amount * pct) / 100)) } : {}),
+            ...(destination ? { transfer_data: { destination } } : {}),
+        });
+        save({
+            id: newId("inpay"),
+            object: "invoice_payment",
+            created: now(),
+            invoice: invoice.id,
+            status: "paid",
+            is_default: true,
+            amount_paid: amount,
+            amount_requested: amount,
+            currency,
+            payment: { type: "payment_intent", payment_intent: paymentIntent.id },
+        });
+        const charge = payPaymentIntent(paymentIntent, null);
+
+        Object.assign(invoice, { status: "paid", amount_paid: amount, amount_remaining: 0 });
+        subscription.latest_invoice = invoice.id;
+        emit("invoice.paid", invoice);
+        return { invoice, paymentIntent, charge };
+    }
+
+    function renewSubscription(subscriptionId: string) {
+        const subscription = find(subscriptionId, "subscription");
+        if (subscription.status === "canceled") {
+            throw new FakeStripeError(400, `Subscription ${subscriptionId} is canceled`);
+        }
+        for (const it of (subscription.items as { data: Obj[] }).data) {
+            const length = Number(it.current_period_end) - Number(it.current_period_start);
+            Object.assign(it, {
+                current_period_start: it.current_period_end,
+                current_period_end: Number(it.current_period_end) + length,
+            });
+        }
+        const paid = billSubscription(subscription, "subscription_cycle");
+        emit("customer.subscription.updated", subscription);
+        return paid;
+    }
+
+    function cancelSubscription(subscription: Obj): Obj {
+        if (subscription.status === "canceled") return subscription;
+        Object.assign(subscription, { status: "canceled", canceled_at: now(), ended_at: now() });
+        emit("customer.subscription.deleted", subscription);
+        return subscription;
+    }
+
+    function chargeFor(form: Form): Obj {
+        const chargeId = str(form.charge);
+        if (chargeId) return find(chargeId, "charge");
+        const pi = find(str(form.payment_intent) ?? "", "payment_intent");
+        if (!pi.latest_charge) {
+            throw new FakeStripeError(400, `PaymentIntent ${pi.id} has no successful charge`, "charge_not_found");
+        }
+        return find(String(pi.latest_charge), "charge");
+    }
+
+    // ---------- refunds / transfers ----------
+
+    function createRefund(form: Form): Obj {
+        const charge = chargeFor(form);
+        const remaining = Number(charge.amount) - Number(charge.amount_refunded);
+        const amount = num(form.amount) ?? remaining;
+        if (amount <= 0 || amount > remaining) {
+            throw new FakeStripeError(
+                400,
+                `Refund amount (${amount}) is greater than unrefunded amount on charge (${remaining})`,
+                "amount_too_large",
+                "amount"
+            );
+        }
+        const refund = save({
+            id: newId("re"),
+            object: "refund",
+            created: now(),
+            amount,
+            currency: charge.currency,
+            charge: charge.id,
+            payment_intent: charge.payment_intent,
+            reason: str(form.reason) ?? null,
+            status: "succeeded",
+            transfer_reversal: null as string | null,
+            balance_transaction: null as string | null,
+            metadata: metadata(form.metadata),
+        });
+
+        const previous = { amount_refunded: charge.amount_refunded, refunded: charge.refunded };
+        charge.amount_refunded = Number(charge.amount_refunded) + amount;
+        charge.refunded = charge.amount_refunded === charge.amount;
+
+        // Destination charges: pro-rated reversal / fee refund when asked for
+        if (bool(form.reverse_transfer) && charge.transfer) {
+            const transfer = find(String(charge.transfer), "transfer");
+            const share = Math.floor((amount * Number(transfer.amount)) / Number(charge.amount));
+            refund.transfer_reversal = createReversal(transfer, { amount: share }).id;
+        }
+        if (bool(form.refund_application_fee) && charge.application_fee) {
+            // Fees live on the platform, also for direct charges refunded on the seller's account
+            asAccount(null, () => {
+                const fee = find(String(charge.application_fee), "application_fee");
+                createFeeRefund(fee, Math.floor((amount * Number(fee.amount)) / Number(charge.amount)));
+            });
+        }
+
+        refund.balance_transaction = book("refund", -amount, String(charge.currency), refund.id);
+        emit("refund.created", refund);
+        emit("charge.refunded", charge, { previous });
+        return refund;
+    }
+
+    function createTransfer(f: {
+        amount: number;
+        currency: string;
+        destination: string;
+        source_transaction?: string;
+        transfer_group?: string;
+        metadata?: Record<string, string>;
+    }): Obj {
+        const account = find(f.destination, "account");
+        if ((account.capabilities as { transfers?: string }).transfers !== "active") {
+            throw new FakeStripeError(
+                400,
+                "Your destination account needs to have at least one of the following capabilities enabled: transfers",
+                "insufficient_capabilities_for_transfer",
+                "destination"
+            );
+        }
+        const transfer = save({
+            id: newId("tr"),
+            object: "transfer",
+            created: now(),
+            amount: f.amount,
+            amount_reversed: 0,
+            currency: f.currency.toLowerCase(),
+            destination: f.destination,
+            source_transaction: f.source_transaction ?? null,
+            transfer_group: f.transfer_group ?? null,
+            reversed: false,
+            reversals: { object: "list", data: [], has_more: false, url: "" },
+            balance_transaction: null as string | null,
+            destination_payment: null as string | null,
+            metadata: f.metadata ?? {},
+        });
+        transfer.balance_transaction = book("transfer", -f.amount, String(transfer.currency), transfer.id);
+        // The seller's side: a payment on the destination account that points back at the transfer
+        transfer.destination_payment = asAccount(f.destination, () => {
+            const payment = save({
+                id: newId("py"),
+                object: "charge",
+                created: now(),
+                amount: f.amount,
+                amount_refunded: 0,
+                currency: transfer.currency,
+                paid: true,
+                status: "succeeded",
+                source_transfer: transfer.id,
+                balance_transaction: null as string | null,
+                metadata: {},
+            });
+            payment.balance_transaction = book("payment", f.amount, String(transfer.currency), payment.id);
+            return payment.id;
+        });
+        emit("transfer.created", transfer);
+        return transfer;
+    }
+
+    function createReversal(transfer: Obj, form: { amount?: number; metadata?: Record<string, string> }): Obj {
+        const remaining = Number(transfer.amount) - Number(transfer.amount_reversed);
+        const amount = form.amount ?? remaining;
+        if (amount <= 0 || amount > remaining) {
+            throw new FakeStripeError(400, "Transfer reversal amount exceeds the unreversed amount", undefined, "amount");
+        }
+        const reversal = save({
+            id: newId("trr"),
+            object: "transfer_reversal",
+            created: now(),
+            amount,
+            currency: transfer.currency,
+            transfer: transfer.id,
+            metadata: form.metadata ?? {},
+        });
+        transfer.amount_reversed = Number(transfer.amount_reversed) + amount;
+        transfer.reversed = transfer.amount_reversed === transfer.amount;
+        (transfer.reversals as { data: Obj[] }).data.unshift(reversal);
+        emit("transfer.reversed", transfer);
+        return reversal;
+    }
+
+    function createFeeRefund(fee: Obj, amount: number, meta: Record<string, string> = {}): Obj {
+        const feeRefund = save({
+            id: newId("fr"),
+            object: "fee_refund",
+            created: now(),
+            amount,
+            currency: fee.currency,
+            fee: fee.id,
+            balance_transaction: null as string | null,
+            metadata: meta,
+        });
+        feeRefund.balance_transaction = book("application_fee_refund", -amount, String(fee.currency), feeRefund.id);
+        fee.amount_refunded = Number(fee.amount_refunded) + amount;
+        fee.refunded = fee.amount_refunded === fee.amount;
+        (fee.refunds as { data: Obj[] }).data.unshift(feeRefund);
+        emit("application_fee.refunded", fee);
+        return feeRefund;
+    }
+
+    // ---------- disputes & payouts ----------
+
+    function openDispute(chargeId: string, o: { reason?: string; amount?: number } = {}): Obj {
+        const charge = objects.get(chargeId);
+        if (!charge || charge.object !== "charge") {
+            throw new FakeStripeError(404, `No such charge: '${chargeId}'`, "resource_missing", "charge");
+        }
+        // Disputed where the charge was made (direct charges: the seller's account)
+        return asAccount(owners.get(chargeId) ?? null, () => {
+            const dispute = save({
+                id: newId("dp"),
+                object: "dispute",
+                created: now(),
+                amount: o.amount ?? Number(charge.amount),
+                currency: charge.currency,
+                charge: charge.id,
+                payment_intent: charge.payment_intent ?? null,
+                reason: o.reason ?? "fraudulent",
+                status: "needs_response",
+                evidence: {},
+                evidence_details: {
+                    due_by: now() + 7 * 24 * 60 * 60,
+                    has_evidence: false,
+                    past_due: false,
+                    submission_count: 0,
+                },
+                is_charge_refundable: false,
+                metadata: {},
+            });
+            emit("charge.dispute.created", dispute);
+            emit("charge.dispute.funds_withdrawn", dispute);
+            return dispute;
+        });
+    }
+
+    function closeDispute(disputeId: string, status: "won" | "lost"): Obj {
+        const dispute = objects.get(disputeId);
+        if (!dispute || dispute.object !== "dispute") {
+            throw new FakeStripeError(404, `No such dispute: '${disputeId}'`, "resource_missing", "id");
+        }
+        dispute.status = status;
+        emit("charge.dispute.closed", dispute);
+        if (status === "won") emit("charge.dispute.funds_reinstated", dispute);
+        return dispute;
+    }
+
+    function updateDispute(dispute: Obj, f: Form): Obj {
+        if (!["warning_needs_response", "needs_response"].includes(String(dispute.status))) {
+            throw new FakeStripeError(400, "This dispute is already closed or under review", "dispute_already_closed");
+        }
+        dispute.evidence = { ...(dispute.evidence as Record<string, unknown>), ...obj(f.evidence) };
+        const details = dispute.evidence_details as { has_evidence: boolean; submission_count: number };
+        details.has_evidence = true;
+        if (bool(f.submit)) {
+            dispute.status = "under_review";
+            details.submission_count++;
+        }
+        if (f.metadata !== undefined) dispute.metadata = { ...dispute.metadata, ...metadata(f.metadata) };
+        emit("charge.dispute.updated", dispute);
+        return dispute;
+    }
+
+    function payOut(accountId: string): Obj {
+        find(accountId, "account");
+        return asAccount(accountId, () => {
+            const txns = [...objects.values()].filter(
+                (o) => o.object === "balance_transaction" && visible(o) && !paidOut.has(o.id)
+            );
+            const currency = String(txns[0]?.currency ?? "usd");
+            const amount = txns.reduce((sum, t) => sum + Number(t.net), 0);
+            const payout = save({
+                id: newId("po"),
+                object: "payout",
+                created: now(),
+                amount,
+                currency,
+                status: "in_transit",
+                arrival_date: now() + 2 * 24 * 60 * 60,
+                method: "standard",
+                type: "bank_account",
+                automatic: true,
+                balance_transaction: null as string | null,
+                failure_code: null,
+                failure_message: null,
+                metadata: {},
+            });
+            for (const t of txns) paidOut.set(t.id, payout.id);
+            payout.balance_transaction = book("payout", -amount, currency, payout.id);
+            paidOut.set(payout.balance_transaction, payout.id);
+            emit("payout.created", payout);
+            payout.status = "paid";
+            emit("payout.paid", payout);
+            return payout;
+        });
+    }
+
+    // ---------- routing ----------
+
+    const routes: Route[] = [
+        { method: "POST", pattern: /^\/v1\/accounts$/, handle: (_, f) => createAccount(f) },
+        { method: "GET", pattern: /^\/v1\/accounts$/, handle: (_, f) => listOf("account", f) },
+        { method: "GET", pattern: /^\/v1\/accounts\/([^/]+)$/, handle: ([id]) => find(id, "account") },
+        {
+            method: "POST",
+            pattern: /^\/v1\/accounts\/([^/]+)$/,
+            handle: ([id], f) => {
+                const account = find(id, "account");
+                if (f.email !== undefined) account.email = str(f.email) ?? null;
+                if (f.business_type !== undefined) account.business_type = str(f.business_type) ?? null;
+                if (f.business_profile !== undefined) {
+                    const profile = account.business_profile as Record<string, unknown>;
+                    account.business_profile = { ...profile, ...obj(f.business_profile) };
+                }
+                if (f.metadata !== undefined) account.metadata = { ...account.metadata, ...metadata(f.metadata) };
+                emit("account.updated", account, { account: id });
+                return account;
+            },
+        },
+        {
+            method: "DELETE",
+            pattern: /^\/v1\/accounts\/([^/]+)$/,
+            handle: ([id]) => {
+                find(id, "account");
+                objects.delete(id);
+                return { id, object: "account", deleted: true };
+            },
+        },
+        {
+            method: "POST",
+            pattern: /^\/v1\/accounts\/([^/]+)\/reject$/,
+            handle: ([id], f) => {
+                const account = find(id, "account");
+                const requirements = account.requirements as Record<string, unknown>;
+                Object.assign(account, {
+                    charges_enabled: false,
+                    payouts_enabled: false,
+                    requirements: { ...requirements, disabled_reason: `rejected.${str(f.reason) ?? "other"}` },
+                });
+                emit("account.updated", account, { account: id });
+                return account;
+            },
+        },
+        {
+            method: "POST",
+            pattern: /^\/v1\/accounts\/([^/]+)\/login_links$/,
+            handle: ([id]) => {
+                find(id, "account");
+                return { object: "login_link", created: now(), url: `https://connect.stripe.com/express/${id}/fake` };
+            },
+        },
+        {
+            method: "POST",
+            pattern: /^\/v1\/account_links$/,
+            handle: (_, f) => {
+                const account = find(str(f.account) ?? "", "account");
+                return {
+                    object: "account_link",
+                    created: now(),
+                    expires_at: now() + 300,
+                    url: `https://connect.stripe.com/setup/e/${account.id}/fake?type=${str(f.type) ?? ""}`,
+                };
+            },
+        },
+
+        { method: "POST", pattern: /^\/v1\/products$/, handle: (_, f) => createProduct(f) },
+        { method: "GET", pattern: /^\/v1\/products\/([^/]+)$/, handle: ([id]) => find(id, "product") },
+        {
+            method: "POST",
+            pattern: /^\/v1\/products\/([^/]+)$/,
+            handle: ([id], f) => {
+                const product = find(id, "product");
+                if (f.name !== undefined) product.name = str(f.name) ?? product.name;
+                if (f.description !== undefined) product.description = str(f.description) ?? null;
+                if (f.images !== undefined) product.images = images(f.images);
+                if (f.active !== undefined) product.active = bool(f.active);
+                if (f.metadata !== undefined) product.metadata = { ...product.metadata, ...metadata(f.metadata) };
+                return product;
+            },
+        },
+        { method: "POST", pattern: /^\/v1\/prices$/, handle: (_, f) => createPrice(f) },
+        {
+            method: "POST",
+            pattern: /^\/v1\/prices\/([^/]+)$/,
+            handle: ([id], f) => {
+                // Amount and currency are immutable; only these can change
+                const price = find(id, "price");
+                if (f.active !== undefined) price.active = bool(f.active);
+                if (f.nickname !== undefined) price.nickname = str(f.nickname) ?? null;
+                if (f.metadata !== undefined) price.metadata = { ...price.metadata, ...metadata(f.metadata) };
+                return price;
+            },
+        },
+        { method: "GET", pattern: /^\/v1\/prices\/([^/]+)$/, handle: ([id], f) => expand(find(id, "price"), f) },
+        {
+            method: "GET",
+            pattern: /^\/v1\/prices$/,
+            handle: (_, f) =>
+                expand(
+                    listOf(
+                        "price",
+                        f,
+                        (p) =>
+                            (bool(f.active) === undefined || p.active === bool(f.active)) &&
+                            (!str(f.type) || p.type === str(f.type)) &&
+                            (!str(f.product) || p.product === str(f.product)),
+                        "/v1/prices"
+                    ),
+                    f
+                ),
+        },
+
+        { method: "POST", pattern: /^\/v1\/checkout\/sessions$/, handle: (_, f) => createCheckoutSession(f) },
+        {
+            method: "GET",
+            pattern: /^\/v1\/checkout\/sessions$/,
+            handle: (_, f) =>
+                listOf(
+                    "checkout.session",
+                    f,
+                    (s) => !str(f.payment_intent) || s.payment_intent === str(f.payment_intent),
+                    "/v1/checkout/sessions"
+                ),
+        },
+        {
+            method: "GET",
+            pattern: /^\/v1\/checkout\/sessions\/([^/]+)$/,
+            handle: ([id], f) => expand(find(id, "checkout.session"), f),
+        },
+        {
+            method: "GET",
+            pattern: /^\/v1\/checkout\/sessions\/([^/]+)\/line_items$/,
+            handle: ([id], f) => {
+                find(id, "checkout.session");
+                // Line items read in cart order
+                const page = listOf("item", { ...f, limit: "100" }, (li) => li.session === id);
+                return expand({ ...page, data: page.data.reverse(), url: `/v1/checkout/sessions/${id}/line_items` }, f);
+            },
+        },
+        {
+            method: "POST",
+            pattern: /^\/v1\/checkout\/sessions\/([^/]+)\/expire$/,
+            handle: ([id]) => {
+                const session = find(id, "checkout.session");
+                if (session.status !== "open") throw new FakeStripeError(400, `Checkout Session ${id} is not open`);
+                session.status = "expired";
+                emit("checkout.session.expired", session);
+                return session;
+            },
+        },
+
+        {
+            method: "GET",
+            pattern: /^\/v1\/subscriptions\/([^/]+)$/,
+            handle: ([id], f) => expand(find(id, "subscription"), f),
+        },
+        {
+            method: "POST",
+            pattern: /^\/v1\/subscriptions\/([^/]+)$/,
+            handle: ([id], f) => {
+                const subscription = find(id, "subscription");
+                const previous = { cancel_at_period_end: subscription.cancel_at_period_end };
+                if (f.cancel_at_period_end !== undefined) {
+                    subscription.cancel_at_period_end = bool(f.cancel_at_period_end) ?? false;
+                    subscription.canceled_at = subscription.cancel_at_period_end ? now() : null;
+                }
+                if (f.metadata !== undefined) {
+                    subscription.metadata = { ...subscription.metadata, ...metadata(f.metadata) };
+                }
+                emit("customer.subscription.updated", subscription, { previous });
+                return subscription;
+            },
+        },
+        {
+            method: "DELETE",
+            pattern: /^\/v1\/subscriptions\/([^/]+)$/,
+            handle: ([id]) => cancelSubscription(find(id, "subscription")),
+        },
+        { method: "GET", pattern: /^\/v1\/invoices\/([^/]+)$/, handle: ([id], f) => expand(find(id, "invoice"), f) },
+        {
+            method: "GET",
+            pattern: /^\/v1\/invoices\/([^/]+)\/lines$/,
+            handle: ([id], f) => {
+                find(id, "invoice");
+                // Invoice lines read in item order
+                const page = listOf("line_item", { ...f, limit: "100" }, (li) => li.invoice === id);
+                return { ...page, data: page.data.reverse(), url: `/v1/invoices/${id}/lines` };
+            },
+        },
+        {
+            method: "GET",
+            pattern: /^\/v1\/invoice_payments$/,
+            handle: (_, f) => {
+                const payment = obj(f.payment);
+                return listOf(
+                    "invoice_payment",
+                    f,
+                    (ip) =>
+                        (!str(f.invoice) || ip.invoice === str(f.invoice)) &&
+                        (!str(f.status) || ip.status === str(f.status)) &&
+                        (!str(payment.payment_intent) ||
+                            (ip.payment as { payment_intent: string }).payment_intent === str(payment.payment_intent)),
+                    "/v1/invoice_payments"
+                );
+            },
+        },
+        { method: "GET", pattern: /^\/v1\/customers\/([^/]+)$/, handle: ([id]) => find(id, "customer") },
+        {
+            method: "POST",
+            pattern: /^\/v1\/billing_portal\/sessions$/,
+            handle: (_, f) => {
+                const customer = find(str(f.customer) ?? "", "customer");
+                const id = newId("bps");
+                return {
+                    id,
+                    object: "billing_portal.session",
+                    created: now(),
+                    customer: customer.id,
+                    return_url: str(f.return_url) ?? null,
+                    url: `https://billing.stripe.com/p/session/${id}`,
+                };
+            },
+        },
+
+        {
+            method: "GET",
+            pattern: /^\/v1\/payment_intents\/([^/]+)$/,
+            handle: ([id], f) => expand(find(id, "payment_intent"), f),
+        },
+        { method: "GET", pattern: /^\/v1\/charges\/([^/]+)$/, handle: ([id], f) => expand(find(id, "charge"), f) },
+        {
+            method: "GET",
+            pattern: /^\/v1\/charges$/,
+            handle: (_, f) =>
+                listOf("charge", f, (c) => !str(f.payment_intent) || c.payment_intent === str(f.payment_intent), "/v1/charges"),
+        },
+
+        { method: "POST", pattern: /^\/v1\/refunds$/, handle: (_, f) => createRefund(f) },
+        { method: "GET", pattern: /^\/v1\/refunds\/([^/]+)$/, handle: ([id]) => find(id, "refund") },
+        {
+            method: "GET",
+            pattern: /^\/v1\/refunds$/,
+            handle: (_, f) =>
+                listOf(
+                    "refund",
+                    f,
+                    (r) =>
+                        (!str(f.charge) || r.charge === str(f.charge)) &&
+                        (!str(f.payment_intent) || r.payment_intent === str(f.payment_intent)),
+                    "/v1/refunds"
+                ),
+        },
+
+        {
+            method: "POST",
+            pattern: /^\/v1\/transfers$/,
+            handle: (_, f) =>
+                createTransfer({
+                    amount: num(f.amount) ?? 0,
+                    currency: str(f.currency) ?? "usd",
+                    destination: str(f.destination) ?? "",
+                    source_transaction: str(f.source_transaction),
+                    transfer_group: str(f.transfer_group),
+                    metadata: metadata(f.metadata),
+                }),
+        },
+        { method: "GET", pattern: /^\/v1\/transfers\/([^/]+)$/, handle: ([id]) => find(id, "transfer") },
+        {
+            method: "GET",
+            pattern: /^\/v1\/transfers$/,
+            handle: (_, f) =>
+                listOf(
+                    "transfer",
+                    f,
+                    (t) =>
+                        (!str(f.transfer_group) || t.transfer_group === str(f.transfer_group)) &&
+                        (!str(f.destination) || t.destination === str(f.destination)),
+                    "/v1/transfers"
+                ),
+        },
+        {
+            method: "POST",
+            pattern: /^\/v1\/transfers\/([^/]+)\/reversals$/,
+            handle: ([id], f) =>
+                createReversal(find(id, "transfer"), { amount: num(f.amount), metadata: metadata(f.metadata) }),
+        },
+
+        {
+            method: "GET",
+            pattern: /^\/v1\/balance_transactions$/,
+            handle: (_, f) =>
+                expand(
+                    listOf(
+                        "balance_transaction",
+                        f,
+                        (t) =>
+                            (!str(f.payout) || paidOut.get(t.id) === str(f.payout)) &&
+                            (!str(f.type) || t.type === str(f.type)),
+                        "/v1/balance_transactions"
+                    ),
+                    f
+                ),
+        },
+        {
+            method: "GET",
+            pattern: /^\/v1\/balance_transactions\/([^/]+)$/,
+            handle: ([id], f) => expand(find(id, "balance_transaction"), f),
+        },
+        {
+            method: "GET",
+            pattern: /^\/v1\/application_fees$/,
+            handle: (_, f) =>
+                listOf("application_fee", f, (fee) => !str(f.charge) || fee.charge === str(f.charge), "/v1/application_fees"),
+        },
+        { method: "GET", pattern: /^\/v1\/application_fees\/([^/]+)$/, handle: ([id]) => find(id, "application_fee") },
+        {
+            method: "GET",
+            pattern: /^\/v1\/balance$/,
+            handle: () => {
+                // Everything booked on the account is available at once; payouts take it out
+                const totals = new Map<string, number>();
+                for (const t of objects.values()) {
+                    if (t.object !== "balance_transaction" || !visible(t)) continue;
+                    totals.set(String(t.currency), (totals.get(String(t.currency)) ?? 0) + Number(t.net));
+                }
+                return {
+                    object: "balance",
+                    livemode: false,
+                    available: [...totals].map(([currency, amount]) => ({ amount, currency, source_types: { card: amount } })),
+                    pending: [],
+                };
+            },
+        },
+        { method: "GET", pattern: /^\/v1\/disputes\/([^/]+)$/, handle: ([id]) => find(id, "dispute") },
+        { method: "POST", pattern: /^\/v1\/disputes\/([^/]+)$/, handle: ([id], f) => updateDispute(find(id, "dispute"), f) },
+        { method: "GET", pattern: /^\/v1\/payouts\/([^/]+)$/, handle: ([id]) => find(id, "payout") },
+        {
+            method: "GET",
+            pattern: /^\/v1\/application_fees\/([^/]+)\/refunds$/,
+            handle: ([id], f) => {
+                find(id, "application_fee");
+                return listOf("fee_refund", f, (fr) => fr.fee === id, `/v1/application_fees/${id}/refunds`);
+            },
+        },
+        {
+            method: "POST",
+            pattern: /^\/v1\/application_fees\/([^/]+)\/refunds$/,
+            handle: ([id], f) => {
+                const fee = find(id, "application_fee");
+                return createFeeRefund(
+                    fee,
+                    num(f.amount) ?? Number(fee.amount) - Number(fee.amount_refunded),
+                    metadata(f.metadata)
+                );
+            },
+        },
+    ];
+
+    async function readBody(req: IncomingMessage): Promise<string> {
+        const chunks: Buffer[] = [];
+        for await (const chunk of req) chunks.push(typeof chunk === "string" ? Buffer.from(chunk) : chunk);
+        return Buffer.concat(chunks).toString("utf8");
+    }
+
+    function send(res: ServerResponse, status: number, body: unknown) {
+        res.writeHead(status, { "Content-Type": "application/json", "Request-Id": newId("req") });
+        res.end(JSON.stringify(body));
+    }
+
+    const server = createServer(async (req, res) => {
+        try {
+            if (!req.headers.authorization?.startsWith("Bearer ")) {
+                throw new FakeStripeError(401, "You did not provide an API key.");
+            }
+            const url = new URL(req.url ?? "/", "http://fake");
+            const method = req.method ?? "GET";
+            const form = decodeForm(method === "POST" ? await readBody(req) : url.search.slice(1));
+
+            const account = req.headers["stripe-account"];
+            const onAccount = typeof account === "string" ? account : null;
+            if (onAccount) find(onAccount, "account");
+
+            const key = req.headers["idempotency-key"];
+            const cacheKey = typeof key === "string" ? `${onAccount ?? ""} ${method} ${url.pathname} ${key}` : null;
+            if (cacheKey && idempotent.has(cacheKey)) {
+                return send(res, 200, idempotent.get(cacheKey));
+            }
+
+            for (const route of routes) {
+                const m = route.method === method ? route.pattern.exec(url.pathname) : null;
+                if (!m) continue;
+                const body = structuredClone(
+                    asAccount(onAccount, () => route.handle(m.slice(1).map(decodeURIComponent), form))
+                );
+                if (cacheKey) idempotent.set(cacheKey, body);
+                return send(res, 200, body);
+            }
+            throw new FakeStripeError(404, `Unrecognized request URL (${method}: ${url.pathname}).`);
+        } catch (e) {
+            const err = e instanceof FakeStripeError ? e : new FakeStripeError(500, e instanceof Error ? e.message : "Fake error");
+            send(res, err.status, {
+                error: {
+                    type: err.status >= 500 ? "api_error" : "invalid_request_error",
+                    message: err.message,
+                    ...(err.code ? { code: err.code } : {}),
+                    ...(err.param ? { param: err.param } : {}),
+                },
+            });
+        }
+    });
+
+    await new Promise<void>((resolve) => server.listen(opts.port ?? 0, "127.0.0.1", resolve));
+    const url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    const signer = new Stripe("sk_test_fake", { apiVersion: STRIPE_API_VERSION });
+
+    function signEvent(event: Stripe.Event) {
+        const payload = JSON.stringify(event);
+        return { payload, signature: signer.webhooks.generateTestHeaderString({ payload, secret: webhookSecret }) };
+    }
+
+    return {
+        url,
+        client: createStripeClient({ apiKey: "sk_test_fake", apiBase: url }),
+        get: (id) => objects.get(id),
+        events,
+        takeEvents: () => events.splice(0, events.length),
+        activateAccount,
+        completeCheckout,
+        renewSubscription,
+        openDispute,
+        closeDispute,
+        payOut,
+        signEvent,
+        deliver: (endpoint, event) => {
+            const { payload, signature } = signEvent(event);
+            return fetch(endpoint, {
+                method: "POST",
+                headers: { "Content-Type": "application/json", "Stripe-Signature": signature },
+                body: payload,
+            });
+        },
+        close: () =>
+            new Promise<void>((resolve, reject) => server.close((e) => (e ? reject(e) : resolve()))),
+    };
+}
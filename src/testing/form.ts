@@ -0,0 +1,73 @@
+// Decode Stripe's request encoding (application/x-www-form-urlencoded with bracket keys):
+// "line_items[0][price]=price_1&metadata[orderId]=o_1" -> { line_items: [{ price: "price_1" }], metadata: { orderId: "o_1" } }
+// Values stay strings; the fake converts the fields it reads (see num / bool).
+
+export type FormValue = string | FormValue[] | { [key: string]: FormValue };
+export type Form = { [key: string]: FormValue };
+
+type Container = { [key: string]: FormValue } | FormValue[];
+
+// "a[b][0]" -> ["a", "b", "0"]
+function keyPath(key: string): string[] {
+    const head = key.split("[", 1)[0];
+    const rest = [...key.slice(head.length).matchAll(/\[([^\]]*)\]/g)].map((m) => m[1]);
+    return [head, ...rest];
+}
+
+/** Parse a urlencoded body or query string into nested objects / arrays */
+export function decodeForm(raw: string): Form {
+    const root: Form = {};
+    for (const [key, value] of new URLSearchParams(raw)) {
+        const path = keyPath(key);
+        let node: Container = root;
+        path.forEach((segment, i) => {
+            const last = i === path.length - 1;
+            const slot = Array.isArray(node) ? (segment === "" ? node.length : Number(segment)) : segment;
+            const bag = node as Record<string | number, FormValue>;
+            if (last) {
+                bag[slot] = value;
+                return;
+            }
+            if (typeof bag[slot] !== "object") {
+                bag[slot] = /^\d*$/.test(path[i + 1]) ? [] : {};
+            }
+            node = bag[slot] as Container;
+        });
+    }
+    return root;
+}
+
+/** Integer field (amounts, quantities); undefined when absent */
+export function num(v: FormValue | undefined): number | undefined {
+    return typeof v === "string" && v !== "" ? Number(v) : undefined;
+}
+
+/** Boolean field ("true" / "false") */
+export function bool(v: FormValue | undefined): boolean | undefined {
+    return typeof v === "string" ? v === "true" : undefined;
+}
+
+/** String field */
+export function str(v: FormValue | undefined): string | undefined {
+    return typeof v === "string" && v !== "" ? v : undefined;
+}
+
+/** Nested object field (metadata, payment_intent_data, ...) */
+export function obj(v: FormValue | undefined): Form {
+    return v && typeof v === "object" && !Array.isArray(v) ? v : {};
+}
+
+/** Array field (line_items, expand, ...) */
+export function list(v: FormValue | undefined): FormValue[] {
+    if (Array.isArray(v)) return v;
+    // Sparse numeric keys can arrive as an object: { "0": ..., "1": ... }
+    if (v && typeof v === "object") return Object.values(v);
+    return v === undefined ? [] : [v];
+}
+
+/** metadata[...] as Stripe returns it (string values only) */
+export function metadata(v: FormValue | undefined): Record<string, string> {
+    return Object.fromEntries(
+        Object.entries(obj(v)).filter((e): e is [string, string] => typeof e[1] === "string" && e[1] !== "")
+    );
+}
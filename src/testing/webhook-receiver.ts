@@ -0,0 +1,86 @@
+// Local HTTP receiver for outbound webhooks: register its url as an OutboundEndpoint (with the
+// same secret), run the outbox, then inspect what arrived. Signatures are verified like a real
+// subscriber would; a bad one is answered with 400 and recorded as rejected.
+//
+//   const receiver = await startWebhookReceiver({ secret: endpoint.secret });
+//   ...emit events, POST /api/admin/outbound/deliver { due: true }...
+//   receiver.received.map((r) => r.body.type); // ["order.paid", ...]
+//   receiver.failNext(2); // answer the next two requests with 500 to exercise retries
+//   await receiver.close();
+import { createServer, type IncomingMessage } from "node:http";
+import type { AddressInfo } from "node:net";
+import { SIGNATURE_HEADER, verifySignature } from "../lib/outbound-signature";
+
+export type ReceivedWebhook = {
+    body: { id: string; type: string; created: string; data: Record<string, unknown> };
+    headers: IncomingMessage["headers"];
+    verified: boolean;
+    status: number; // what the receiver answered
+};
+
+export type WebhookReceiverOptions = {
+    /** Endpoint signing secret; without it signatures are not checked */
+    secret?: string;
+    /** Fixed port; a free one is picked by default */
+    port?: number;
+};
+
+export type WebhookReceiver = {
+    /** URL to register as the endpoint, e.g. "http://127.0.0.1:54321/webhooks" */
+    url: string;
+    /** Every request so far (oldest first), including rejected and failed ones */
+    received: ReceivedWebhook[];
+    /** Return and clear the recorded requests */
+    take: () => ReceivedWebhook[];
+    /** Answer the next `count` requests with `status` (default 500) */
+    failNext: (count?: number, status?: number) => void;
+    close: () => Promise<void>;
+};
+
+/** Start the receiver on 127.0.0.1; close() it when done */
+export async function startWebhookReceiver(opts: WebhookReceiverOptions = {}): Promise<WebhookReceiver> {
+    const received: ReceivedWebhook[] = [];
+    let failures: { count: number; status: number } = { count: 0, status: 500 };
+
+    const server = createServer(async (req, res) => {
+        const chunks: Buffer[] = [];
+        for await (const chunk of req) chunks.push(typeof chunk === "string" ? Buffer.from(chunk) : chunk);
+        const raw = Buffer.concat(chunks).toString("utf8");
+
+        const header = req.headers[SIGNATURE_HEADER.toLowerCase()];
+        const verified = opts.secret
+            ? typeof header === "string" && verifySignature(raw, header, opts.secret)
+            : true;
+        let body: ReceivedWebhook["body"] = { id: "", type: "", created: "", data: {} };
+        let error: string | null = verified ? null : "Bad signature";
+        try {
+            body = JSON.parse(raw);
+        } catch {
+            error ??= "Invalid JSON";
+        }
+        let status = error ? 400 : 200;
+        if (!error && failures.count > 0) {
+            failures.count -= 1;
+            status = failures.status;
+            error = "Failing on purpose";
+        }
+        received.push({ body, headers: req.headers, verified, status });
+
+        res.writeHead(status, { "Content-Type": "application/json" });
+        res.end(JSON.stringify(error ? { error } : { received: true }));
+    });
+
+    await new Promise<void>((resolve) => server.listen(opts.port ?? 0, "127.0.0.1", resolve));
+    const url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/webhooks`;
+
+    return {
+        url,
+        received,
+        take: () => received.splice(0, received.length),
+        failNext: (count = 1, status = 500) => {
+            failures = { count, status };
+        },
+        close: () =>
+            new Promise<void>((resolve, reject) => server.close((e) => (e ? reject(e) : resolve()))),
+    };
+}
@@ -0,0 +1,80 @@
+// Connected accounts (api/connect/list-accounts): the admin directory of sellers, filtered by
+// onboarding state and paged by cursor.
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { onboardSeller, setupApp, type SignedIn, type TestApp } from "./harness";
+
+type AccountsPage = {
+    data: { stripeAccountId: string; chargesEnabled: boolean; user: { email: string } }[];
+    nextCursor: string | null;
+};
+
+describe("connected accounts", () => {
+    let app: TestApp;
+    let admin: SignedIn;
+    let alice: Awaited<ReturnType<typeof onboardSeller>>;
+    let bob: Awaited<ReturnType<typeof onboardSeller>>;
+    let pendingAccountId: string;
+
+    const list = (query: string, as: SignedIn = admin) =>
+        app.request<AccountsPage>("GET", `/api/connect/list-accounts${query}`, { as });
+
+    beforeAll(async () => {
+        app = await setupApp();
+        admin = await app.signIn("admin@example.com", "admin");
+        alice = await onboardSeller(app, "alice@example.com");
+        bob = await onboardSeller(app, "bob@example.com");
+        // Still onboarding
+        const carol = await app.signIn("carol@example.com");
+        const created = await app.request<{ stripeAccountId: string }>("POST", "/api/connect/create-account", {
+            as: carol,
+            body: { country: "US" },
+        });
+        pendingAccountId = created.body.stripeAccountId;
+    });
+
+    afterAll(async () => {
+        await app?.close();
+    });
+
+    it("filters by email and onboarding state", async () => {
+        const byEmail = await list("?email=ALICE");
+        expect(byEmail.status).toBe(200);
+        expect(byEmail.body.data).toMatchObject([
+            { stripeAccountId: alice.stripeAccountId, user: { email: "alice@example.com" } },
+        ]);
+
+        const pending = await list("?chargesEnabled=false");
+        expect(pending.body.data.map((a) => a.stripeAccountId)).toEqual([pendingAccountId]);
+        const enabled = await list("?chargesEnabled=true&sort=createdAt&order=asc");
+        expect(enabled.body.data.map((a) => a.stripeAccountId)).toEqual([alice.stripeAccountId, bob.stripeAccountId]);
+    });
+
+    it("pages through every account by cursor", async () => {
+        const seen: string[] = [];
+        let cursor: string | null = null;
+        do {
+            const page: { status: number; body: AccountsPage } = await list(
+                `?limit=1&order=asc${cursor ? `&cursor=${encodeURIComponent(cursor)}` : ""}`
+            );
+            expect(page.status).toBe(200);
+            expect(page.body.data.length).toBeLessThanOrEqual(1);
+            seen.push(...page.body.data.map((a) => a.stripeAccountId));
+            cursor = page.body.nextCursor;
+        } while (cursor);
+
+        expect(seen).toEqual([alice.stripeAccountId, bob.stripeAccountId, pendingAccountId]);
+    });
+
+    it("is for admins only", async () => {
+        const res = await list("", alice);
+
+        expect(res.status).toBe(403);
+    });
+
+    it("rejects an unknown filter value", async () => {
+        const res = await list("?country=USA");
+
+        expect(res.status).toBe(400);
+        expect(res.body).toMatchObject({ error: "Invalid query" });
+    });
+});
@@ -0,0 +1,78 @@
+// Magic-link sign-in (api/auth/*): the emailed link starts a session once, and signing out
+// ends it on the server, not just in the browser.
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from "vitest";
+import { setupApp, type TestApp } from "./harness";
+
+describe("auth", () => {
+    let app: TestApp;
+
+    beforeAll(async () => {
+        app = await setupApp();
+    });
+
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    afterAll(async () => {
+        await app?.close();
+    });
+
+    // Ask for a link and read it from the mail (logged without RESEND_API_KEY)
+    async function requestLink(email: string, next?: string): Promise<string> {
+        const mails = vi.spyOn(console, "info").mockImplementation(() => {});
+        const res = await app.request("POST", "/api/auth/request-link", { body: { email, next } });
+        expect(res.status).toBe(202);
+        const mail = mails.mock.calls.map((args) => String(args[0])).find((text) => text.includes(`to=${email.toLowerCase()}`));
+        const link = new URL(mail!.match(/Sign in: (\S+)/)![1]);
+        return `${link.pathname}${link.search}`;
+    }
+
+    it("signs in with the emailed link, once", async () => {
+        const link = await requestLink("Buyer@Example.com", "/orders");
+
+        const verified = await app.request("GET", link);
+        expect(verified.status).toBe(302);
+        expect(verified.headers.get("location")).toBe("/orders");
+        const cookie = verified.headers.get("set-cookie")!.split(";")[0];
+        expect(cookie).toMatch(/^sid=./);
+
+        const me = await app.request("GET", "/api/auth/me", { headers: { cookie } });
+        expect(me.status).toBe(200);
+        expect(me.body).toMatchObject({ user: { email: "buyer@example.com" }, connectedAccount: null });
+
+        const reused = await app.request("GET", link);
+        expect(reused.status).toBe(302);
+        expect(reused.headers.get("location")).toBe("/login?error=expired_link");
+        expect(reused.headers.get("set-cookie")).toBeNull();
+    });
+
+    it("ends the session on sign-out", async () => {
+        const verified = await app.request("GET", await requestLink("seller@example.com"));
+        const cookie = verified.headers.get("set-cookie")!.split(";")[0];
+
+        const out = await app.request("POST", "/api/auth/logout", { headers: { cookie } });
+        expect(out.status).toBe(204);
+        expect(out.headers.get("set-cookie")).toMatch(/^sid=;/);
+
+        // The old cookie no longer works, even if the browser kept it
+        const me = await app.request("GET", "/api/auth/me", { headers: { cookie } });
+        expect(me.status).toBe(401);
+    });
+
+    it("sends one link a minute per address", async () => {
+        await requestLink("slow@example.com");
+
+        const mails = vi.spyOn(console, "info").mockImplementation(() => {});
+        const again = await app.request("POST", "/api/auth/request-link", { body: { email: "slow@example.com" } });
+        expect(again.status).toBe(202);
+        expect(mails).not.toHaveBeenCalled();
+    });
+
+    it("turns a malformed link into a login error", async () => {
+        const res = await app.request("GET", "/api/auth/verify");
+
+        expect(res.status).toBe(302);
+        expect(res.headers.get("location")).toBe("/login?error=invalid_link");
+    });
+});
@@ -0,0 +1,87 @@
+// Onboarding -> catalog -> checkout -> signed webhooks -> paid order, and the outbound
+// events announcing it (seller.onboarded, order.paid) delivered once each.
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { startWebhookReceiver, type WebhookReceiver } from "@/testing/webhook-receiver";
+import { buy, listProduct, onboardSeller, setupApp, type SignedIn, type TestApp } from "./harness";
+
+describe("checkout", () => {
+    let app: TestApp;
+    let admin: SignedIn;
+    let receiver: WebhookReceiver;
+
+    beforeAll(async () => {
+        app = await setupApp();
+        admin = await app.signIn("admin@example.com", "admin");
+        const endpoint = await app.request<{ secret: string; id: string }>("POST", "/api/admin/outbound/endpoints", {
+            as: admin,
+            body: { url: "http://127.0.0.1/placeholder" },
+        });
+        receiver = await startWebhookReceiver({ secret: endpoint.body.secret });
+        await app.request("PATCH", `/api/admin/outbound/endpoints/${endpoint.body.id}`, {
+            as: admin,
+            body: { url: receiver.url },
+        });
+        // 10% on everything in USD
+        await app.request("POST", "/api/fee-rules", {
+            as: admin,
+            body: { name: "Default", currency: "USD", percentBps: 1000 },
+        });
+    });
+
+    afterAll(async () => {
+        await receiver?.close();
+        await app?.close();
+    });
+
+    const deliverDue = () => app.request("POST", "/api/admin/outbound/deliver", { as: admin, body: { due: true } });
+
+    it("announces a seller once onboarding enables charges", async () => {
+        const seller = await onboardSeller(app, "seller@example.com");
+        // A second sync does not flip chargesEnabled again
+        await app.request("GET", "/api/connect/get-account-status", { as: seller });
+
+        await deliverDue();
+        const received = receiver.take();
+        expect(received.map((r) => r.body.type)).toEqual(["seller.onboarded"]);
+        expect(received[0].verified).toBe(true);
+        expect(received[0].body.data).toMatchObject({ seller: { stripeAccountId: seller.stripeAccountId } });
+    });
+
+    it("records a paid destination-charge order from the signed webhooks", async () => {
+        const seller = await onboardSeller(app, "seller-2@example.com");
+        const listingId = await listProduct(app, seller, { unitAmount: 2500 });
+
+        const { paymentIntentId } = await buy(app, [{ listingId, quantity: 2 }]);
+
+        const order = await app.prisma.order.findFirstOrThrow({ where: { paymentIntentId }, include: { items: true } });
+        expect(order).toMatchObject({
+            status: "paid",
+            chargeModel: "destination",
+            amount: 5000,
+            platformFee: 500,
+            buyerId: null, // guest checkout
+        });
+        expect(order.items).toMatchObject([{ listingId, quantity: 2, unitAmount: 2500, amount: 5000 }]);
+    });
+
+    it("delivers order.paid once, even when Stripe events are replayed", async () => {
+        receiver.take();
+        const seller = await onboardSeller(app, "seller-3@example.com");
+        const listingId = await listProduct(app, seller, { unitAmount: 1000 });
+        await deliverDue();
+        receiver.take();
+
+        const { events } = await buy(app, [{ listingId }]);
+        // Stripe retries: the same signed events arrive again
+        for (const event of events) {
+            const res = await app.fake.deliver(`${app.url}/api/webhooks/stripe`, event);
+            expect(res.status).toBe(200);
+        }
+        await deliverDue();
+
+        const paid = receiver.take().filter((r) => r.body.type === "order.paid");
+        expect(paid).toHaveLength(1);
+        expect(paid[0].verified).toBe(true);
+        expect(paid[0].body.data).toMatchObject({ order: { amount: 1000, status: "paid" } });
+    });
+});
@@ -0,0 +1,88 @@
+// Direct charges: the seller's chargeModel (set by an admin) decides how checkout charges,
+// and a refund the seller makes itself only returns the platform fee with DIRECT_REFUND_RETURNS_FEE.
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { buy, listProduct, onboardSeller, setupApp, type SignedIn, type TestApp } from "./harness";
+
+describe("direct charges", () => {
+    let app: TestApp;
+    let admin: SignedIn;
+    let seller: Awaited<ReturnType<typeof onboardSeller>>;
+    let listingId: string;
+
+    beforeAll(async () => {
+        app = await setupApp();
+        admin = await app.signIn("admin@example.com", "admin");
+        // 10% on everything in USD
+        await app.request("POST", "/api/fee-rules", {
+            as: admin,
+            body: { name: "Default", currency: "USD", percentBps: 1000 },
+        });
+        seller = await onboardSeller(app, "seller@example.com");
+        listingId = await listProduct(app, seller, { unitAmount: 5000 });
+        const res = await app.request("POST", "/api/connect/set-charge-model", {
+            as: admin,
+            body: { stripeAccountId: seller.stripeAccountId, chargeModel: "direct" },
+        });
+        expect(res.status).toBe(200);
+    });
+
+    afterAll(async () => {
+        await app?.close();
+    });
+
+    it("charges on the seller's account whatever the buyer asks for", async () => {
+        const session = await app.request("POST", "/api/checkout", {
+            body: { items: [{ listingId }], chargeModel: "destination" },
+        });
+
+        expect(session.status).toBe(201);
+        expect(session.body.chargeModel).toBe("direct");
+    });
+
+    it("lets only admins change the charge model", async () => {
+        const res = await app.request("POST", "/api/connect/set-charge-model", {
+            as: seller,
+            body: { chargeModel: "destination" },
+        });
+
+        expect(res.status).toBe(403);
+    });
+
+    // A paid direct-charge order and a refund the seller makes on its own account
+    async function sellerRefund(amount: number) {
+        const { paymentIntentId, chargeId } = await buy(app, [{ listingId }]);
+        const order = await app.prisma.order.findFirstOrThrow({ where: { paymentIntentId } });
+        expect(order).toMatchObject({ chargeModel: "direct", amount: 5000, platformFee: 500 });
+
+        await app.fake.client.refunds.create(
+            { payment_intent: paymentIntentId, amount },
+            { stripeAccount: seller.stripeAccountId }
+        );
+        const delivered = await app.replay();
+        expect(delivered.map((d) => d.status)).not.toContain(500);
+
+        const fee = app.fake.get(String(app.fake.get(chargeId)!.application_fee))!;
+        return { order: await app.prisma.order.findUniqueOrThrow({ where: { id: order.id } }), fee };
+    }
+
+    it("keeps the platform fee when the seller refunds by default", async () => {
+        app.setEnv({ DIRECT_REFUND_RETURNS_FEE: false });
+
+        const { order, fee } = await sellerRefund(2000);
+
+        expect(order).toMatchObject({ amountRefunded: 2000, paymentState: "refunded_partial" });
+        expect(fee.amount_refunded).toBe(0);
+    });
+
+    it("returns the proportional fee when DIRECT_REFUND_RETURNS_FEE is on", async () => {
+        app.setEnv({ DIRECT_REFUND_RETURNS_FEE: true });
+        try {
+            const { order, fee } = await sellerRefund(2000);
+
+            expect(order).toMatchObject({ amountRefunded: 2000, paymentState: "refunded_partial" });
+            expect(fee.amount_refunded).toBe(200);
+        } finally {
+            app.setEnv({ DIRECT_REFUND_RETURNS_FEE: false });
+        }
+    });
+});
@@ -0,0 +1,107 @@
+// Disputes (chargebacks): charge.dispute.* webhooks keep a Dispute row per chargeback, sellers
+// list the open ones on their orders and answer them (api/disputes/:id/evidence).
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import type Stripe from "stripe";
+import { buy, listProduct, onboardSeller, setupApp, type SignedIn, type TestApp } from "./harness";
+
+type DisputeRow = { id: string; stripeDisputeId: string; status: string; order: { id: string }; evidenceDueBy: string };
+
+describe("disputes", () => {
+    let app: TestApp;
+    let seller: Awaited<ReturnType<typeof onboardSeller>>;
+    let other: SignedIn;
+    let listingId: string;
+
+    beforeAll(async () => {
+        app = await setupApp();
+        seller = await onboardSeller(app, "seller@example.com");
+        other = await onboardSeller(app, "other@example.com");
+        listingId = await listProduct(app, seller, { unitAmount: 2500 });
+    });
+
+    afterAll(async () => {
+        await app?.close();
+    });
+
+    // A paid order and a chargeback on its charge, recorded from the webhooks
+    async function disputedOrder() {
+        const { paymentIntentId, chargeId } = await buy(app, [{ listingId }]);
+        const dispute = app.fake.openDispute(chargeId, { reason: "product_not_received" });
+        const delivered = await app.replay();
+        expect(delivered.map((d) => d.status)).toEqual([200, 200]);
+        const order = await app.prisma.order.findFirstOrThrow({ where: { paymentIntentId } });
+        return { order, dispute };
+    }
+
+    it("records the chargeback and lists it to the seller only", async () => {
+        const { order, dispute } = await disputedOrder();
+
+        const row = await app.prisma.dispute.findUniqueOrThrow({ where: { stripeDisputeId: dispute.id } });
+        expect(row).toMatchObject({
+            orderId: order.id,
+            amount: 2500,
+            currency: "USD",
+            status: "needs_response",
+            reason: "product_not_received",
+            outcome: null,
+        });
+        expect(row.fundsWithdrawnAt).not.toBeNull();
+
+        const mine = await app.request<DisputeRow[]>("GET", "/api/disputes", { as: seller });
+        expect(mine.status).toBe(200);
+        expect(mine.body).toMatchObject([{ stripeDisputeId: dispute.id, status: "needs_response", order: { id: order.id } }]);
+        const theirs = await app.request<DisputeRow[]>("GET", "/api/disputes", { as: other });
+        expect(theirs.body).toEqual([]);
+    });
+
+    it("submits evidence to Stripe for the seller who owns the order", async () => {
+        const { dispute } = await disputedOrder();
+        const row = await app.prisma.dispute.findUniqueOrThrow({ where: { stripeDisputeId: dispute.id } });
+
+        const forbidden = await app.request("POST", `/api/disputes/${row.id}/evidence`, {
+            as: other,
+            body: { text: { uncategorized_text: "Not mine" }, submit: true },
+        });
+        expect(forbidden.status).toBe(403);
+
+        const res = await app.request("POST", `/api/disputes/${row.id}/evidence`, {
+            as: seller,
+            body: { text: { shipping_tracking_number: "1Z999", product_description: "Test product" }, submit: true },
+        });
+
+        expect(res.status).toBe(200);
+        expect(res.body).toMatchObject({ stripeDisputeId: dispute.id, status: "under_review", submitted: true });
+        expect(app.fake.get(dispute.id)!.evidence).toMatchObject({ shipping_tracking_number: "1Z999" });
+        const updated = await app.prisma.dispute.findUniqueOrThrow({ where: { id: row.id } });
+        expect(updated.status).toBe("under_review");
+        expect(updated.evidenceSubmittedAt).not.toBeNull();
+        await app.replay();
+    });
+
+    it("keeps the outcome when an older event arrives after the dispute closed", async () => {
+        const { dispute } = await disputedOrder();
+        app.fake.closeDispute(dispute.id, "won");
+        const [closed, reinstated] = app.fake.takeEvents();
+        // A charge.dispute.updated Stripe sent before the dispute closed, delivered late
+        const stale = {
+            ...closed,
+            id: `${closed.id}_stale`,
+            type: "charge.dispute.updated",
+            created: closed.created - 60,
+            data: { object: { ...(closed.data.object as Stripe.Dispute), status: "needs_response" } },
+        } as Stripe.Event;
+
+        for (const event of [closed, reinstated, stale]) {
+            const res = await app.fake.deliver(`${app.url}/api/webhooks/stripe`, event);
+            expect(res.status).toBe(200);
+        }
+
+        const row = await app.prisma.dispute.findUniqueOrThrow({ where: { stripeDisputeId: dispute.id } });
+        expect(row).toMatchObject({ status: "won", outcome: "won" });
+        expect(row.closedAt).not.toBeNull();
+        expect(row.fundsReinstatedAt).not.toBeNull();
+        // Closed disputes leave the seller's list
+        const list = await app.request<DisputeRow[]>("GET", "/api/disputes", { as: seller });
+        expect(list.body.map((d) => d.stripeDisputeId)).not.toContain(dispute.id);
+    });
+});
@@ -0,0 +1,86 @@
+// Fee rules (api/fee-rules): admins manage the platform's fee policy; checkout applies the most
+// specific active rule to each seller's sub-order.
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { buy, listProduct, onboardSeller, setupApp, type SignedIn, type TestApp } from "./harness";
+
+type FeeRule = { id: string; name: string; percentBps: number; active: boolean; sellerAccountId: string | null };
+
+describe("fee rules", () => {
+    let app: TestApp;
+    let admin: SignedIn;
+    let seller: Awaited<ReturnType<typeof onboardSeller>>;
+    let listingId: string;
+
+    beforeAll(async () => {
+        app = await setupApp();
+        admin = await app.signIn("admin@example.com", "admin");
+        seller = await onboardSeller(app, "seller@example.com");
+        listingId = await listProduct(app, seller, { unitAmount: 10000 });
+    });
+
+    afterAll(async () => {
+        await app?.close();
+    });
+
+    const platformFee = async () => {
+        const { paymentIntentId } = await buy(app, [{ listingId }]);
+        return (await app.prisma.order.findFirstOrThrow({ where: { paymentIntentId } })).platformFee;
+    };
+
+    it("lets only admins manage fee rules", async () => {
+        const listed = await app.request("GET", "/api/fee-rules", { as: seller });
+        expect(listed.status).toBe(403);
+        const created = await app.request("POST", "/api/fee-rules", {
+            as: seller,
+            body: { name: "Free for me", percentBps: 0 },
+        });
+        expect(created.status).toBe(403);
+    });
+
+    it("refuses amounts without a currency", async () => {
+        const res = await app.request("POST", "/api/fee-rules", {
+            as: admin,
+            body: { name: "Flat", fixedAmount: 30 },
+        });
+
+        expect(res.status).toBe(400);
+        expect(res.body).toMatchObject({ error: "Invalid body", issues: [expect.objectContaining({ path: ["currency"] })] });
+    });
+
+    it("charges a seller's own rule over the currency-wide one until it is deleted", async () => {
+        const wide = await app.request<FeeRule>("POST", "/api/fee-rules", {
+            as: admin,
+            body: { name: "Default", currency: "USD", percentBps: 1000 },
+        });
+        expect(wide.status).toBe(201);
+        expect(await platformFee()).toBe(1000);
+
+        const own = await app.request<FeeRule>("POST", "/api/fee-rules", {
+            as: admin,
+            body: { name: "Launch partner", stripeAccountId: seller.stripeAccountId, percentBps: 500 },
+        });
+        expect(own.status).toBe(201);
+        expect(own.body.sellerAccountId).toEqual(expect.any(String));
+        expect(await platformFee()).toBe(500);
+
+        const patched = await app.request<FeeRule>("PATCH", `/api/fee-rules/${own.body.id}`, {
+            as: admin,
+            body: { percentBps: 300 },
+        });
+        expect(patched.status).toBe(200);
+        expect(patched.body.percentBps).toBe(300);
+        expect(await platformFee()).toBe(300);
+
+        const deleted = await app.request<FeeRule>("DELETE", `/api/fee-rules/${own.body.id}`, { as: admin });
+        expect(deleted.status).toBe(200);
+        expect(deleted.body.active).toBe(false);
+        expect(await platformFee()).toBe(1000);
+
+        // Deactivated rules stay listed, after the active ones
+        const list = await app.request<FeeRule[]>("GET", "/api/fee-rules", { as: admin });
+        expect(list.body.map((r) => [r.name, r.active])).toEqual([
+            ["Default", true],
+            ["Launch partner", false],
+        ]);
+    });
+});
@@ -0,0 +1,15 @@
+// Starts Postgres once per run and hands the migrated template database to the test files.
+import type { TestProject } from "vitest/node";
+import { startTestPostgres } from "../src/testing/database";
+
+declare module "vitest" {
+    export interface ProvidedContext {
+        templateUrl: string;
+    }
+}
+
+export default async function setup(project: TestProject) {
+    const server = await startTestPostgres();
+    project.provide("templateUrl", server.templateUrl);
+    return () => server.stop();
+}
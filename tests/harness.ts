@@ -0,0 +1,171 @@
+// Per-file test app: a fresh database cloned from the migrated template, the Stripe fake, and
+// the API routes served over HTTP. Call setupApp() in beforeAll and close() in afterAll.
+//
+//   const app = await setupApp();
+//   const admin = await app.signIn("admin@example.com", "admin");
+//   const res = await app.request("POST", "/api/fee-rules", { as: admin, body: {...} });
+//   app.fake.completeCheckout(sessionId);
+//   await app.replay(); // signed Stripe events -> /api/webhooks/stripe
+import { inject } from "vitest";
+import type Stripe from "stripe";
+import type { PrismaClient, UserRole } from "@prisma/client";
+import type { AuthUser } from "@/lib/auth";
+import { createTestDatabase, createTestPrisma } from "@/testing/database";
+import { startFakeStripe, type FakeStripe } from "@/testing/fake-stripe";
+import { startApiServer } from "@/testing/api-server";
+
+export type SignedIn = { user: AuthUser; cookie: string };
+
+/** `body` is the parsed JSON (`{ text }` otherwise); `text` the raw body, e.g. a CSV export */
+export type ApiResponse<T = Record<string, unknown>> = { status: number; body: T; text: string; headers: Headers };
+
+export type TestApp = {
+    /** Base URL of the API server (routes under /api) */
+    url: string;
+    prisma: PrismaClient;
+    fake: FakeStripe;
+    /** Create (or reuse) a user and start a session for it */
+    signIn: (email: string, role?: UserRole) => Promise<SignedIn>;
+    /** Call a route; `as` sends the session cookie */
+    request: <T = Record<string, unknown>>(
+        method: string,
+        path: string,
+        opts?: { body?: unknown; as?: SignedIn; headers?: Record<string, string> }
+    ) => Promise<ApiResponse<T>>;
+    /** Deliver every queued Stripe event to the webhook route (oldest first) */
+    replay: () => Promise<{ event: Stripe.Event; status: number }[]>;
+    /** Override env flags (src/lib/env) for the rest of the file */
+    setEnv: (patch: Partial<typeof import("@/lib/env").env>) => void;
+    close: () => Promise<void>;
+};
+
+export async function setupApp(): Promise<TestApp> {
+    const prisma = createTestPrisma(await createTestDatabase(inject("templateUrl")));
+    // Before anything imports @/lib/prisma
+    global.__prisma__ = prisma;
+
+    const fake = await startFakeStripe({ webhookSecret: process.env.STRIPE_WEBHOOK_SECRET });
+    const { setStripeClient } = await import("@/lib/stripe");
+    setStripeClient(fake.client);
+    const { createSession, SESSION_COOKIE } = await import("@/lib/auth");
+    const { env } = await import("@/lib/env");
+    const api = await startApiServer();
+
+    return {
+        url: api.url,
+        prisma,
+        fake,
+        signIn: async (email, role = "seller") => {
+            const user = await prisma.user.upsert({
+                where: { email },
+                create: { email, role },
+                update: { role },
+                select: { id: true, email: true, name: true, role: true },
+            });
+            const { token } = await createSession(user.id);
+            return { user, cookie: `${SESSION_COOKIE}=${token}` };
+        },
+        request: async (method, path, opts = {}) => {
+            const res = await fetch(`${api.url}${path}`, {
+                method,
+                headers: {
+                    ...(opts.body !== undefined ? { "Content-Type": "application/json" } : {}),
+                    ...(opts.as ? { cookie: opts.as.cookie } : {}),
+                    ...opts.headers,
+                },
+                body: opts.body !== undefined ? JSON.stringify(opts.body) : undefined,
+                redirect: "manual",
+            });
+            const text = await res.text();
+            let body;
+            try {
+                body = text ? JSON.parse(text) : {};
+            } catch {
+                body = { text };
+            }
+            return { status: res.status, body, text, headers: res.headers };
+        },
+        replay: async () => {
+            const delivered: { event: Stripe.Event; status: number }[] = [];
+            // Handlers call Stripe too: keep going until their events are delivered as well
+            for (let events = fake.takeEvents(); events.length > 0; events = fake.takeEvents()) {
+                for (const event of events) {
+                    const res = await fake.deliver(`${api.url}/api/webhooks/stripe`, event);
+                    await res.arrayBuffer();
+                    delivered.push({ event, status: res.status });
+                }
+            }
+            return delivered;
+        },
+        setEnv: (patch) => {
+            Object.assign(env, patch);
+        },
+        close: async () => {
+            await api.close();
+            await fake.close();
+            await prisma.$disconnect();
+            global.__prisma__ = undefined;
+        },
+    };
+}
+
+/** Sign in a seller, create its Express account, finish onboarding in the fake and sync it */
+export async function onboardSeller(
+    app: TestApp,
+    email: string,
+    opts: { currency?: string; country?: string } = {}
+): Promise<SignedIn & { stripeAccountId: string }> {
+    const seller = await app.signIn(email);
+    const created = await app.request<{ stripeAccountId: string }>("POST", "/api/connect/create-account", {
+        as: seller,
+        body: { country: opts.country ?? "US" },
+    });
+    if (created.status !== 201) throw new Error(`create-account: ${JSON.stringify(created.body)}`);
+    const { stripeAccountId } = created.body;
+    app.fake.activateAccount(stripeAccountId, { currency: opts.currency ?? "usd" });
+    const status = await app.request("GET", "/api/connect/get-account-status", { as: seller });
+    if (status.body.chargesEnabled !== true) throw new Error(`get-account-status: ${JSON.stringify(status.body)}`);
+    return { ...seller, stripeAccountId };
+}
+
+/** Create a product with one listing for `seller`; returns the Listing id */
+export async function listProduct(
+    app: TestApp,
+    seller: SignedIn,
+    listing: { unitAmount: number; currency?: string; inventory?: number | null; interval?: string }
+): Promise<string> {
+    const product = await app.request<{ id: string }>("POST", "/api/products", {
+        as: seller,
+        body: { name: "Test product" },
+    });
+    if (product.status !== 201) throw new Error(`products: ${JSON.stringify(product.body)}`);
+    const created = await app.request<{ id: string }>("POST", "/api/listings", {
+        as: seller,
+        body: { productId: product.body.id, currency: "USD", ...listing },
+    });
+    if (created.status !== 201) throw new Error(`listings: ${JSON.stringify(created.body)}`);
+    return created.body.id;
+}
+
+/** Check out `items` (as `buyer`, or as a guest), pay the session in the fake and replay its events */
+export async function buy(
+    app: TestApp,
+    items: { listingId: string; quantity?: number }[],
+    opts: { buyer?: SignedIn; path?: string } = {}
+): Promise<{ sessionId: string; paymentIntentId: string; chargeId: string; events: Stripe.Event[] }> {
+    const session = await app.request<{ sessionId: string }>("POST", opts.path ?? "/api/checkout", {
+        as: opts.buyer,
+        body: { items },
+    });
+    if (session.status !== 201) throw new Error(`checkout: ${JSON.stringify(session.body)}`);
+    const { paymentIntent, charge } = app.fake.completeCheckout(session.body.sessionId, { email: "buyer@example.com" });
+    const delivered = await app.replay();
+    const failed = delivered.filter((d) => d.status !== 200);
+    if (failed.length > 0) throw new Error(`webhooks failed: ${failed.map((d) => d.event.type).join(", ")}`);
+    return {
+        sessionId: session.body.sessionId,
+        paymentIntentId: paymentIntent.id,
+        chargeId: charge.id,
+        events: delivered.map((d) => d.event),
+    };
+}
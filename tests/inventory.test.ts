@@ -0,0 +1,68 @@
+// Limited stock: checkout refuses what is gone, and payments that race past the last unit
+// keep inventory at zero and flag the order as oversold instead.
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { buy, listProduct, onboardSeller, setupApp, type TestApp } from "./harness";
+
+describe("inventory", () => {
+    let app: TestApp;
+    let seller: Awaited<ReturnType<typeof onboardSeller>>;
+
+    beforeAll(async () => {
+        app = await setupApp();
+        seller = await onboardSeller(app, "seller@example.com");
+    });
+
+    afterAll(async () => {
+        await app?.close();
+    });
+
+    it("decrements stock when an order is paid", async () => {
+        const listingId = await listProduct(app, seller, { unitAmount: 1500, inventory: 5 });
+
+        const { paymentIntentId } = await buy(app, [{ listingId, quantity: 2 }]);
+
+        expect(await app.prisma.listing.findUniqueOrThrow({ where: { id: listingId } })).toMatchObject({ inventory: 3 });
+        const order = await app.prisma.order.findFirstOrThrow({ where: { paymentIntentId } });
+        expect(order.oversoldAt).toBeNull();
+    });
+
+    it("refuses a checkout for more than is in stock", async () => {
+        const listingId = await listProduct(app, seller, { unitAmount: 1500, inventory: 1 });
+
+        const res = await app.request("POST", "/api/checkout", { body: { items: [{ listingId, quantity: 2 }] } });
+
+        expect(res.status).toBe(409);
+        expect(res.body).toMatchObject({ error: "Not enough inventory", listingId, available: 1 });
+    });
+
+    it("flags the order that paid for the last unit twice and never goes below zero", async () => {
+        const listingId = await listProduct(app, seller, { unitAmount: 1500, inventory: 1 });
+
+        // Both sessions open while one unit is left; both buyers pay
+        const sessions = await Promise.all(
+            [1, 2].map(() =>
+                app.request<{ sessionId: string }>("POST", "/api/checkout", { body: { items: [{ listingId }] } })
+            )
+        );
+        expect(sessions.map((s) => s.status)).toEqual([201, 201]);
+        const paid = sessions.map((s) => app.fake.completeCheckout(s.body.sessionId).paymentIntent.id);
+        await app.replay();
+
+        expect(await app.prisma.listing.findUniqueOrThrow({ where: { id: listingId } })).toMatchObject({ inventory: 0 });
+        const [first, second] = await Promise.all(
+            paid.map((paymentIntentId) => app.prisma.order.findFirstOrThrow({ where: { paymentIntentId } }))
+        );
+        expect(first.oversoldAt).toBeNull();
+        expect(second.oversoldAt).not.toBeNull();
+
+        // Staff find it with the oversold filter
+        const admin = await app.signIn("admin@example.com", "admin");
+        const list = await app.request<{ data: { id: string; oversoldAt: string | null }[] }>(
+            "GET",
+            "/api/orders?oversold=true",
+            { as: admin }
+        );
+        expect(list.status).toBe(200);
+        expect(list.body.data.map((o) => o.id)).toEqual([second.id]);
+    });
+});
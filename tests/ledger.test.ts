@@ -0,0 +1,82 @@
+// Revenue ledger (api/admin/ledger): application fees, the platform's share of multi-seller carts,
+// what was returned of both and Stripe's processing fees, posted as balanced double entries.
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { buy, listProduct, onboardSeller, setupApp, type SignedIn, type TestApp } from "./harness";
+
+type Ledger = {
+    revenue: { currency: string; grossFees: number; refundedFees: number; processingCosts: number; netRevenue: number }[];
+    balances: { currency: string; account: string; debit: number; credit: number; balance: number }[];
+};
+
+describe("ledger", () => {
+    let app: TestApp;
+    let admin: SignedIn;
+
+    beforeAll(async () => {
+        app = await setupApp();
+        admin = await app.signIn("admin@example.com", "admin");
+        // 10% on everything in USD
+        await app.request("POST", "/api/fee-rules", {
+            as: admin,
+            body: { name: "Default", currency: "USD", percentBps: 1000 },
+        });
+        const first = await onboardSeller(app, "seller-1@example.com");
+        const second = await onboardSeller(app, "seller-2@example.com");
+        const firstListingId = await listProduct(app, first, { unitAmount: 4000 });
+        const secondListingId = await listProduct(app, second, { unitAmount: 6000 });
+
+        // One destination charge (fee 1,000 of 10,000) ...
+        const single = await listProduct(app, first, { unitAmount: 10000 });
+        await buy(app, [{ listingId: single }]);
+        // ... and a multi-seller cart the platform keeps 400 + 600 of
+        const { paymentIntentId } = await buy(app, [{ listingId: firstListingId }, { listingId: secondListingId }], {
+            path: "/api/checkout/multi-seller",
+        });
+        // Half of the 6,000 sub-order refunded: the platform gives back half of its 600
+        const order = await app.prisma.order.findFirstOrThrow({
+            where: { paymentIntentId, sellerAccount: { stripeAccountId: second.stripeAccountId } },
+        });
+        await app.request("POST", `/api/orders/${order.id}/refund`, { as: admin, body: { amount: 3000 } });
+        await app.replay();
+    });
+
+    afterAll(async () => {
+        await app?.close();
+    });
+
+    it("reports revenue net of refunds and Stripe fees, and a balanced trial balance", async () => {
+        const res = await app.request<Ledger>("GET", "/api/admin/ledger", { as: admin });
+
+        expect(res.status).toBe(200);
+        // 2.9% of each 10,000 charge
+        expect(res.body.revenue).toEqual([
+            { currency: "USD", grossFees: 2000, refundedFees: 300, processingCosts: 580, netRevenue: 1120 },
+        ]);
+        const total = (side: "debit" | "credit") => res.body.balances.reduce((sum, b) => sum + b[side], 0);
+        expect(total("debit")).toBe(total("credit"));
+    });
+
+    it("exports every entry as one debit and one credit line", async () => {
+        const res = await app.request("GET", "/api/admin/ledger/export?format=csv", { as: admin });
+
+        expect(res.status).toBe(200);
+        const [header, ...lines] = res.text.trim().split("\r\n");
+        expect(header.split(",").slice(0, 6)).toEqual(["date", "entry_id", "type", "account", "debit", "credit"]);
+        expect(lines).toHaveLength(2 * (await app.prisma.ledgerEntry.count()));
+        const types = new Set(lines.map((line) => line.split(",")[2]));
+        expect([...types].sort()).toEqual([
+            "application_fee",
+            "platform_share",
+            "platform_share_refund",
+            "processing_fee",
+        ]);
+    });
+
+    it("is for admins only", async () => {
+        const seller = await app.signIn("seller-1@example.com");
+
+        const res = await app.request("GET", "/api/admin/ledger", { as: seller });
+
+        expect(res.status).toBe(403);
+    });
+});
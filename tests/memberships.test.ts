@@ -0,0 +1,59 @@
+// Memberships (subscription checkout): the buyer is the signed-in user, never a body field,
+// and only that buyer can open the Customer Portal for it.
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { listProduct, onboardSeller, setupApp, type TestApp } from "./harness";
+
+describe("memberships", () => {
+    let app: TestApp;
+    let listingId: string;
+
+    beforeAll(async () => {
+        app = await setupApp();
+        const seller = await onboardSeller(app, "seller@example.com");
+        listingId = await listProduct(app, seller, { unitAmount: 900, interval: "month" });
+    });
+
+    afterAll(async () => {
+        await app?.close();
+    });
+
+    it("requires a signed-in buyer", async () => {
+        const res = await app.request("POST", "/api/checkout", { body: { items: [{ listingId }] } });
+
+        expect(res.status).toBe(401);
+        expect(res.body).toMatchObject({ error: "Sign in to subscribe" });
+    });
+
+    it("records the session's user as the buyer, whatever the body says", async () => {
+        const buyer = await app.signIn("buyer@example.com");
+        const someoneElse = await app.signIn("other@example.com");
+
+        const session = await app.request<{ sessionId: string }>("POST", "/api/checkout", {
+            as: buyer,
+            body: { items: [{ listingId }], buyerId: someoneElse.user.id },
+        });
+        expect(session.status).toBe(201);
+        const { session: paid } = app.fake.completeCheckout(session.body.sessionId);
+        await app.replay();
+
+        const subscription = await app.prisma.subscription.findUniqueOrThrow({
+            where: { stripeSubscriptionId: String(paid.subscription) },
+        });
+        expect(subscription.buyerId).toBe(buyer.user.id);
+        const order = await app.prisma.order.findFirstOrThrow({ where: { subscriptionId: subscription.id } });
+        expect(order).toMatchObject({ buyerId: buyer.user.id, status: "paid", amount: 900 });
+
+        // The buyer manages it in the Customer Portal; nobody else can
+        const portal = await app.request("POST", "/api/subscriptions/portal", {
+            as: buyer,
+            body: { subscriptionId: subscription.id },
+        });
+        expect(portal.status).toBe(201);
+        expect(portal.body.url).toEqual(expect.any(String));
+        const forbidden = await app.request("POST", "/api/subscriptions/portal", {
+            as: someoneElse,
+            body: { subscriptionId: subscription.id },
+        });
+        expect(forbidden.status).toBe(403);
+    });
+});
@@ -0,0 +1,108 @@
+// Payouts: payout.* webhooks keep the seller's payout history and link each payout to the
+// orders it settled, whether the money came in as a transfer or as a direct charge.
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import type Stripe from "stripe";
+import { buy, listProduct, onboardSeller, setupApp, type SignedIn, type TestApp } from "./harness";
+
+type PayoutsResponse = {
+    stripeAccountId: string;
+    balance: { available: { amount: number; currency: string }[] };
+    payouts: { stripePayoutId: string; amount: number; currency: string; status: string; orderCount: number }[];
+};
+
+describe("payouts", () => {
+    let app: TestApp;
+    let admin: SignedIn;
+    let seller: Awaited<ReturnType<typeof onboardSeller>>;
+    let direct: Awaited<ReturnType<typeof onboardSeller>>;
+
+    beforeAll(async () => {
+        app = await setupApp();
+        admin = await app.signIn("admin@example.com", "admin");
+        // 10% on everything in USD
+        await app.request("POST", "/api/fee-rules", {
+            as: admin,
+            body: { name: "Default", currency: "USD", percentBps: 1000 },
+        });
+        seller = await onboardSeller(app, "seller@example.com");
+        direct = await onboardSeller(app, "direct@example.com");
+        await app.request("POST", "/api/connect/set-charge-model", {
+            as: admin,
+            body: { stripeAccountId: direct.stripeAccountId, chargeModel: "direct" },
+        });
+    });
+
+    afterAll(async () => {
+        await app?.close();
+    });
+
+    it("links a payout to the destination-charge orders it settled", async () => {
+        const listingId = await listProduct(app, seller, { unitAmount: 2000 });
+        const bought = [await buy(app, [{ listingId }]), await buy(app, [{ listingId }])];
+        const before = await app.request<PayoutsResponse>("GET", "/api/connect/payouts", { as: seller });
+        expect(before.status).toBe(200);
+        // 2 × (2000 - 10% fee)
+        expect(before.body.balance.available).toEqual([{ amount: 3600, currency: "USD" }]);
+
+        const payout = app.fake.payOut(seller.stripeAccountId);
+        await app.replay();
+
+        const res = await app.request<PayoutsResponse>("GET", "/api/connect/payouts", { as: seller });
+        expect(res.body.payouts).toMatchObject([
+            { stripePayoutId: payout.id, amount: 3600, currency: "USD", status: "paid", orderCount: 2 },
+        ]);
+        expect(res.body.balance.available).toEqual([{ amount: 0, currency: "USD" }]);
+        const orders = await app.prisma.order.findMany({
+            where: { paymentIntentId: { in: bought.map((b) => b.paymentIntentId) } },
+            include: { payout: true },
+        });
+        expect(orders.map((o) => o.payout?.stripePayoutId)).toEqual([payout.id, payout.id]);
+
+        // Sellers only see their own
+        const theirs = await app.request<PayoutsResponse>("GET", "/api/connect/payouts", { as: direct });
+        expect(theirs.body.payouts).toEqual([]);
+    });
+
+    it("links a payout to the direct charges made on the seller's account", async () => {
+        const listingId = await listProduct(app, direct, { unitAmount: 3000 });
+        const { paymentIntentId } = await buy(app, [{ listingId }]);
+
+        const payout = app.fake.payOut(direct.stripeAccountId);
+        await app.replay();
+
+        const order = await app.prisma.order.findFirstOrThrow({ where: { paymentIntentId }, include: { payout: true } });
+        expect(order.chargeModel).toBe("direct");
+        expect(order.payout).toMatchObject({ stripePayoutId: payout.id, status: "paid" });
+    });
+
+    it("ignores a payout event older than the last one applied", async () => {
+        const listingId = await listProduct(app, seller, { unitAmount: 1000 });
+        await buy(app, [{ listingId }]);
+        const payout = app.fake.payOut(seller.stripeAccountId);
+        const [created, paid] = app.fake.takeEvents() as Stripe.Event[];
+        // payout.created delivered after payout.paid
+        const late = { ...created, created: paid.created - 60 } as Stripe.Event;
+
+        for (const event of [paid, late]) {
+            const res = await app.fake.deliver(`${app.url}/api/webhooks/stripe`, event);
+            expect(res.status).toBe(200);
+        }
+
+        const row = await app.prisma.payout.findUniqueOrThrow({ where: { stripePayoutId: payout.id } });
+        expect(row.status).toBe("paid");
+    });
+
+    it("exports the payout statement as CSV", async () => {
+        const res = await app.request("GET", `/api/exports/payouts?format=csv&stripeAccountId=${seller.stripeAccountId}`, {
+            as: admin,
+        });
+
+        expect(res.status).toBe(200);
+        expect(res.headers.get("content-type")).toContain("text/csv");
+        const [header, ...rows] = res.text.trim().split("\n");
+        expect(header.split(",")).toEqual(expect.arrayContaining(["payout_id", "status", "amount", "order_count"]));
+        expect(rows).toHaveLength(2);
+        expect(rows[0]).toContain(",paid,");
+        expect(rows[0]).toContain(",36.00,");
+    });
+});
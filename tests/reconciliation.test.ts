@@ -0,0 +1,95 @@
+// Reconciliation (api/admin/reconciliation): the ledger is checked against the platform's
+// balance transactions and, for direct charges, the seller's own; backfill re-syncs what is missing.
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { buy, listProduct, onboardSeller, setupApp, type SignedIn, type TestApp } from "./harness";
+
+type Report = {
+    scanned: { balanceTransactions: number; applicationFees: number; connectedAccounts: number };
+    discrepancies: { kind: string; stripeId: string; stripeAccount: string | null; backfilled?: boolean }[];
+};
+
+describe("reconciliation", () => {
+    let app: TestApp;
+    let admin: SignedIn;
+    let direct: Awaited<ReturnType<typeof onboardSeller>>;
+    let platformListingId: string;
+    let directListingId: string;
+
+    // Everything the fake created so far
+    const window = () => ({
+        from: new Date(Date.now() - 60 * 60 * 1000).toISOString(),
+        to: new Date(Date.now() + 60 * 60 * 1000).toISOString(),
+    });
+    const reconcile = (backfill = false) =>
+        app.request<Report>("POST", "/api/admin/reconciliation", { as: admin, body: { ...window(), backfill } });
+
+    beforeAll(async () => {
+        app = await setupApp();
+        admin = await app.signIn("admin@example.com", "admin");
+        // 10% on everything in USD
+        await app.request("POST", "/api/fee-rules", {
+            as: admin,
+            body: { name: "Default", currency: "USD", percentBps: 1000 },
+        });
+        const seller = await onboardSeller(app, "seller@example.com");
+        platformListingId = await listProduct(app, seller, { unitAmount: 3000 });
+        direct = await onboardSeller(app, "direct@example.com");
+        directListingId = await listProduct(app, direct, { unitAmount: 4000 });
+        await app.request("POST", "/api/connect/set-charge-model", {
+            as: admin,
+            body: { stripeAccountId: direct.stripeAccountId, chargeModel: "direct" },
+        });
+    });
+
+    afterAll(async () => {
+        await app?.close();
+    });
+
+    it("finds nothing to report when every charge and refund was recorded", async () => {
+        await buy(app, [{ listingId: platformListingId }]);
+        const { paymentIntentId } = await buy(app, [{ listingId: directListingId }]);
+        await app.fake.client.refunds.create(
+            { payment_intent: paymentIntentId, amount: 1000 },
+            { stripeAccount: direct.stripeAccountId }
+        );
+        await app.replay();
+
+        const res = await reconcile();
+
+        expect(res.status).toBe(200);
+        expect(res.body.discrepancies).toEqual([]);
+        // The direct charge and its refund were read from the seller's account
+        expect(res.body.scanned.connectedAccounts).toBe(1);
+    });
+
+    it("reports and backfills a direct charge and refund the webhooks never recorded", async () => {
+        const { paymentIntentId, chargeId } = await buy(app, [{ listingId: directListingId }]);
+        const refund = await app.fake.client.refunds.create(
+            { payment_intent: paymentIntentId, amount: 500 },
+            { stripeAccount: direct.stripeAccountId }
+        );
+        await app.replay();
+        // As if the events had been lost
+        await app.prisma.order.deleteMany({ where: { paymentIntentId } });
+
+        const report = await reconcile();
+        expect(report.body.discrepancies).toEqual(
+            expect.arrayContaining([
+                expect.objectContaining({ kind: "missing_order", stripeId: chargeId, stripeAccount: direct.stripeAccountId }),
+            ])
+        );
+
+        const backfilled = await reconcile(true);
+        expect(backfilled.body.discrepancies.filter((d) => d.kind === "missing_order")).toMatchObject([
+            { stripeId: chargeId, backfilled: true },
+        ]);
+        const order = await app.prisma.order.findFirstOrThrow({ where: { paymentIntentId } });
+        expect(order).toMatchObject({ chargeModel: "direct", amount: 4000 });
+        expect(await app.prisma.refund.findUnique({ where: { stripeRefundId: refund.id } })).toMatchObject({
+            orderId: order.id,
+            status: "succeeded",
+        });
+
+        expect((await reconcile()).body.discrepancies).toEqual([]);
+    });
+});
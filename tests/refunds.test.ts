@@ -0,0 +1,159 @@
+// Refunds and what they move back: platform refunds (api/orders/[id]/refund), refunds made
+// outside the app (Dashboard) with DASHBOARD_REFUND_CLAWBACK off and on, separate-transfer
+// reversals, and the revenue ledger (application fee refunds, processing fees).
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { buy, listProduct, onboardSeller, setupApp, type SignedIn, type TestApp } from "./harness";
+
+describe("refunds", () => {
+    let app: TestApp;
+    let admin: SignedIn;
+    let seller: Awaited<ReturnType<typeof onboardSeller>>;
+    let listingId: string;
+
+    beforeAll(async () => {
+        app = await setupApp();
+        admin = await app.signIn("admin@example.com", "admin");
+        // 10% on everything in USD
+        await app.request("POST", "/api/fee-rules", {
+            as: admin,
+            body: { name: "Default", currency: "USD", percentBps: 1000 },
+        });
+        seller = await onboardSeller(app, "seller@example.com");
+        listingId = await listProduct(app, seller, { unitAmount: 10_000 });
+    });
+
+    afterAll(async () => {
+        await app?.close();
+    });
+
+    // A paid 10,000 order (platform fee 1,000) and its Stripe objects
+    async function paidOrder() {
+        const { paymentIntentId, chargeId } = await buy(app, [{ listingId }]);
+        const order = await app.prisma.order.findFirstOrThrow({ where: { paymentIntentId } });
+        const charge = app.fake.get(chargeId)!;
+        return {
+            order,
+            transfer: () => app.fake.get(String(charge.transfer))!,
+            fee: () => app.fake.get(String(charge.application_fee))!,
+        };
+    }
+
+    // A refund made in the Stripe Dashboard: no metadata from our refund API
+    async function dashboardRefund(paymentIntentId: string, amount: number) {
+        const refund = await app.fake.client.refunds.create({ payment_intent: paymentIntentId, amount });
+        const delivered = await app.replay();
+        expect(delivered.map((d) => d.status)).not.toContain(500);
+        return app.prisma.refund.findUniqueOrThrow({ where: { stripeRefundId: refund.id } });
+    }
+
+    it("reverses the refunded share of the transfer and fee on a platform refund", async () => {
+        const { order, transfer, fee } = await paidOrder();
+
+        const res = await app.request("POST", `/api/orders/${order.id}/refund`, {
+            as: admin,
+            body: { amount: 2500 },
+        });
+        expect(res.status).toBe(201);
+        await app.replay();
+
+        expect(transfer().amount_reversed).toBe(2500);
+        expect(fee().amount_refunded).toBe(250);
+        const refund = await app.prisma.refund.findUniqueOrThrow({ where: { stripeRefundId: String(res.body.refundId) } });
+        expect(refund).toMatchObject({ status: "succeeded", amount: 2500 });
+        expect(refund.transferReversalId).not.toBeNull();
+        expect(await app.prisma.order.findUniqueOrThrow({ where: { id: order.id } })).toMatchObject({
+            amountRefunded: 2500,
+            paymentState: "refunded_partial",
+            status: "paid",
+        });
+        // The fee refund reaches the revenue ledger
+        const entries = await app.prisma.ledgerEntry.findMany({
+            where: { orderId: order.id, type: "application_fee_refund" },
+        });
+        expect(entries.map((e) => e.amount)).toEqual([250]);
+    });
+
+    it("leaves Dashboard refunds to the platform unless clawback is on", async () => {
+        app.setEnv({ DASHBOARD_REFUND_CLAWBACK: false });
+        const { order, transfer, fee } = await paidOrder();
+
+        const refund = await dashboardRefund(order.paymentIntentId!, 4000);
+
+        expect(refund).toMatchObject({ status: "succeeded", transferReversalId: null, applicationFeeRefundId: null });
+        expect(transfer().amount_reversed).toBe(0);
+        expect(fee().amount_refunded).toBe(0);
+        expect(await app.prisma.order.findUniqueOrThrow({ where: { id: order.id } })).toMatchObject({
+            amountRefunded: 4000,
+            paymentState: "refunded_partial",
+        });
+    });
+
+    it("claws back the seller's share of a Dashboard refund when DASHBOARD_REFUND_CLAWBACK is on", async () => {
+        app.setEnv({ DASHBOARD_REFUND_CLAWBACK: true });
+        try {
+            const { order, transfer, fee } = await paidOrder();
+
+            const refund = await dashboardRefund(order.paymentIntentId!, 4000);
+
+            // Destination charges transfer the full amount: 40% of it comes back, and 40% of the fee
+            expect(transfer().amount_reversed).toBe(4000);
+            expect(fee().amount_refunded).toBe(400);
+            expect(refund.transferReversalId).not.toBeNull();
+            expect(refund.applicationFeeRefundId).not.toBeNull();
+        } finally {
+            app.setEnv({ DASHBOARD_REFUND_CLAWBACK: false });
+        }
+    });
+
+    it("reverses the refunded fraction of a separate transfer (multi-seller cart)", async () => {
+        const other = await onboardSeller(app, "seller-2@example.com");
+        const otherListingId = await listProduct(app, other, { unitAmount: 6000 });
+
+        const { paymentIntentId } = await buy(app, [{ listingId }, { listingId: otherListingId }], {
+            path: "/api/checkout/multi-seller",
+        });
+        // Transfers to each seller are created by the webhook once the payment is recorded
+        await app.replay();
+        const order = await app.prisma.order.findFirstOrThrow({
+            where: { paymentIntentId, sellerAccount: { stripeAccountId: other.stripeAccountId } },
+            include: { transfer: true },
+        });
+        expect(order).toMatchObject({ chargeModel: "separate", amount: 6000, platformFee: 600 });
+        expect(order.transfer).toMatchObject({ amount: 5400 });
+
+        const res = await app.request("POST", `/api/orders/${order.id}/refund`, {
+            as: admin,
+            body: { amount: 3000 },
+        });
+        expect(res.status).toBe(201);
+        await app.replay();
+
+        // Half the order: half of the seller's 5,400 comes back (not half of the 6,000 charged)
+        const transfer = app.fake.get(String(order.transfer!.stripeTransferId))!;
+        expect(transfer.amount_reversed).toBe(2700);
+    });
+
+    it("posts the Stripe processing fee of each platform charge to the ledger", async () => {
+        const { order } = await paidOrder();
+
+        const entries = await app.prisma.ledgerEntry.findMany({ where: { orderId: order.id, type: "processing_fee" } });
+        // The fake charges 2.9% per charge
+        expect(entries.map((e) => e.amount)).toEqual([290]);
+    });
+
+    it("reads the processing fee from Stripe when charge.succeeded has no balance transaction yet", async () => {
+        const session = await app.request<{ sessionId: string }>("POST", "/api/checkout", { body: { items: [{ listingId }] } });
+        const { charge } = app.fake.completeCheckout(session.body.sessionId);
+        for (const event of app.fake.takeEvents()) {
+            if (event.type === "charge.succeeded") {
+                (event.data.object as { balance_transaction: string | null }).balance_transaction = null;
+            }
+            const res = await app.fake.deliver(`${app.url}/api/webhooks/stripe`, event);
+            expect(res.status).toBe(200);
+        }
+
+        const entry = await app.prisma.ledgerEntry.findFirstOrThrow({ where: { chargeId: charge.id, type: "processing_fee" } });
+        expect(entry.amount).toBe(290);
+        expect(entry.sourceId).toBe(charge.balance_transaction);
+    });
+});
@@ -0,0 +1,126 @@
+// Seller reports: the sales summary (api/orders/summary) and the streamed order and refund
+// exports (api/exports/*) agree on what each refund cost the seller.
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { buy, listProduct, onboardSeller, setupApp, type SignedIn, type TestApp } from "./harness";
+
+type SummaryRow = {
+    stripeAccountId: string;
+    currency: string;
+    orderCount: number;
+    gross: number;
+    platformFees: number;
+    refunds: number;
+    sellerRefunds: number;
+    feeRefunds: number;
+    netToSeller: number;
+};
+
+// CSV text -> one object per row, keyed by header
+const parseCsv = (text: string) => {
+    const [header, ...rows] = text.trim().split("\r\n").map((line) => line.split(","));
+    return rows.map((row) => Object.fromEntries(header.map((h, i) => [h, row[i]])));
+};
+
+describe("reports", () => {
+    let app: TestApp;
+    let admin: SignedIn;
+    let seller: Awaited<ReturnType<typeof onboardSeller>>;
+    const orderIds: Record<"platform" | "dashboard" | "full", string> = { platform: "", dashboard: "", full: "" };
+
+    // A paid 50.00 order refunded by `refund`
+    async function refundedOrder(refund: (order: { id: string; paymentIntentId: string | null }) => Promise<unknown>) {
+        const listingId = await listProduct(app, seller, { unitAmount: 5000 });
+        const { paymentIntentId } = await buy(app, [{ listingId }]);
+        const order = await app.prisma.order.findFirstOrThrow({ where: { paymentIntentId } });
+        await refund(order);
+        const delivered = await app.replay();
+        expect(delivered.map((d) => d.status)).not.toContain(500);
+        return order.id;
+    }
+
+    beforeAll(async () => {
+        app = await setupApp();
+        admin = await app.signIn("admin@example.com", "admin");
+        // 10% on everything in USD
+        await app.request("POST", "/api/fee-rules", {
+            as: admin,
+            body: { name: "Default", currency: "USD", percentBps: 1000 },
+        });
+        seller = await onboardSeller(app, "seller@example.com");
+        app.setEnv({ DASHBOARD_REFUND_CLAWBACK: false });
+
+        // Half refunded by the platform: transfer reversed and fee returned
+        orderIds.platform = await refundedOrder((order) =>
+            app.request("POST", `/api/orders/${order.id}/refund`, { as: admin, body: { amount: 2500 } })
+        );
+        // Refunded in the Dashboard: the platform pays for it
+        orderIds.dashboard = await refundedOrder((order) =>
+            app.fake.client.refunds.create({ payment_intent: order.paymentIntentId!, amount: 4000 })
+        );
+        // Fully refunded from the seller, but the platform keeps its fee
+        orderIds.full = await refundedOrder((order) =>
+            app.request("POST", `/api/orders/${order.id}/refund`, {
+                as: admin,
+                body: { refundApplicationFee: false },
+            })
+        );
+    });
+
+    afterAll(async () => {
+        await app?.close();
+    });
+
+    it("summarizes what the seller actually paid for", async () => {
+        const res = await app.request<{ interval: string; rows: SummaryRow[] }>("GET", "/api/orders/summary", {
+            as: seller,
+        });
+
+        expect(res.status).toBe(200);
+        const total = (key: keyof SummaryRow) => res.body.rows.reduce((sum, r) => sum + Number(r[key]), 0);
+        expect(total("orderCount")).toBe(3);
+        expect(total("gross")).toBe(15000);
+        expect(total("platformFees")).toBe(1500);
+        expect(total("refunds")).toBe(2500 + 4000 + 5000);
+        expect(total("sellerRefunds")).toBe(2500 + 5000);
+        expect(total("feeRefunds")).toBe(250);
+        expect(total("netToSeller")).toBe(15000 - 1500 - 7500 + 250);
+    });
+
+    it("exports each order's net, negative when the seller paid back more than it kept", async () => {
+        const res = await app.request("GET", "/api/exports/orders?format=csv", { as: seller });
+
+        expect(res.status).toBe(200);
+        expect(res.headers.get("content-type")).toContain("text/csv");
+        const rows = Object.fromEntries(parseCsv(res.text).map((r) => [r.order_id, r]));
+        expect(rows[orderIds.platform]).toMatchObject({ refunded: "25.00", seller_refunded: "25.00", fee_refunded: "2.50", net: "22.50" });
+        expect(rows[orderIds.dashboard]).toMatchObject({ refunded: "40.00", seller_refunded: "0.00", net: "45.00" });
+        // Numbers are never quoted or prefixed like formulas
+        expect(rows[orderIds.full]).toMatchObject({ refunded: "50.00", fee_refunded: "0.00", net: "-5.00" });
+    });
+
+    it("exports each refund's seller share", async () => {
+        const csv = await app.request("GET", "/api/exports/refunds?format=csv", { as: seller });
+        const byOrder = Object.fromEntries(parseCsv(csv.text).map((r) => [r.order_id, r]));
+        expect(byOrder[orderIds.platform]).toMatchObject({ amount: "25.00", fee_refunded: "2.50", seller_share: "22.50" });
+        expect(byOrder[orderIds.dashboard]).toMatchObject({ amount: "40.00", seller_share: "0.00" });
+        expect(byOrder[orderIds.full]).toMatchObject({ amount: "50.00", seller_share: "50.00" });
+
+        // Same values, one JSON object per line
+        const ndjson = await app.request("GET", "/api/exports/refunds?format=ndjson", { as: seller });
+        expect(ndjson.status).toBe(200);
+        const lines = ndjson.text.trim().split("\n").map((line) => JSON.parse(line));
+        expect(lines).toHaveLength(3);
+        expect(lines.find((r) => r.order_id === orderIds.platform)).toMatchObject({ seller_share: "22.50" });
+    });
+
+    it("keeps sellers to their own rows", async () => {
+        const other = await onboardSeller(app, "other@example.com");
+
+        const own = await app.request("GET", "/api/exports/orders?format=csv", { as: other });
+        expect(parseCsv(own.text)).toEqual([]);
+        const res = await app.request("GET", `/api/exports/orders?format=csv&stripeAccountId=${seller.stripeAccountId}`, {
+            as: other,
+        });
+        expect(res.status).toBe(403);
+    });
+});
@@ -0,0 +1,115 @@
+// Event admin (api/admin/webhook-events, api/admin/outbound/*): Stripe events that failed are
+// kept for replay, and outbound deliveries that failed are logged and can be sent again.
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { startWebhookReceiver, type WebhookReceiver } from "@/testing/webhook-receiver";
+import { listProduct, onboardSeller, setupApp, type SignedIn, type TestApp } from "./harness";
+
+type Page<T> = { data: T[]; nextCursor: string | null };
+type StoredEvent = { id: string; stripeEventId: string; type: string; attempts: number; lastError: string | null };
+type Delivery = { id: string; attempts: number; lastStatusCode: number | null; deliveredAt: string | null; event: { type: string } };
+
+describe("event admin", () => {
+    let app: TestApp;
+    let admin: SignedIn;
+    let receiver: WebhookReceiver;
+    let listingId: string;
+
+    beforeAll(async () => {
+        app = await setupApp();
+        admin = await app.signIn("admin@example.com", "admin");
+        const seller = await onboardSeller(app, "seller@example.com");
+        listingId = await listProduct(app, seller, { unitAmount: 2000 });
+        // Subscribed after onboarding: only order events from here on
+        const endpoint = await app.request<{ secret: string; id: string }>("POST", "/api/admin/outbound/endpoints", {
+            as: admin,
+            body: { url: "http://127.0.0.1/placeholder", enabledEvents: ["order.paid"] },
+        });
+        receiver = await startWebhookReceiver({ secret: endpoint.body.secret });
+        await app.request("PATCH", `/api/admin/outbound/endpoints/${endpoint.body.id}`, {
+            as: admin,
+            body: { url: receiver.url },
+        });
+    });
+
+    afterAll(async () => {
+        await receiver?.close();
+        await app?.close();
+    });
+
+    it("keeps a Stripe event that failed and applies it on replay", async () => {
+        const session = await app.request<{ sessionId: string }>("POST", "/api/checkout", { body: { items: [{ listingId }] } });
+        const { charge } = app.fake.completeCheckout(session.body.sessionId);
+        const dispute = app.fake.openDispute(charge.id);
+        const events = app.fake.takeEvents();
+        const disputeEvents = events.filter((e) => e.type.startsWith("charge.dispute."));
+
+        // The chargeback arrives before the payment it disputes was recorded
+        for (const event of disputeEvents) {
+            const res = await app.fake.deliver(`${app.url}/api/webhooks/stripe`, event);
+            expect(res.status).toBe(500);
+        }
+        for (const event of events.filter((e) => !disputeEvents.includes(e))) {
+            const res = await app.fake.deliver(`${app.url}/api/webhooks/stripe`, event);
+            expect(res.status).toBe(200);
+        }
+
+        const failed = await app.request<Page<StoredEvent>>("GET", "/api/admin/webhook-events?state=unprocessed", {
+            as: admin,
+        });
+        expect(failed.status).toBe(200);
+        expect(failed.body.data.map((e) => e.stripeEventId).sort()).toEqual(disputeEvents.map((e) => e.id).sort());
+        expect(failed.body.data[0]).toMatchObject({ attempts: 1, lastError: expect.any(String) });
+
+        const replayed = await app.request("POST", "/api/admin/webhook-events/replay", {
+            as: admin,
+            body: { eventIds: disputeEvents.map((e) => e.id) },
+        });
+        expect(replayed.status).toBe(200);
+        expect(replayed.body).toMatchObject({ processed: 2, failed: 0 });
+        expect(await app.prisma.dispute.findUnique({ where: { stripeDisputeId: dispute.id } })).toMatchObject({
+            status: "needs_response",
+        });
+        const left = await app.request<Page<StoredEvent>>("GET", "/api/admin/webhook-events", { as: admin });
+        expect(left.body.data).toEqual([]);
+    });
+
+    it("logs a failed outbound delivery and sends it again on request", async () => {
+        const deliver = (body: object) =>
+            app.request<{ delivered: number; failed: number }>("POST", "/api/admin/outbound/deliver", { as: admin, body });
+        receiver.take();
+        receiver.failNext(1);
+
+        const first = await deliver({ due: true });
+        expect(first.body).toMatchObject({ delivered: 0, failed: 1 });
+
+        const pending = await app.request<Page<Delivery>>("GET", "/api/admin/outbound/deliveries?state=pending", {
+            as: admin,
+        });
+        expect(pending.body.data).toMatchObject([{ attempts: 1, lastStatusCode: 500, event: { type: "order.paid" } }]);
+        const [delivery] = pending.body.data;
+        const detail = await app.request("GET", `/api/admin/outbound/deliveries/${delivery.id}`, { as: admin });
+        expect(detail.status).toBe(200);
+        expect(detail.body).toMatchObject({ log: [{ attempt: 1, statusCode: 500 }] });
+        expect(detail.body.endpoint).not.toHaveProperty("secret");
+
+        const again = await deliver({ deliveryIds: [delivery.id] });
+        expect(again.body).toMatchObject({ delivered: 1, failed: 0 });
+        expect(receiver.take().map((r) => [r.body.type, r.status, r.verified])).toEqual([
+            ["order.paid", 500, true],
+            ["order.paid", 200, true],
+        ]);
+        const delivered = await app.request<Page<Delivery>>("GET", "/api/admin/outbound/deliveries?state=delivered", {
+            as: admin,
+        });
+        expect(delivered.body.data.map((d) => d.id)).toEqual([delivery.id]);
+    });
+
+    it("is for admins only", async () => {
+        const seller = await app.signIn("seller@example.com");
+
+        const events = await app.request("GET", "/api/admin/webhook-events", { as: seller });
+        const deliveries = await app.request("GET", "/api/admin/outbound/deliveries", { as: seller });
+
+        expect([events.status, deliveries.status]).toEqual([403, 403]);
+    });
+});
@@ -0,0 +1,28 @@
+// Integration tests (npm test): API routes against a throwaway Postgres and the Stripe fake.
+// See tests/harness.ts for how a test file gets its own database and servers.
+import path from "node:path";
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+    resolve: {
+        alias: [
+            { find: "@", replacement: path.resolve(__dirname, "src") },
+            // The app's Prisma namespace (Prisma.sql, Prisma.DbNull, error classes) must come from
+            // the client the tests run on (src/testing/database.ts), not the engine-backed one
+            { find: /^@prisma\/client$/, replacement: path.resolve(__dirname, "node_modules/.prisma/test-client") },
+        ],
+    },
+    test: {
+        include: ["tests/**/*.test.ts"],
+        globalSetup: ["tests/global-setup.ts"],
+        // One Postgres for the run; files get their own database but share the machine
+        fileParallelism: false,
+        testTimeout: 30_000,
+        hookTimeout: 120_000,
+        env: {
+            STRIPE_SECRET_KEY: "sk_test_fake",
+            STRIPE_WEBHOOK_SECRET: "whsec_test",
+            NEXT_PUBLIC_APP_URL: "http://localhost:3000",
+        },
+    },
+});